@@ -1,14 +1,14 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
 import { realDateToDemoDate, formatDateForDB } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { fetchAllRows } from '@/src/lib/paged-query';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 export interface AccountBalanceUIData {
   queryType: string;
   date: string;
@@ -80,6 +80,7 @@ function getDateRange(timePeriod?: string): { fromDate?: string; toDate?: string
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     const queryType = body.queryType || 'account_summary';
     const timePeriod = body.timePeriod;
 
@@ -90,7 +91,7 @@ export async function POST(req: NextRequest) {
       let query = supabase
         .from('AccountBalance')
         .select('Date, DebitBalance, CreditBalance')
-        .eq('AccountCode', ACCOUNT_CODE)
+        .eq('AccountCode', accountCode)
         .order('Date', { ascending: false });
 
       if (fromDate) {
@@ -100,7 +101,7 @@ export async function POST(req: NextRequest) {
         query = query.lte('Date', toDate);
       }
 
-      const { data, error } = await query;
+      const { data, error } = await fetchAllRows(query);
 
       if (error || !data || data.length === 0) {
         return NextResponse.json({ error: 'No data found' });
@@ -132,7 +133,7 @@ export async function POST(req: NextRequest) {
     const { data, error } = await supabase
       .from('AccountBalance')
       .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
+      .eq('AccountCode', accountCode)
       .order('Date', { ascending: false })
       .limit(1)
       .single();
@@ -1,13 +1,30 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, getInstrumentKey, matchLots, type TradeRecord } from '@/src/lib/lot-matching';
+import {
+  applyCorporateActions,
+  buildSymbolFilter,
+  getSymbolAliases,
+  loadCorporateActions,
+  type CorporateAdjustment,
+} from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import {
+  computeTagPnL,
+  findTradeIdsByTag,
+  loadJournalEntries,
+  normalizeTag,
+  type JournalEntry,
+  type TagPnL,
+} from '@/src/lib/journal';
+import { fetchAllRows } from '@/src/lib/paged-query';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 // Demo date system - the latest trade date in demo database represents "today"
 const DEMO_TODAY = '2025-11-20';
 
@@ -147,6 +164,10 @@ export interface AdvancedQueryFilters {
   toTime?: string;
   expiration?: string;
   strike?: number;
+  // Journal tag (e.g. "earnings-play")
+  tag?: string;
+  // Only tagged trades, with realized P&L by tag
+  groupByTag?: boolean;
   limit?: number;
   orderBy?: 'date' | 'strike' | 'premium';
   orderDir?: 'asc' | 'desc';
@@ -168,6 +189,8 @@ export interface AdvancedQueryResult {
     Strike?: string;
     Expiration?: string;
     'Call/Put'?: string;
+    // Lot-matching instrument key after corporate actions ("UNDERLYING YYYY-MM-DD STRIKE C|P" for options)
+    instrumentKey: string;
   }>;
   aggregations: {
     tradeCount: number;
@@ -187,22 +210,31 @@ export interface AdvancedQueryResult {
     putCount: number;
   };
   filters: AdvancedQueryFilters;
+  // Journal entries for the returned trades, by TradeID
+  journal: Record<number, JournalEntry>;
+  // Realized P&L by journal tag, when filtering or grouping by tag
+  tagPnL?: TagPnL[];
+  // Splits and ticker changes applied to the returned trades
+  corporateAdjustments: CorporateAdjustment[];
 }
 
 export async function POST(req: NextRequest) {
   try {
     const filters: AdvancedQueryFilters = await req.json();
+    const accountCode = resolveAccountCode(req);
     console.log('Advanced query UI request:', JSON.stringify(filters, null, 2));
 
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = filters.symbol ? getSymbolAliases(normalizeSymbol(filters.symbol), corporateActions) : [];
+
     let query = supabase
       .from('TradeData')
       .select('*')
-      .eq('AccountCode', ACCOUNT_CODE);
+      .eq('AccountCode', accountCode);
 
-    // Apply symbol filter
-    if (filters.symbol) {
-      const normalizedSymbol = normalizeSymbol(filters.symbol);
-      query = query.or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`);
+    // Apply symbol filter (including former tickers)
+    if (symbolAliases.length > 0) {
+      query = query.or(buildSymbolFilter(symbolAliases));
     }
 
     // Apply security type filter
@@ -260,25 +292,39 @@ export async function POST(req: NextRequest) {
       query = query.eq('Strike', filters.strike);
     }
 
+    // Journal tag filter, applied to the loaded trades so a long tag list never goes into the URL
+    const tag = filters.tag ? normalizeTag(filters.tag) : undefined;
+    let taggedIds: Set<number> | undefined;
+    if (tag) {
+      taggedIds = new Set(await findTradeIdsByTag(supabase, accountCode, tag));
+    } else if (filters.groupByTag) {
+      const entries = await loadJournalEntries(supabase, accountCode);
+      taggedIds = new Set(Object.values(entries).filter(entry => entry.tags.length > 0).map(entry => entry.tradeId));
+    }
+
     // Apply ordering
     const orderColumn = filters.orderBy === 'strike' ? 'Strike' :
                         filters.orderBy === 'premium' ? 'OptionTradePremium' : 'Date';
     const ascending = filters.orderDir === 'asc';
-    query = query.order(orderColumn, { ascending });
-
-    // Apply limit
-    if (filters.limit) {
-      query = query.limit(filters.limit);
+    // TradeID breaks ties so pages neither overlap nor skip trades
+    query = query.order(orderColumn, { ascending }).order('TradeID', { ascending });
+
+    // Apply limit, otherwise load every matching trade page by page (the limit waits for the tag filter)
+    const { data: loaded, error } = filters.limit && !taggedIds
+      ? await query.limit(filters.limit)
+      : await fetchAllRows(query);
+    let data = taggedIds ? (loaded || []).filter(t => taggedIds.has(Number(t.TradeID))) : loaded;
+    if (taggedIds && filters.limit) {
+      data = data!.slice(0, filters.limit);
     }
 
-    const { data, error } = await query;
-
     if (error) {
       console.error('Supabase error:', error);
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    const trades = data || [];
+    // Restate quantities and prices for splits and ticker changes
+    const { rows: trades, adjustments: corporateAdjustments } = applyCorporateActions(data || [], corporateActions);
 
     // Calculate aggregations with correct option math
     // For options: 1 contract = 100 shares, premium is per-share price
@@ -342,12 +388,43 @@ export async function POST(req: NextRequest) {
     const fromDateParsed = filters.fromDate ? parseRelativeDate(filters.fromDate) : null;
     const toDateParsed = filters.toDate ? parseRelativeDate(filters.toDate) : null;
 
+    const journal = await loadJournalEntries(supabase, accountCode, trades.map(t => t.TradeID));
+
+    // P&L by tag needs every trade of the account, so lots opened and closed by different trades still match
+    let tagPnL: TagPnL[] | undefined;
+    if (tag || filters.groupByTag) {
+      const [{ data: allTrades, error: allTradesError }, allEntries, settings] = await Promise.all([
+        fetchAllRows(
+          supabase
+            .from('TradeData')
+            .select(TRADE_RECORD_COLUMNS)
+            .eq('AccountCode', accountCode)
+            .order('Date', { ascending: true })
+            .order('TradeID', { ascending: true })
+        ),
+        loadJournalEntries(supabase, accountCode),
+        loadCostBasisSettings(supabase, accountCode),
+      ]);
+      if (allTradesError) {
+        throw new Error(allTradesError.message);
+      }
+      const { closedLots } = matchLots(
+        applyCorporateActions((allTrades || []) as TradeRecord[], corporateActions).rows,
+        settings
+      );
+      tagPnL = computeTagPnL(closedLots, allEntries);
+    }
+
     const result: AdvancedQueryResult = {
-      trades,
+      trades: trades.map(t => ({ ...t, instrumentKey: getInstrumentKey(t as TradeRecord) })),
       aggregations,
+      journal,
+      tagPnL,
+      corporateAdjustments,
       filters: {
         ...filters,
-        symbol: filters.symbol ? normalizeSymbol(filters.symbol) : undefined,
+        tag,
+        symbol: symbolAliases[0],
         // Return resolved dates for display
         fromDate: fromDateParsed?.start || filters.fromDate,
         toDate: toDateParsed?.end || fromDateParsed?.end || filters.toDate,
@@ -0,0 +1,69 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import { CsvMarketDataProvider, createMarketDataProvider } from '@/src/lib/market-data';
+import {
+  createAlertRule,
+  loadAlertRules,
+  normalizeAlertRule,
+  parseAlertRequest,
+  runAlertJob,
+  validateAlertRule,
+  type AlertRuleInput,
+} from '@/src/lib/alerts';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// Creates an alert rule (from `rule`, or parsed from `query`) and returns it with
+// what it matches right now, for the AlertRuleCard. Without either, lists the rules.
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+    const { rule: requested, query, symbol } = body as {
+      rule?: AlertRuleInput;
+      query?: string;
+      symbol?: string;
+    };
+
+    const input = requested?.type ? requested : query ? parseAlertRequest(query, symbol) : null;
+    if (!input) {
+      if (requested || query) {
+        return NextResponse.json({ error: 'Could not tell what to alert on' }, { status: 400 });
+      }
+      return NextResponse.json({ rule: null, created: false, matches: [], rules: await loadAlertRules(supabase, accountCode) });
+    }
+
+    const normalized = normalizeAlertRule(input);
+    const invalid = validateAlertRule(normalized);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const { rule, created } = await createAlertRule(supabase, accountCode, normalized);
+
+    // Price files are served by this app from public/market-data
+    const marketData = createMarketDataProvider(
+      supabase,
+      new CsvMarketDataProvider({ baseUrl: `${req.nextUrl.origin}/market-data` })
+    );
+    const { asOf, rules, triggers } = await runAlertJob(supabase, accountCode, marketData);
+
+    return NextResponse.json({
+      rule,
+      created,
+      asOf,
+      matches: triggers.filter(trigger => trigger.ruleId === rule.id),
+      rules,
+    });
+  } catch (error) {
+    console.error('Alert API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import { deleteAlertRule, setAlertRuleEnabled } from '@/src/lib/alerts';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// PATCH /api/alerts/[id] - Pause or resume a rule
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+    const { enabled } = body as { enabled?: boolean };
+
+    if (typeof enabled !== 'boolean') {
+      return NextResponse.json({ error: 'enabled must be true or false' }, { status: 400 });
+    }
+
+    const rule = await setAlertRuleEnabled(supabase, accountCode, id, enabled);
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/alerts/[id] - Delete a rule and its notifications
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const accountCode = resolveAccountCode(req);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+
+    await deleteAlertRule(supabase, accountCode, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,123 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import { CsvMarketDataProvider, createMarketDataProvider } from '@/src/lib/market-data';
+import { refreshMarginAlerts } from '@/src/lib/margin';
+import { fetchAllRows } from '@/src/lib/paged-query';
+import {
+  evaluateAlertRules,
+  loadAlertData,
+  loadAlertRules,
+  runAlertJob,
+  type AlertJobResult,
+} from '@/src/lib/alerts';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// Price files are served by this app from public/market-data
+function getMarketData(req: NextRequest) {
+  return createMarketDataProvider(
+    supabase,
+    new CsvMarketDataProvider({ baseUrl: `${req.nextUrl.origin}/market-data` })
+  );
+}
+
+// Runs across every account only for the scheduler: Vercel cron sends Authorization: Bearer $CRON_SECRET.
+// Without CRON_SECRET set, nothing is allowed to run the job for all accounts.
+function isCronRequest(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && req.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+// Run the job for every account that has an enabled rule, and record margin alerts for every account
+async function runForAllAccounts(req: NextRequest) {
+  const { data, error } = await fetchAllRows(
+    supabase
+      .from('AlertRules')
+      .select('AccountCode')
+      .eq('Enabled', true)
+      .order('AccountCode', { ascending: true })
+      .order('id', { ascending: true })
+  );
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const marketData = getMarketData(req);
+  const accountCodes = Array.from(new Set((data || []).map(row => row.AccountCode as string)));
+  const results: Array<AlertJobResult & { accountCode: string }> = [];
+  for (const accountCode of accountCodes) {
+    results.push({ accountCode, ...(await runAlertJob(supabase, accountCode, marketData)) });
+  }
+
+  // Margin alerts need no rule: each new balance snapshot is evaluated at the default thresholds
+  const accounts = await fetchAllRows(
+    supabase.from('AccountInfo').select('AccountCode').order('AccountCode', { ascending: true })
+  );
+  if (accounts.error) {
+    throw new Error(accounts.error.message);
+  }
+  let marginAlerts = 0;
+  for (const { AccountCode } of (accounts.data || []) as Array<{ AccountCode: string }>) {
+    marginAlerts += (await refreshMarginAlerts(supabase, AccountCode)).report.active.length;
+  }
+
+  return NextResponse.json({
+    accounts: results.length,
+    recorded: results.reduce((sum, result) => sum + result.recorded, 0),
+    marginAccounts: accounts.data?.length ?? 0,
+    activeMarginAlerts: marginAlerts,
+    results,
+  });
+}
+
+// GET /api/alerts/evaluate - What the account's rules would fire now (nothing is recorded).
+// GET /api/alerts/evaluate?all=true - The scheduled run for every account (cron secret required).
+export async function GET(req: NextRequest) {
+  try {
+    if (req.nextUrl.searchParams.get('all') === 'true') {
+      if (!isCronRequest(req)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      return await runForAllAccounts(req);
+    }
+
+    const accountCode = resolveAccountCode(req);
+    const rules = (await loadAlertRules(supabase, accountCode)).filter(rule => rule.enabled);
+    const data = await loadAlertData(supabase, accountCode, rules, getMarketData(req));
+
+    return NextResponse.json({ accountCode, asOf: data.asOf, rules, triggers: evaluateAlertRules(rules, data) });
+  } catch (error) {
+    console.error('Alert evaluation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/alerts/evaluate - Run the alerts job and record new notifications.
+// With { all: true } it runs for every account that has an enabled rule (cron secret required).
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+
+    if (body.all === true) {
+      if (!isCronRequest(req)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+      return await runForAllAccounts(req);
+    }
+
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+    const result = await runAlertJob(supabase, accountCode, getMarketData(req));
+
+    return NextResponse.json({ accountCode, ...result });
+  } catch (error) {
+    console.error('Alert evaluation error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
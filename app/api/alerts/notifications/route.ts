@@ -0,0 +1,50 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import { loadAlertNotifications, markAlertNotificationsRead } from '@/src/lib/alerts';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// GET /api/alerts/notifications?unread=true&limit=20 - The notification inbox, newest first
+export async function GET(req: NextRequest) {
+  try {
+    const accountCode = resolveAccountCode(req);
+    const { searchParams } = new URL(req.url);
+    const limit = Number(searchParams.get('limit'));
+
+    const notifications = await loadAlertNotifications(supabase, accountCode, {
+      unreadOnly: searchParams.get('unread') === 'true',
+      limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+    });
+
+    return NextResponse.json({
+      notifications,
+      unread: notifications.filter(n => !n.read).length,
+    });
+  } catch (error) {
+    console.error('Error fetching alert notifications:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/alerts/notifications - Mark notifications read (`ids`, or every unread one)
+export async function PATCH(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+    const { ids } = body as { ids?: string[] };
+
+    await markAlertNotificationsRead(supabase, accountCode, Array.isArray(ids) ? ids : undefined);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating alert notifications:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import {
+  createAlertRule,
+  loadAlertRules,
+  normalizeAlertRule,
+  parseAlertRequest,
+  validateAlertRule,
+  type AlertRuleInput,
+} from '@/src/lib/alerts';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// GET /api/alerts - List the account's alert rules, newest first
+export async function GET(req: NextRequest) {
+  try {
+    const accountCode = resolveAccountCode(req);
+    const rules = await loadAlertRules(supabase, accountCode);
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Error fetching alert rules:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/alerts - Create an alert rule from its fields, or from `query` ("alert me when...")
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+    const { query, symbol } = body as { query?: string; symbol?: string };
+
+    const input = body.type ? (body as AlertRuleInput) : query ? parseAlertRequest(query, symbol) : null;
+    if (!input) {
+      return NextResponse.json({ error: 'type or a recognizable query is required' }, { status: 400 });
+    }
+
+    const rule = normalizeAlertRule(input);
+    const invalid = validateAlertRule(rule);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const result = await createAlertRule(supabase, accountCode, rule);
+
+    return NextResponse.json(result, { status: result.created ? 201 : 200 });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
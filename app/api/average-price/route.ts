@@ -2,14 +2,17 @@ import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
 import { getDateOffset } from '@/src/lib/date-utils';
 import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { matchLots, TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { COST_BASIS_LABELS, loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { fetchAllRows } from '@/src/lib/paged-query';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 const SYMBOL_MAP: Record<string, string> = {
   'apple': 'AAPL',
   'google': 'GOOGL',
@@ -38,13 +41,16 @@ function normalizeSymbol(input: string): string {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     const { symbol, tradeType, timePeriod } = body;
 
     if (!symbol) {
       return NextResponse.json({ error: 'Symbol required' }, { status: 400 });
     }
 
-    const normalizedSymbol = normalizeSymbol(symbol);
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+    const normalizedSymbol = symbolAliases[0];
 
     // Get the date offset to map user's year to demo database year
     const offset = getDateOffset();
@@ -77,9 +83,9 @@ export async function POST(req: NextRequest) {
     let query = supabase
       .from('TradeData')
       .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
+      .eq('AccountCode', accountCode)
       .eq('SecurityType', 'S')
-      .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
+      .or(buildSymbolFilter(symbolAliases))
       .gte('Date', dateStart)
       .lte('Date', dateEnd);
 
@@ -89,14 +95,17 @@ export async function POST(req: NextRequest) {
       query = query.eq('TradeType', normalizedType);
     }
 
-    const { data, error } = await query.order('Date', { ascending: false });
+    const { data: rows, error } = await query.order('Date', { ascending: false });
 
     if (error) {
       console.error('Average price API error:', error);
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    if (!data || data.length === 0) {
+    // Prices and share counts restated for splits, so pre-split fills average correctly
+    const { rows: data, adjustments: corporateAdjustments } = applyCorporateActions(rows || [], corporateActions);
+
+    if (data.length === 0) {
       return NextResponse.json({
         averagePrice: null,
         symbol: normalizedSymbol,
@@ -133,8 +142,35 @@ export async function POST(req: NextRequest) {
       else if (sellCount > 0 && buyCount === 0) actualTradeType = 'sell';
     }
 
+    // Cost basis of the shares still held, under the account's method.
+    // Lots depend on the full trade history, not just the requested period.
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+    const { data: history, error: historyError } = await fetchAllRows(
+      supabase
+        .from('TradeData')
+        .select(TRADE_RECORD_COLUMNS)
+        .eq('AccountCode', accountCode)
+        .eq('SecurityType', 'S')
+        .or(buildSymbolFilter(symbolAliases))
+        .order('Date', { ascending: true })
+        .order('TradeID', { ascending: true })
+    );
+
+    if (historyError) {
+      console.error('Average price cost basis error:', historyError);
+    }
+
+    const { openLots, closedLots } = matchLots(
+      applyCorporateActions((history || []) as TradeRecord[], corporateActions).rows,
+      settings
+    );
+    const longLots = openLots.filter(lot => lot.side === 'long');
+    const openShares = longLots.reduce((sum, lot) => sum + lot.quantity, 0);
+    const openCost = longLots.reduce((sum, lot) => sum + lot.price * lot.quantity + lot.fees, 0);
+
     return NextResponse.json({
       symbol: normalizedSymbol,
+      corporateAdjustments,
       averagePrice: avgPrice,
       highestPrice,
       lowestPrice,
@@ -142,6 +178,10 @@ export async function POST(req: NextRequest) {
       totalShares,
       timePeriod: timePeriodDescription,
       tradeType: actualTradeType,
+      costBasisMethod: COST_BASIS_LABELS[settings.method],
+      costBasisPerShare: openShares > 0 ? openCost / openShares : null,
+      openShares,
+      realizedPnL: closedLots.reduce((sum, lot) => sum + lot.profitLoss, 0),
     });
   } catch (error) {
     console.error('Average price API error:', error);
@@ -0,0 +1,132 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatCalendarDate } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { DIVIDEND_RECORD_COLUMNS, type DividendRecord } from '@/src/lib/dividends';
+import {
+  BALANCE_RECORD_COLUMNS,
+  FEE_RECORD_COLUMNS,
+  inferExternalCashFlows,
+  type BalanceRecord,
+  type FeeRecord,
+} from '@/src/lib/performance';
+import {
+  BENCHMARK_DATA_TYPE,
+  BENCHMARK_PRICE_COLUMNS,
+  BENCHMARK_TIMEFRAME,
+  DEFAULT_BENCHMARK,
+  compareToBenchmark,
+  toBenchmarkPrices,
+  type BenchmarkPriceRecord,
+} from '@/src/lib/benchmark';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// Returns account returns against a benchmark's stored daily closes for UI rendering
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    const { symbol: requestedSymbol, timePeriod } = body as { symbol?: string; timePeriod?: string };
+    const symbol = (requestedSymbol || DEFAULT_BENCHMARK).toUpperCase();
+
+    // Cash flows are inferred over the whole history; the period only limits the comparison
+    const [balances, trades, fees, dividends, prices] = await Promise.all([
+      fetchAllRows(supabase.from('AccountBalance').select(BALANCE_RECORD_COLUMNS).eq('AccountCode', accountCode).order('Date', { ascending: true })),
+      fetchAllRows(
+        supabase
+          .from('TradeData')
+          .select(TRADE_RECORD_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('Date', { ascending: true })
+          .order('TradeID', { ascending: true })
+      ),
+      fetchAllRows(
+        supabase
+          .from('FeesAndInterest')
+          .select(FEE_RECORD_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('Date', { ascending: true })
+          .order('id', { ascending: true })
+      ),
+      fetchAllRows(
+        supabase
+          .from('Dividends')
+          .select(DIVIDEND_RECORD_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('PayDate', { ascending: true })
+          .order('id', { ascending: true })
+      ),
+      fetchAllRows(
+        supabase
+          .from('market_data_cache')
+          .select(BENCHMARK_PRICE_COLUMNS)
+          .eq('symbol', symbol)
+          .eq('data_type', BENCHMARK_DATA_TYPE)
+          .eq('timeframe', BENCHMARK_TIMEFRAME)
+          .order('timestamp', { ascending: true })
+      ),
+    ]);
+
+    const error = balances.error || trades.error || fees.error || dividends.error || prices.error;
+    if (error) {
+      console.error('Benchmark API error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const balanceRows = (balances.data || []) as BalanceRecord[];
+    const flows = inferExternalCashFlows(balanceRows, {
+      trades: (trades.data || []) as TradeRecord[],
+      fees: (fees.data || []) as FeeRecord[],
+      dividends: (dividends.data || []) as DividendRecord[],
+    });
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const report = compareToBenchmark(
+      balanceRows,
+      flows,
+      toBenchmarkPrices((prices.data || []) as BenchmarkPriceRecord[]),
+      symbol,
+      {
+        startDate: parsedTime?.dateRange.startDate,
+        endDate: parsedTime?.dateRange.endDate,
+      }
+    );
+
+    const description = parsedTime?.dateRange.description || timePeriod || 'All time';
+
+    // No stored prices for the symbol, or no balances in the period
+    if (!report) {
+      return NextResponse.json({
+        symbol,
+        timePeriod: description,
+        tradingDays: 0,
+        portfolioReturn: 0,
+        benchmarkReturn: 0,
+        excessReturn: 0,
+        beta: null,
+        alpha: null,
+        correlation: null,
+        riskFreeRate: 0,
+        series: [],
+      });
+    }
+
+    return NextResponse.json({
+      ...report,
+      timePeriod: description,
+      startDate: formatCalendarDate(report.startDate),
+      endDate: formatCalendarDate(report.endDate),
+      series: report.series.map(point => ({ ...point, label: formatCalendarDate(point.date) })),
+    });
+  } catch (error) {
+    console.error('Benchmark API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -2,6 +2,13 @@ import { createAzure } from '@ai-sdk/azure';
 import { streamText, convertToModelMessages } from 'ai';
 import { z } from 'zod';
 import { createClient } from '@supabase/supabase-js';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import type { TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { computePnL } from '@/src/lib/pnl';
+import { getDemoToday } from '@/src/lib/date-utils';
+import { fetchAllRows } from '@/src/lib/paged-query';
 
 // Initialize Azure OpenAI using the official @ai-sdk/azure provider
 // Using resourceName to construct proper Azure endpoint
@@ -18,8 +25,6 @@ const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 // Symbol mapping for common company names
 const SYMBOL_MAP: Record<string, string> = {
   'apple': 'AAPL',
@@ -46,11 +51,21 @@ function normalizeSymbol(input: string): string {
 }
 
 export async function POST(req: Request) {
-  const { messages } = await req.json();
+  const body = await req.json();
+  const { messages } = body;
+  const accountCode = resolveAccountCode(req, body);
+
+  // Look up the account holder so the system prompt addresses the right person
+  const { data: accountInfo } = await supabase
+    .from('AccountInfo')
+    .select('AccountName, AcctHolderName')
+    .eq('AccountCode', accountCode)
+    .maybeSingle();
+  const holderName = accountInfo?.AcctHolderName || accountInfo?.AccountName || 'the account holder';
 
   const result = streamText({
     model: azure('gpt-5'),
-    system: `You are a PhD quantitative analyst who is an expert on stocks, options, warrants, and other securities. You work in the back office of a Wall Street brokerage firm and are assisting account holder "Aida Guru" (Account: C40421).
+    system: `You are a PhD quantitative analyst who is an expert on stocks, options, warrants, and other securities. You work in the back office of a Wall Street brokerage firm and are assisting account holder "${holderName}" (Account: ${accountCode}).
 
 When users ask about trades for a company:
 1. Convert company name to ticker symbol (Apple -> AAPL, Google -> GOOGL, etc.)
@@ -70,13 +85,19 @@ Be professional, precise, and knowledgeable about financial instruments. Always
           symbol: z.string().describe('Stock ticker symbol (e.g., AAPL, GOOGL, NVDA)'),
         }),
         execute: async ({ symbol }: { symbol: string }) => {
-          const normalizedSymbol = normalizeSymbol(symbol);
-
-          const { data, error } = await supabase
-            .from('TradeData')
-            .select('SecurityType, TradeType')
-            .eq('AccountCode', ACCOUNT_CODE)
-            .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`);
+          const corporateActions = await loadCorporateActions(supabase);
+          const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+          const normalizedSymbol = symbolAliases[0];
+
+          const { data, error } = await fetchAllRows(
+            supabase
+              .from('TradeData')
+              .select('SecurityType, TradeType')
+              .eq('AccountCode', accountCode)
+              .or(buildSymbolFilter(symbolAliases))
+              .order('Date', { ascending: true })
+              .order('TradeID', { ascending: true })
+          );
 
           if (error) {
             return { error: error.message, symbol: normalizedSymbol };
@@ -97,39 +118,43 @@ Be professional, precise, and knowledgeable about financial instruments. Always
       },
 
       getDetailedTrades: {
-        description: 'Get detailed trade information for a symbol including all trades and calculated totals for shares purchased, total cost, and estimated current value',
+        description: 'Get detailed trade information for a symbol including all trades, shares held, open cost basis, current value and realized/unrealized P&L',
         inputSchema: z.object({
           symbol: z.string().describe('Stock ticker symbol'),
         }),
         execute: async ({ symbol }: { symbol: string }) => {
-          const normalizedSymbol = normalizeSymbol(symbol);
-
-          const { data, error } = await supabase
-            .from('TradeData')
-            .select('*')
-            .eq('AccountCode', ACCOUNT_CODE)
-            .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
-            .order('Date', { ascending: false });
+          const corporateActions = await loadCorporateActions(supabase);
+          const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+          const normalizedSymbol = symbolAliases[0];
+
+          const { data: rows, error } = await fetchAllRows(
+            supabase
+              .from('TradeData')
+              .select('*')
+              .eq('AccountCode', accountCode)
+              .or(buildSymbolFilter(symbolAliases))
+              .order('Date', { ascending: false })
+              .order('TradeID', { ascending: true })
+          );
 
           if (error) {
             return { error: error.message, symbol: normalizedSymbol };
           }
 
-          // Calculate totals for stock trades
+          // Shares and prices restated for splits, former tickers renamed
+          const { rows: data } = applyCorporateActions(rows || [], corporateActions);
+
           const stockTrades = data?.filter(t => t.SecurityType === 'S') || [];
           const optionTrades = data?.filter(t => t.SecurityType === 'O') || [];
-          const buyTrades = stockTrades.filter(t => t.TradeType === 'B');
 
-          const totalSharesPurchased = buyTrades.reduce((sum, t) =>
-            sum + parseFloat(t.StockShareQty || '0'), 0);
-          const totalCost = buyTrades.reduce((sum, t) =>
-            sum + Math.abs(parseFloat(t.NetAmount || '0')), 0);
+          // Sells close lots; what remains open is marked to the latest fill price
+          const settings = await loadCostBasisSettings(supabase, accountCode);
+          const pnl = computePnL((data || []) as TradeRecord[], { ...settings, asOf: getDemoToday() });
+          const position = pnl.bySymbol.find(s => s.symbol === normalizedSymbol);
 
-          // Estimate current value using last trade price
           const lastPrice = stockTrades[0]?.StockTradePrice
             ? parseFloat(stockTrades[0].StockTradePrice)
             : 0;
-          const currentValue = totalSharesPurchased * lastPrice;
 
           // Format trades for display
           const formattedStockTrades = stockTrades.map(t => ({
@@ -156,12 +181,14 @@ Be professional, precise, and knowledgeable about financial instruments. Always
           return {
             symbol: normalizedSymbol,
             summary: {
-              totalSharesPurchased,
-              totalCost,
-              currentValue,
+              sharesHeld: position?.openShares ?? 0,
+              totalCost: pnl.costBasis,
+              currentValue: pnl.marketValue,
               lastTradePrice: lastPrice,
-              profitLoss: currentValue - totalCost,
-              profitLossPercent: totalCost > 0 ? ((currentValue - totalCost) / totalCost) * 100 : 0,
+              realizedPnL: pnl.realizedPnL,
+              unrealizedPnL: pnl.unrealizedPnL,
+              profitLoss: pnl.totalPnL,
+              profitLossPercent: pnl.costBasis > 0 ? (pnl.unrealizedPnL / pnl.costBasis) * 100 : 0,
             },
             stockTrades: formattedStockTrades,
             optionTrades: formattedOptionTrades,
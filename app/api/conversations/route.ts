@@ -1,20 +1,20 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 // GET /api/conversations - List all conversations
-export async function GET() {
+export async function GET(req: NextRequest) {
   try {
+    const accountCode = resolveAccountCode(req);
     const { data, error } = await supabase
       .from('conversations')
       .select('*')
-      .eq('account_code', ACCOUNT_CODE)
+      .eq('account_code', accountCode)
       .order('updated_at', { ascending: false });
 
     if (error) {
@@ -33,11 +33,15 @@ export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
     const { title, metadata } = body;
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
 
     const { data, error } = await supabase
       .from('conversations')
       .insert({
-        account_code: ACCOUNT_CODE,
+        account_code: accountCode,
         title: title || 'New Conversation',
         metadata: metadata || {},
       })
@@ -0,0 +1,108 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import {
+  loadCostBasisSettings,
+  parseCostBasisMethod,
+  compareCostBasisMethods,
+  COST_BASIS_LABELS,
+  COST_BASIS_METHODS,
+} from '@/src/lib/cost-basis';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+  'bank of america': 'BAC',
+  'citigroup': 'C',
+  'gamestop': 'GME',
+  'lucid': 'LCID',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+// Compares realized and open cost basis under each cost-basis method ("what would my gain be under HIFO?")
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    const { symbol, timePeriod } = body;
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    let query = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    if (normalizedSymbol) {
+      query = query.or(buildSymbolFilter(symbolAliases));
+    }
+
+    const { data: trades, error } = await fetchAllRows(query);
+
+    if (error) {
+      console.error('Cost basis API error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { rows: adjustedTrades, adjustments: corporateAdjustments } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+    const requestedMethod = parseCostBasisMethod(body.method) ?? settings.method;
+
+    // Realized P&L is limited to lots closed in the period; lots are always matched on full history
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const startDate = parsedTime?.dateRange.startDate;
+    const endDate = parsedTime?.dateRange.endDate;
+
+    // Specific-lot only differs from FIFO when the account has elections
+    const methods = COST_BASIS_METHODS.filter(m =>
+      m !== 'specific' || Object.keys(settings.lotSelections).length > 0 || requestedMethod === 'specific'
+    );
+
+    const results = compareCostBasisMethods(adjustedTrades, settings, methods, startDate, endDate);
+    const accountResult = results.find(r => r.method === settings.method);
+    const requestedResult = results.find(r => r.method === requestedMethod);
+
+    return NextResponse.json({
+      symbol: normalizedSymbol,
+      corporateAdjustments,
+      timePeriod: parsedTime?.dateRange.description || timePeriod || 'All time',
+      accountMethod: settings.method,
+      accountMethodLabel: COST_BASIS_LABELS[settings.method],
+      requestedMethod,
+      requestedMethodLabel: COST_BASIS_LABELS[requestedMethod],
+      difference: (requestedResult?.realizedPnL ?? 0) - (accountResult?.realizedPnL ?? 0),
+      results,
+    });
+  } catch (error) {
+    console.error('Cost basis API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,128 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { demoDateToRealDate, formatCalendarDate } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import {
+  applyCorporateActions,
+  applyCorporateActionsToDividends,
+  getSymbolAliases,
+  loadCorporateActions,
+  mergeAdjustments,
+} from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { summarizeDividends, DIVIDEND_RECORD_COLUMNS, type DividendRecord } from '@/src/lib/dividends';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+  'bank of america': 'BAC',
+  'citigroup': 'C',
+  'gamestop': 'GME',
+  'lucid': 'LCID',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+// Convert a database month (YYYY-MM) to the display month (e.g. "Oct 2025")
+function formatMonth(month: string): string {
+  return demoDateToRealDate(`${month}-15`).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+// Returns dividends received by symbol and month, with yield on cost, for UI rendering
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    const { symbol, timePeriod } = body;
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    let dividendQuery = supabase
+      .from('Dividends')
+      .select(DIVIDEND_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('PayDate', { ascending: true })
+      .order('id', { ascending: true });
+
+    // Stock trades build the open positions that yield on cost is measured against
+    let tradeQuery = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .eq('SecurityType', 'S')
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    if (normalizedSymbol) {
+      dividendQuery = dividendQuery.in('Symbol', symbolAliases);
+      tradeQuery = tradeQuery.in('Symbol', symbolAliases);
+    }
+
+    const [{ data: dividends, error: dividendError }, { data: trades, error: tradeError }] =
+      await Promise.all([fetchAllRows(dividendQuery), fetchAllRows(tradeQuery)]);
+
+    if (dividendError || tradeError) {
+      const message = (dividendError || tradeError)?.message;
+      console.error('Dividends API error:', message);
+      return NextResponse.json({ error: message }, { status: 500 });
+    }
+
+    // Split-adjust both sides so per-share amounts line up with held shares
+    const adjustedDividends = applyCorporateActionsToDividends((dividends || []) as DividendRecord[], corporateActions);
+    const adjustedTrades = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+
+    const report = summarizeDividends(
+      adjustedDividends.rows,
+      adjustedTrades.rows,
+      {
+        ...settings,
+        startDate: parsedTime?.dateRange.startDate,
+        endDate: parsedTime?.dateRange.endDate,
+      }
+    );
+
+    return NextResponse.json({
+      symbol: normalizedSymbol,
+      corporateAdjustments: mergeAdjustments(adjustedTrades.adjustments, adjustedDividends.adjustments),
+      timePeriod: parsedTime?.dateRange.description || timePeriod || 'All time',
+      ...report,
+      bySymbol: report.bySymbol.map(s => ({
+        ...s,
+        lastPayDate: s.lastPayDate ? formatCalendarDate(s.lastPayDate) : null,
+      })),
+      byMonth: report.byMonth.map(m => ({ ...m, label: formatMonth(m.month) })),
+    });
+  } catch (error) {
+    console.error('Dividends API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
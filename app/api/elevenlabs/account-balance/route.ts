@@ -1,14 +1,14 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
 import { formatCalendarDate } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { fetchAllRows } from '@/src/lib/paged-query';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 interface AccountBalanceRow {
   Date: string;
   CashBalance: number;
@@ -77,6 +77,7 @@ function getDateRange(timePeriod?: string): { fromDate?: Date; toDate?: Date } {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     console.log('Account balance request body:', JSON.stringify(body, null, 2));
 
     // Extract parameters from various possible locations
@@ -93,7 +94,7 @@ export async function POST(req: NextRequest) {
       let query = supabase
         .from('AccountBalance')
         .select('Date, DebitBalance, CreditBalance')
-        .eq('AccountCode', ACCOUNT_CODE)
+        .eq('AccountCode', accountCode)
         .order('Date', { ascending: false });
 
       if (fromDate) {
@@ -103,7 +104,7 @@ export async function POST(req: NextRequest) {
         query = query.lte('Date', toDate.toISOString().split('T')[0]);
       }
 
-      const { data, error } = await query;
+      const { data, error } = await fetchAllRows(query);
 
       if (error) {
         return NextResponse.json({
@@ -137,7 +138,7 @@ export async function POST(req: NextRequest) {
     const { data, error } = await supabase
       .from('AccountBalance')
       .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
+      .eq('AccountCode', accountCode)
       .order('Date', { ascending: false })
       .limit(1)
       .single();
@@ -1,14 +1,15 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
 import { formatCalendarDate } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { fetchAllRows } from '@/src/lib/paged-query';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 // Demo date system - the latest trade date in demo database represents "today"
 const DEMO_TODAY = '2025-11-20';
 
@@ -151,6 +152,7 @@ function extractParam(body: Record<string, unknown>, key: string): unknown {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     console.log('Advanced query request body:', JSON.stringify(body, null, 2));
 
     // Extract all parameters
@@ -166,16 +168,18 @@ export async function POST(req: NextRequest) {
     const limit = extractParam(body, 'limit') as number | undefined;
     const orderBy = extractParam(body, 'order_by') as string | undefined;
 
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+
     // Build the query
     let query = supabase
       .from('TradeData')
       .select('*')
-      .eq('AccountCode', ACCOUNT_CODE);
+      .eq('AccountCode', accountCode);
 
-    // Apply symbol filter
-    if (symbol) {
-      const normalizedSymbol = normalizeSymbol(symbol);
-      query = query.or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`);
+    // Apply symbol filter (including former tickers)
+    if (symbolAliases.length > 0) {
+      query = query.or(buildSymbolFilter(symbolAliases));
     }
 
     // Apply security type filter (stock/option)
@@ -251,9 +255,9 @@ export async function POST(req: NextRequest) {
 
     // Determine ordering based on aggregation type
     if (aggregation === 'highest_strike') {
-      query = query.order('Strike', { ascending: false }).limit(1);
+      query = query.order('Strike', { ascending: false });
     } else if (aggregation === 'lowest_strike') {
-      query = query.order('Strike', { ascending: true }).limit(1);
+      query = query.order('Strike', { ascending: true });
     } else if (orderBy === 'strike') {
       query = query.order('Strike', { ascending: false });
     } else if (orderBy === 'premium') {
@@ -261,13 +265,12 @@ export async function POST(req: NextRequest) {
     } else {
       query = query.order('Date', { ascending: false });
     }
+    // TradeID breaks ties so pages neither overlap nor skip trades
+    query = query.order('TradeID', { ascending: false });
 
-    // Apply limit if specified and not overridden by aggregation
-    if (limit && aggregation !== 'highest_strike' && aggregation !== 'lowest_strike') {
-      query = query.limit(limit);
-    }
-
-    const { data, error } = await query;
+    // Strike aggregations take the top row; otherwise apply the limit or load every page
+    const rowLimit = aggregation === 'highest_strike' || aggregation === 'lowest_strike' ? 1 : limit;
+    const { data: rows, error } = rowLimit ? await query.limit(rowLimit) : await fetchAllRows(query);
 
     if (error) {
       console.error('Supabase error:', error);
@@ -276,9 +279,12 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    if (!data || data.length === 0) {
+    // Restate quantities and prices for splits and ticker changes
+    const { rows: data } = applyCorporateActions(rows || [], corporateActions);
+
+    if (data.length === 0) {
       let filterDesc = '';
-      if (symbol) filterDesc += ` for ${normalizeSymbol(symbol)}`;
+      if (symbol) filterDesc += ` for ${symbolAliases[0]}`;
       if (securityType) filterDesc += ` (${securityType}s)`;
       if (tradeType) filterDesc += ` ${tradeType} trades`;
       if (callPut) filterDesc += ` ${callPut} options`;
@@ -328,7 +334,7 @@ export async function POST(req: NextRequest) {
 
     // Build response based on aggregation type
     let response = '';
-    const normalizedSymbol = symbol ? normalizeSymbol(symbol) : '';
+    const normalizedSymbol = symbolAliases[0] ?? '';
 
     if (aggregation === 'total_premium') {
       const action = tradeType === 'sell' ? 'collected' : 'paid';
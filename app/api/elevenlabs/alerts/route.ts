@@ -0,0 +1,131 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import { CsvMarketDataProvider, createMarketDataProvider } from '@/src/lib/market-data';
+import {
+  ALERT_TYPE_LABELS,
+  createAlertRule,
+  loadAlertNotifications,
+  loadAlertRules,
+  normalizeAlertRule,
+  parseAlertRequest,
+  runAlertJob,
+  validateAlertRule,
+  type AlertRuleInput,
+  type AlertRuleType,
+} from '@/src/lib/alerts';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+function toNumberOrNull(value: unknown): number | null {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[$,%x]/gi, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ response: `I couldn't find account ${accountCode}.` });
+    }
+    console.log('Alerts request body:', JSON.stringify(body, null, 2));
+
+    // Extract parameters from various possible locations
+    const param = (name: string) =>
+      body[name] ?? body.parameters?.[name] ?? body.body?.[name] ?? body.body?.parameters?.[name];
+    const alertType = param('alert_type') as AlertRuleType | undefined;
+    const symbol = param('symbol') ? normalizeSymbol(param('symbol')) : undefined;
+    const request = param('request') as string | undefined;
+
+    // Without an alert to create, read back the rules and what has fired
+    if (!alertType && !request) {
+      const [rules, unread] = await Promise.all([
+        loadAlertRules(supabase, accountCode),
+        loadAlertNotifications(supabase, accountCode, { unreadOnly: true, limit: 5 }),
+      ]);
+      const active = rules.filter(rule => rule.enabled);
+      if (active.length === 0) {
+        return NextResponse.json({
+          response: 'You have no alerts set. You can say something like "alert me when my TSLA short puts are 3 days from expiry".',
+        });
+      }
+      let response = `You have ${active.length} active ${active.length === 1 ? 'alert' : 'alerts'}: ${active.map(rule => rule.description).join('; ')}. `;
+      response += unread.length > 0
+        ? `Unread notifications: ${unread.map(n => n.message).join('; ')}.`
+        : 'There are no unread notifications.';
+      return NextResponse.json({ response: response.trim() });
+    }
+
+    const input: AlertRuleInput | null = alertType
+      ? {
+          type: alertType,
+          symbol,
+          direction: param('direction'),
+          threshold: toNumberOrNull(param('threshold')),
+          days: toNumberOrNull(param('days')),
+          callPut: param('option_type'),
+          side: param('side'),
+        }
+      : parseAlertRequest(request!, symbol);
+
+    if (!input) {
+      return NextResponse.json({
+        response: 'I could not tell what to alert you about. I can watch a price, a position\'s P&L, options nearing expiry, margin excess, or a spike in fees.',
+      });
+    }
+
+    const rule = normalizeAlertRule(input);
+    const invalid = validateAlertRule(rule);
+    if (invalid) {
+      return NextResponse.json({ response: `I could not set that alert. ${invalid}.` });
+    }
+
+    const { rule: saved, created } = await createAlertRule(supabase, accountCode, rule);
+
+    // Evaluate right away so anything already true shows up in the inbox
+    const marketData = createMarketDataProvider(
+      supabase,
+      new CsvMarketDataProvider({ baseUrl: `${req.nextUrl.origin}/market-data` })
+    );
+    const { triggers } = await runAlertJob(supabase, accountCode, marketData);
+    const firing = triggers.filter(trigger => trigger.ruleId === saved.id);
+
+    let response = created
+      ? `Done. I'll alert you when: ${saved.description}. `
+      : `You already have that alert: ${saved.description}. `;
+    response += firing.length > 0
+      ? `It is already triggered: ${firing.map(trigger => trigger.message).join('; ')}.`
+      : `Nothing matches yet. ${ALERT_TYPE_LABELS[saved.type]} alerts show up in the notification inbox when they fire.`;
+
+    return NextResponse.json({ response: response.trim() });
+  } catch (error) {
+    console.error('Alerts error:', error);
+    return NextResponse.json({
+      response: 'Sorry, there was an error setting up your alert.',
+    });
+  }
+}
@@ -1,13 +1,14 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { fetchAllRows } from '@/src/lib/paged-query';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 const SYMBOL_MAP: Record<string, string> = {
   'apple': 'AAPL',
   'google': 'GOOGL',
@@ -35,6 +36,7 @@ function normalizeSymbol(input: string): string {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     console.log('Detailed trades request body:', JSON.stringify(body, null, 2));
 
     // ElevenLabs may send symbol directly or nested in various ways
@@ -46,14 +48,19 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    const normalizedSymbol = normalizeSymbol(symbol);
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+    const normalizedSymbol = symbolAliases[0];
 
-    const { data, error } = await supabase
-      .from('TradeData')
-      .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
-      .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
-      .order('Date', { ascending: false });
+    const { data: rows, error } = await fetchAllRows(
+      supabase
+        .from('TradeData')
+        .select('*')
+        .eq('AccountCode', accountCode)
+        .or(buildSymbolFilter(symbolAliases))
+        .order('Date', { ascending: false })
+        .order('TradeID', { ascending: true })
+    );
 
     if (error) {
       return NextResponse.json({
@@ -61,7 +68,10 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    if (!data || data.length === 0) {
+    // Shares and prices restated for splits, former tickers renamed
+    const { rows: data } = applyCorporateActions(rows || [], corporateActions);
+
+    if (data.length === 0) {
       return NextResponse.json({
         response: `No trades found for ${normalizedSymbol}.`,
       });
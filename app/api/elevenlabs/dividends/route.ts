@@ -0,0 +1,146 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import {
+  applyCorporateActions,
+  applyCorporateActionsToDividends,
+  getSymbolAliases,
+  loadCorporateActions,
+} from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { summarizeDividends, DIVIDEND_RECORD_COLUMNS, type DividendRecord } from '@/src/lib/dividends';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    console.log('Dividends request body:', JSON.stringify(body, null, 2));
+
+    // Extract parameters from various possible locations
+    const symbol = body.symbol || body.parameters?.symbol ||
+                   body.body?.symbol || body.body?.parameters?.symbol;
+    const timePeriod = body.time_period || body.parameters?.time_period ||
+                       body.body?.time_period || body.body?.parameters?.time_period;
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    let dividendQuery = supabase
+      .from('Dividends')
+      .select(DIVIDEND_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('PayDate', { ascending: true })
+      .order('id', { ascending: true });
+
+    let tradeQuery = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .eq('SecurityType', 'S')
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    if (normalizedSymbol) {
+      dividendQuery = dividendQuery.in('Symbol', symbolAliases);
+      tradeQuery = tradeQuery.in('Symbol', symbolAliases);
+    }
+
+    const [{ data: dividends, error: dividendError }, { data: trades, error: tradeError }] =
+      await Promise.all([fetchAllRows(dividendQuery), fetchAllRows(tradeQuery)]);
+
+    if (dividendError || tradeError) {
+      return NextResponse.json({
+        response: `Error retrieving dividend data: ${(dividendError || tradeError)?.message}`,
+      });
+    }
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const periodDescription = parsedTime?.dateRange.description || timePeriod || 'all time';
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+
+    const report = summarizeDividends(
+      applyCorporateActionsToDividends((dividends || []) as DividendRecord[], corporateActions).rows,
+      applyCorporateActions((trades || []) as TradeRecord[], corporateActions).rows,
+      {
+        ...settings,
+        startDate: parsedTime?.dateRange.startDate,
+        endDate: parsedTime?.dateRange.endDate,
+      }
+    );
+
+    if (report.payments === 0) {
+      return NextResponse.json({
+        response: normalizedSymbol
+          ? `You did not receive any dividends from ${normalizedSymbol} for ${periodDescription}.`
+          : `You did not receive any dividends for ${periodDescription}.`,
+      });
+    }
+
+    const subject = normalizedSymbol ? `from ${normalizedSymbol}` : 'across your account';
+    let response = `You received ${formatCurrency(report.netAmount)} in dividends ${subject} for ${periodDescription}, over ${report.payments} ${report.payments === 1 ? 'payment' : 'payments'}. `;
+
+    if (report.withholdingTax > 0) {
+      response += `${formatCurrency(report.withholdingTax)} was withheld for taxes. `;
+    }
+
+    if (report.yieldOnCost !== null) {
+      response += `Based on the last twelve months, your current holdings pay about ${formatCurrency(report.annualIncome)} a year, a ${formatPercent(report.yieldOnCost)} yield on cost. `;
+    }
+
+    // Mention the biggest payers for portfolio-wide questions
+    if (!normalizedSymbol && report.bySymbol.length > 1) {
+      const top = report.bySymbol.filter(s => s.payments > 0).slice(0, 3)
+        .map(s => `${s.symbol} with ${formatCurrency(s.netAmount)}`)
+        .join(', ');
+      response += `Top payers: ${top}.`;
+    }
+
+    return NextResponse.json({ response: response.trim() });
+  } catch (error) {
+    console.error('Dividends error:', error);
+    return NextResponse.json({
+      response: 'Sorry, there was an error retrieving your dividends.',
+    });
+  }
+}
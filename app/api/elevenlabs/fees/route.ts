@@ -1,14 +1,37 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import {
+  applyCorporateActions,
+  buildSymbolFilter,
+  getCurrentSymbol,
+  getSymbolAliases,
+  loadCorporateActions,
+} from '@/src/lib/corporate-actions';
+import {
+  analyzeFees,
+  getFeeAmount,
+  FEE_ACTIVITY_COLUMNS,
+  type FeeActivityRecord,
+  type FeeType,
+} from '@/src/lib/fees';
+import { fetchAllRows } from '@/src/lib/paged-query';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
-type FeeType = 'commission' | 'credit_interest' | 'debit_interest' | 'locate_fee';
+const FEE_TYPE_NAMES: Record<FeeType, string> = {
+  all: 'fees',
+  commission: 'commission',
+  exchange_fee: 'exchange fees',
+  credit_interest: 'credit interest',
+  debit_interest: 'debit interest',
+  locate_fee: 'locate fees',
+};
 
 const SYMBOL_MAP: Record<string, string> = {
   'apple': 'AAPL',
@@ -38,173 +61,117 @@ function formatCurrency(value: number): string {
   }).format(value);
 }
 
-function getDateRange(timePeriod: string): { fromDate: Date; toDate: Date } {
-  const today = new Date();
-
-  const lowerPeriod = timePeriod.toLowerCase();
-
-  if (lowerPeriod.includes('last month') || lowerPeriod.includes('past month')) {
-    const fromDate = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-    const toDate = new Date(today.getFullYear(), today.getMonth(), 0);
-    return { fromDate, toDate };
-  }
-
-  if (lowerPeriod.includes('this month')) {
-    const fromDate = new Date(today.getFullYear(), today.getMonth(), 1);
-    return { fromDate, toDate: today };
-  }
-
-  if (lowerPeriod.includes('last week') || lowerPeriod.includes('past week')) {
-    const fromDate = new Date(today);
-    fromDate.setDate(today.getDate() - 7);
-    return { fromDate, toDate: today };
-  }
-
-  if (lowerPeriod.includes('this week')) {
-    const dayOfWeek = today.getDay();
-    const fromDate = new Date(today);
-    fromDate.setDate(today.getDate() - dayOfWeek);
-    return { fromDate, toDate: today };
-  }
-
-  if (lowerPeriod.includes('this year') || lowerPeriod.includes('since the beginning of the year')) {
-    const fromDate = new Date(today.getFullYear(), 0, 1);
-    return { fromDate, toDate: today };
-  }
-
-  if (lowerPeriod.includes('last year') || lowerPeriod.includes('past year')) {
-    const fromDate = new Date(today.getFullYear() - 1, 0, 1);
-    const toDate = new Date(today.getFullYear() - 1, 11, 31);
-    return { fromDate, toDate };
-  }
-
-  // Check for month names like "November" or "in November"
-  const monthNames = ['january', 'february', 'march', 'april', 'may', 'june',
-                      'july', 'august', 'september', 'october', 'november', 'december'];
-  for (let i = 0; i < monthNames.length; i++) {
-    if (lowerPeriod.includes(monthNames[i])) {
-      const year = lowerPeriod.includes('last year') ? today.getFullYear() - 1 : today.getFullYear();
-      const fromDate = new Date(year, i, 1);
-      const toDate = new Date(year, i + 1, 0);
-      return { fromDate, toDate };
-    }
-  }
-
-  // Default to last 30 days
-  const fromDate = new Date(today);
-  fromDate.setDate(today.getDate() - 30);
-  return { fromDate, toDate: today };
-}
-
-function getMonthName(date: Date): string {
-  return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-}
-
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     console.log('Fees request body:', JSON.stringify(body, null, 2));
 
     // Extract parameters from various possible locations
     const feeType: FeeType = body.fee_type || body.parameters?.fee_type ||
                              body.body?.fee_type || body.body?.parameters?.fee_type;
     const timePeriod = body.time_period || body.parameters?.time_period ||
-                       body.body?.time_period || body.body?.parameters?.time_period || 'this month';
+                       body.body?.time_period || body.body?.parameters?.time_period;
     const symbol = body.symbol || body.parameters?.symbol ||
                    body.body?.symbol || body.body?.parameters?.symbol;
 
-    if (!feeType) {
+    if (!feeType || !(feeType in FEE_TYPE_NAMES)) {
       return NextResponse.json({
-        response: 'Please specify what type of fee you want to look up: commissions, credit interest, debit interest, or locate fees.',
+        response: 'Please specify what type of fee you want to look up: commissions, exchange fees, credit interest, debit interest, or locate fees.',
       });
     }
 
-    const { fromDate, toDate } = getDateRange(timePeriod);
-    const periodDescription = timePeriod || getMonthName(fromDate);
-
-    // Handle commissions from TradeData table
-    if (feeType === 'commission') {
-      const query = supabase
-        .from('TradeData')
-        .select('Commission, Date')
-        .eq('AccountCode', ACCOUNT_CODE)
-        .gte('Date', fromDate.toISOString().split('T')[0])
-        .lte('Date', toDate.toISOString().split('T')[0]);
-
-      const { data, error } = await query;
-
-      if (error) {
-        return NextResponse.json({
-          response: `Error retrieving commission data: ${error.message}`,
-        });
-      }
-
-      if (!data || data.length === 0) {
-        return NextResponse.json({
-          response: `No commission data found for ${periodDescription}.`,
-        });
-      }
-
-      const totalCommission = data.reduce((sum, trade) => sum + (trade.Commission || 0), 0);
-      const tradeCount = data.length;
-
+    // Same period handling as /api/fees-ui: no period is the whole history, an unrecognized one is not guessed at
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    if (timePeriod && !parsedTime) {
       return NextResponse.json({
-        response: `The total commission you paid for ${periodDescription} is ${formatCurrency(Math.abs(totalCommission))} across ${tradeCount} trades.`,
+        response: `I couldn't understand the time period "${timePeriod}". Try "last month", "this year", "November", or leave it out for your whole history.`,
       });
     }
+    const periodDescription = parsedTime?.dateRange.description || 'your whole history';
 
-    // Handle other fee types from FeesAndInterest table
-    const feeTypeMap: Record<string, string> = {
-      'credit_interest': 'CreditInt',
-      'debit_interest': 'DebitInt',
-      'locate_fee': 'LocateFee',
-    };
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
 
-    const dbFeeType = feeTypeMap[feeType];
+    let tradeQuery = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
 
-    let query = supabase
+    let feeQuery = supabase
       .from('FeesAndInterest')
-      .select('*')
-      .eq('Type', dbFeeType)
-      .gte('Date', fromDate.toISOString().split('T')[0])
-      .lte('Date', toDate.toISOString().split('T')[0]);
-
-    // For locate fees, filter by symbol if provided
-    if (feeType === 'locate_fee' && symbol) {
-      const normalizedSymbol = normalizeSymbol(symbol);
-      query = query.eq('Symbol', normalizedSymbol);
+      .select(FEE_ACTIVITY_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (parsedTime) {
+      const { startDate, endDate } = parsedTime.dateRange;
+      tradeQuery = tradeQuery.gte('Date', startDate).lte('Date', endDate);
+      feeQuery = feeQuery.gte('Date', startDate).lte('Date', endDate);
+    }
+
+    if (normalizedSymbol) {
+      tradeQuery = tradeQuery.or(buildSymbolFilter(symbolAliases));
+      feeQuery = feeQuery.in('Symbol', symbolAliases);
     }
 
-    const { data, error } = await query;
+    const [trades, fees] = await Promise.all([fetchAllRows(tradeQuery), fetchAllRows(feeQuery)]);
 
+    const error = trades.error || fees.error;
     if (error) {
       return NextResponse.json({
         response: `Error retrieving fee data: ${error.message}`,
       });
     }
 
-    if (!data || data.length === 0) {
-      const symbolText = symbol ? ` for ${normalizeSymbol(symbol)}` : '';
+    // Share counts follow splits and fees roll up under the current ticker
+    const { rows: adjustedTrades } = applyCorporateActions((trades.data || []) as TradeRecord[], corporateActions);
+    const report = analyzeFees(
+      adjustedTrades,
+      ((fees.data || []) as FeeActivityRecord[]).map(fee => ({
+        ...fee,
+        Symbol: fee.Symbol ? getCurrentSymbol(fee.Symbol, corporateActions) : fee.Symbol,
+      }))
+    );
+    const items = report.items.filter(item => feeType === 'all' || item.feeType === feeType);
+    const totalAmount = getFeeAmount(report.totals, feeType);
+    const symbolText = normalizedSymbol ? ` for ${normalizedSymbol}` : '';
+
+    if (items.length === 0) {
       return NextResponse.json({
-        response: `No ${feeType.replace('_', ' ')} data found${symbolText} for ${periodDescription}.`,
+        response: `No ${FEE_TYPE_NAMES[feeType]} found${symbolText} for ${periodDescription}.`,
       });
     }
 
-    const totalAmount = data.reduce((sum, fee) => sum + (fee.Amount || 0), 0);
-    const transactionCount = data.length;
-
-    // Build response based on fee type
     let response = '';
     switch (feeType) {
+      case 'commission':
+        response = `The total commission you paid${symbolText} for ${periodDescription} is ${formatCurrency(totalAmount)} across ${items.length} trades.`;
+        break;
+      case 'exchange_fee':
+        response = `The total exchange fees you paid${symbolText} for ${periodDescription} are ${formatCurrency(totalAmount)} across ${items.length} trades.`;
+        break;
       case 'credit_interest':
-        response = `The total credit interest you earned for ${periodDescription} is ${formatCurrency(Math.abs(totalAmount))} across ${transactionCount} transactions.`;
+        response = `The total credit interest you earned for ${periodDescription} is ${formatCurrency(totalAmount)} across ${items.length} transactions.`;
         break;
       case 'debit_interest':
-        response = `The total debit interest you paid for ${periodDescription} is ${formatCurrency(Math.abs(totalAmount))} across ${transactionCount} transactions.`;
+        response = `The total debit interest you paid for ${periodDescription} is ${formatCurrency(totalAmount)} across ${items.length} transactions.`;
+        break;
+      case 'locate_fee':
+        response = `The total locate fees you paid${normalizedSymbol ? ` for stock ${normalizedSymbol}` : ''} for ${periodDescription} are ${formatCurrency(totalAmount)} across ${items.length} transactions.`;
         break;
-      case 'locate_fee': {
-        const symbolText = symbol ? ` for stock ${normalizeSymbol(symbol)}` : '';
-        response = `The total locate fees you paid${symbolText} for ${periodDescription} is ${formatCurrency(Math.abs(totalAmount))} across ${transactionCount} transactions.`;
+      case 'all': {
+        const { commission, exchangeFees, locateFees, debitInterest, creditInterest } = report.totals;
+        response = `Your fees${symbolText} for ${periodDescription} total ${formatCurrency(totalAmount)}: ` +
+          `${formatCurrency(commission)} in commission, ${formatCurrency(exchangeFees)} in exchange fees, ` +
+          `${formatCurrency(locateFees)} in locate fees and ${formatCurrency(debitInterest)} in debit interest.`;
+        if (creditInterest > 0) {
+          response += ` You also earned ${formatCurrency(creditInterest)} in credit interest.`;
+        }
         break;
       }
     }
@@ -0,0 +1,148 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { getDemoToday } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import {
+  applyCorporateActions,
+  applyCorporateActionsToDividends,
+  buildSymbolFilter,
+  getSymbolAliases,
+  loadCorporateActions,
+} from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { DIVIDEND_RECORD_COLUMNS, getTrailingDividendsPerShare, type DividendRecord } from '@/src/lib/dividends';
+import { computeGreeksExposure, type UnderlyingGreeks } from '@/src/lib/greeks';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+}
+
+// Spoken delta, e.g. "net long 130 deltas, about $66,142.78 of exposure"
+function describeDelta(group: UnderlyingGreeks): string {
+  const deltas = Math.round(Math.abs(group.netDelta)).toLocaleString();
+  const direction = group.netDelta >= 0 ? 'long' : 'short';
+  return `net ${direction} ${deltas} deltas, about ${formatCurrency(Math.abs(group.dollarDelta))} of exposure`;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    console.log('Greeks request body:', JSON.stringify(body, null, 2));
+
+    // Extract parameters from various possible locations
+    const symbol = body.symbol || body.parameters?.symbol ||
+                   body.body?.symbol || body.body?.parameters?.symbol;
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    let query = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    let dividendQuery = supabase
+      .from('Dividends')
+      .select(DIVIDEND_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('PayDate', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (normalizedSymbol) {
+      query = query.or(buildSymbolFilter(symbolAliases));
+      dividendQuery = dividendQuery.in('Symbol', symbolAliases);
+    }
+
+    const [{ data: trades, error: tradeError }, { data: dividends, error: dividendError }] =
+      await Promise.all([fetchAllRows(query), fetchAllRows(dividendQuery)]);
+
+    if (tradeError) {
+      return NextResponse.json({
+        response: `Error retrieving trade data: ${tradeError.message}`,
+      });
+    }
+    if (dividendError) {
+      return NextResponse.json({
+        response: `Error retrieving dividend data: ${dividendError.message}`,
+      });
+    }
+
+    const { rows: adjustedTrades } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    const asOf = getDemoToday();
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+    const report = computeGreeksExposure(adjustedTrades, {
+      ...settings,
+      asOf,
+      annualDividends: getTrailingDividendsPerShare(
+        applyCorporateActionsToDividends((dividends || []) as DividendRecord[], corporateActions).rows,
+        asOf
+      ),
+    });
+
+    if (report.byUnderlying.length === 0) {
+      return NextResponse.json({
+        response: normalizedSymbol
+          ? `You have no open positions in ${normalizedSymbol}, so your delta there is zero.`
+          : 'You have no open positions with a known price, so there is no delta exposure.',
+      });
+    }
+
+    if (normalizedSymbol) {
+      const group = report.byUnderlying[0];
+      let response = `On ${normalizedSymbol} you are ${describeDelta(group)} at ${formatCurrency(group.spot)}.`;
+      if (group.contracts.length > 0) {
+        response += ` Options contribute ${Math.round(group.optionDelta).toLocaleString()} deltas and stock ${group.stockShares.toLocaleString()} shares.`;
+        response += ` Theta is ${formatCurrency(group.theta)} per day and vega ${formatCurrency(group.vega)} per volatility point.`;
+      }
+      return NextResponse.json({ response });
+    }
+
+    let response = `Across ${report.byUnderlying.length} underlyings your net delta exposure is ${formatCurrency(report.dollarDelta)}, `;
+    response += `with ${formatCurrency(report.theta)} theta per day and ${formatCurrency(report.vega)} vega per volatility point. `;
+    const top = report.byUnderlying.slice(0, 3).map(g => `${g.underlying} ${describeDelta(g)}`);
+    response += `Largest: ${top.join('; ')}.`;
+
+    return NextResponse.json({ response: response.trim() });
+  } catch (error) {
+    console.error('Greeks error:', error);
+    return NextResponse.json({
+      response: 'Sorry, there was an error calculating your Greeks.',
+    });
+  }
+}
@@ -0,0 +1,188 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { getDemoToday } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import {
+  applyCorporateActions,
+  applyCorporateActionsToDividends,
+  getCurrentSymbol,
+  loadCorporateActions,
+} from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { DIVIDEND_RECORD_COLUMNS, getTrailingDividendsPerShare, type DividendRecord } from '@/src/lib/dividends';
+import {
+  STRESS_BALANCE_COLUMNS,
+  runMarginStressTest,
+  type StressBalanceRecord,
+  type StressPosition,
+} from '@/src/lib/margin-stress';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+}
+
+// Spoken excess, e.g. "an excess of $12,400.00" or "a deficit of $3,100.00"
+function describeExcess(excess: number): string {
+  return excess < 0 ? `a deficit of ${formatCurrency(Math.abs(excess))}` : `an excess of ${formatCurrency(excess)}`;
+}
+
+// Spoken position, e.g. "short 2 NVDA $150 puts" / "long 100 shares of NVDA"
+function describePosition(position: StressPosition): string {
+  if (position.series) {
+    const type = position.series.callPut === 'C' ? 'call' : 'put';
+    return `${position.side} ${position.quantity} ${position.underlying} $${position.series.strike} ${type}${position.quantity === 1 ? '' : 's'}`;
+  }
+  return `${position.side} ${position.quantity.toLocaleString()} shares of ${position.underlying}`;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    console.log('Margin stress request body:', JSON.stringify(body, null, 2));
+
+    // Extract parameters from various possible locations
+    const symbol = body.symbol || body.parameters?.symbol ||
+                   body.body?.symbol || body.body?.parameters?.symbol;
+    const shockPercent = body.shock_percent ?? body.parameters?.shock_percent ??
+                         body.body?.shock_percent ?? body.body?.parameters?.shock_percent;
+
+    if (shockPercent === undefined || shockPercent === null || isNaN(Number(shockPercent))) {
+      return NextResponse.json({
+        response: 'Please tell me how much the price moves, for example NVDA down 20 percent.',
+      });
+    }
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const normalizedSymbol = symbol ? getCurrentSymbol(normalizeSymbol(symbol), corporateActions) : null;
+    const shock = Number(shockPercent) / 100;
+
+    const [{ data: trades, error }, { data: balance, error: balanceError }, { data: dividends, error: dividendError }] =
+      await Promise.all([
+        fetchAllRows(
+          supabase
+            .from('TradeData')
+            .select(TRADE_RECORD_COLUMNS)
+            .eq('AccountCode', accountCode)
+            .order('Date', { ascending: true })
+            .order('TradeID', { ascending: true })
+        ),
+        supabase
+          .from('AccountBalance')
+          .select(STRESS_BALANCE_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('Date', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        fetchAllRows(
+          supabase
+            .from('Dividends')
+            .select(DIVIDEND_RECORD_COLUMNS)
+            .eq('AccountCode', accountCode)
+            .order('PayDate', { ascending: true })
+            .order('id', { ascending: true })
+        ),
+      ]);
+
+    if (error) {
+      return NextResponse.json({
+        response: `Error retrieving trade data: ${error.message}`,
+      });
+    }
+
+    if (balanceError) {
+      return NextResponse.json({
+        response: `Error retrieving account balance: ${balanceError.message}`,
+      });
+    }
+
+    // Dividends set the carry on short stock, so a failed load is not treated as none
+    if (dividendError) {
+      return NextResponse.json({
+        response: `Error retrieving dividend data: ${dividendError.message}`,
+      });
+    }
+
+    if (!balance) {
+      return NextResponse.json({
+        response: 'I could not find an account balance to stress test.',
+      });
+    }
+
+    const asOf = getDemoToday();
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+    const report = runMarginStressTest(
+      applyCorporateActions((trades || []) as TradeRecord[], corporateActions).rows,
+      balance as StressBalanceRecord,
+      {
+        ...settings,
+        asOf,
+        annualDividends: getTrailingDividendsPerShare(
+          applyCorporateActionsToDividends((dividends || []) as DividendRecord[], corporateActions).rows,
+          asOf
+        ),
+        shocks: normalizedSymbol ? { [normalizedSymbol]: shock } : {},
+        portfolioShock: normalizedSymbol ? 0 : shock,
+      }
+    );
+
+    const move = `${Math.abs(Number(shockPercent))} percent ${shock < 0 ? 'drop' : 'rise'}`;
+    const target = normalizedSymbol ? `in ${normalizedSymbol}` : 'across your portfolio';
+    const affected = report.positions.filter(p => p.valueChange !== 0 || p.houseRequirementChange !== 0);
+
+    if (affected.length === 0) {
+      return NextResponse.json({
+        response: `A ${move} ${target} would not change your margin, since you have no open positions it affects.`,
+      });
+    }
+
+    let response = `With a ${move} ${target}, your equity would change by ${formatCurrency(report.equityChange)}. `;
+    response += `House margin would go from ${describeExcess(report.current.houseExcess)} to ${describeExcess(report.projected.houseExcess)}, `;
+    response += `and fed margin from ${describeExcess(report.current.fedExcess)} to ${describeExcess(report.projected.fedExcess)}. `;
+    const drivers = affected
+      .filter(p => p.excessImpact < 0)
+      .slice(0, 3)
+      .map(p => `${describePosition(p)} at ${formatCurrency(p.excessImpact)}`);
+    if (drivers.length > 0) {
+      response += `The biggest drags on excess: ${drivers.join('; ')}.`;
+    }
+
+    return NextResponse.json({ response: response.trim() });
+  } catch (error) {
+    console.error('Margin stress error:', error);
+    return NextResponse.json({
+      response: 'Sorry, there was an error running your margin stress test.',
+    });
+  }
+}
@@ -0,0 +1,123 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { getDemoToday } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings, COST_BASIS_LABELS } from '@/src/lib/cost-basis';
+import { computePnL } from '@/src/lib/pnl';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+}
+
+// Signed currency for speech, e.g. "a gain of $1,200.00" / "a loss of $300.00"
+function describeAmount(value: number): string {
+  return value >= 0 ? `a gain of ${formatCurrency(value)}` : `a loss of ${formatCurrency(Math.abs(value))}`;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    console.log('P&L request body:', JSON.stringify(body, null, 2));
+
+    // Extract parameters from various possible locations
+    const symbol = body.symbol || body.parameters?.symbol ||
+                   body.body?.symbol || body.body?.parameters?.symbol;
+    const timePeriod = body.time_period || body.parameters?.time_period ||
+                       body.body?.time_period || body.body?.parameters?.time_period;
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    let query = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    if (normalizedSymbol) {
+      query = query.or(buildSymbolFilter(symbolAliases));
+    }
+
+    const { data: trades, error } = await fetchAllRows(query);
+
+    if (error) {
+      return NextResponse.json({
+        response: `Error retrieving trade data: ${error.message}`,
+      });
+    }
+
+    const { rows: adjustedTrades } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    if (!trades || trades.length === 0) {
+      return NextResponse.json({
+        response: normalizedSymbol ? `No trades found for ${normalizedSymbol}.` : 'No trades found in this account.',
+      });
+    }
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const periodDescription = parsedTime?.dateRange.description || timePeriod || 'all time';
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+
+    const report = computePnL(adjustedTrades, {
+      ...settings,
+      startDate: parsedTime?.dateRange.startDate,
+      endDate: parsedTime?.dateRange.endDate,
+      asOf: getDemoToday(),
+    });
+
+    const subject = normalizedSymbol ? `on ${normalizedSymbol}` : 'across your account';
+    let response = `Your realized P&L ${subject} for ${periodDescription} is ${describeAmount(report.realizedPnL)}, using ${COST_BASIS_LABELS[settings.method]} cost basis. `;
+    response += `Open positions carry ${describeAmount(report.unrealizedPnL)} unrealized, marked to the latest available prices, for a combined total of ${describeAmount(report.totalPnL)}. `;
+
+    // Mention the biggest contributors for portfolio-wide questions
+    if (!normalizedSymbol && report.bySymbol.length > 1) {
+      const top = report.bySymbol.slice(0, 3)
+        .map(s => `${s.symbol} with ${describeAmount(s.totalPnL)}`)
+        .join(', ');
+      response += `Largest contributors: ${top}.`;
+    }
+
+    return NextResponse.json({ response: response.trim() });
+  } catch (error) {
+    console.error('P&L error:', error);
+    return NextResponse.json({
+      response: 'Sorry, there was an error calculating your profit and loss.',
+    });
+  }
+}
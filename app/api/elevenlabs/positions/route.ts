@@ -0,0 +1,131 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatCalendarDate, getDemoToday } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { computeOpenPositions, type OpenPosition } from '@/src/lib/positions';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+}
+
+// Spoken description, e.g. "long 100 shares at $180.25" / "short 2 NVDA $150 calls expiring Dec 19, 2025"
+function describePosition(position: OpenPosition): string {
+  const side = position.side === 'long' ? 'long' : 'short';
+  if (position.series) {
+    const type = position.series.callPut === 'C' ? 'call' : 'put';
+    const contracts = `${position.quantity} ${position.underlying} $${position.series.strike} ${type}${position.quantity === 1 ? '' : 's'}`;
+    return `${side} ${contracts} expiring ${formatCalendarDate(position.series.expiration)} at ${formatCurrency(position.averagePrice)} premium`;
+  }
+  return `${side} ${position.quantity.toLocaleString()} shares of ${position.symbol} at an average of ${formatCurrency(position.averagePrice)}`;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    console.log('Positions request body:', JSON.stringify(body, null, 2));
+
+    // Extract parameters from various possible locations
+    const symbol = body.symbol || body.parameters?.symbol ||
+                   body.body?.symbol || body.body?.parameters?.symbol;
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    let query = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    if (normalizedSymbol) {
+      query = query.or(buildSymbolFilter(symbolAliases));
+    }
+
+    const { data: trades, error } = await fetchAllRows(query);
+
+    if (error) {
+      return NextResponse.json({
+        response: `Error retrieving trade data: ${error.message}`,
+      });
+    }
+
+    const { rows: adjustedTrades } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+    const report = computeOpenPositions(adjustedTrades, {
+      ...settings,
+      asOf: getDemoToday(),
+    });
+
+    if (report.positions.length === 0) {
+      return NextResponse.json({
+        response: normalizedSymbol
+          ? `You have no open positions in ${normalizedSymbol}.`
+          : 'You have no open positions in this account.',
+      });
+    }
+
+    // Single underlying: list every position
+    if (normalizedSymbol) {
+      const described = report.positions.map(describePosition);
+      return NextResponse.json({
+        response: `In ${normalizedSymbol} you are ${described.join('; ')}. Marked to the latest prices, that is ${formatCurrency(report.netMarketValue)} net market value with ${formatCurrency(report.unrealizedPnL)} unrealized.`,
+      });
+    }
+
+    const optionCount = report.positions.filter(p => p.securityType === 'Option').length;
+    const stockCount = report.positions.length - optionCount;
+    let response = `You hold ${stockCount} stock ${stockCount === 1 ? 'position' : 'positions'} and ${optionCount} open option series across ${report.byUnderlying.length} underlyings. `;
+    response += `Long market value is ${formatCurrency(report.longMarketValue)}`;
+    if (report.shortMarketValue < 0) {
+      response += ` and short market value is ${formatCurrency(Math.abs(report.shortMarketValue))}`;
+    }
+    response += `, with ${formatCurrency(report.unrealizedPnL)} unrealized. `;
+
+    const top = report.byUnderlying.slice(0, 3).map(g => g.underlying).join(', ');
+    response += `Largest exposures: ${top}.`;
+
+    return NextResponse.json({ response: response.trim() });
+  } catch (error) {
+    console.error('Positions error:', error);
+    return NextResponse.json({
+      response: 'Sorry, there was an error retrieving your positions.',
+    });
+  }
+}
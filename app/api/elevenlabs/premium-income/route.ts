@@ -0,0 +1,147 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { getDemoToday } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { summarizePremiumIncome, type IncomeStrategy } from '@/src/lib/premium-income';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(2)}%`;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    console.log('Premium income request body:', JSON.stringify(body, null, 2));
+
+    // Extract parameters from various possible locations
+    const symbol = body.symbol || body.parameters?.symbol ||
+                   body.body?.symbol || body.body?.parameters?.symbol;
+    const timePeriod = body.time_period || body.parameters?.time_period ||
+                       body.body?.time_period || body.body?.parameters?.time_period;
+    const optionType = body.option_type || body.parameters?.option_type ||
+                       body.body?.option_type || body.body?.parameters?.option_type;
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    let query = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    if (normalizedSymbol) {
+      query = query.or(buildSymbolFilter(symbolAliases));
+    }
+
+    const { data: trades, error } = await fetchAllRows(query);
+
+    if (error) {
+      return NextResponse.json({
+        response: `Error retrieving trade data: ${error.message}`,
+      });
+    }
+
+    const { rows: adjustedTrades } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const periodDescription = parsedTime?.dateRange.description || timePeriod || 'all time';
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+
+    const report = summarizePremiumIncome(adjustedTrades, {
+      ...settings,
+      asOf: getDemoToday(),
+      startDate: parsedTime?.dateRange.startDate,
+      endDate: parsedTime?.dateRange.endDate,
+    });
+
+    // "put" -> cash-secured puts, "call" -> covered calls, otherwise both
+    const type = String(optionType || '').toLowerCase();
+    const strategy: IncomeStrategy | null = type.startsWith('put')
+      ? 'Cash-Secured Put'
+      : type.startsWith('call') ? 'Covered Call' : null;
+    const income = strategy ? report.byStrategy[strategy] : report;
+    const label = strategy === 'Cash-Secured Put' ? 'short puts' : strategy === 'Covered Call' ? 'covered calls' : 'short options';
+    const subject = normalizedSymbol ? `${normalizedSymbol} ${label}` : label;
+
+    const realized = report.positions.filter(p => p.outcome !== 'open' && (!strategy || p.strategy === strategy));
+    if (realized.length === 0) {
+      return NextResponse.json({
+        response: `None of your ${subject} closed, expired or were assigned for ${periodDescription}.`,
+      });
+    }
+
+    let response = `Your ${subject} made ${formatCurrency(income.netIncome)} in premium income for ${periodDescription}`;
+    response += income.annualizedReturn !== null
+      ? `, an annualized ${formatPercent(income.annualizedReturn)} return on the collateral. `
+      : '. ';
+
+    if (!strategy) {
+      const puts = report.byStrategy['Cash-Secured Put'];
+      const calls = report.byStrategy['Covered Call'];
+      response += `Cash-secured puts contributed ${formatCurrency(puts.netIncome)} and covered calls ${formatCurrency(calls.netIncome)}. `;
+      if (report.debits > 0) {
+        response += `That nets ${formatCurrency(report.credits)} of credits against ${formatCurrency(report.debits)} paid to close. `;
+      }
+    }
+
+    if (report.pendingCredit > 0) {
+      response += `Another ${formatCurrency(report.pendingCredit)} of credit is still open. `;
+    }
+
+    // Calls written without the shares are not covered calls and are left out above
+    const uncovered = report.uncoveredCalls.filter(c => c.outcome !== 'open');
+    if (strategy !== 'Cash-Secured Put' && uncovered.length > 0) {
+      response += `${uncovered.length} short ${uncovered.length === 1 ? 'call was' : 'calls were'} written without enough shares to cover ${uncovered.length === 1 ? 'it' : 'them'}, `;
+      response += `so ${formatCurrency(report.uncoveredIncome)} from uncovered calls is not counted as premium income.`;
+    }
+
+    return NextResponse.json({ response: response.trim() });
+  } catch (error) {
+    console.error('Premium income error:', error);
+    return NextResponse.json({
+      response: 'Sorry, there was an error calculating your premium income.',
+    });
+  }
+}
@@ -2,14 +2,14 @@ import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
 import { parseTimeExpression } from '@/src/lib/date-parser';
 import { formatDisplayDate, formatDateRange, formatCalendarDate } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 const SYMBOL_MAP: Record<string, string> = {
   'apple': 'AAPL',
   'google': 'GOOGL',
@@ -38,6 +38,7 @@ function normalizeSymbol(input: string): string {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     console.log('Time trades request body:', JSON.stringify(body, null, 2));
 
     // Extract parameters - support various nesting patterns from ElevenLabs
@@ -67,19 +68,22 @@ export async function POST(req: NextRequest) {
     const { startDate, endDate, description, tradingDays } = parsedTime.dateRange;
     console.log(`Parsed time period: ${description}, DB dates: ${startDate} to ${endDate}`);
 
+    const corporateActions = await loadCorporateActions(supabase);
+
     // Build the query
     let query = supabase
       .from('TradeData')
       .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
+      .eq('AccountCode', accountCode)
       .gte('Date', startDate)
       .lte('Date', endDate)
       .order('Date', { ascending: false });
 
     // Filter by symbol if provided
-    const normalizedSymbol = symbol ? normalizeSymbol(symbol) : null;
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
     if (normalizedSymbol) {
-      query = query.or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`);
+      query = query.or(buildSymbolFilter(symbolAliases));
     }
 
     // Filter by trade type if provided
@@ -97,7 +101,7 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    const trades = data || [];
+    const { rows: trades } = applyCorporateActions(data || [], corporateActions);
     const tradeCount = trades.length;
 
     // Build response based on results
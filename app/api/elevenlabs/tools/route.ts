@@ -2,6 +2,11 @@ import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
 import { parseTimeExpression } from '@/src/lib/date-parser';
 import { getDateOffset, formatCalendarDate } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { matchLots, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings, parseCostBasisMethod, COST_BASIS_LABELS } from '@/src/lib/cost-basis';
+import { fetchAllRows } from '@/src/lib/paged-query';
 
 // Initialize Supabase client
 const supabase = createClient(
@@ -9,8 +14,6 @@ const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 // Symbol mapping for common company names
 const SYMBOL_MAP: Record<string, string> = {
   'apple': 'AAPL',
@@ -37,14 +40,20 @@ function normalizeSymbol(input: string): string {
 }
 
 // Tool: Get trade summary
-async function getTradeSummary(symbol: string) {
-  const normalizedSymbol = normalizeSymbol(symbol);
-
-  const { data, error } = await supabase
-    .from('TradeData')
-    .select('SecurityType, TradeType')
-    .eq('AccountCode', ACCOUNT_CODE)
-    .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`);
+async function getTradeSummary(accountCode: string, symbol: string) {
+  const corporateActions = await loadCorporateActions(supabase);
+  const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+  const normalizedSymbol = symbolAliases[0];
+
+  const { data, error } = await fetchAllRows(
+    supabase
+      .from('TradeData')
+      .select('SecurityType, TradeType')
+      .eq('AccountCode', accountCode)
+      .or(buildSymbolFilter(symbolAliases))
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true })
+  );
 
   if (error) {
     return { error: error.message, symbol: normalizedSymbol };
@@ -64,8 +73,10 @@ async function getTradeSummary(symbol: string) {
 }
 
 // Tool: Get trade statistics (highest, lowest, average prices)
-async function getTradeStats(symbol: string, tradeType?: string, year?: number, timePeriod?: string) {
-  const normalizedSymbol = normalizeSymbol(symbol);
+async function getTradeStats(accountCode: string, symbol: string, tradeType?: string, year?: number, timePeriod?: string) {
+  const corporateActions = await loadCorporateActions(supabase);
+  const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+  const normalizedSymbol = symbolAliases[0];
 
   // Get date offset for demo database
   const offset = getDateOffset();
@@ -98,9 +109,9 @@ async function getTradeStats(symbol: string, tradeType?: string, year?: number,
   let query = supabase
     .from('TradeData')
     .select('*')
-    .eq('AccountCode', ACCOUNT_CODE)
+    .eq('AccountCode', accountCode)
     .eq('SecurityType', 'S') // Stock trades only for price analysis
-    .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
+    .or(buildSymbolFilter(symbolAliases))
     .gte('Date', dateStart)
     .lte('Date', dateEnd);
 
@@ -110,16 +121,19 @@ async function getTradeStats(symbol: string, tradeType?: string, year?: number,
     query = query.eq('TradeType', normalizedType);
   }
 
-  const { data, error } = await query.order('Date', { ascending: false });
+  const { data: rows, error } = await query.order('Date', { ascending: false });
 
   if (error) {
     return { error: error.message, symbol: normalizedSymbol };
   }
 
+  // Prices and share counts restated for splits
+  const { rows: data } = applyCorporateActions(rows || [], corporateActions);
+
   // Build period description for messages
   const periodDescription = timePeriodDescription || `${userYear}`;
 
-  if (!data || data.length === 0) {
+  if (data.length === 0) {
     const typeLabel = tradeType ? (tradeType.toLowerCase().startsWith('s') ? 'sell' : 'buy') : '';
     return {
       symbol: normalizedSymbol,
@@ -166,55 +180,40 @@ async function getTradeStats(symbol: string, tradeType?: string, year?: number,
   };
 }
 
-// Tool: Get profitable trades (FIFO matching)
-async function getProfitableTrades(symbol: string, onlyProfitable: boolean = true) {
-  const normalizedSymbol = normalizeSymbol(symbol);
+// Tool: Get profitable trades (FIFO lot matching)
+async function getProfitableTrades(accountCode: string, symbol: string, onlyProfitable: boolean = true, methodOverride?: string) {
+  const corporateActions = await loadCorporateActions(supabase);
+  const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+  const normalizedSymbol = symbolAliases[0];
+
+  // Fetch all stock and option trades for the symbol in execution order
+  const { data: trades, error } = await fetchAllRows(
+    supabase
+      .from('TradeData')
+      .select('*')
+      .eq('AccountCode', accountCode)
+      .or(buildSymbolFilter(symbolAliases))
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true })
+  );
 
-  // Fetch all buy trades for the symbol
-  const { data: buyTrades, error: buyError } = await supabase
-    .from('TradeData')
-    .select('*')
-    .eq('AccountCode', ACCOUNT_CODE)
-    .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
-    .eq('TradeType', 'B')
-    .order('Date', { ascending: true })
-    .order('TradeID', { ascending: true });
-
-  if (buyError) {
-    console.error('Buy trades error:', buyError);
-    return { error: buyError.message, symbol: normalizedSymbol };
+  if (error) {
+    console.error('Trades error:', error);
+    return { error: error.message, symbol: normalizedSymbol };
   }
 
-  console.log(`Found ${buyTrades?.length || 0} buy trades for ${normalizedSymbol}`);
+  console.log(`Found ${trades?.length || 0} trades for ${normalizedSymbol}`);
 
-  // Fetch all sell trades for the symbol (case-insensitive for 's' and 'S')
-  const { data: sellTrades, error: sellError } = await supabase
-    .from('TradeData')
-    .select('*')
-    .eq('AccountCode', ACCOUNT_CODE)
-    .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
-    .ilike('TradeType', 'S')
-    .order('Date', { ascending: true })
-    .order('TradeID', { ascending: true });
-
-  if (sellError) {
-    console.error('Sell trades error:', sellError);
-    return { error: sellError.message, symbol: normalizedSymbol };
-  }
+  const settings = await loadCostBasisSettings(supabase, accountCode);
+  const method = parseCostBasisMethod(methodOverride) ?? settings.method;
 
-  console.log(`Found ${sellTrades?.length || 0} sell trades for ${normalizedSymbol}`);
+  // Split lots across partial fills, including short sales and fees
+  const { closedLots } = matchLots(applyCorporateActions((trades || []) as TradeRecord[], corporateActions).rows, {
+    method,
+    lotSelections: settings.lotSelections,
+  });
 
-  // Debug: Log security types
-  if (buyTrades?.length) {
-    const buySecTypes = buyTrades.map(t => t.SecurityType);
-    console.log('Buy SecurityTypes:', [...new Set(buySecTypes)]);
-  }
-  if (sellTrades?.length) {
-    const sellSecTypes = sellTrades.map(t => t.SecurityType);
-    console.log('Sell SecurityTypes:', [...new Set(sellSecTypes)]);
-  }
-
-  if (!buyTrades?.length || !sellTrades?.length) {
+  if (!closedLots.length) {
     return {
       symbol: normalizedSymbol,
       message: `No matched buy/sell pairs found for ${normalizedSymbol}.`,
@@ -225,51 +224,21 @@ async function getProfitableTrades(symbol: string, onlyProfitable: boolean = tru
     };
   }
 
-  // Match trades using FIFO by security type
-  interface MatchedTrade {
-    buyTradeId: number;
-    buyDate: string;
-    securityType: string;
-    symbol: string;
-    quantity: number;
-    buyPrice: number;
-    buyCost: number;
-    sellTradeId: number;
-    sellDate: string;
-    sellPrice: number;
-    sellProceeds: number;
-    profitLoss: number;
-  }
-
-  const matchedTrades: MatchedTrade[] = [];
-  const securityTypes = ['S', 'O'];
-
-  for (const secType of securityTypes) {
-    const buys = buyTrades.filter(t => t.SecurityType === secType);
-    const sells = sellTrades.filter(t => t.SecurityType === secType);
-    const matchCount = Math.min(buys.length, sells.length);
-
-    for (let i = 0; i < matchCount; i++) {
-      const buy = buys[i];
-      const sell = sells[i];
-      const profitLoss = (parseFloat(sell.NetAmount) || 0) + (parseFloat(buy.NetAmount) || 0);
-
-      matchedTrades.push({
-        buyTradeId: buy.TradeID,
-        buyDate: formatCalendarDate(buy.Date),
-        securityType: secType === 'S' ? 'Stock' : 'Option',
-        symbol: buy.Symbol,
-        quantity: parseFloat(buy.StockShareQty || buy.OptionContracts || '0'),
-        buyPrice: parseFloat(buy.StockTradePrice || buy.OptionTradePremium || '0'),
-        buyCost: parseFloat(buy.NetAmount || '0'),
-        sellTradeId: sell.TradeID,
-        sellDate: formatCalendarDate(sell.Date),
-        sellPrice: parseFloat(sell.StockTradePrice || sell.OptionTradePremium || '0'),
-        sellProceeds: parseFloat(sell.NetAmount || '0'),
-        profitLoss,
-      });
-    }
-  }
+  const matchedTrades = closedLots.map(lot => ({
+    buyTradeId: lot.buyTradeId,
+    buyDate: formatCalendarDate(lot.buyDate),
+    securityType: lot.securityType,
+    side: lot.side,
+    symbol: lot.symbol,
+    quantity: lot.quantity,
+    buyPrice: lot.buyPrice,
+    buyCost: lot.costBasis,
+    sellTradeId: lot.sellTradeId,
+    sellDate: formatCalendarDate(lot.sellDate),
+    sellPrice: lot.sellPrice,
+    sellProceeds: lot.proceeds,
+    profitLoss: lot.profitLoss,
+  }));
 
   console.log(`Total matched trades before filter: ${matchedTrades.length}`);
   matchedTrades.forEach(t => console.log(`  ${t.securityType}: P/L = ${t.profitLoss}`));
@@ -286,6 +255,7 @@ async function getProfitableTrades(symbol: string, onlyProfitable: boolean = tru
 
   return {
     symbol: normalizedSymbol,
+    method: COST_BASIS_LABELS[method],
     totalMatchedTrades: results.length,
     profitableTrades: profitableCount,
     totalProfitLoss: totalProfit,
@@ -294,20 +264,27 @@ async function getProfitableTrades(symbol: string, onlyProfitable: boolean = tru
 }
 
 // Tool: Get detailed trades
-async function getDetailedTrades(symbol: string) {
-  const normalizedSymbol = normalizeSymbol(symbol);
-
-  const { data, error } = await supabase
-    .from('TradeData')
-    .select('*')
-    .eq('AccountCode', ACCOUNT_CODE)
-    .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
-    .order('Date', { ascending: false });
+async function getDetailedTrades(accountCode: string, symbol: string) {
+  const corporateActions = await loadCorporateActions(supabase);
+  const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+  const normalizedSymbol = symbolAliases[0];
+
+  const { data: rows, error } = await fetchAllRows(
+    supabase
+      .from('TradeData')
+      .select('*')
+      .eq('AccountCode', accountCode)
+      .or(buildSymbolFilter(symbolAliases))
+      .order('Date', { ascending: false })
+      .order('TradeID', { ascending: true })
+  );
 
   if (error) {
     return { error: error.message, symbol: normalizedSymbol };
   }
 
+  const { rows: data } = applyCorporateActions(rows || [], corporateActions);
+
   // Calculate totals for stock trades
   const stockTrades = data?.filter(t => t.SecurityType === 'S') || [];
   const optionTrades = data?.filter(t => t.SecurityType === 'O') || [];
@@ -367,6 +344,7 @@ async function getDetailedTrades(symbol: string) {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
 
     // ElevenLabs sends tool calls - parameters can be nested or flat
     const tool_name = body.tool_name;
@@ -379,17 +357,18 @@ export async function POST(req: NextRequest) {
     switch (tool_name) {
       case 'getTradeSummary':
       case 'get_trade_summary':
-        result = await getTradeSummary(parameters.symbol);
+        result = await getTradeSummary(accountCode, parameters.symbol);
         break;
 
       case 'getDetailedTrades':
       case 'get_detailed_trades':
-        result = await getDetailedTrades(parameters.symbol);
+        result = await getDetailedTrades(accountCode, parameters.symbol);
         break;
 
       case 'getTradeStats':
       case 'get_trade_stats':
         result = await getTradeStats(
+          accountCode,
           parameters.symbol,
           parameters.trade_type || parameters.tradeType,
           parameters.year,
@@ -400,8 +379,10 @@ export async function POST(req: NextRequest) {
       case 'getProfitableTrades':
       case 'get_profitable_trades':
         result = await getProfitableTrades(
+          accountCode,
           parameters.symbol,
-          parameters.only_profitable ?? parameters.onlyProfitable ?? true
+          parameters.only_profitable ?? parameters.onlyProfitable ?? true,
+          parameters.method
         );
         break;
 
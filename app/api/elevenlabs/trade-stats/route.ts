@@ -2,14 +2,14 @@ import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
 import { formatCalendarDate, getDateOffset } from '@/src/lib/date-utils';
 import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 // Format price as currency - keep in numeric form
 function formatPrice(price: number): string {
   return `$${price.toFixed(2)}`;
@@ -48,6 +48,7 @@ function normalizeSymbol(input: string): string {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     console.log('Trade stats request:', JSON.stringify(body, null, 2));
 
     const symbol = body.symbol || body.parameters?.symbol;
@@ -60,7 +61,9 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    const normalizedSymbol = normalizeSymbol(symbol);
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+    const normalizedSymbol = symbolAliases[0];
 
     // Get the date offset to map user's year to demo database year
     const offset = getDateOffset();
@@ -97,9 +100,9 @@ export async function POST(req: NextRequest) {
     let query = supabase
       .from('TradeData')
       .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
+      .eq('AccountCode', accountCode)
       .eq('SecurityType', 'S')
-      .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
+      .or(buildSymbolFilter(symbolAliases))
       .gte('Date', dateStart)
       .lte('Date', dateEnd);
 
@@ -108,7 +111,7 @@ export async function POST(req: NextRequest) {
       query = query.eq('TradeType', normalizedType);
     }
 
-    const { data, error } = await query.order('Date', { ascending: false });
+    const { data: rows, error } = await query.order('Date', { ascending: false });
 
     if (error) {
       return NextResponse.json({
@@ -116,7 +119,10 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    if (!data || data.length === 0) {
+    // Prices and share counts restated for splits
+    const { rows: data } = applyCorporateActions(rows || [], corporateActions);
+
+    if (data.length === 0) {
       const typeLabel = tradeType ? (tradeType.toLowerCase().startsWith('s') ? 'sell' : 'buy') : '';
       return NextResponse.json({
         response: `No ${typeLabel} trades found for ${normalizedSymbol} ${periodDescription}.`,
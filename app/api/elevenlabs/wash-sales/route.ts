@@ -0,0 +1,116 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatCalendarDate } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { detectWashSales } from '@/src/lib/wash-sales';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    console.log('Wash sales request body:', JSON.stringify(body, null, 2));
+
+    // Extract parameters from various possible locations
+    const symbol = body.symbol || body.parameters?.symbol ||
+                   body.body?.symbol || body.body?.parameters?.symbol;
+    const timePeriod = body.time_period || body.parameters?.time_period ||
+                       body.body?.time_period || body.body?.parameters?.time_period;
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    let query = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    if (normalizedSymbol) {
+      query = query.or(buildSymbolFilter(symbolAliases));
+    }
+
+    const { data: trades, error } = await fetchAllRows(query);
+
+    if (error) {
+      return NextResponse.json({
+        response: `Error retrieving trade data: ${error.message}`,
+      });
+    }
+
+    const { rows: adjustedTrades } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+    const report = detectWashSales(adjustedTrades, settings);
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const startDate = parsedTime?.dateRange.startDate;
+    const endDate = parsedTime?.dateRange.endDate;
+    const washSales = report.washSales.filter(w =>
+      (!startDate || w.lossDate >= startDate) && (!endDate || w.lossDate <= endDate)
+    );
+
+    const subject = normalizedSymbol ? `on ${normalizedSymbol}` : 'in your account';
+    const periodText = parsedTime ? ` for ${parsedTime.dateRange.description || timePeriod}` : '';
+
+    if (washSales.length === 0) {
+      return NextResponse.json({
+        response: `No wash sales found ${subject}${periodText}. None of your realized losses had a repurchase within 30 days before or after the sale.`,
+      });
+    }
+
+    const totalDisallowed = washSales.reduce((sum, w) => sum + w.disallowedLoss, 0);
+    let response = `Yes, I found ${washSales.length} wash sale${washSales.length !== 1 ? 's' : ''} ${subject}${periodText}, disallowing ${formatCurrency(totalDisallowed)} of losses. The disallowed amount is added to the cost basis of the replacement shares. `;
+
+    washSales.slice(0, 3).forEach((w, i) => {
+      const timing = w.daysApart >= 0 ? `${w.daysApart} days after` : `${Math.abs(w.daysApart)} days before`;
+      response += `Sale ${i + 1}: ${w.lossInstrument} sold ${formatCalendarDate(w.lossDate)}, replaced by ${w.replacementInstrument} bought ${formatCalendarDate(w.replacementDate)}, ${timing} the sale, ${formatCurrency(w.disallowedLoss)} disallowed. `;
+    });
+
+    return NextResponse.json({ response: response.trim() });
+  } catch (error) {
+    console.error('Wash sales error:', error);
+    return NextResponse.json({
+      response: 'Sorry, there was an error checking for wash sales.',
+    });
+  }
+}
@@ -0,0 +1,144 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { CsvMarketDataProvider, createMarketDataProvider } from '@/src/lib/market-data';
+import { applyWatchlistChange, loadWatchlistReport } from '@/src/lib/watchlists';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+function formatCurrency(value: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+}
+
+// Signed currency for speech, e.g. "a gain of $1,200.00" / "a loss of $300.00"
+function describeAmount(value: number): string {
+  return value >= 0 ? `a gain of ${formatCurrency(value)}` : `a loss of ${formatCurrency(Math.abs(value))}`;
+}
+
+function describePercent(value: number): string {
+  return `${value >= 0 ? 'up' : 'down'} ${Math.abs(value).toFixed(1)} percent`;
+}
+
+// Comma-separated symbols ("AMD, nvidia") to tickers
+function toSymbolList(value: unknown): string[] {
+  return typeof value === 'string'
+    ? value.split(',').map(s => s.trim()).filter(s => s !== '').map(normalizeSymbol)
+    : [];
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ response: `I couldn't find account ${accountCode}.` });
+    }
+    console.log('Watchlists request body:', JSON.stringify(body, null, 2));
+
+    // Extract parameters from various possible locations
+    const name = body.watchlist_name || body.parameters?.watchlist_name ||
+                 body.body?.watchlist_name || body.body?.parameters?.watchlist_name;
+    const addSymbols = body.add_symbols || body.parameters?.add_symbols ||
+                       body.body?.add_symbols || body.body?.parameters?.add_symbols;
+    const removeSymbols = body.remove_symbols || body.parameters?.remove_symbols ||
+                          body.body?.remove_symbols || body.body?.parameters?.remove_symbols;
+    const timePeriod = body.time_period || body.parameters?.time_period ||
+                       body.body?.time_period || body.body?.parameters?.time_period;
+
+    const requested = toSymbolList(addSymbols);
+    const change = await applyWatchlistChange(supabase, accountCode, {
+      name,
+      add: requested,
+      remove: toSymbolList(removeSymbols),
+    });
+
+    if (!change.watchlist) {
+      const names = change.watchlists.map(w => w.name);
+      return NextResponse.json({
+        response: names.length > 0
+          ? `I could not find ${name ? `a watchlist named ${name}` : 'that watchlist'}. Your watchlists are ${names.join(', ')}.`
+          : 'You do not have any watchlists yet. You can ask me to add a symbol to one to create it.',
+      });
+    }
+
+    const { watchlist } = change;
+    let response = '';
+    if (change.created) {
+      response += `I created the ${watchlist.name} watchlist with ${watchlist.symbols.join(', ')}. `;
+    } else {
+      if (change.added.length > 0) response += `Added ${change.added.join(', ')} to ${watchlist.name}. `;
+      if (change.removed.length > 0) response += `Removed ${change.removed.join(', ')} from ${watchlist.name}. `;
+      if (requested.length > 0 && change.added.length === 0) {
+        response += `${requested.join(', ')} ${requested.length === 1 ? 'is' : 'are'} already on ${watchlist.name}. `;
+      }
+    }
+
+    if (watchlist.symbols.length === 0) {
+      return NextResponse.json({ response: `${response}${watchlist.name} is empty.`.trim() });
+    }
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const marketData = createMarketDataProvider(
+      supabase,
+      new CsvMarketDataProvider({ baseUrl: `${req.nextUrl.origin}/market-data` })
+    );
+    const report = await loadWatchlistReport(supabase, accountCode, watchlist, marketData, {
+      startDate: parsedTime?.dateRange.startDate,
+      endDate: parsedTime?.dateRange.endDate,
+      periodLabel: parsedTime?.dateRange.description,
+    });
+    const period = parsedTime?.dateRange.description || 'today';
+
+    response += `${watchlist.name} holds ${watchlist.symbols.join(', ')}. `;
+    const moves = report.symbols
+      .filter(s => s.changePercent !== null)
+      .map(s => `${s.symbol} ${describePercent(s.changePercent!)}`);
+    if (moves.length > 0) {
+      response += `For ${period}: ${moves.join(', ')}`;
+      response += report.averageChangePercent !== null ? `, an average of ${describePercent(report.averageChangePercent)}. ` : '. ';
+    }
+
+    const traded = report.symbols.filter(s => s.realizedPnL !== 0 || s.shares !== 0);
+    if (traded.length > 0) {
+      response += `Your own trades in these names show ${describeAmount(report.realizedPnL)} realized ${parsedTime ? `in ${period}` : 'to date'} `;
+      response += `and ${describeAmount(report.unrealizedPnL)} unrealized on open positions.`;
+    } else {
+      response += 'You have no trades or open positions in these symbols.';
+    }
+
+    return NextResponse.json({ response: response.trim() });
+  } catch (error) {
+    console.error('Watchlists error:', error);
+    return NextResponse.json({
+      response: 'Sorry, there was an error updating your watchlist.',
+    });
+  }
+}
@@ -1,14 +1,30 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
-import { formatCalendarDate, realDateToDemoDate, formatDateForDB } from '@/src/lib/date-utils';
+import { demoDateToRealDate, formatCalendarDate } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import {
+  applyCorporateActions,
+  buildSymbolFilter,
+  getCurrentSymbol,
+  getSymbolAliases,
+  loadCorporateActions,
+} from '@/src/lib/corporate-actions';
+import {
+  analyzeFees,
+  getFeeAmount,
+  FEE_ACTIVITY_COLUMNS,
+  type FeeActivityRecord,
+  type FeeType,
+} from '@/src/lib/fees';
+import { fetchAllRows } from '@/src/lib/paged-query';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 const SYMBOL_MAP: Record<string, string> = {
   'apple': 'AAPL',
   'google': 'GOOGL',
@@ -26,159 +42,105 @@ function normalizeSymbol(input: string): string {
   return SYMBOL_MAP[lower] || input.toUpperCase();
 }
 
-export interface FeesUIData {
-  feeType: string;
-  totalAmount: number;
-  transactionCount: number;
-  timePeriod: string;
-  symbol?: string;
-  breakdown?: Array<{
-    date: string;
-    amount: number;
-    symbol?: string;
-  }>;
-}
-
-function getDateRange(timePeriod: string): { fromDate: string; toDate: string } {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const lowerPeriod = timePeriod.toLowerCase();
-
-  // Convert real dates to demo dates for DB queries
-  const toDBDateStr = (date: Date): string => {
-    const demoDate = realDateToDemoDate(date);
-    return formatDateForDB(demoDate);
-  };
-
-  if (lowerPeriod.includes('last month') || lowerPeriod.includes('past month')) {
-    const fromDate = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-    const toDate = new Date(today.getFullYear(), today.getMonth(), 0);
-    return { fromDate: toDBDateStr(fromDate), toDate: toDBDateStr(toDate) };
-  }
-
-  if (lowerPeriod.includes('this month')) {
-    const fromDate = new Date(today.getFullYear(), today.getMonth(), 1);
-    return { fromDate: toDBDateStr(fromDate), toDate: toDBDateStr(today) };
-  }
-
-  if (lowerPeriod.includes('last week') || lowerPeriod.includes('past week')) {
-    const fromDate = new Date(today);
-    fromDate.setDate(today.getDate() - 7);
-    return { fromDate: toDBDateStr(fromDate), toDate: toDBDateStr(today) };
-  }
-
-  if (lowerPeriod.includes('this week')) {
-    const dayOfWeek = today.getDay();
-    const fromDate = new Date(today);
-    fromDate.setDate(today.getDate() - dayOfWeek);
-    return { fromDate: toDBDateStr(fromDate), toDate: toDBDateStr(today) };
-  }
-
-  if (lowerPeriod.includes('this year') || lowerPeriod.includes('since the beginning of the year')) {
-    const fromDate = new Date(today.getFullYear(), 0, 1);
-    return { fromDate: toDBDateStr(fromDate), toDate: toDBDateStr(today) };
-  }
-
-  // Check for month names
-  const monthNames = ['january', 'february', 'march', 'april', 'may', 'june',
-                      'july', 'august', 'september', 'october', 'november', 'december'];
-  for (let i = 0; i < monthNames.length; i++) {
-    if (lowerPeriod.includes(monthNames[i])) {
-      const year = lowerPeriod.includes('last year') ? today.getFullYear() - 1 : today.getFullYear();
-      const fromDate = new Date(year, i, 1);
-      const toDate = new Date(year, i + 1, 0);
-      return { fromDate: toDBDateStr(fromDate), toDate: toDBDateStr(toDate) };
-    }
-  }
-
-  // Default to last 30 days
-  const fromDate = new Date(today);
-  fromDate.setDate(today.getDate() - 30);
-  return { fromDate: toDBDateStr(fromDate), toDate: toDBDateStr(today) };
+// Convert a database month (YYYY-MM) to the display month (e.g. "Oct 2025")
+function formatMonth(month: string): string {
+  return demoDateToRealDate(`${month}-15`).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+  });
 }
 
+// Returns commissions, exchange fees, locate fees and interest by symbol and month for UI rendering
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const feeType = body.feeType || 'commission';
-    const timePeriod = body.timePeriod || 'this month';
-    const symbol = body.symbol;
-
-    const { fromDate, toDate } = getDateRange(timePeriod);
-
-    // Handle commissions from TradeData table
-    if (feeType === 'commission') {
-      const { data, error } = await supabase
-        .from('TradeData')
-        .select('Commission, Date, Symbol')
-        .eq('AccountCode', ACCOUNT_CODE)
-        .gte('Date', fromDate)
-        .lte('Date', toDate)
-        .order('Date', { ascending: false });
-
-      if (error || !data) {
-        return NextResponse.json({ error: 'No data found' });
-      }
-
-      const totalAmount = data.reduce((sum, trade) => sum + Math.abs(trade.Commission || 0), 0);
-
-      return NextResponse.json({
-        feeType,
-        totalAmount,
-        transactionCount: data.length,
-        timePeriod,
-        breakdown: data.slice(0, 10).map(t => ({
-          date: formatCalendarDate(t.Date),
-          amount: Math.abs(t.Commission || 0),
-          symbol: t.Symbol,
-        })),
-      });
+    const accountCode = resolveAccountCode(req, body);
+    const { symbol, timePeriod } = body as { symbol?: string; timePeriod?: string };
+    const feeType: FeeType = body.feeType || 'all';
+
+    // Without a period the whole history is used; an unrecognized one is an error rather than a guess
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    if (timePeriod && !parsedTime) {
+      return NextResponse.json({ error: `Unrecognized time period: ${timePeriod}` }, { status: 400 });
     }
 
-    // Handle other fee types from FeesAndInterest table
-    const feeTypeMap: Record<string, string> = {
-      'credit_interest': 'CreditInt',
-      'debit_interest': 'DebitInt',
-      'locate_fee': 'LocateFee',
-    };
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
 
-    const dbFeeType = feeTypeMap[feeType];
+    let tradeQuery = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
 
-    let query = supabase
+    let feeQuery = supabase
       .from('FeesAndInterest')
-      .select('*')
-      .eq('Type', dbFeeType)
-      .gte('Date', fromDate)
-      .lte('Date', toDate)
-      .order('Date', { ascending: false });
-
-    if (feeType === 'locate_fee' && symbol) {
-      const normalizedSymbol = normalizeSymbol(symbol);
-      query = query.eq('Symbol', normalizedSymbol);
+      .select(FEE_ACTIVITY_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (parsedTime) {
+      const { startDate, endDate } = parsedTime.dateRange;
+      tradeQuery = tradeQuery.gte('Date', startDate).lte('Date', endDate);
+      feeQuery = feeQuery.gte('Date', startDate).lte('Date', endDate);
+    }
+
+    if (normalizedSymbol) {
+      tradeQuery = tradeQuery.or(buildSymbolFilter(symbolAliases));
+      feeQuery = feeQuery.in('Symbol', symbolAliases);
     }
 
-    const { data, error } = await query;
+    const [trades, fees] = await Promise.all([fetchAllRows(tradeQuery), fetchAllRows(feeQuery)]);
 
-    if (error || !data) {
-      return NextResponse.json({ error: 'No data found' });
+    const error = trades.error || fees.error;
+    if (error) {
+      console.error('Fees UI error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    const totalAmount = data.reduce((sum, fee) => sum + Math.abs(fee.Amount || 0), 0);
+    // Share counts follow splits and fees roll up under the current ticker
+    const { rows: adjustedTrades, adjustments: corporateAdjustments } = applyCorporateActions(
+      (trades.data || []) as TradeRecord[],
+      corporateActions
+    );
+    const report = analyzeFees(
+      adjustedTrades,
+      ((fees.data || []) as FeeActivityRecord[]).map(fee => ({
+        ...fee,
+        Symbol: fee.Symbol ? getCurrentSymbol(fee.Symbol, corporateActions) : fee.Symbol,
+      }))
+    );
+
+    const breakdown = report.items.filter(item => feeType === 'all' || item.feeType === feeType);
 
     return NextResponse.json({
       feeType,
-      totalAmount,
-      transactionCount: data.length,
-      timePeriod,
-      symbol: symbol ? normalizeSymbol(symbol) : undefined,
-      breakdown: data.slice(0, 10).map(f => ({
-        date: formatCalendarDate(f.Date),
-        amount: Math.abs(f.Amount || 0),
-        symbol: f.Symbol,
+      symbol: normalizedSymbol ?? undefined,
+      timePeriod: parsedTime?.dateRange.description || timePeriod || 'All time',
+      corporateAdjustments,
+      totalAmount: getFeeAmount(report.totals, feeType),
+      transactionCount: breakdown.length,
+      totals: report.totals,
+      trades: report.trades,
+      shares: report.shares,
+      contracts: report.contracts,
+      grossAmount: report.grossAmount,
+      costPerShare: report.costPerShare,
+      costPerContract: report.costPerContract,
+      feePercentOfGross: report.feePercentOfGross,
+      bySymbol: report.bySymbol,
+      byMonth: report.byMonth.map(m => ({ ...m, label: formatMonth(m.month) })),
+      breakdown: breakdown.map(item => ({
+        ...item,
+        date: formatCalendarDate(item.date),
+        symbol: item.symbol ?? undefined,
       })),
     });
   } catch (error) {
     console.error('Fees UI error:', error);
-    return NextResponse.json({ error: 'Internal server error' });
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
@@ -0,0 +1,131 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatCalendarDate, getDemoToday } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import {
+  applyCorporateActions,
+  applyCorporateActionsToDividends,
+  buildSymbolFilter,
+  getSymbolAliases,
+  loadCorporateActions,
+} from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { DIVIDEND_RECORD_COLUMNS, getTrailingDividendsPerShare, type DividendRecord } from '@/src/lib/dividends';
+import { computeGreeksExposure, type ContractGreeks } from '@/src/lib/greeks';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+  'bank of america': 'BAC',
+  'citigroup': 'C',
+  'gamestop': 'GME',
+  'lucid': 'LCID',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+// Returns Black-Scholes Greeks for open option contracts and net delta per underlying for UI rendering
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    const { symbol } = body;
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    let query = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    let dividendQuery = supabase
+      .from('Dividends')
+      .select(DIVIDEND_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('PayDate', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (normalizedSymbol) {
+      query = query.or(buildSymbolFilter(symbolAliases));
+      dividendQuery = dividendQuery.in('Symbol', symbolAliases);
+    }
+
+    // Dividends set the yield in the pricing model, so a failed load is an error rather than a zero yield
+    const [{ data: trades, error: tradeError }, { data: dividends, error: dividendError }] =
+      await Promise.all([fetchAllRows(query), fetchAllRows(dividendQuery)]);
+
+    const error = tradeError || dividendError;
+    if (error) {
+      console.error('Greeks API error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { rows: adjustedTrades, adjustments: corporateAdjustments } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    const asOf = getDemoToday();
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+    const report = computeGreeksExposure(adjustedTrades, {
+      ...settings,
+      asOf,
+      annualDividends: getTrailingDividendsPerShare(
+        applyCorporateActionsToDividends((dividends || []) as DividendRecord[], corporateActions).rows,
+        asOf
+      ),
+    });
+
+    // Per-series lookup for option tables, keyed like the lot-matching instrument key (database dates)
+    const bySeries: Record<string, Pick<ContractGreeks, 'delta' | 'gamma' | 'theta' | 'vega' | 'impliedVolatility' | 'theoreticalValue'>> = {};
+    for (const c of report.contracts) {
+      bySeries[c.instrumentKey] = {
+        delta: c.delta,
+        gamma: c.gamma,
+        theta: c.theta,
+        vega: c.vega,
+        impliedVolatility: c.impliedVolatility,
+        theoreticalValue: c.theoreticalValue,
+      };
+    }
+
+    const toDisplay = (c: ContractGreeks) => ({ ...c, expiration: formatCalendarDate(c.expiration) });
+
+    return NextResponse.json({
+      symbol: normalizedSymbol,
+      corporateAdjustments,
+      asOf: formatCalendarDate(asOf),
+      rate: report.rate,
+      dollarDelta: report.dollarDelta,
+      theta: report.theta,
+      vega: report.vega,
+      unpriced: report.unpriced,
+      byUnderlying: report.byUnderlying.map(g => ({ ...g, contracts: g.contracts.map(toDisplay) })),
+      bySeries,
+    });
+  } catch (error) {
+    console.error('Greeks API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import { deleteJournalEntry, loadJournalEntries, parseTradeId, saveJournalEntry } from '@/src/lib/journal';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const invalidTradeId = (value: string) =>
+  NextResponse.json({ error: `Invalid tradeId: ${value}` }, { status: 400 });
+
+// GET /api/journal/[tradeId] - Get the entry for a trade
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ tradeId: string }> }
+) {
+  try {
+    const { tradeId: tradeIdParam } = await params;
+    const tradeId = parseTradeId(tradeIdParam);
+    if (tradeId === null) {
+      return invalidTradeId(tradeIdParam);
+    }
+    const accountCode = resolveAccountCode(req);
+
+    const entries = await loadJournalEntries(supabase, accountCode, [tradeId]);
+    const entry = entries[tradeId];
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Journal entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Error fetching journal entry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/journal/[tradeId] - Update notes, tags or setup (fields left out keep their value)
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ tradeId: string }> }
+) {
+  try {
+    const { tradeId: tradeIdParam } = await params;
+    const tradeId = parseTradeId(tradeIdParam);
+    if (tradeId === null) {
+      return invalidTradeId(tradeIdParam);
+    }
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+    const { notes, tags, setup } = body;
+
+    const existing = (await loadJournalEntries(supabase, accountCode, [tradeId]))[tradeId];
+
+    const entry = await saveJournalEntry(supabase, accountCode, {
+      tradeId,
+      notes: notes !== undefined ? notes : existing?.notes,
+      tags: Array.isArray(tags) ? tags : existing?.tags ?? [],
+      setup: setup !== undefined ? setup : existing?.setup,
+    });
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Error updating journal entry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/journal/[tradeId] - Delete the entry for a trade
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ tradeId: string }> }
+) {
+  try {
+    const { tradeId: tradeIdParam } = await params;
+    const tradeId = parseTradeId(tradeIdParam);
+    if (tradeId === null) {
+      return invalidTradeId(tradeIdParam);
+    }
+    const accountCode = resolveAccountCode(req);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+
+    await deleteJournalEntry(supabase, accountCode, tradeId);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting journal entry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
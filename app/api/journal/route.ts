@@ -0,0 +1,79 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import {
+  findTradeIdsByTag,
+  loadJournalEntries,
+  parseTradeId,
+  saveJournalEntry,
+  type JournalInput,
+} from '@/src/lib/journal';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// GET /api/journal?tag=earnings-play&tradeIds=1,2 - List journal entries and the tags in use
+export async function GET(req: NextRequest) {
+  try {
+    const accountCode = resolveAccountCode(req);
+    const { searchParams } = new URL(req.url);
+    const tag = searchParams.get('tag');
+    const tradeIdsParam = searchParams.get('tradeIds');
+
+    let tradeIds: number[] | undefined;
+    if (tradeIdsParam) {
+      const values = tradeIdsParam.split(',');
+      const invalid = values.find(value => parseTradeId(value) === null);
+      if (invalid !== undefined) {
+        return NextResponse.json({ error: `Invalid tradeId: ${invalid}` }, { status: 400 });
+      }
+      tradeIds = values.map(value => parseTradeId(value)!);
+    }
+    if (tag) {
+      const tagged = await findTradeIdsByTag(supabase, accountCode, tag);
+      tradeIds = tradeIds ? tradeIds.filter(id => tagged.includes(id)) : tagged;
+    }
+
+    const entries = await loadJournalEntries(supabase, accountCode, tradeIds);
+    const tags = Array.from(new Set(Object.values(entries).flatMap(entry => entry.tags))).sort();
+
+    return NextResponse.json({ entries: Object.values(entries), tags });
+  } catch (error) {
+    console.error('Error fetching journal entries:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/journal - Create or replace the entry for a trade
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+    const { tradeId, notes, tags, setup } = body as Partial<JournalInput>;
+
+    if (tradeId === undefined || tradeId === null) {
+      return NextResponse.json({ error: 'tradeId is required' }, { status: 400 });
+    }
+    const parsedTradeId = parseTradeId(String(tradeId));
+    if (parsedTradeId === null) {
+      return NextResponse.json({ error: `Invalid tradeId: ${tradeId}` }, { status: 400 });
+    }
+
+    const entry = await saveJournalEntry(supabase, accountCode, {
+      tradeId: parsedTradeId,
+      notes,
+      tags: Array.isArray(tags) ? tags : [],
+      setup,
+    });
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    console.error('Error saving journal entry:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,145 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatCalendarDate, getDemoToday } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import {
+  applyCorporateActions,
+  applyCorporateActionsToDividends,
+  getCurrentSymbol,
+  loadCorporateActions,
+  mergeAdjustments,
+} from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { DIVIDEND_RECORD_COLUMNS, getTrailingDividendsPerShare, type DividendRecord } from '@/src/lib/dividends';
+import {
+  STRESS_BALANCE_COLUMNS,
+  resolveStressRates,
+  runMarginStressTest,
+  type StressBalanceRecord,
+  type StressRateOverrides,
+} from '@/src/lib/margin-stress';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+  'bank of america': 'BAC',
+  'citigroup': 'C',
+  'gamestop': 'GME',
+  'lucid': 'LCID',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+// Returns current vs projected margin after price shocks (in percent) and the positions driving the change
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    const { symbol, shockPercent, shocks: shockPercents, portfolioShockPercent, rates } = body as {
+      symbol?: string;
+      shockPercent?: number;
+      shocks?: Record<string, number>;
+      portfolioShockPercent?: number;
+      rates?: StressRateOverrides;
+    };
+
+    // Shocks are given in percent (-20 = down 20%), keyed by the current ticker
+    const corporateActions = await loadCorporateActions(supabase);
+    const shocks: Record<string, number> = {};
+    for (const [underlying, percent] of Object.entries(shockPercents || {})) {
+      shocks[getCurrentSymbol(normalizeSymbol(underlying), corporateActions)] = Number(percent) / 100;
+    }
+    const normalizedSymbol = symbol ? getCurrentSymbol(normalizeSymbol(symbol), corporateActions) : null;
+    if (normalizedSymbol && shockPercent !== undefined) {
+      shocks[normalizedSymbol] = Number(shockPercent) / 100;
+    }
+    // A shock without a symbol moves the whole portfolio
+    const portfolioShock =
+      portfolioShockPercent !== undefined
+        ? Number(portfolioShockPercent) / 100
+        : !normalizedSymbol && shockPercent !== undefined
+          ? Number(shockPercent) / 100
+          : 0;
+
+    const [{ data: trades, error }, { data: balance, error: balanceError }, { data: dividends, error: dividendError }] = await Promise.all([
+      fetchAllRows(
+        supabase
+          .from('TradeData')
+          .select(TRADE_RECORD_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('Date', { ascending: true })
+          .order('TradeID', { ascending: true })
+      ),
+      supabase
+        .from('AccountBalance')
+        .select(STRESS_BALANCE_COLUMNS)
+        .eq('AccountCode', accountCode)
+        .order('Date', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      fetchAllRows(
+        supabase
+          .from('Dividends')
+          .select(DIVIDEND_RECORD_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('PayDate', { ascending: true })
+          .order('id', { ascending: true })
+      ),
+    ]);
+
+    const loadError = error || balanceError || dividendError;
+    if (loadError) {
+      console.error('Margin stress API error:', loadError);
+      return NextResponse.json({ error: loadError.message }, { status: 500 });
+    }
+
+    if (!balance) {
+      return NextResponse.json({ error: 'No account balance found' });
+    }
+
+    const adjustedTrades = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+    const adjustedDividends = applyCorporateActionsToDividends((dividends || []) as DividendRecord[], corporateActions);
+
+    const asOf = getDemoToday();
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+    const report = runMarginStressTest(adjustedTrades.rows, balance as StressBalanceRecord, {
+      ...settings,
+      asOf,
+      annualDividends: getTrailingDividendsPerShare(adjustedDividends.rows, asOf),
+      shocks,
+      portfolioShock,
+      rates: resolveStressRates(rates),
+    });
+
+    return NextResponse.json({
+      ...report,
+      symbol: normalizedSymbol,
+      corporateAdjustments: mergeAdjustments(adjustedTrades.adjustments, adjustedDividends.adjustments),
+      asOf: formatCalendarDate(report.asOf),
+      balanceDate: formatCalendarDate(report.balanceDate),
+    });
+  } catch (error) {
+    console.error('Margin stress API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
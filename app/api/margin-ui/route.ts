@@ -0,0 +1,72 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatCalendarDate } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import {
+  DEFAULT_MARGIN_THRESHOLDS,
+  MARGIN_ALERT_LABELS,
+  buildMarginHealth,
+  refreshMarginAlerts,
+  type MarginAlert,
+} from '@/src/lib/margin';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+function formatAlert(alert: MarginAlert) {
+  return {
+    ...alert,
+    label: MARGIN_ALERT_LABELS[alert.type],
+    date: formatCalendarDate(alert.date),
+  };
+}
+
+// Returns the margin health timeline, active warnings and alert history for UI rendering
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+    const { timePeriod, minExcessPercent, smaDropPercent } = body as {
+      timePeriod?: string;
+      minExcessPercent?: number;
+      smaDropPercent?: number;
+    };
+
+    // Every snapshot is evaluated (the SMA drop needs the day before); the period only limits what is shown.
+    // Alerts are recorded at the default thresholds; other thresholds change only what is displayed.
+    const { balances, report: recorded } = await refreshMarginAlerts(supabase, accountCode);
+    const report = minExcessPercent === undefined && smaDropPercent === undefined
+      ? recorded
+      : buildMarginHealth(balances, {
+        minExcessPercent: minExcessPercent ?? DEFAULT_MARGIN_THRESHOLDS.minExcessPercent,
+        smaDropPercent: smaDropPercent ?? DEFAULT_MARGIN_THRESHOLDS.smaDropPercent,
+      });
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const startDate = parsedTime?.dateRange.startDate;
+    const endDate = parsedTime?.dateRange.endDate;
+    const inPeriod = (date: string) => (!startDate || date >= startDate) && (!endDate || date <= endDate);
+
+    return NextResponse.json({
+      timePeriod: parsedTime?.dateRange.description || timePeriod || 'All time',
+      status: report.status,
+      thresholds: report.thresholds,
+      latest: report.latest ? { ...report.latest, date: formatCalendarDate(report.latest.date) } : null,
+      active: report.active.map(formatAlert),
+      // Most recent first
+      alerts: report.alerts.filter(alert => inPeriod(alert.date)).reverse().map(formatAlert),
+      timeline: report.timeline
+        .filter(snapshot => inPeriod(snapshot.date))
+        .map(snapshot => ({ ...snapshot, label: formatCalendarDate(snapshot.date) })),
+    });
+  } catch (error) {
+    console.error('Margin API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
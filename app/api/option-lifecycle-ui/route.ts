@@ -0,0 +1,110 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatCalendarDate, getDemoToday } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type LotSide, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { resolveOptionLifecycle, type OptionOutcome } from '@/src/lib/option-lifecycle';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+  'bank of america': 'BAC',
+  'citigroup': 'C',
+  'gamestop': 'GME',
+  'lucid': 'LCID',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+// Returns how each option contract ended (closed, expired, assigned, exercised, open) for UI rendering
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    const { symbol, timePeriod, outcome, side } = body as {
+      symbol?: string;
+      timePeriod?: string;
+      outcome?: OptionOutcome;
+      side?: LotSide;
+    };
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    // Stock trades are needed to recognise assignments and exercises
+    let query = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    if (normalizedSymbol) {
+      query = query.or(buildSymbolFilter(symbolAliases));
+    }
+
+    const { data: trades, error } = await fetchAllRows(query);
+
+    if (error) {
+      console.error('Option lifecycle API error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { rows: adjustedTrades, adjustments: corporateAdjustments } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+
+    const report = resolveOptionLifecycle(adjustedTrades, {
+      ...settings,
+      asOf: getDemoToday(),
+      startDate: parsedTime?.dateRange.startDate,
+      endDate: parsedTime?.dateRange.endDate,
+      side,
+    });
+
+    const events = report.events
+      .filter(e => !outcome || e.outcome === outcome)
+      .map(e => ({
+        ...e,
+        expiration: formatCalendarDate(e.expiration),
+        openDate: formatCalendarDate(e.openDate),
+        resolvedDate: e.resolvedDate ? formatCalendarDate(e.resolvedDate) : null,
+      }));
+
+    return NextResponse.json({
+      symbol: normalizedSymbol,
+      corporateAdjustments,
+      timePeriod: parsedTime?.dateRange.description || timePeriod || 'All time',
+      outcome: outcome || null,
+      ...report,
+      events,
+    });
+  } catch (error) {
+    console.error('Option lifecycle API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
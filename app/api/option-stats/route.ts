@@ -1,13 +1,13 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 const SYMBOL_MAP: Record<string, string> = {
   'apple': 'AAPL',
   'google': 'GOOGL',
@@ -36,13 +36,16 @@ function normalizeSymbol(input: string): string {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     const { symbol, tradeType, year } = body;
 
     if (!symbol) {
       return NextResponse.json({ error: 'Symbol required' }, { status: 400 });
     }
 
-    const normalizedSymbol = normalizeSymbol(symbol);
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+    const normalizedSymbol = symbolAliases[0];
     const filterYear = year || new Date().getFullYear();
     const yearStart = `${filterYear}-01-01`;
     const yearEnd = `${filterYear}-12-31`;
@@ -50,9 +53,9 @@ export async function POST(req: NextRequest) {
     let query = supabase
       .from('TradeData')
       .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
+      .eq('AccountCode', accountCode)
       .eq('SecurityType', 'O') // Options only
-      .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
+      .or(buildSymbolFilter(symbolAliases))
       .gte('Date', yearStart)
       .lte('Date', yearEnd);
 
@@ -61,13 +64,16 @@ export async function POST(req: NextRequest) {
       query = query.eq('TradeType', normalizedType);
     }
 
-    const { data, error } = await query.order('Date', { ascending: false });
+    const { data: rows, error } = await query.order('Date', { ascending: false });
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    if (!data || data.length === 0) {
+    // Premiums, contracts and strikes restated for splits
+    const { rows: data, adjustments: corporateAdjustments } = applyCorporateActions(rows || [], corporateActions);
+
+    if (data.length === 0) {
       return NextResponse.json({ optionStats: null });
     }
 
@@ -93,6 +99,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({
       optionStats: {
         symbol: normalizedSymbol,
+        corporateAdjustments,
         year: filterYear,
         tradeType: typeLabel,
         highestPremium,
@@ -0,0 +1,143 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { demoDateToRealDate, formatCalendarDate } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { DIVIDEND_RECORD_COLUMNS, type DividendRecord } from '@/src/lib/dividends';
+import {
+  BALANCE_RECORD_COLUMNS,
+  FEE_RECORD_COLUMNS,
+  computePerformance,
+  inferExternalCashFlows,
+  type BalanceRecord,
+  type FeeRecord,
+  type PeriodReturn,
+} from '@/src/lib/performance';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+function formatMonth(month: string): string {
+  return demoDateToRealDate(`${month}-15`).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+function formatQuarter(quarter: string): string {
+  const [year, q] = quarter.split('-Q').map(Number);
+  const date = demoDateToRealDate(`${year}-${String((q - 1) * 3 + 2).padStart(2, '0')}-15`);
+  return `Q${Math.floor(date.getMonth() / 3) + 1} ${date.getFullYear()}`;
+}
+
+function formatPeriod(period: PeriodReturn, label: string) {
+  return {
+    ...period,
+    label,
+    startDate: formatCalendarDate(period.startDate),
+    endDate: formatCalendarDate(period.endDate),
+  };
+}
+
+// Returns time- and money-weighted returns from the AccountBalance history for UI rendering
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    const { timePeriod } = body as { timePeriod?: string };
+
+    // Cash flows are inferred over the whole history; the period only limits the returns
+    const [balances, trades, fees, dividends] = await Promise.all([
+      fetchAllRows(supabase.from('AccountBalance').select(BALANCE_RECORD_COLUMNS).eq('AccountCode', accountCode).order('Date', { ascending: true })),
+      fetchAllRows(
+        supabase
+          .from('TradeData')
+          .select(TRADE_RECORD_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('Date', { ascending: true })
+          .order('TradeID', { ascending: true })
+      ),
+      fetchAllRows(
+        supabase
+          .from('FeesAndInterest')
+          .select(FEE_RECORD_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('Date', { ascending: true })
+          .order('id', { ascending: true })
+      ),
+      fetchAllRows(
+        supabase
+          .from('Dividends')
+          .select(DIVIDEND_RECORD_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('PayDate', { ascending: true })
+          .order('id', { ascending: true })
+      ),
+    ]);
+
+    const error = balances.error || trades.error || fees.error || dividends.error;
+    if (error) {
+      console.error('Performance API error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const balanceRows = (balances.data || []) as BalanceRecord[];
+    const flows = inferExternalCashFlows(balanceRows, {
+      trades: (trades.data || []) as TradeRecord[],
+      fees: (fees.data || []) as FeeRecord[],
+      dividends: (dividends.data || []) as DividendRecord[],
+    });
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const report = computePerformance(balanceRows, flows, {
+      startDate: parsedTime?.dateRange.startDate,
+      endDate: parsedTime?.dateRange.endDate,
+    });
+
+    const description = parsedTime?.dateRange.description || timePeriod || 'All time';
+
+    if (!report) {
+      return NextResponse.json({
+        timePeriod: description,
+        startEquity: 0,
+        endEquity: 0,
+        netFlows: 0,
+        gain: 0,
+        twr: 0,
+        annualizedTwr: null,
+        irr: null,
+        periodIrr: null,
+        flows: [],
+        monthly: [],
+        quarterly: [],
+        ytd: null,
+      });
+    }
+
+    // Daily returns are left out; the tables carry them
+    return NextResponse.json({
+      timePeriod: description,
+      startDate: formatCalendarDate(report.startDate),
+      endDate: formatCalendarDate(report.endDate),
+      startEquity: report.startEquity,
+      endEquity: report.endEquity,
+      netFlows: report.netFlows,
+      gain: report.gain,
+      twr: report.twr,
+      annualizedTwr: report.annualizedTwr,
+      irr: report.irr,
+      periodIrr: report.periodIrr,
+      flows: report.flows.map(f => ({ ...f, date: formatCalendarDate(f.date) })),
+      monthly: report.monthly.map(m => formatPeriod(m, formatMonth(m.period))),
+      quarterly: report.quarterly.map(q => formatPeriod(q, formatQuarter(q.period))),
+      ytd: report.ytd ? formatPeriod(report.ytd, 'YTD') : null,
+    });
+  } catch (error) {
+    console.error('Performance API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
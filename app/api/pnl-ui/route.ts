@@ -0,0 +1,103 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { demoDateToRealDate, getDemoToday } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings, COST_BASIS_LABELS } from '@/src/lib/cost-basis';
+import { computePnL } from '@/src/lib/pnl';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+  'bank of america': 'BAC',
+  'citigroup': 'C',
+  'gamestop': 'GME',
+  'lucid': 'LCID',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+// Convert a database month (YYYY-MM) to the display month (e.g. "Oct 2025")
+function formatMonth(month: string): string {
+  return demoDateToRealDate(`${month}-15`).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+// Returns realized and unrealized P&L for UI rendering
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    const { symbol, timePeriod } = body;
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    let query = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    if (normalizedSymbol) {
+      query = query.or(buildSymbolFilter(symbolAliases));
+    }
+
+    const { data: trades, error } = await fetchAllRows(query);
+
+    if (error) {
+      console.error('P&L API error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { rows: adjustedTrades, adjustments: corporateAdjustments } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    // Realized P&L is limited to the period; unrealized is always as of the latest marks
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+
+    const report = computePnL(adjustedTrades, {
+      ...settings,
+      startDate: parsedTime?.dateRange.startDate,
+      endDate: parsedTime?.dateRange.endDate,
+      asOf: getDemoToday(),
+    });
+
+    return NextResponse.json({
+      symbol: normalizedSymbol,
+      corporateAdjustments,
+      timePeriod: parsedTime?.dateRange.description || timePeriod || 'All time',
+      methodLabel: COST_BASIS_LABELS[settings.method],
+      ...report,
+      byMonth: report.byMonth.map(m => ({ ...m, label: formatMonth(m.month) })),
+    });
+  } catch (error) {
+    console.error('P&L API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatCalendarDate, getDemoToday } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings, COST_BASIS_LABELS } from '@/src/lib/cost-basis';
+import { computeOpenPositions, type OpenPosition } from '@/src/lib/positions';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+  'bank of america': 'BAC',
+  'citigroup': 'C',
+  'gamestop': 'GME',
+  'lucid': 'LCID',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+// Convert database dates on a position to display dates
+function toDisplayPosition(position: OpenPosition) {
+  return {
+    ...position,
+    openedDate: formatCalendarDate(position.openedDate),
+    series: position.series
+      ? { ...position.series, expiration: formatCalendarDate(position.series.expiration) }
+      : undefined,
+  };
+}
+
+// Returns open stock and option positions for UI rendering
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    const { symbol, securityType } = body;
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    let query = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    if (normalizedSymbol) {
+      query = query.or(buildSymbolFilter(symbolAliases));
+    }
+
+    const { data: trades, error } = await fetchAllRows(query);
+
+    if (error) {
+      console.error('Positions API error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { rows: adjustedTrades, adjustments: corporateAdjustments } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+    const report = computeOpenPositions(adjustedTrades, {
+      ...settings,
+      asOf: getDemoToday(),
+    });
+
+    // Optional filter: 'stock' or 'option'
+    const byUnderlying = report.byUnderlying
+      .map(group => ({
+        ...group,
+        stock: securityType === 'option' ? [] : group.stock.map(toDisplayPosition),
+        options: securityType === 'stock' ? [] : group.options.map(toDisplayPosition),
+      }))
+      .filter(group => group.stock.length > 0 || group.options.length > 0);
+
+    return NextResponse.json({
+      symbol: normalizedSymbol,
+      corporateAdjustments,
+      methodLabel: COST_BASIS_LABELS[settings.method],
+      longMarketValue: report.longMarketValue,
+      shortMarketValue: report.shortMarketValue,
+      netMarketValue: report.netMarketValue,
+      unrealizedPnL: report.unrealizedPnL,
+      positionCount: byUnderlying.reduce((sum, g) => sum + g.stock.length + g.options.length, 0),
+      byUnderlying,
+    });
+  } catch (error) {
+    console.error('Positions API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { demoDateToRealDate, formatCalendarDate, getDemoToday } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings } from '@/src/lib/cost-basis';
+import { summarizePremiumIncome } from '@/src/lib/premium-income';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+  'bank of america': 'BAC',
+  'citigroup': 'C',
+  'gamestop': 'GME',
+  'lucid': 'LCID',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+function formatMonth(month: string): string {
+  return demoDateToRealDate(`${month}-15`).toLocaleDateString('en-US', {
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+// Returns premium income from cash-secured puts and covered calls for UI rendering
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    const { symbol, timePeriod } = body as { symbol?: string; timePeriod?: string };
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    // Stock trades price the shares behind covered calls and show assignments
+    let query = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    if (normalizedSymbol) {
+      query = query.or(buildSymbolFilter(symbolAliases));
+    }
+
+    const { data: trades, error } = await fetchAllRows(query);
+
+    if (error) {
+      console.error('Premium income API error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { rows: adjustedTrades, adjustments: corporateAdjustments } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+
+    const report = summarizePremiumIncome(adjustedTrades, {
+      ...settings,
+      asOf: getDemoToday(),
+      startDate: parsedTime?.dateRange.startDate,
+      endDate: parsedTime?.dateRange.endDate,
+    });
+
+    const positions = report.positions.map(p => ({
+      ...p,
+      openDate: formatCalendarDate(p.openDate),
+      resolvedDate: p.resolvedDate ? formatCalendarDate(p.resolvedDate) : null,
+      expiration: formatCalendarDate(p.expiration),
+    }));
+    const uncoveredCalls = report.uncoveredCalls.map(c => ({
+      ...c,
+      openDate: formatCalendarDate(c.openDate),
+      resolvedDate: c.resolvedDate ? formatCalendarDate(c.resolvedDate) : null,
+      expiration: formatCalendarDate(c.expiration),
+    }));
+
+    return NextResponse.json({
+      symbol: normalizedSymbol,
+      corporateAdjustments,
+      timePeriod: parsedTime?.dateRange.description || timePeriod || 'All time',
+      ...report,
+      positions,
+      uncoveredCalls,
+      byMonth: report.byMonth.map(m => ({ ...m, label: formatMonth(m.month) })),
+    });
+  } catch (error) {
+    console.error('Premium income API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
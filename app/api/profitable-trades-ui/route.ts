@@ -1,14 +1,17 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
 import { formatCalendarDate } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { matchLots, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings, parseCostBasisMethod, COST_BASIS_LABELS } from '@/src/lib/cost-basis';
+import { fetchAllRows } from '@/src/lib/paged-query';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 const SYMBOL_MAP: Record<string, string> = {
   'apple': 'AAPL',
   'google': 'GOOGL',
@@ -36,119 +39,76 @@ function normalizeSymbol(input: string): string {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     const symbol = body.symbol;
 
     if (!symbol) {
       return NextResponse.json({ error: 'Symbol required' }, { status: 400 });
     }
 
-    const normalizedSymbol = normalizeSymbol(symbol);
-
-    // Fetch buy trades
-    const { data: buyTrades, error: buyError } = await supabase
-      .from('TradeData')
-      .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
-      .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
-      .eq('TradeType', 'B')
-      .order('Date', { ascending: true })
-      .order('TradeID', { ascending: true });
-
-    if (buyError) {
-      return NextResponse.json({ error: buyError.message }, { status: 500 });
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+    const normalizedSymbol = symbolAliases[0];
+
+    // Fetch all stock and option trades for the symbol in execution order
+    const { data: rows, error } = await fetchAllRows(
+      supabase
+        .from('TradeData')
+        .select('*')
+        .eq('AccountCode', accountCode)
+        .or(buildSymbolFilter(symbolAliases))
+        .order('Date', { ascending: true })
+        .order('TradeID', { ascending: true })
+    );
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    // Fetch sell trades
-    const { data: sellTrades, error: sellError } = await supabase
-      .from('TradeData')
-      .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
-      .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
-      .ilike('TradeType', 'S')
-      .order('Date', { ascending: true })
-      .order('TradeID', { ascending: true });
+    const { rows: trades, adjustments: corporateAdjustments } = applyCorporateActions(
+      (rows || []) as TradeRecord[],
+      corporateActions
+    );
 
-    if (sellError) {
-      return NextResponse.json({ error: sellError.message }, { status: 500 });
-    }
+    // Account's cost-basis election, optionally overridden for "what if" queries
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+    const method = parseCostBasisMethod(body.method) ?? settings.method;
 
-    if (!buyTrades?.length || !sellTrades?.length) {
+    if (trades.length === 0) {
       return NextResponse.json({
         symbol: normalizedSymbol,
+        corporateAdjustments,
+        method,
+        methodLabel: COST_BASIS_LABELS[method],
         totalProfitableTrades: 0,
         totalProfit: 0,
         trades: [],
       });
     }
 
-    // Match trades using proper FIFO - each sell matches with earliest unmatched buy BEFORE it
-    interface MatchedTrade {
-      securityType: string;
-      buyDate: string;
-      sellDate: string;
-      quantity: number;
-      buyPrice: number;
-      sellPrice: number;
-      profitLoss: number;
-    }
-
-    const matchedTrades: MatchedTrade[] = [];
-    const securityTypes = ['S', 'O'];
-
-    for (const secType of securityTypes) {
-      const buys = buyTrades
-        .filter(t => t.SecurityType === secType)
-        .map(t => ({ ...t, matched: false }));
-      const sells = sellTrades.filter(t => t.SecurityType === secType);
-
-      // For each sell, find the earliest unmatched buy that occurred on or before the sell date
-      for (const sell of sells) {
-        const sellDate = new Date(sell.Date);
-
-        // Find earliest unmatched buy before or on the sell date
-        const matchingBuy = buys.find(buy =>
-          !buy.matched && new Date(buy.Date) <= sellDate
-        );
-
-        if (matchingBuy) {
-          matchingBuy.matched = true;
-
-          // Helper to safely parse numeric values (handles null, undefined, empty strings)
-          const safeParseFloat = (val: unknown): number => {
-            if (val === null || val === undefined || val === '') return 0;
-            const parsed = parseFloat(String(val));
-            return isNaN(parsed) ? 0 : parsed;
-          };
-
-          const buyPrice = safeParseFloat(matchingBuy.StockTradePrice) || safeParseFloat(matchingBuy.OptionTradePremium);
-          const sellPrice = safeParseFloat(sell.StockTradePrice) || safeParseFloat(sell.OptionTradePremium);
-          const quantity = safeParseFloat(matchingBuy.StockShareQty) || safeParseFloat(matchingBuy.OptionContracts);
-
-          // Calculate profit based on actual prices: (sellPrice - buyPrice) * quantity
-          const profitLoss = (sellPrice - buyPrice) * quantity;
-
-          matchedTrades.push({
-            securityType: secType === 'S' ? 'Stock' : 'Option',
-            buyDate: formatCalendarDate(matchingBuy.Date),
-            sellDate: formatCalendarDate(sell.Date),
-            quantity,
-            buyPrice,
-            sellPrice,
-            profitLoss,
-          });
-        }
-      }
-    }
+    // Split lots across partial fills, including short sales and fees
+    const { closedLots } = matchLots(trades, {
+      method,
+      lotSelections: settings.lotSelections,
+    });
 
-    // Filter to only profitable (sellPrice > buyPrice) and sort by profit descending
-    const profitableTrades = matchedTrades
-      .filter(t => t.profitLoss > 0)
-      .sort((a, b) => b.profitLoss - a.profitLoss);
+    // Filter to only profitable lots and sort by profit descending
+    const profitableTrades = closedLots
+      .filter(lot => lot.profitLoss > 0)
+      .sort((a, b) => b.profitLoss - a.profitLoss)
+      .map(lot => ({
+        ...lot,
+        buyDate: formatCalendarDate(lot.buyDate),
+        sellDate: formatCalendarDate(lot.sellDate),
+      }));
 
     const totalProfit = profitableTrades.reduce((sum, t) => sum + t.profitLoss, 0);
 
     return NextResponse.json({
       symbol: normalizedSymbol,
+      corporateAdjustments,
+      method,
+      methodLabel: COST_BASIS_LABELS[method],
       totalProfitableTrades: profitableTrades.length,
       totalProfit,
       trades: profitableTrades,
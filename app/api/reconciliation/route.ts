@@ -0,0 +1,115 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS } from '@/src/lib/lot-matching';
+import { BALANCE_RECORD_COLUMNS, type BalanceRecord } from '@/src/lib/performance';
+import { FEE_ACTIVITY_COLUMNS, type FeeActivityRecord } from '@/src/lib/fees';
+import { DIVIDEND_RECORD_COLUMNS, type DividendRecord } from '@/src/lib/dividends';
+import {
+  reconcileCash,
+  recordReconciliationBreaks,
+  type ReconciliationOptions,
+  type ReconciliationTradeRecord,
+} from '@/src/lib/reconciliation';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Database dates (YYYY-MM-DD) and tolerance from query params or a JSON body
+function readOptions(source: { from?: unknown; to?: unknown; tolerance?: unknown }): ReconciliationOptions {
+  const tolerance = Number(source.tolerance);
+  return {
+    startDate: typeof source.from === 'string' && DATE_PATTERN.test(source.from) ? source.from : undefined,
+    endDate: typeof source.to === 'string' && DATE_PATTERN.test(source.to) ? source.to : undefined,
+    tolerance: Number.isFinite(tolerance) && tolerance > 0 ? tolerance : undefined,
+  };
+}
+
+async function runReconciliation(accountCode: string, options: ReconciliationOptions) {
+  const [balances, trades, fees, dividends] = await Promise.all([
+    fetchAllRows(supabase.from('AccountBalance').select(BALANCE_RECORD_COLUMNS).eq('AccountCode', accountCode).order('Date', { ascending: true })),
+    fetchAllRows(
+      supabase
+        .from('TradeData')
+        .select(`${TRADE_RECORD_COLUMNS}, NetAmount`)
+        .eq('AccountCode', accountCode)
+        .order('Date', { ascending: true })
+        .order('TradeID', { ascending: true })
+    ),
+    fetchAllRows(
+      supabase
+        .from('FeesAndInterest')
+        .select(FEE_ACTIVITY_COLUMNS)
+        .eq('AccountCode', accountCode)
+        .order('Date', { ascending: true })
+        .order('id', { ascending: true })
+    ),
+    fetchAllRows(
+      supabase
+        .from('Dividends')
+        .select(DIVIDEND_RECORD_COLUMNS)
+        .eq('AccountCode', accountCode)
+        .order('PayDate', { ascending: true })
+        .order('id', { ascending: true })
+    ),
+  ]);
+
+  const error = balances.error || trades.error || fees.error || dividends.error;
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return reconcileCash(
+    (balances.data || []) as BalanceRecord[],
+    {
+      trades: (trades.data || []) as ReconciliationTradeRecord[],
+      fees: (fees.data || []) as FeeActivityRecord[],
+      dividends: (dividends.data || []) as DividendRecord[],
+    },
+    options
+  );
+}
+
+// GET /api/reconciliation?from=2025-01-01&to=2025-03-31&tolerance=1 - Break report (read only)
+export async function GET(req: NextRequest) {
+  try {
+    const accountCode = resolveAccountCode(req);
+    const { searchParams } = new URL(req.url);
+    const options = readOptions({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+      tolerance: searchParams.get('tolerance') ?? undefined,
+    });
+
+    const report = await runReconciliation(accountCode, options);
+
+    return NextResponse.json({ accountCode, ...report });
+  } catch (error) {
+    console.error('Reconciliation API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/reconciliation - Run the reconciliation job and record its breaks
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+
+    const report = await runReconciliation(accountCode, readOptions(body));
+    await recordReconciliationBreaks(supabase, accountCode, report);
+
+    return NextResponse.json({ accountCode, recorded: report.breaks.length, ...report });
+  } catch (error) {
+    console.error('Reconciliation API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
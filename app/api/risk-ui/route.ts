@@ -0,0 +1,122 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatCalendarDate } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { DIVIDEND_RECORD_COLUMNS, type DividendRecord } from '@/src/lib/dividends';
+import {
+  BALANCE_RECORD_COLUMNS,
+  FEE_RECORD_COLUMNS,
+  inferExternalCashFlows,
+  type BalanceRecord,
+  type FeeRecord,
+} from '@/src/lib/performance';
+import { computeRiskMetrics } from '@/src/lib/risk';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// Returns drawdown, volatility and Sharpe/Sortino of the equity curve for UI rendering
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    const { timePeriod } = body as { timePeriod?: string };
+
+    // Cash flows are inferred over the whole history; the period only limits the metrics
+    const [balances, trades, fees, dividends] = await Promise.all([
+      fetchAllRows(supabase.from('AccountBalance').select(BALANCE_RECORD_COLUMNS).eq('AccountCode', accountCode).order('Date', { ascending: true })),
+      fetchAllRows(
+        supabase
+          .from('TradeData')
+          .select(TRADE_RECORD_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('Date', { ascending: true })
+          .order('TradeID', { ascending: true })
+      ),
+      fetchAllRows(
+        supabase
+          .from('FeesAndInterest')
+          .select(FEE_RECORD_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('Date', { ascending: true })
+          .order('id', { ascending: true })
+      ),
+      fetchAllRows(
+        supabase
+          .from('Dividends')
+          .select(DIVIDEND_RECORD_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('PayDate', { ascending: true })
+          .order('id', { ascending: true })
+      ),
+    ]);
+
+    const error = balances.error || trades.error || fees.error || dividends.error;
+    if (error) {
+      console.error('Risk API error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const balanceRows = (balances.data || []) as BalanceRecord[];
+    const flows = inferExternalCashFlows(balanceRows, {
+      trades: (trades.data || []) as TradeRecord[],
+      fees: (fees.data || []) as FeeRecord[],
+      dividends: (dividends.data || []) as DividendRecord[],
+    });
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const report = computeRiskMetrics(balanceRows, flows, {
+      startDate: parsedTime?.dateRange.startDate,
+      endDate: parsedTime?.dateRange.endDate,
+    });
+
+    const description = parsedTime?.dateRange.description || timePeriod || 'All time';
+
+    if (!report) {
+      return NextResponse.json({
+        timePeriod: description,
+        tradingDays: 0,
+        maxDrawdown: null,
+        currentDrawdown: 0,
+        volatility: null,
+        sharpe: null,
+        sortino: null,
+        riskFreeRate: 0,
+        worstDays: [],
+        drawdowns: [],
+      });
+    }
+
+    // Rolling volatility is left out; the card charts the drawdown series
+    const { maxDrawdown } = report;
+    return NextResponse.json({
+      timePeriod: description,
+      startDate: formatCalendarDate(report.startDate),
+      endDate: formatCalendarDate(report.endDate),
+      tradingDays: report.tradingDays,
+      maxDrawdown: maxDrawdown
+        ? {
+          ...maxDrawdown,
+          peakDate: formatCalendarDate(maxDrawdown.peakDate),
+          troughDate: formatCalendarDate(maxDrawdown.troughDate),
+          recoveryDate: maxDrawdown.recoveryDate ? formatCalendarDate(maxDrawdown.recoveryDate) : null,
+        }
+        : null,
+      currentDrawdown: report.currentDrawdown,
+      volatility: report.volatility,
+      sharpe: report.sharpe,
+      sortino: report.sortino,
+      riskFreeRate: report.riskFreeRate,
+      worstDays: report.worstDays.map(day => ({ ...day, date: formatCalendarDate(day.date) })),
+      drawdowns: report.drawdowns.map(point => ({ ...point, label: formatCalendarDate(point.date) })),
+    });
+  } catch (error) {
+    console.error('Risk API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
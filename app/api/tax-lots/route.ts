@@ -0,0 +1,177 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import * as XLSX from 'xlsx';
+import { demoDateToRealDate, formatDateForDB, realDateToDemoDate } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings, COST_BASIS_LABELS } from '@/src/lib/cost-basis';
+import {
+  buildTaxLotReport,
+  toForm8949Rows,
+  toCsv,
+  FORM_8949_HEADERS,
+  type ScheduleDTotals,
+} from '@/src/lib/tax-lots';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+type ExportFormat = 'json' | 'csv' | 'xlsx';
+
+// Tax years are calendar years on the user's timeline; map them onto demo database dates
+function getTaxYearRange(taxYear: number): { startDate: string; endDate: string } {
+  return {
+    startDate: formatDateForDB(realDateToDemoDate(new Date(taxYear, 0, 1))),
+    endDate: formatDateForDB(realDateToDemoDate(new Date(taxYear, 11, 31))),
+  };
+}
+
+// 8949 dates are MM/DD/YYYY on the user's timeline
+function format8949Date(demoDateStr: string): string {
+  return demoDateToRealDate(demoDateStr).toLocaleDateString('en-US', {
+    month: '2-digit',
+    day: '2-digit',
+    year: 'numeric',
+  });
+}
+
+function parseTaxYear(value: unknown): number {
+  const year = parseInt(String(value ?? ''), 10);
+  return year >= 1990 && year <= 2100 ? year : new Date().getFullYear();
+}
+
+// "2025", "tax year 2024", "last year" -> calendar year; anything else falls back to the current year
+function taxYearFromTimePeriod(timePeriod: unknown): number | undefined {
+  if (typeof timePeriod !== 'string') return undefined;
+  const explicit = timePeriod.match(/\b(19|20)\d{2}\b/);
+  if (explicit) return parseInt(explicit[0], 10);
+  if (/\b(last|previous|prior)\s+(tax\s+)?year\b/i.test(timePeriod)) return new Date().getFullYear() - 1;
+  return undefined;
+}
+
+function scheduleDRow(label: string, totals: ScheduleDTotals): Array<string | number> {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return [label, totals.count, round(totals.proceeds), round(totals.costBasis), round(totals.adjustments), round(totals.gainLoss)];
+}
+
+async function loadReport(req: NextRequest, taxYear: number, body?: unknown) {
+  const accountCode = resolveAccountCode(req, body);
+  const [corporateActions, { data: trades, error }] = await Promise.all([
+    loadCorporateActions(supabase),
+    fetchAllRows(
+      supabase
+        .from('TradeData')
+        .select(TRADE_RECORD_COLUMNS)
+        .eq('AccountCode', accountCode)
+        .order('Date', { ascending: true })
+        .order('TradeID', { ascending: true })
+    ),
+  ]);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  // Form 8949 reports lots under the current ticker with split-adjusted quantities
+  const { rows: adjustedTrades, adjustments: corporateAdjustments } = applyCorporateActions(
+    (trades || []) as TradeRecord[],
+    corporateActions
+  );
+  const settings = await loadCostBasisSettings(supabase, accountCode);
+  const report = buildTaxLotReport(adjustedTrades, {
+    ...settings,
+    ...getTaxYearRange(taxYear),
+  });
+
+  return { accountCode, methodLabel: COST_BASIS_LABELS[settings.method], report, corporateAdjustments };
+}
+
+// Downloads: /api/tax-lots?year=2025&format=csv|xlsx|json
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const taxYear = parseTaxYear(searchParams.get('year'));
+  const format = (searchParams.get('format') || 'json') as ExportFormat;
+
+  try {
+    const { accountCode, methodLabel, report, corporateAdjustments } = await loadReport(req, taxYear);
+    const rows = toForm8949Rows(report.lots, format8949Date);
+    const filename = `form-8949_${accountCode}_${taxYear}`;
+
+    if (format === 'csv') {
+      return new NextResponse(toCsv(FORM_8949_HEADERS, rows), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+
+    if (format === 'xlsx') {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([FORM_8949_HEADERS, ...rows]), 'Form 8949');
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+        ['Schedule D', 'Lots', 'Proceeds', 'Cost basis', 'Adjustments', 'Gain or (loss)'],
+        scheduleDRow('Short-term', report.shortTerm),
+        scheduleDRow('Long-term', report.longTerm),
+        scheduleDRow('Total', report.total),
+        [],
+        ['Account', accountCode],
+        ['Tax year', taxYear],
+        ['Cost basis method', methodLabel],
+      ]), 'Schedule D');
+      const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+
+      return new NextResponse(buffer, {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${filename}.xlsx"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      taxYear,
+      methodLabel,
+      corporateAdjustments,
+      ...report,
+      lots: report.lots.map(lot => ({
+        ...lot,
+        dateAcquired: format8949Date(lot.dateAcquired),
+        dateSold: format8949Date(lot.dateSold),
+        closeDate: format8949Date(lot.closeDate),
+      })),
+    });
+  } catch (error) {
+    console.error('Tax lots API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Summary for the assistant's tax-lot card (lots themselves are downloaded via GET)
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const taxYear = parseTaxYear(body.taxYear ?? taxYearFromTimePeriod(body.timePeriod));
+    const { methodLabel, report, corporateAdjustments } = await loadReport(req, taxYear, body);
+
+    return NextResponse.json({
+      taxYear,
+      methodLabel,
+      corporateAdjustments,
+      lotCount: report.lots.length,
+      washSaleLots: report.lots.filter(lot => lot.adjustmentCode === 'W').length,
+      shortTerm: report.shortTerm,
+      longTerm: report.longTerm,
+      total: report.total,
+      csvUrl: `/api/tax-lots?year=${taxYear}&format=csv`,
+      xlsxUrl: `/api/tax-lots?year=${taxYear}&format=xlsx`,
+    });
+  } catch (error) {
+    console.error('Tax lots API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
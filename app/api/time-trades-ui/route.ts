@@ -2,14 +2,14 @@ import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
 import { parseTimeExpression } from '@/src/lib/date-parser';
 import { formatDisplayDate, formatDateRange } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 const SYMBOL_MAP: Record<string, string> = {
   'apple': 'AAPL',
   'google': 'GOOGL',
@@ -35,6 +35,7 @@ function normalizeSymbol(input: string): string {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     const { symbol, timePeriod } = body;
 
     if (!timePeriod) {
@@ -49,19 +50,22 @@ export async function POST(req: NextRequest) {
 
     const { startDate, endDate, description, tradingDays } = parsedTime.dateRange;
 
+    const corporateActions = await loadCorporateActions(supabase);
+
     // Build the query
     let query = supabase
       .from('TradeData')
       .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
+      .eq('AccountCode', accountCode)
       .gte('Date', startDate)
       .lte('Date', endDate)
       .order('Date', { ascending: false });
 
     // Filter by symbol if provided
-    const normalizedSymbol = symbol ? normalizeSymbol(symbol) : null;
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
     if (normalizedSymbol) {
-      query = query.or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`);
+      query = query.or(buildSymbolFilter(symbolAliases));
     }
 
     const { data, error } = await query;
@@ -71,7 +75,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    const trades = data || [];
+    const { rows: trades, adjustments: corporateAdjustments } = applyCorporateActions(data || [], corporateActions);
 
     // Calculate statistics
     const stockTrades = trades.filter(t => t.SecurityType === 'S');
@@ -110,6 +114,7 @@ export async function POST(req: NextRequest) {
       },
       trades: formattedTrades,
       symbol: normalizedSymbol,
+      corporateAdjustments,
     });
   } catch (error) {
     console.error('Time trades UI error:', error);
@@ -2,14 +2,14 @@ import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
 import { formatCalendarDate, getDateOffset } from '@/src/lib/date-utils';
 import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 const SYMBOL_MAP: Record<string, string> = {
   'apple': 'AAPL',
   'google': 'GOOGL',
@@ -38,13 +38,16 @@ function normalizeSymbol(input: string): string {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     const { symbol, tradeType, year, timePeriod } = body;
 
     if (!symbol) {
       return NextResponse.json({ error: 'Symbol required' }, { status: 400 });
     }
 
-    const normalizedSymbol = normalizeSymbol(symbol);
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+    const normalizedSymbol = symbolAliases[0];
 
     // Get the date offset to map user's year to demo database year
     const offset = getDateOffset();
@@ -77,9 +80,9 @@ export async function POST(req: NextRequest) {
     let query = supabase
       .from('TradeData')
       .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
+      .eq('AccountCode', accountCode)
       .eq('SecurityType', 'S')
-      .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
+      .or(buildSymbolFilter(symbolAliases))
       .gte('Date', dateStart)
       .lte('Date', dateEnd);
 
@@ -88,13 +91,16 @@ export async function POST(req: NextRequest) {
       query = query.eq('TradeType', normalizedType);
     }
 
-    const { data, error } = await query.order('Date', { ascending: false });
+    const { data: rows, error } = await query.order('Date', { ascending: false });
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    if (!data || data.length === 0) {
+    // Prices and share counts restated for splits
+    const { rows: data, adjustments: corporateAdjustments } = applyCorporateActions(rows || [], corporateActions);
+
+    if (data.length === 0) {
       return NextResponse.json({ stats: null });
     }
 
@@ -115,6 +121,7 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({
       stats: {
         symbol: normalizedSymbol,
+        corporateAdjustments,
         year: userYear, // Return user's requested year, not DB year
         tradeType: typeLabel,
         timePeriod: timePeriodDescription, // e.g., "last month", "last week", null for full year
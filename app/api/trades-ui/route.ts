@@ -1,14 +1,16 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
 import { formatCalendarDate } from '@/src/lib/date-utils';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadJournalEntries } from '@/src/lib/journal';
+import { fetchAllRows } from '@/src/lib/paged-query';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 );
 
-const ACCOUNT_CODE = 'C40421';
-
 const SYMBOL_MAP: Record<string, string> = {
   'apple': 'AAPL',
   'google': 'GOOGL',
@@ -37,27 +39,36 @@ function normalizeSymbol(input: string): string {
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
     const symbol = body.symbol;
 
     if (!symbol) {
       return NextResponse.json({ error: 'Symbol required' }, { status: 400 });
     }
 
-    const normalizedSymbol = normalizeSymbol(symbol);
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = getSymbolAliases(normalizeSymbol(symbol), corporateActions);
+    const normalizedSymbol = symbolAliases[0];
 
-    const { data, error } = await supabase
-      .from('TradeData')
-      .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
-      .or(`Symbol.eq.${normalizedSymbol},UnderlyingSymbol.eq.${normalizedSymbol}`)
-      .order('Date', { ascending: false });
+    const { data: rows, error } = await fetchAllRows(
+      supabase
+        .from('TradeData')
+        .select('*')
+        .eq('AccountCode', accountCode)
+        .or(buildSymbolFilter(symbolAliases))
+        .order('Date', { ascending: false })
+        .order('TradeID', { ascending: true })
+    );
 
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 });
     }
 
-    if (!data || data.length === 0) {
-      return NextResponse.json({ trades: [], summary: null });
+    // Shares and prices restated for splits, former tickers renamed
+    const { rows: data, adjustments: corporateAdjustments } = applyCorporateActions(rows || [], corporateActions);
+
+    if (data.length === 0) {
+      return NextResponse.json({ trades: [], summary: null, journal: {}, corporateAdjustments });
     }
 
     const stockTrades = data.filter(t => t.SecurityType === 'S');
@@ -98,7 +109,9 @@ export async function POST(req: NextRequest) {
       symbol: normalizedSymbol,
     };
 
-    return NextResponse.json({ trades, summary });
+    const journal = await loadJournalEntries(supabase, accountCode, data.map(t => t.TradeID));
+
+    return NextResponse.json({ trades, summary, journal, corporateAdjustments });
   } catch (error) {
     console.error('Trades UI API error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
@@ -0,0 +1,104 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { formatCalendarDate } from '@/src/lib/date-utils';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { resolveAccountCode } from '@/src/lib/account-context';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '@/src/lib/lot-matching';
+import { applyCorporateActions, buildSymbolFilter, getSymbolAliases, loadCorporateActions } from '@/src/lib/corporate-actions';
+import { loadCostBasisSettings, COST_BASIS_LABELS } from '@/src/lib/cost-basis';
+import { detectWashSales } from '@/src/lib/wash-sales';
+import { fetchAllRows } from '@/src/lib/paged-query';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+  'bank of america': 'BAC',
+  'citigroup': 'C',
+  'gamestop': 'GME',
+  'lucid': 'LCID',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+// Returns wash sales and replacement basis adjustments for the tax card
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    const { symbol, timePeriod } = body;
+
+    const corporateActions = await loadCorporateActions(supabase);
+    const symbolAliases = symbol ? getSymbolAliases(normalizeSymbol(symbol), corporateActions) : [];
+    const normalizedSymbol = symbolAliases[0] ?? null;
+
+    let query = supabase
+      .from('TradeData')
+      .select(TRADE_RECORD_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('TradeID', { ascending: true });
+
+    if (normalizedSymbol) {
+      query = query.or(buildSymbolFilter(symbolAliases));
+    }
+
+    const { data: trades, error } = await fetchAllRows(query);
+
+    if (error) {
+      console.error('Wash sales API error:', error);
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+
+    const { rows: adjustedTrades, adjustments: corporateAdjustments } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+
+    const settings = await loadCostBasisSettings(supabase, accountCode);
+    const report = detectWashSales(adjustedTrades, settings);
+
+    // Only report losses realized in the requested period (the window itself may extend past it)
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    const startDate = parsedTime?.dateRange.startDate;
+    const endDate = parsedTime?.dateRange.endDate;
+    const washSales = report.washSales.filter(w =>
+      (!startDate || w.lossDate >= startDate) && (!endDate || w.lossDate <= endDate)
+    );
+    const washedTradeIds = new Set(washSales.map(w => String(w.replacementTradeId)));
+
+    return NextResponse.json({
+      symbol: normalizedSymbol,
+      corporateAdjustments,
+      timePeriod: parsedTime?.dateRange.description || timePeriod || 'All time',
+      methodLabel: COST_BASIS_LABELS[settings.method],
+      totalDisallowed: washSales.reduce((sum, w) => sum + w.disallowedLoss, 0),
+      washSaleCount: washSales.length,
+      washSales: washSales.map(w => ({
+        ...w,
+        lossDate: formatCalendarDate(w.lossDate),
+        replacementDate: formatCalendarDate(w.replacementDate),
+      })),
+      adjustments: report.adjustments
+        .filter(a => washedTradeIds.has(String(a.tradeId)))
+        .map(a => ({ ...a, date: formatCalendarDate(a.date) })),
+    });
+  } catch (error) {
+    console.error('Wash sales API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { CsvMarketDataProvider, createMarketDataProvider } from '@/src/lib/market-data';
+import { applyWatchlistChange, loadWatchlistReport } from '@/src/lib/watchlists';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+const SYMBOL_MAP: Record<string, string> = {
+  'apple': 'AAPL',
+  'google': 'GOOGL',
+  'alphabet': 'GOOGL',
+  'amazon': 'AMZN',
+  'microsoft': 'MSFT',
+  'tesla': 'TSLA',
+  'nvidia': 'NVDA',
+  'meta': 'META',
+  'facebook': 'META',
+  'netflix': 'NFLX',
+  'amd': 'AMD',
+  'intel': 'INTC',
+  'bank of america': 'BAC',
+  'citigroup': 'C',
+  'gamestop': 'GME',
+  'lucid': 'LCID',
+};
+
+function normalizeSymbol(input: string): string {
+  const lower = input.toLowerCase().trim();
+  return SYMBOL_MAP[lower] || input.toUpperCase();
+}
+
+function toSymbolList(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return list.filter((s): s is string => typeof s === 'string' && s.trim() !== '').map(normalizeSymbol);
+}
+
+// Returns a watchlist with per-symbol stats for UI rendering, after any requested add/remove
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+    const { name, add, remove, timePeriod } = body as {
+      name?: string;
+      add?: string[] | string;
+      remove?: string[] | string;
+      timePeriod?: string;
+    };
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    if (timePeriod && !parsedTime) {
+      return NextResponse.json({ error: `Unrecognized time period: ${timePeriod}` }, { status: 400 });
+    }
+
+    const change = await applyWatchlistChange(supabase, accountCode, {
+      name,
+      add: toSymbolList(add),
+      remove: toSymbolList(remove),
+    });
+
+    if (!change.watchlist) {
+      return NextResponse.json({
+        error: name ? `No watchlist named "${name}"` : 'No watchlists yet',
+        watchlists: change.watchlists.map(w => w.name),
+      }, { status: 404 });
+    }
+
+    // Price files are served by this app from public/market-data
+    const marketData = createMarketDataProvider(
+      supabase,
+      new CsvMarketDataProvider({ baseUrl: `${req.nextUrl.origin}/market-data` })
+    );
+    const report = await loadWatchlistReport(supabase, accountCode, change.watchlist, marketData, {
+      startDate: parsedTime?.dateRange.startDate,
+      endDate: parsedTime?.dateRange.endDate,
+      periodLabel: parsedTime?.dateRange.description,
+    });
+
+    return NextResponse.json({
+      ...report,
+      created: change.created,
+      added: change.added,
+      removed: change.removed,
+      watchlists: change.watchlists.map(w => w.name),
+    });
+  } catch (error) {
+    console.error('Watchlist API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
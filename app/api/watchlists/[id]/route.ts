@@ -0,0 +1,127 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import { parseTimeExpression } from '@/src/lib/date-parser';
+import { CsvMarketDataProvider, createMarketDataProvider } from '@/src/lib/market-data';
+import {
+  addSymbols,
+  deleteWatchlist,
+  findWatchlistByName,
+  loadWatchlist,
+  loadWatchlistReport,
+  loadWatchlists,
+  removeSymbols,
+  updateWatchlist,
+} from '@/src/lib/watchlists';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// GET /api/watchlists/[id]?timePeriod=this%20week - Get a watchlist with per-symbol stats
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const accountCode = resolveAccountCode(req);
+    const timePeriod = req.nextUrl.searchParams.get('timePeriod');
+
+    const watchlist = await loadWatchlist(supabase, accountCode, id);
+    if (!watchlist) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 });
+    }
+
+    const parsedTime = timePeriod ? parseTimeExpression(timePeriod) : null;
+    if (timePeriod && !parsedTime) {
+      return NextResponse.json({ error: `Unrecognized time period: ${timePeriod}` }, { status: 400 });
+    }
+
+    // Price files are served by this app from public/market-data
+    const marketData = createMarketDataProvider(
+      supabase,
+      new CsvMarketDataProvider({ baseUrl: `${req.nextUrl.origin}/market-data` })
+    );
+    const report = await loadWatchlistReport(supabase, accountCode, watchlist, marketData, {
+      startDate: parsedTime?.dateRange.startDate,
+      endDate: parsedTime?.dateRange.endDate,
+      periodLabel: parsedTime?.dateRange.description,
+    });
+
+    return NextResponse.json({ watchlist, report });
+  } catch (error) {
+    console.error('Error fetching watchlist:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH /api/watchlists/[id] - Rename, replace symbols, or add/remove symbols
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+    const { name, symbols, add, remove } = body as {
+      name?: string;
+      symbols?: string[];
+      add?: string[];
+      remove?: string[];
+    };
+
+    const existing = await loadWatchlist(supabase, accountCode, id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 });
+    }
+
+    if (name !== undefined) {
+      if (!name.trim()) {
+        return NextResponse.json({ error: 'name cannot be empty' }, { status: 400 });
+      }
+      const clash = findWatchlistByName(await loadWatchlists(supabase, accountCode), name);
+      if (clash && clash.id !== id) {
+        return NextResponse.json({ error: `A watchlist named "${clash.name}" already exists` }, { status: 409 });
+      }
+    }
+
+    // add/remove apply on top of the current (or replaced) symbols
+    let nextSymbols = Array.isArray(symbols) ? symbols : existing.symbols;
+    if (Array.isArray(add)) nextSymbols = addSymbols({ ...existing, symbols: nextSymbols }, add);
+    if (Array.isArray(remove)) nextSymbols = removeSymbols({ ...existing, symbols: nextSymbols }, remove);
+
+    const watchlist = await updateWatchlist(supabase, accountCode, id, { name, symbols: nextSymbols });
+
+    return NextResponse.json({ watchlist });
+  } catch (error) {
+    console.error('Error updating watchlist:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE /api/watchlists/[id] - Delete a watchlist
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const accountCode = resolveAccountCode(req);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+
+    await deleteWatchlist(supabase, accountCode, id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting watchlist:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
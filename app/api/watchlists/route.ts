@@ -0,0 +1,53 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { isKnownAccount, resolveAccountCode } from '@/src/lib/account-context';
+import { createWatchlist, findWatchlistByName, loadWatchlists, type WatchlistInput } from '@/src/lib/watchlists';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// GET /api/watchlists - List the account's watchlists, most recently updated first
+export async function GET(req: NextRequest) {
+  try {
+    const accountCode = resolveAccountCode(req);
+    const watchlists = await loadWatchlists(supabase, accountCode);
+
+    return NextResponse.json({ watchlists });
+  } catch (error) {
+    console.error('Error fetching watchlists:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST /api/watchlists - Create a watchlist
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const accountCode = resolveAccountCode(req, body);
+    if (!(await isKnownAccount(supabase, accountCode))) {
+      return NextResponse.json({ error: `Unknown account: ${accountCode}` }, { status: 403 });
+    }
+    const { name, symbols } = body as WatchlistInput;
+
+    if (!name || !name.trim()) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const existing = findWatchlistByName(await loadWatchlists(supabase, accountCode), name);
+    if (existing) {
+      return NextResponse.json({ error: `A watchlist named "${existing.name}" already exists` }, { status: 409 });
+    }
+
+    const watchlist = await createWatchlist(supabase, accountCode, {
+      name,
+      symbols: Array.isArray(symbols) ? symbols : [],
+    });
+
+    return NextResponse.json({ watchlist }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating watchlist:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
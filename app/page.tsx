@@ -1,18 +1,48 @@
 'use client'
 
-import { useState } from 'react';
-import { Home, TrendingUp, Search, User, Menu, X } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { Home, TrendingUp, Search, User, Menu, X, FileText, ShieldAlert } from 'lucide-react';
 import Portfolio from '../src/components/Portfolio';
 import StockList from '../src/components/StockList';
 import UnifiedAssistant from '../src/components/UnifiedAssistant';
+import AlertInbox from '../src/components/AlertInbox';
+import alpacaApi from '../src/services/alpacaApi';
+import { DEFAULT_ACCOUNT_CODE } from '../src/lib/account-context';
+import type { Account } from '../src/types';
+import type { MarginHealthReport } from '../src/lib/margin';
 import '../src/App.css';
 
 export default function HomePage() {
   const [activeTab, setActiveTab] = useState<'portfolio' | 'stocks'>('portfolio');
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
-  const accountName = 'Aida Guru';
-  const accountCode = 'C40421';
-  const accountType = 'Margin';
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [accountCode, setAccountCode] = useState(DEFAULT_ACCOUNT_CODE);
+  const [marginHealth, setMarginHealth] = useState<MarginHealthReport | null>(null);
+  const currentAccount = accounts.find((account) => account.accountCode === accountCode);
+  const accountName = currentAccount?.holderName ?? '';
+  const accountType = currentAccount?.accountType ?? '';
+
+  useEffect(() => {
+    // The selected account lives in a session cookie, so read it after mount
+    setAccountCode(alpacaApi.getAccountCode());
+    alpacaApi
+      .getAccounts()
+      .then(setAccounts)
+      .catch((error) => console.error('Error fetching accounts:', error));
+  }, []);
+
+  useEffect(() => {
+    // Re-read margin health whenever the account changes
+    alpacaApi
+      .getMarginHealth()
+      .then(setMarginHealth)
+      .catch((error) => console.error('Error fetching margin health:', error));
+  }, [accountCode]);
+
+  const handleAccountChange = useCallback((code: string) => {
+    alpacaApi.setAccountCode(code);
+    setAccountCode(code);
+  }, []);
 
   return (
     <div className="app">
@@ -53,6 +83,33 @@ export default function HomePage() {
           </nav>
 
           <div className="header-right">
+            {accounts.length > 0 && (
+              <select
+                className="account-switcher"
+                value={accountCode}
+                onChange={(event) => handleAccountChange(event.target.value)}
+                title="Switch account"
+              >
+                {accounts.map((account) => (
+                  <option key={account.accountCode} value={account.accountCode}>
+                    {account.holderName} • {account.accountCode}
+                  </option>
+                ))}
+              </select>
+            )}
+            {marginHealth && marginHealth.status !== 'healthy' && (
+              <span
+                className={`icon-btn margin-indicator ${marginHealth.status}`}
+                title={marginHealth.active.map((alert) => alert.message).join('\n')}
+              >
+                <ShieldAlert size={20} />
+                <span>{marginHealth.active.length}</span>
+              </span>
+            )}
+            <AlertInbox key={accountCode} accountCode={accountCode} />
+            <a className="icon-btn" href="/tax" title="Tax reports" style={{ display: 'flex' }}>
+              <FileText size={20} />
+            </a>
             <button className="icon-btn">
               <Search size={20} />
             </button>
@@ -66,10 +123,24 @@ export default function HomePage() {
               <span className="summary-label">Account</span>
               <span className="summary-value">{accountName}</span>
             </div>
-            <div className="summary-chip">
-              <span>{accountCode}</span>
-              <span>{accountType}</span>
-            </div>
+            {accounts.length > 1 ? (
+              <select
+                className="summary-chip account-switcher"
+                value={accountCode}
+                onChange={(event) => handleAccountChange(event.target.value)}
+              >
+                {accounts.map((account) => (
+                  <option key={account.accountCode} value={account.accountCode}>
+                    {account.accountCode} {account.accountType}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <div className="summary-chip">
+                <span>{accountCode}</span>
+                <span>{accountType}</span>
+              </div>
+            )}
           </div>
         </div>
       </header>
@@ -77,12 +148,16 @@ export default function HomePage() {
       {/* Main Content */}
       <main className="app-main">
         <div className="main-container">
-          {activeTab === 'portfolio' ? <Portfolio /> : <StockList />}
+          {activeTab === 'portfolio' ? <Portfolio key={accountCode} /> : <StockList key={accountCode} />}
         </div>
       </main>
 
       {/* Unified Assistant (Voice + Text with Generative UI) */}
-      <UnifiedAssistant />
+      <UnifiedAssistant
+        accounts={accounts}
+        accountCode={accountCode}
+        onAccountChange={handleAccountChange}
+      />
     </div>
   );
 }
@@ -0,0 +1,5 @@
+import TaxReport from '@/src/components/TaxReport';
+
+export default function TaxPage() {
+  return <TaxReport />;
+}
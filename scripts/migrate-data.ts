@@ -1,7 +1,9 @@
 import { createClient } from '@supabase/supabase-js';
 import * as XLSX from 'xlsx';
+import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
+import { parseDividendType } from '../src/lib/dividends';
 
 dotenv.config();
 
@@ -66,6 +68,34 @@ interface AccountInfo {
   acct_holder_name: string;
 }
 
+// Dividends rows use the app's PascalCase table ("Dividends", see 003_dividends.sql)
+interface DividendRow {
+  AccountCode: string;
+  Symbol: string;
+  ExDate: string | null;
+  PayDate: string;
+  DividendType: string;
+  AmountPerShare: number;
+  Quantity: number;
+  GrossAmount: number;
+  WithholdingTax: number;
+  NetAmount: number;
+  Reinvested: boolean;
+}
+
+// Benchmark and symbol closes go to market_data_cache as daily bars (see 004_benchmark_prices.sql)
+interface DailyBarRow {
+  symbol: string;
+  data_type: 'bar';
+  timeframe: '1Day';
+  data: { open?: number; high?: number; low?: number; close: number; volume?: number };
+  timestamp: string;
+  expires_at: string;
+}
+
+// Imported prices are history, not a cache entry
+const IMPORTED_PRICES_EXPIRES_AT = '9999-12-31';
+
 function excelDateToJSDate(serial: number): string {
   const utc_days = Math.floor(serial - 25569);
   const utc_value = utc_days * 86400;
@@ -187,6 +217,125 @@ async function migrateAccountBalances() {
   console.log(`✅ Account Balances Migration Complete: ${balances.length} records`);
 }
 
+async function migrateDividends() {
+  console.log('💵 Migrating Dividends...');
+
+  const filePath = path.join(__dirname, '../requirements/DividendsSample.xlsx');
+  if (!fs.existsSync(filePath)) {
+    console.log('⚠️  No DividendsSample.xlsx found, skipping dividends');
+    return;
+  }
+
+  const workbook = XLSX.readFile(filePath);
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rawData: Record<string, string | number | undefined>[] = XLSX.utils.sheet_to_json(worksheet);
+
+  const dividends: DividendRow[] = rawData
+    .filter(row => row.AccountCode && row.Symbol && row.PayDate)
+    .map(row => {
+      const amountPerShare = Number(row.AmountPerShare || row.Rate || 0);
+      const quantity = Number(row.Quantity || row.Shares || 0);
+      const grossAmount = Number(row.GrossAmount || amountPerShare * quantity);
+      const withholdingTax = Math.abs(Number(row.WithholdingTax || row.Withholding || 0));
+      return {
+        AccountCode: String(row.AccountCode),
+        Symbol: String(row.Symbol).toUpperCase(),
+        ExDate: row.ExDate ? parseExcelDate(row.ExDate) : null,
+        PayDate: parseExcelDate(row.PayDate),
+        DividendType: parseDividendType(row.DividendType),
+        AmountPerShare: amountPerShare,
+        Quantity: quantity,
+        GrossAmount: grossAmount,
+        WithholdingTax: withholdingTax,
+        NetAmount: Number(row.NetAmount || grossAmount - withholdingTax),
+        Reinvested: String(row.Reinvested || '').toUpperCase().startsWith('Y') || row.Reinvested === 1,
+      };
+    });
+
+  // Upsert in batches so re-running the import does not duplicate payments
+  const batchSize = 100;
+  for (let i = 0; i < dividends.length; i += batchSize) {
+    const batch = dividends.slice(i, i + batchSize);
+    const { error } = await supabase.from('Dividends').upsert(batch, {
+      onConflict: 'AccountCode,Symbol,PayDate,DividendType',
+    });
+
+    if (error) {
+      console.error(`Error inserting dividend batch ${i / batchSize + 1}:`, error);
+    } else {
+      console.log(`✅ Inserted dividends ${i + 1} to ${Math.min(i + batchSize, dividends.length)}`);
+    }
+  }
+
+  console.log(`✅ Dividends Migration Complete: ${dividends.length} records`);
+}
+
+// Import one CSV per symbol from a requirements/ folder (e.g. requirements/benchmarks/SPY.csv); returns the symbol count
+async function importDailyPrices(folder: string, label: string): Promise<number> {
+  const directory = path.join(__dirname, '../requirements', folder);
+  if (!fs.existsSync(directory)) {
+    console.log(`⚠️  No requirements/${folder} directory found, skipping ${label}`);
+    return 0;
+  }
+
+  const files = fs.readdirSync(directory).filter(file => file.toLowerCase().endsWith('.csv'));
+  for (const file of files) {
+    const symbol = path.basename(file, path.extname(file)).toUpperCase();
+    const workbook = XLSX.readFile(path.join(directory, file));
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rawData: Record<string, string | number | undefined>[] = XLSX.utils.sheet_to_json(worksheet);
+
+    // Adjusted close when present, so dividends count toward the return
+    const bars: DailyBarRow[] = rawData
+      .filter(row => row.Date && (row['Adj Close'] || row.Close))
+      .map(row => ({
+        symbol,
+        data_type: 'bar',
+        timeframe: '1Day',
+        data: {
+          open: row.Open ? Number(row.Open) : undefined,
+          high: row.High ? Number(row.High) : undefined,
+          low: row.Low ? Number(row.Low) : undefined,
+          close: Number(row['Adj Close'] || row.Close),
+          volume: row.Volume ? Number(row.Volume) : undefined,
+        },
+        timestamp: parseExcelDate(row.Date),
+        expires_at: IMPORTED_PRICES_EXPIRES_AT,
+      }));
+
+    const batchSize = 100;
+    for (let i = 0; i < bars.length; i += batchSize) {
+      const batch = bars.slice(i, i + batchSize);
+      const { error } = await supabase.from('market_data_cache').upsert(batch, {
+        onConflict: 'symbol,data_type,timeframe,timestamp',
+      });
+
+      if (error) {
+        console.error(`Error inserting ${symbol} price batch ${i / batchSize + 1}:`, error);
+      } else {
+        console.log(`✅ Inserted ${symbol} prices ${i + 1} to ${Math.min(i + batchSize, bars.length)}`);
+      }
+    }
+
+    console.log(`✅ ${symbol}: ${bars.length} daily closes`);
+  }
+
+  return files.length;
+}
+
+async function migrateBenchmarkPrices() {
+  console.log('📈 Migrating Benchmark Prices...');
+  const count = await importDailyPrices('benchmarks', 'benchmark prices');
+  console.log(`✅ Benchmark Prices Migration Complete: ${count} benchmarks`);
+}
+
+// Daily prices for traded symbols, served by the default market data provider from the cache
+async function migrateMarketDataPrices() {
+  console.log('💹 Migrating Market Data Prices...');
+  const count = await importDailyPrices('market-data', 'market data prices');
+  console.log(`✅ Market Data Prices Migration Complete: ${count} symbols`);
+}
+
 async function extractAndMigrateAccountInfo() {
   console.log('👤 Extracting and Migrating Account Info...');
   
@@ -249,6 +398,15 @@ async function main() {
     
     await migrateAccountBalances();
     console.log();
+
+    await migrateDividends();
+    console.log();
+
+    await migrateBenchmarkPrices();
+    console.log();
+
+    await migrateMarketDataPrices();
+    console.log();
     
     await extractAndMigrateAccountInfo();
     console.log();
@@ -268,10 +426,15 @@ async function main() {
       .from('acct_info')
       .select('*', { count: 'exact', head: true });
 
+    const { count: dividendCount } = await supabase
+      .from('Dividends')
+      .select('*', { count: 'exact', head: true });
+
     console.log('\n📈 Migration Summary:');
     console.log(`   - Trades: ${tradeCount}`);
     console.log(`   - Account Balances: ${balanceCount}`);
     console.log(`   - Accounts: ${accountCount}`);
+    console.log(`   - Dividends: ${dividendCount}`);
 
   } catch (error) {
     console.error('❌ Migration failed:', error);
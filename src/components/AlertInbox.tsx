@@ -0,0 +1,79 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Bell } from 'lucide-react';
+import { ACCOUNT_HEADER } from '../lib/account-context';
+import type { AlertNotification } from '../lib/alerts';
+
+interface AlertInboxProps {
+  accountCode: string;
+}
+
+const AlertInbox: React.FC<AlertInboxProps> = ({ accountCode }) => {
+  const [notifications, setNotifications] = useState<AlertNotification[]>([]);
+  const [open, setOpen] = useState(false);
+  const unread = notifications.filter((n) => !n.read).length;
+
+  const loadNotifications = useCallback(async () => {
+    const res = await fetch('/api/alerts/notifications?limit=20', { headers: { [ACCOUNT_HEADER]: accountCode } });
+    const data = await res.json();
+    setNotifications(data.notifications || []);
+  }, [accountCode]);
+
+  useEffect(() => {
+    // Run the alerts job for the account, then show what it recorded
+    const headers = { 'Content-Type': 'application/json', [ACCOUNT_HEADER]: accountCode };
+    fetch('/api/alerts/evaluate', { method: 'POST', headers, body: '{}' })
+      .catch((error) => console.error('Error running alerts job:', error))
+      .finally(() => {
+        loadNotifications().catch((error) => console.error('Error fetching notifications:', error));
+      });
+  }, [accountCode, loadNotifications]);
+
+  const markAllRead = async () => {
+    try {
+      await fetch('/api/alerts/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', [ACCOUNT_HEADER]: accountCode },
+        body: '{}',
+      });
+      setNotifications((list) => list.map((n) => ({ ...n, read: true })));
+    } catch (error) {
+      console.error('Error marking notifications read:', error);
+    }
+  };
+
+  return (
+    <div className="alert-inbox">
+      <button className="icon-btn alert-inbox-btn" onClick={() => setOpen(!open)} title="Notifications">
+        <Bell size={20} />
+        {unread > 0 && <span className="alert-inbox-count">{unread}</span>}
+      </button>
+
+      {open && (
+        <div className="alert-inbox-panel">
+          <div className="alert-inbox-header">
+            <span>Notifications</span>
+            {unread > 0 && (
+              <button className="alert-inbox-read" onClick={markAllRead}>
+                Mark all read
+              </button>
+            )}
+          </div>
+          {notifications.length === 0 ? (
+            <p className="alert-inbox-empty">
+              No alerts yet. Ask the assistant to "alert me when my TSLA short puts are 3 days from expiry".
+            </p>
+          ) : (
+            notifications.map((n) => (
+              <div key={n.id} className={`alert-inbox-item ${n.read ? '' : 'unread'}`}>
+                <span>{n.message}</span>
+                <span className="alert-inbox-date">{n.date}</span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertInbox;
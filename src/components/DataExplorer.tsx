@@ -2,7 +2,9 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Database, Table, Download, ChevronLeft, ChevronRight, Clock, ToggleLeft, ToggleRight, Loader2, Search, Terminal, Zap } from 'lucide-react';
+import { Database, Table, Download, ChevronLeft, ChevronRight, ChevronDown, Clock, ToggleLeft, ToggleRight, Loader2, Search, Terminal, Zap, Scale, Play } from 'lucide-react';
+import { ACCOUNT_HEADER, DEFAULT_ACCOUNT_CODE, getSessionAccountCode } from '@/src/lib/account-context';
+import type { ReconciliationBreak, ReconciliationReport } from '@/src/lib/reconciliation';
 
 interface TableInfo {
   name: string;
@@ -42,9 +44,278 @@ const colors = {
   purple: '#a855f7',
 };
 
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
+
+const CANDIDATE_MATCH_LABELS: Record<string, string> = {
+  not_posted: 'NOT POSTED / DUPLICATE',
+  sign_reversed: 'SIGN REVERSED',
+};
+
+const inputStyle: React.CSSProperties = {
+  padding: '8px 12px',
+  background: colors.bgCard,
+  border: `1px solid ${colors.border}`,
+  borderRadius: '6px',
+  color: colors.text,
+  fontSize: '12px',
+  outline: 'none',
+  fontFamily: 'inherit',
+};
+
+const buttonStyle = (color: string): React.CSSProperties => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  padding: '8px 16px',
+  background: `${color}20`,
+  border: `1px solid ${color}50`,
+  borderRadius: '6px',
+  color,
+  fontSize: '12px',
+  fontWeight: 500,
+  cursor: 'pointer',
+  fontFamily: 'inherit',
+  letterSpacing: '1px',
+});
+
+// Cash reconciliation break report (dates are raw database dates)
+const ReconciliationPanel: React.FC = () => {
+  const [accountCode, setAccountCode] = useState(DEFAULT_ACCOUNT_CODE);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [tolerance, setTolerance] = useState('1');
+  const [report, setReport] = useState<(ReconciliationReport & { recorded?: number; error?: string }) | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    // Start on the account selected for the session, read from its cookie after mount
+    setAccountCode(getSessionAccountCode());
+  }, []);
+
+  const runCheck = async (record: boolean) => {
+    setLoading(true);
+    try {
+      const headers = { 'Content-Type': 'application/json', [ACCOUNT_HEADER]: accountCode };
+      const options = { from: fromDate || undefined, to: toDate || undefined, tolerance };
+      const res = record
+        ? await fetch('/api/reconciliation', { method: 'POST', headers, body: JSON.stringify(options) })
+        : await fetch(
+            `/api/reconciliation?${new URLSearchParams(
+              Object.entries(options).filter(([, v]) => v) as [string, string][]
+            )}`,
+            { headers }
+          );
+      setReport(await res.json());
+      setExpanded(null);
+    } catch (error) {
+      console.error('Failed to run reconciliation:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderBreak = (item: ReconciliationBreak) => {
+    const isOpen = expanded === item.date;
+    return (
+      <div key={item.date} style={{ borderBottom: `1px solid ${colors.border}` }}>
+        <button
+          onClick={() => setExpanded(isOpen ? null : item.date)}
+          style={{
+            width: '100%',
+            display: 'grid',
+            gridTemplateColumns: '20px 1.2fr 1fr 1fr 1fr 1fr 1.4fr',
+            alignItems: 'center',
+            gap: '12px',
+            padding: '12px 16px',
+            background: isOpen ? colors.bgHover : 'transparent',
+            border: 'none',
+            color: colors.text,
+            fontSize: '12px',
+            fontFamily: 'inherit',
+            textAlign: 'left',
+            cursor: 'pointer',
+          }}
+        >
+          {isOpen ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <span>
+            {item.date}
+            <span style={{ color: colors.textDim }}> ← {item.previousDate}</span>
+          </span>
+          <span>{formatMoney(item.cashDelta)}</span>
+          <span style={{ color: colors.textMuted }}>{formatMoney(item.tradeCash)}</span>
+          <span style={{ color: colors.textMuted }}>{formatMoney(item.feeCash + item.dividendCash)}</span>
+          <span style={{ color: colors.error, fontWeight: 600 }}>{formatMoney(item.unexplained)}</span>
+          <span style={{ fontSize: '10px', color: item.noActivity ? colors.warning : colors.cyan, letterSpacing: '1px' }}>
+            {item.noActivity
+              ? 'NO ACTIVITY · DEPOSIT/WITHDRAWAL?'
+              : `${item.candidates.length} CANDIDATE${item.candidates.length === 1 ? '' : 'S'}`}
+          </span>
+        </button>
+        {isOpen && item.candidates.length > 0 && (
+          <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '11px', background: colors.bgPanel }}>
+            <thead>
+              <tr>
+                {['Source', 'Date', 'Reference', 'Symbol', 'Cash', 'Match'].map(col => (
+                  <th
+                    key={col}
+                    style={{
+                      padding: '8px 16px',
+                      textAlign: 'left',
+                      color: colors.textMuted,
+                      fontSize: '10px',
+                      letterSpacing: '1px',
+                      textTransform: 'uppercase',
+                    }}
+                  >
+                    {col}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {item.candidates.map((candidate, index) => (
+                <tr key={`${candidate.source}-${candidate.reference}-${index}`} style={{ borderTop: `1px solid ${colors.border}` }}>
+                  <td style={{ padding: '8px 16px', color: colors.textMuted }}>{candidate.source}</td>
+                  <td style={{ padding: '8px 16px' }}>{candidate.date}</td>
+                  <td style={{ padding: '8px 16px' }}>{candidate.reference}</td>
+                  <td style={{ padding: '8px 16px' }}>{candidate.symbol ?? '—'}</td>
+                  <td style={{ padding: '8px 16px' }}>{formatMoney(candidate.amount)}</td>
+                  <td style={{ padding: '8px 16px', color: candidate.match ? colors.warning : colors.textDim }}>
+                    {candidate.match ? CANDIDATE_MATCH_LABELS[candidate.match] : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <motion.div
+      key="reconciliation"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      style={{ display: 'flex', flexDirection: 'column', flex: 1, minHeight: 0, gap: '16px' }}
+    >
+      {/* Toolbar */}
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '16px', flexWrap: 'wrap' }}>
+        <h2 style={{ fontSize: '20px', fontWeight: 600, margin: 0, color: colors.text }}>
+          Cash Reconciliation
+        </h2>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+          <input
+            value={accountCode}
+            onChange={(e) => setAccountCode(e.target.value.toUpperCase())}
+            placeholder="Account"
+            style={{ ...inputStyle, width: '100px' }}
+          />
+          <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} style={inputStyle} />
+          <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} style={inputStyle} />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={tolerance}
+            onChange={(e) => setTolerance(e.target.value)}
+            title="Tolerance ($)"
+            style={{ ...inputStyle, width: '80px' }}
+          />
+          <button onClick={() => runCheck(false)} disabled={loading} style={buttonStyle(colors.cyan)}>
+            <Search size={14} />
+            CHECK
+          </button>
+          <button
+            onClick={() => runCheck(true)}
+            disabled={loading}
+            style={buttonStyle(colors.accent)}
+            title="Run the job and record breaks in ReconciliationBreaks"
+          >
+            <Play size={14} />
+            RUN JOB
+          </button>
+          {loading && <Loader2 size={16} style={{ color: colors.accent, animation: 'spin 1s linear infinite' }} />}
+        </div>
+      </div>
+
+      {report?.error ? (
+        <div style={{ fontSize: '12px', color: colors.error }}>{report.error}</div>
+      ) : report ? (
+        <>
+          {/* Summary */}
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '12px' }}>
+            {[
+              { label: 'DAYS CHECKED', value: report.daysChecked.toLocaleString(), color: colors.text },
+              { label: 'RECONCILED', value: report.daysReconciled.toLocaleString(), color: colors.accent },
+              { label: 'BREAKS', value: report.breaks.length.toLocaleString(), color: report.breaks.length > 0 ? colors.error : colors.accent },
+              { label: 'UNEXPLAINED', value: formatMoney(report.totalUnexplained), color: report.breaks.length > 0 ? colors.error : colors.text },
+            ].map(stat => (
+              <div
+                key={stat.label}
+                style={{ padding: '12px 16px', background: colors.bgCard, border: `1px solid ${colors.border}`, borderRadius: '8px' }}
+              >
+                <div style={{ fontSize: '10px', color: colors.textMuted, letterSpacing: '1px' }}>{stat.label}</div>
+                <div style={{ fontSize: '18px', fontWeight: 600, color: stat.color, marginTop: '6px' }}>{stat.value}</div>
+              </div>
+            ))}
+          </div>
+          <div style={{ fontSize: '11px', color: colors.textMuted }}>
+            {report.startDate && report.endDate ? `${report.startDate} → ${report.endDate}` : 'No balances in range'}
+            {' · '}tolerance {formatMoney(report.tolerance)}
+            {report.recorded !== undefined && ` · ${report.recorded} break${report.recorded === 1 ? '' : 's'} recorded`}
+          </div>
+
+          {/* Breaks */}
+          <div style={{ flex: 1, overflow: 'auto', background: colors.bgCard, border: `1px solid ${colors.border}`, borderRadius: '8px' }}>
+            <div
+              style={{
+                display: 'grid',
+                gridTemplateColumns: '20px 1.2fr 1fr 1fr 1fr 1fr 1.4fr',
+                gap: '12px',
+                padding: '12px 16px',
+                background: colors.bgPanel,
+                borderBottom: `1px solid ${colors.border}`,
+                fontSize: '10px',
+                color: colors.textMuted,
+                letterSpacing: '1px',
+                position: 'sticky',
+                top: 0,
+              }}
+            >
+              <span />
+              <span>BALANCE DATE</span>
+              <span>CASH DELTA</span>
+              <span>TRADES</span>
+              <span>FEES & DIVIDENDS</span>
+              <span>UNEXPLAINED</span>
+              <span>STATUS</span>
+            </div>
+            {report.breaks.length === 0 ? (
+              <div style={{ padding: '24px', fontSize: '12px', color: colors.accent, textAlign: 'center' }}>
+                Every cash movement is explained by trades, fees and dividends.
+              </div>
+            ) : (
+              report.breaks.map(renderBreak)
+            )}
+          </div>
+        </>
+      ) : (
+        <div style={{ fontSize: '12px', color: colors.textDim }}>
+          Explains each day&apos;s CashBalance change in AccountBalance by trades (NetAmount), fees and interest, and cash dividends.
+          Run a check to list unexplained breaks and the rows that could explain them.
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
 const DataExplorer: React.FC = () => {
   const [tables, setTables] = useState<TableInfo[]>([]);
   const [selectedTable, setSelectedTable] = useState<string | null>(null);
+  const [view, setView] = useState<'tables' | 'reconciliation'>('tables');
   const [tableData, setTableData] = useState<TableData | null>(null);
   const [loading, setLoading] = useState(false);
   const [applyDateOffset, setApplyDateOffset] = useState(false);
@@ -85,6 +356,7 @@ const DataExplorer: React.FC = () => {
 
   // Handle table selection
   const handleSelectTable = (tableName: string) => {
+    setView('tables');
     setSelectedTable(tableName);
     setCurrentPage(0);
     setSearchQuery('');
@@ -142,6 +414,8 @@ const DataExplorer: React.FC = () => {
   });
 
   const totalPages = tableData ? Math.ceil(tableData.totalCount / pageSize) : 0;
+  // The highlighted table (none while a check is open)
+  const activeTable = view === 'tables' ? selectedTable : null;
 
   // Format cell value for display
   const formatCellValue = (value: unknown, column: string): string => {
@@ -406,9 +680,9 @@ const DataExplorer: React.FC = () => {
                 style={{
                   width: '100%',
                   padding: '14px 20px',
-                  background: selectedTable === table.name ? colors.accentGlow : 'transparent',
+                  background: activeTable === table.name ? colors.accentGlow : 'transparent',
                   border: 'none',
-                  borderLeft: `3px solid ${selectedTable === table.name ? colors.accent : 'transparent'}`,
+                  borderLeft: `3px solid ${activeTable === table.name ? colors.accent : 'transparent'}`,
                   cursor: 'pointer',
                   display: 'flex',
                   alignItems: 'center',
@@ -417,24 +691,24 @@ const DataExplorer: React.FC = () => {
                   textAlign: 'left',
                 }}
                 onMouseEnter={(e) => {
-                  if (selectedTable !== table.name) {
+                  if (activeTable !== table.name) {
                     e.currentTarget.style.background = colors.bgHover;
                   }
                 }}
                 onMouseLeave={(e) => {
-                  if (selectedTable !== table.name) {
+                  if (activeTable !== table.name) {
                     e.currentTarget.style.background = 'transparent';
                   }
                 }}
               >
                 <Table size={16} style={{
-                  color: selectedTable === table.name ? colors.accent : colors.textMuted
+                  color: activeTable === table.name ? colors.accent : colors.textMuted
                 }} />
                 <div>
                   <div style={{
                     fontSize: '13px',
                     fontWeight: 500,
-                    color: selectedTable === table.name ? colors.accent : colors.text,
+                    color: activeTable === table.name ? colors.accent : colors.text,
                   }}>
                     {table.displayName}
                   </div>
@@ -449,12 +723,55 @@ const DataExplorer: React.FC = () => {
               </motion.button>
             ))}
           </nav>
+
+          <div style={{
+            padding: '16px',
+            borderTop: `1px solid ${colors.border}`,
+            borderBottom: `1px solid ${colors.border}`,
+            margin: '8px 0',
+            fontSize: '11px',
+            color: colors.textMuted,
+            letterSpacing: '2px',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+          }}>
+            <Scale size={12} />
+            CHECKS
+          </div>
+          <button
+            onClick={() => setView('reconciliation')}
+            style={{
+              width: '100%',
+              padding: '14px 20px',
+              background: view === 'reconciliation' ? colors.accentGlow : 'transparent',
+              border: 'none',
+              borderLeft: `3px solid ${view === 'reconciliation' ? colors.accent : 'transparent'}`,
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '12px',
+              textAlign: 'left',
+            }}
+          >
+            <Scale size={16} style={{ color: view === 'reconciliation' ? colors.accent : colors.textMuted }} />
+            <div>
+              <div style={{ fontSize: '13px', fontWeight: 500, color: view === 'reconciliation' ? colors.accent : colors.text }}>
+                Cash Reconciliation
+              </div>
+              <div style={{ fontSize: '10px', color: colors.textDim, fontFamily: 'monospace' }}>
+                AccountBalance vs activity
+              </div>
+            </div>
+          </button>
         </aside>
 
         {/* Main Content */}
         <main style={{ flex: 1, padding: '24px', overflow: 'hidden', display: 'flex', flexDirection: 'column' }}>
           <AnimatePresence mode="wait">
-            {!selectedTable ? (
+            {view === 'reconciliation' ? (
+              <ReconciliationPanel />
+            ) : !selectedTable ? (
               // Empty state
               <motion.div
                 key="empty"
@@ -2,20 +2,50 @@ import React, { useEffect, useState } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { TrendingUp, TrendingDown } from 'lucide-react';
 import type { Portfolio as PortfolioType, ChartData } from '../types';
+import type { PerformanceReport } from '../lib/performance';
+import type { RiskReport } from '../lib/risk';
+import type { BenchmarkComparison } from '../lib/benchmark';
+import { demoDateToRealDate } from '../lib/date-utils';
 import alpacaApi from '../services/alpacaApi';
+import { AdjustedBadge } from './generative-ui/AdjustedBadge';
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(2)}%`);
+
+const formatMoney = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Period keys are on the database calendar; labels are shifted to display dates
+const formatPeriodLabel = (period: string): string => {
+  const quarter = period.match(/^(\d{4})-Q(\d)$/);
+  if (quarter) {
+    const month = (Number(quarter[2]) - 1) * 3 + 2;
+    const date = demoDateToRealDate(`${quarter[1]}-${String(month).padStart(2, '0')}-15`);
+    return `Q${Math.floor(date.getMonth() / 3) + 1} ${date.getFullYear()}`;
+  }
+  return demoDateToRealDate(`${period}-15`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+};
 
 const Portfolio: React.FC = () => {
   const [portfolio, setPortfolio] = useState<PortfolioType | null>(null);
   const [chartData, setChartData] = useState<ChartData[]>([]);
   const [period, setPeriod] = useState<'1D' | '1W' | '1M' | '3M' | '1Y'>('3M');
   const [loading, setLoading] = useState(true);
+  const [performance, setPerformance] = useState<PerformanceReport | null>(null);
+  const [returnsView, setReturnsView] = useState<'monthly' | 'quarterly'>('monthly');
+  const [risk, setRisk] = useState<RiskReport | null>(null);
+  const [showDrawdown, setShowDrawdown] = useState(false);
+  const [benchmark, setBenchmark] = useState<BenchmarkComparison | null>(null);
+  const [showBenchmark, setShowBenchmark] = useState(false);
 
   useEffect(() => {
     fetchPortfolioData();
+    fetchPerformance();
   }, []);
 
   useEffect(() => {
     fetchChartData();
+    fetchRisk();
+    fetchBenchmark();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [period]);
 
@@ -30,6 +60,33 @@ const Portfolio: React.FC = () => {
     }
   };
 
+  const fetchPerformance = async () => {
+    try {
+      const data = await alpacaApi.getPerformance();
+      setPerformance(data);
+    } catch (error) {
+      console.error('Error fetching performance:', error);
+    }
+  };
+
+  const fetchRisk = async () => {
+    try {
+      const data = await alpacaApi.getRiskAnalytics(period);
+      setRisk(data);
+    } catch (error) {
+      console.error('Error fetching risk analytics:', error);
+    }
+  };
+
+  const fetchBenchmark = async () => {
+    try {
+      const data = await alpacaApi.getBenchmarkComparison(period);
+      setBenchmark(data);
+    } catch (error) {
+      console.error('Error fetching benchmark comparison:', error);
+    }
+  };
+
   const fetchChartData = async () => {
     try {
       const data = await alpacaApi.getChartData('PORTFOLIO', period);
@@ -53,6 +110,28 @@ const Portfolio: React.FC = () => {
 
   const isGain = portfolio.dayChange >= 0;
 
+  // Overlay the drawdown series on the equity chart by display timestamp
+  const drawdownByTimestamp = new Map(
+    (risk?.drawdowns ?? []).map((point) => [demoDateToRealDate(point.date).getTime(), point.drawdown])
+  );
+
+  // Benchmark growth rescaled to start at the first charted equity value
+  const benchmarkByTimestamp = new Map(
+    (benchmark?.series ?? []).map((point) => [demoDateToRealDate(point.date).getTime(), point.benchmark])
+  );
+  const benchmarkBase = chartData.length > 0 ? benchmarkByTimestamp.get(chartData[0].timestamp) ?? 0 : 0;
+
+  const chartSeries = chartData.map((point) => {
+    const benchmarkReturn = benchmarkByTimestamp.get(point.timestamp);
+    return {
+      ...point,
+      drawdown: showDrawdown ? drawdownByTimestamp.get(point.timestamp) : undefined,
+      benchmark: showBenchmark && benchmarkReturn !== undefined
+        ? chartData[0].price * (1 + benchmarkReturn) / (1 + benchmarkBase)
+        : undefined,
+    };
+  });
+
   return (
     <div className="portfolio">
       <div className="portfolio-header">
@@ -92,10 +171,24 @@ const Portfolio: React.FC = () => {
               {p}
             </button>
           ))}
+          <button
+            className={`period-btn ${showDrawdown ? 'active' : ''}`}
+            onClick={() => setShowDrawdown(!showDrawdown)}
+          >
+            Drawdown
+          </button>
+          {benchmark && (
+            <button
+              className={`period-btn ${showBenchmark ? 'active' : ''}`}
+              onClick={() => setShowBenchmark(!showBenchmark)}
+            >
+              vs {benchmark.symbol}
+            </button>
+          )}
         </div>
         
         <ResponsiveContainer width="100%" height={300}>
-          <LineChart data={chartData}>
+          <LineChart data={chartSeries}>
             <CartesianGrid strokeDasharray="3 3" stroke="#2a2a2a" />
             <XAxis 
               dataKey="timestamp" 
@@ -114,12 +207,149 @@ const Portfolio: React.FC = () => {
               strokeWidth={2}
               dot={false}
             />
+            {showBenchmark && (
+              <Line
+                type="monotone"
+                dataKey="benchmark"
+                name={benchmark?.symbol}
+                stroke="#4da6ff"
+                strokeWidth={1.5}
+                dot={false}
+                connectNulls
+              />
+            )}
+            {showDrawdown && (
+              <YAxis
+                yAxisId="drawdown"
+                orientation="right"
+                stroke="#666"
+                tickFormatter={(value: number) => `${(value * 100).toFixed(0)}%`}
+              />
+            )}
+            {showDrawdown && (
+              <Line
+                yAxisId="drawdown"
+                type="stepAfter"
+                dataKey="drawdown"
+                name="Drawdown"
+                stroke="#ff5252"
+                strokeDasharray="4 4"
+                dot={false}
+              />
+            )}
           </LineChart>
         </ResponsiveContainer>
+
+        {risk && (
+          <div className="portfolio-stats risk-stats">
+            <div className="stat">
+              <span className="stat-label">Max Drawdown</span>
+              <span className="stat-value loss">{formatPercent(risk.maxDrawdown?.depth ?? 0)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Volatility</span>
+              <span className="stat-value">{formatPercent(risk.volatility)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Sharpe</span>
+              <span className="stat-value">{risk.sharpe === null ? '—' : risk.sharpe.toFixed(2)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Sortino</span>
+              <span className="stat-value">{risk.sortino === null ? '—' : risk.sortino.toFixed(2)}</span>
+            </div>
+          </div>
+        )}
+
+        {showBenchmark && benchmark && (
+          <div className="portfolio-stats risk-stats">
+            <div className="stat">
+              <span className="stat-label">vs {benchmark.symbol}</span>
+              <span className={`stat-value ${benchmark.excessReturn >= 0 ? 'gain' : 'loss'}`}>
+                {formatPercent(benchmark.excessReturn)}
+              </span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">{benchmark.symbol} Return</span>
+              <span className="stat-value">{formatPercent(benchmark.benchmarkReturn)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Alpha</span>
+              <span className="stat-value">{formatPercent(benchmark.alpha)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Beta</span>
+              <span className="stat-value">{benchmark.beta === null ? '—' : benchmark.beta.toFixed(2)}</span>
+            </div>
+          </div>
+        )}
       </div>
 
+      {performance && (
+        <div className="performance">
+          <div className="performance-header">
+            <h2>Performance</h2>
+            <div className="chart-periods">
+              {(['monthly', 'quarterly'] as const).map((view) => (
+                <button
+                  key={view}
+                  className={`period-btn ${returnsView === view ? 'active' : ''}`}
+                  onClick={() => setReturnsView(view)}
+                >
+                  {view === 'monthly' ? 'Monthly' : 'Quarterly'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="portfolio-stats">
+            <div className="stat">
+              <span className="stat-label">Time-Weighted</span>
+              <span className="stat-value">{formatPercent(performance.twr)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Money-Weighted (IRR)</span>
+              <span className="stat-value">{formatPercent(performance.irr)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">YTD</span>
+              <span className="stat-value">{formatPercent(performance.ytd?.twr ?? null)}</span>
+            </div>
+            <div className="stat">
+              <span className="stat-label">Net Deposits</span>
+              <span className="stat-value">{formatMoney(performance.netFlows)}</span>
+            </div>
+          </div>
+
+          <table className="returns-table">
+            <thead>
+              <tr>
+                <th>Period</th>
+                <th>Start Value</th>
+                <th>Net Flows</th>
+                <th>Gain</th>
+                <th>Return</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...performance[returnsView]].reverse().map((row) => (
+                <tr key={row.period}>
+                  <td>{formatPeriodLabel(row.period)}</td>
+                  <td>{formatMoney(row.startEquity)}</td>
+                  <td>{formatMoney(row.netFlows)}</td>
+                  <td className={row.gain >= 0 ? 'gain' : 'loss'}>{formatMoney(row.gain)}</td>
+                  <td className={row.twr >= 0 ? 'gain' : 'loss'}>{formatPercent(row.twr)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       <div className="positions">
-        <h2>Positions</h2>
+        <h2>
+          Positions <AdjustedBadge adjustments={portfolio.corporateAdjustments} />
+        </h2>
         <div className="positions-list">
           {portfolio.positions.map((position) => {
             const positionGain = position.gainLoss >= 0;
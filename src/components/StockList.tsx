@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { TrendingUp, TrendingDown, Search } from 'lucide-react';
 import type { Stock } from '../types';
 import alpacaApi from '../services/alpacaApi';
+import WatchlistManager from './WatchlistManager';
 
 const StockList: React.FC = () => {
   const [stocks, setStocks] = useState<Stock[]>([]);
@@ -76,6 +77,8 @@ const StockList: React.FC = () => {
         </div>
       </div>
 
+      <WatchlistManager />
+
       <div className="stocks-grid">
         {filteredStocks.map((stock) => {
           const isGain = stock.change >= 0;
@@ -0,0 +1,311 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { FileText, Download, ChevronLeft, Loader2, AlertTriangle } from 'lucide-react';
+
+interface TaxLot {
+  description: string;
+  symbol: string;
+  securityType: string;
+  dateAcquired: string;
+  dateSold: string;
+  proceeds: number;
+  costBasis: number;
+  adjustmentCode: '' | 'W';
+  adjustmentAmount: number;
+  gainLoss: number;
+  term: 'short' | 'long';
+}
+
+interface ScheduleDTotals {
+  count: number;
+  proceeds: number;
+  costBasis: number;
+  adjustments: number;
+  gainLoss: number;
+}
+
+interface TaxLotResponse {
+  taxYear: number;
+  methodLabel: string;
+  lots: TaxLot[];
+  shortTerm: ScheduleDTotals;
+  longTerm: ScheduleDTotals;
+  total: ScheduleDTotals;
+  error?: string;
+}
+
+const colors = {
+  bg: '#000000',
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+  warning: '#ffa64d',
+};
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const pnlColor = (value: number) => (value >= 0 ? colors.profit : colors.loss);
+
+const TaxReport: React.FC = () => {
+  const currentYear = new Date().getFullYear();
+  const years = Array.from({ length: 5 }, (_, i) => currentYear - i);
+
+  const [taxYear, setTaxYear] = useState(currentYear);
+  const [report, setReport] = useState<TaxLotResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchReport = useCallback(async (year: number) => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/tax-lots?year=${year}&format=json`);
+      setReport(await res.json());
+    } catch (error) {
+      console.error('Failed to fetch tax lots:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReport(taxYear);
+  }, [taxYear, fetchReport]);
+
+  const styles: Record<string, React.CSSProperties> = {
+    page: {
+      minHeight: '100vh',
+      background: colors.bg,
+      color: colors.textPrimary,
+      padding: '24px',
+      fontFamily: 'Inter, -apple-system, BlinkMacSystemFont, sans-serif',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      flexWrap: 'wrap',
+      gap: '12px',
+      marginBottom: '24px',
+    },
+    title: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '10px',
+      fontSize: '20px',
+      fontWeight: 700,
+    },
+    back: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '4px',
+      color: colors.textSecondary,
+      fontSize: '13px',
+      textDecoration: 'none',
+      marginBottom: '12px',
+    },
+    controls: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+    },
+    select: {
+      padding: '8px 12px',
+      background: colors.bgCard,
+      border: `1px solid ${colors.border}`,
+      borderRadius: '8px',
+      color: colors.textPrimary,
+      fontSize: '13px',
+    },
+    button: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '6px',
+      padding: '8px 12px',
+      background: colors.bgHeader,
+      border: `1px solid ${colors.border}`,
+      borderRadius: '8px',
+      color: colors.textPrimary,
+      fontSize: '13px',
+      fontWeight: 600,
+      textDecoration: 'none',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))',
+      gap: '12px',
+      marginBottom: '24px',
+    },
+    summaryCard: {
+      padding: '16px',
+      borderRadius: '12px',
+      background: colors.bgCard,
+      border: `1px solid ${colors.border}`,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase',
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '22px',
+      fontWeight: 700,
+    },
+    summaryDetail: {
+      fontSize: '12px',
+      color: colors.textSecondary,
+      marginTop: '6px',
+    },
+    tableWrapper: {
+      background: colors.bgCard,
+      border: `1px solid ${colors.border}`,
+      borderRadius: '12px',
+      overflowX: 'auto',
+    },
+    table: {
+      width: '100%',
+      borderCollapse: 'collapse',
+      fontSize: '12px',
+    },
+    th: {
+      textAlign: 'left',
+      padding: '10px 12px',
+      background: colors.bgHeader,
+      color: colors.textMuted,
+      fontSize: '10px',
+      fontWeight: 600,
+      textTransform: 'uppercase',
+      letterSpacing: '0.5px',
+      whiteSpace: 'nowrap',
+    },
+    td: {
+      padding: '10px 12px',
+      borderTop: `1px solid ${colors.border}`,
+      whiteSpace: 'nowrap',
+    },
+    empty: {
+      padding: '32px',
+      textAlign: 'center',
+      color: colors.textSecondary,
+      fontSize: '13px',
+    },
+  };
+
+  const renderTotals = (label: string, totals: ScheduleDTotals) => (
+    <div style={styles.summaryCard}>
+      <div style={styles.summaryLabel}>{label}</div>
+      <div style={{ ...styles.summaryValue, color: pnlColor(totals.gainLoss) }}>{formatCurrency(totals.gainLoss)}</div>
+      <div style={styles.summaryDetail}>
+        {totals.count} lots · {formatCurrency(totals.proceeds)} proceeds
+        {totals.adjustments > 0 && ` · ${formatCurrency(totals.adjustments)} W`}
+      </div>
+    </div>
+  );
+
+  return (
+    <div style={styles.page}>
+      <a href="/" style={styles.back}>
+        <ChevronLeft size={14} /> Back to portfolio
+      </a>
+
+      <div style={styles.header}>
+        <div style={styles.title}>
+          <FileText size={22} color={colors.accent} />
+          Tax Lots · Form 8949
+        </div>
+        <div style={styles.controls}>
+          <select
+            style={styles.select}
+            value={taxYear}
+            onChange={(event) => setTaxYear(Number(event.target.value))}
+          >
+            {years.map(year => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+          <a style={styles.button} href={`/api/tax-lots?year=${taxYear}&format=csv`}>
+            <Download size={14} /> CSV
+          </a>
+          <a style={styles.button} href={`/api/tax-lots?year=${taxYear}&format=xlsx`}>
+            <Download size={14} /> XLSX
+          </a>
+        </div>
+      </div>
+
+      {loading || !report ? (
+        <div style={styles.empty}>
+          <Loader2 size={18} style={{ color: colors.accent, animation: 'spin 1s linear infinite' }} /> Loading tax lots…
+        </div>
+      ) : report.error ? (
+        <div style={styles.empty}>{report.error}</div>
+      ) : (
+        <>
+          <div style={styles.summaryGrid}>
+            {renderTotals('Short-term (Part I)', report.shortTerm)}
+            {renderTotals('Long-term (Part II)', report.longTerm)}
+            {renderTotals(`Total · ${report.methodLabel}`, report.total)}
+          </div>
+
+          <div style={styles.tableWrapper}>
+            {report.lots.length === 0 ? (
+              <div style={styles.empty}>No closed lots in {report.taxYear}.</div>
+            ) : (
+              <table style={styles.table}>
+                <thead>
+                  <tr>
+                    <th style={styles.th}>Term</th>
+                    <th style={styles.th}>Description</th>
+                    <th style={styles.th}>Acquired</th>
+                    <th style={styles.th}>Sold</th>
+                    <th style={{ ...styles.th, textAlign: 'right' }}>Proceeds</th>
+                    <th style={{ ...styles.th, textAlign: 'right' }}>Cost Basis</th>
+                    <th style={styles.th}>Code</th>
+                    <th style={{ ...styles.th, textAlign: 'right' }}>Adjustment</th>
+                    <th style={{ ...styles.th, textAlign: 'right' }}>Gain / (Loss)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.lots.map((lot, index) => (
+                    <tr key={index}>
+                      <td style={{ ...styles.td, color: colors.textSecondary }}>{lot.term === 'long' ? 'Long' : 'Short'}</td>
+                      <td style={styles.td}>{lot.description}</td>
+                      <td style={styles.td}>{lot.dateAcquired}</td>
+                      <td style={styles.td}>{lot.dateSold}</td>
+                      <td style={{ ...styles.td, textAlign: 'right' }}>{formatCurrency(lot.proceeds)}</td>
+                      <td style={{ ...styles.td, textAlign: 'right' }}>{formatCurrency(lot.costBasis)}</td>
+                      <td style={{ ...styles.td, color: colors.warning }}>
+                        {lot.adjustmentCode && <><AlertTriangle size={10} /> {lot.adjustmentCode}</>}
+                      </td>
+                      <td style={{ ...styles.td, textAlign: 'right' }}>
+                        {lot.adjustmentAmount ? formatCurrency(lot.adjustmentAmount) : ''}
+                      </td>
+                      <td style={{ ...styles.td, textAlign: 'right', color: pnlColor(lot.gainLoss), fontWeight: 600 }}>
+                        {formatCurrency(lot.gainLoss)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TaxReport;
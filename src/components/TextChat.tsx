@@ -134,7 +134,7 @@ export function TextChat({ onEndChat, conversationId }: TextChatProps) {
         <TradesTable
           trades={trades}
           summary={{
-            totalShares: summary.totalSharesPurchased as number,
+            totalShares: summary.sharesHeld as number,
             totalCost: summary.totalCost as number,
             currentValue: summary.currentValue as number,
             symbol: data.symbol as string,
@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import { ArrowDownRight, ArrowUpRight, Loader2, Search } from 'lucide-react';
-import type { TradeActivity } from '../types';
+import { ArrowDownRight, ArrowUpRight, Loader2, Pencil, Search, StickyNote } from 'lucide-react';
+import type { Account, TradeActivity } from '../types';
+import type { JournalEntry } from '../lib/journal';
 import alpacaApi from '../services/alpacaApi';
 
 const formatCurrency = (value: number | null) => {
@@ -33,12 +34,24 @@ const TradeHistory: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState<'all' | 'buy' | 'sell'>('all');
   const [search, setSearch] = useState('');
+  const [account, setAccount] = useState<Account | null>(null);
+  const [journal, setJournal] = useState<Record<number, JournalEntry>>({});
+  const [tagFilter, setTagFilter] = useState('all');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ tags: '', setup: '', notes: '' });
+  const [saving, setSaving] = useState(false);
 
   useEffect(() => {
     const loadTrades = async () => {
       try {
-        const history = await alpacaApi.getTradeHistory();
+        const [history, accountInfo, entries] = await Promise.all([
+          alpacaApi.getTradeHistory(),
+          alpacaApi.getAccount(),
+          alpacaApi.getJournalEntries(),
+        ]);
         setTrades(history);
+        setAccount(accountInfo);
+        setJournal(entries);
       } catch (error) {
         console.error('Error fetching trade history:', error);
       } finally {
@@ -52,12 +65,61 @@ const TradeHistory: React.FC = () => {
   useEffect(() => {
     const term = search.trim().toLowerCase();
     const next = trades.filter((trade) => {
+      const entry = journal[Number(trade.id)];
       const sideMatch = filter === 'all' || trade.side === filter;
-      const symbolMatch = term === '' || trade.symbol.toLowerCase().includes(term);
-      return sideMatch && symbolMatch;
+      const tagMatch = tagFilter === 'all' || (entry?.tags.includes(tagFilter) ?? false);
+      const searchMatch =
+        term === '' ||
+        trade.symbol.toLowerCase().includes(term) ||
+        (entry?.notes.toLowerCase().includes(term) ?? false) ||
+        (entry?.tags.some((tag) => tag.includes(term)) ?? false);
+      return sideMatch && tagMatch && searchMatch;
     });
     setFiltered(next);
-  }, [trades, filter, search]);
+  }, [trades, filter, search, journal, tagFilter]);
+
+  const tags = useMemo(
+    () => Array.from(new Set(Object.values(journal).flatMap((entry) => entry.tags))).sort(),
+    [journal]
+  );
+
+  const startEditing = (trade: TradeActivity) => {
+    const entry = journal[Number(trade.id)];
+    setDraft({
+      tags: entry?.tags.join(', ') ?? '',
+      setup: entry?.setup ?? '',
+      notes: entry?.notes ?? '',
+    });
+    setEditingId(trade.id);
+  };
+
+  const saveEditing = async () => {
+    if (editingId === null) return;
+    const tradeId = Number(editingId);
+    setSaving(true);
+    try {
+      const saved = await alpacaApi.saveJournalEntry({
+        tradeId,
+        tags: draft.tags.split(','),
+        setup: draft.setup,
+        notes: draft.notes,
+      });
+      setJournal((prev) => {
+        const next = { ...prev };
+        if (saved) {
+          next[tradeId] = saved;
+        } else {
+          delete next[tradeId];
+        }
+        return next;
+      });
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error saving journal entry:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
 
   const summary = useMemo(() => {
     const totals = filtered.reduce(
@@ -96,7 +158,9 @@ const TradeHistory: React.FC = () => {
       <div className="trade-header">
         <div>
           <h2>Trade History</h2>
-          <p className="trade-subtitle">Account C40421 • Aida Guru</p>
+          <p className="trade-subtitle">
+            Account {alpacaApi.getAccountCode()}{account ? ` • ${account.holderName}` : ''}
+          </p>
         </div>
         <div className="trade-actions">
           <div className="trade-search">
@@ -105,9 +169,23 @@ const TradeHistory: React.FC = () => {
               type="text"
               value={search}
               onChange={(event) => setSearch(event.target.value)}
-              placeholder="Search by symbol"
+              placeholder="Search symbol, tag or note"
             />
           </div>
+          {tags.length > 0 && (
+            <select
+              className="trade-tag-filter"
+              value={tagFilter}
+              onChange={(event) => setTagFilter(event.target.value)}
+            >
+              <option value="all">All tags</option>
+              {tags.map((tag) => (
+                <option key={tag} value={tag}>
+                  #{tag}
+                </option>
+              ))}
+            </select>
+          )}
           <div className="trade-filters">
             {(
               [
@@ -170,6 +248,7 @@ const TradeHistory: React.FC = () => {
                 <th>Gross</th>
                 <th>Commission</th>
                 <th>Net</th>
+                <th>Journal</th>
               </tr>
             </thead>
             <tbody>
@@ -185,31 +264,90 @@ const TradeHistory: React.FC = () => {
                 const formattedTime = tradeDate
                   ? tradeDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
                   : trade.time ?? '—';
+                const entry = journal[Number(trade.id)];
+                const canEdit = Number.isFinite(Number(trade.id));
                 return (
-                  <tr key={trade.id}>
-                    <td>
-                      <div className="trade-date">
-                        <span>{formattedDate}</span>
-                        <span className="trade-time">{formattedTime}</span>
-                      </div>
-                    </td>
-                    <td>{trade.symbol}</td>
-                    <td>
-                      <span className={`side-badge ${trade.side}`}>
-                        {trade.side === 'buy' ? (
-                          <ArrowUpRight size={14} />
-                        ) : (
-                          <ArrowDownRight size={14} />
-                        )}
-                        {trade.side === 'buy' ? 'Buy' : 'Sell'}
-                      </span>
-                    </td>
-                    <td>{formatNumber(trade.shares)}</td>
-                    <td>{formatCurrency(trade.price)}</td>
-                    <td>{formatCurrency(trade.grossAmount)}</td>
-                    <td>{formatCurrency(trade.commission)}</td>
-                    <td>{formatCurrency(trade.netAmount)}</td>
-                  </tr>
+                  <React.Fragment key={trade.id}>
+                    <tr>
+                      <td>
+                        <div className="trade-date">
+                          <span>{formattedDate}</span>
+                          <span className="trade-time">{formattedTime}</span>
+                        </div>
+                      </td>
+                      <td>{trade.symbol}</td>
+                      <td>
+                        <span className={`side-badge ${trade.side}`}>
+                          {trade.side === 'buy' ? (
+                            <ArrowUpRight size={14} />
+                          ) : (
+                            <ArrowDownRight size={14} />
+                          )}
+                          {trade.side === 'buy' ? 'Buy' : 'Sell'}
+                        </span>
+                      </td>
+                      <td>{formatNumber(trade.shares)}</td>
+                      <td>{formatCurrency(trade.price)}</td>
+                      <td>{formatCurrency(trade.grossAmount)}</td>
+                      <td>{formatCurrency(trade.commission)}</td>
+                      <td>{formatCurrency(trade.netAmount)}</td>
+                      <td>
+                        <div className="journal-cell">
+                          {entry?.tags.map((tag) => (
+                            <span key={tag} className="journal-tag">#{tag}</span>
+                          ))}
+                          {entry?.setup && <span className="journal-setup">{entry.setup}</span>}
+                          {entry?.notes && (
+                            <span className="journal-note" title={entry.notes}>
+                              <StickyNote size={12} />
+                            </span>
+                          )}
+                          {canEdit && (
+                            <button
+                              className="journal-edit-btn"
+                              onClick={() => startEditing(trade)}
+                              title="Edit notes and tags"
+                            >
+                              <Pencil size={12} />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {editingId === trade.id && (
+                      <tr className="journal-editor-row">
+                        <td colSpan={9}>
+                          <div className="journal-editor">
+                            <input
+                              type="text"
+                              value={draft.tags}
+                              onChange={(event) => setDraft({ ...draft, tags: event.target.value })}
+                              placeholder="Tags, comma separated (earnings-play, breakout)"
+                            />
+                            <input
+                              type="text"
+                              value={draft.setup}
+                              onChange={(event) => setDraft({ ...draft, setup: event.target.value })}
+                              placeholder="Setup (e.g. Bull flag)"
+                            />
+                            <textarea
+                              value={draft.notes}
+                              onChange={(event) => setDraft({ ...draft, notes: event.target.value })}
+                              placeholder="Notes"
+                            />
+                            <div className="journal-editor-actions">
+                              <button onClick={() => setEditingId(null)} disabled={saving}>
+                                Cancel
+                              </button>
+                              <button className="primary" onClick={saveEditing} disabled={saving}>
+                                {saving ? 'Saving…' : 'Save'}
+                              </button>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
                 );
               })}
             </tbody>
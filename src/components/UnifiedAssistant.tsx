@@ -18,8 +18,33 @@ import { ExpiringOptionsTable } from './generative-ui/ExpiringOptionsTable';
 import { LastOptionTradeCard } from './generative-ui/LastOptionTradeCard';
 import { TradeQueryCard } from './generative-ui/TradeQueryCard';
 import { AccountSummary, type AccountQueryType } from './generative-ui/AccountSummary';
-import { FeesSummary, type FeeType } from './generative-ui/FeesSummary';
+import { FeesSummary } from './generative-ui/FeesSummary';
+import { CostBasisComparison } from './generative-ui/CostBasisComparison';
+import { PnLSummary } from './generative-ui/PnLSummary';
+import { WashSaleCard } from './generative-ui/WashSaleCard';
+import { TaxLotExportCard } from './generative-ui/TaxLotExportCard';
+import { DividendsSummary } from './generative-ui/DividendsSummary';
+import { PositionsCard } from './generative-ui/PositionsCard';
+import { OptionLifecycleCard } from './generative-ui/OptionLifecycleCard';
+import { StrategiesCard } from './generative-ui/StrategiesCard';
+import { GreeksExposureCard } from './generative-ui/GreeksExposureCard';
+import { PremiumIncomeCard } from './generative-ui/PremiumIncomeCard';
+import { RollChainsCard } from './generative-ui/RollChainsCard';
+import { PerformanceCard } from './generative-ui/PerformanceCard';
+import { RiskCard } from './generative-ui/RiskCard';
+import { BenchmarkCard } from './generative-ui/BenchmarkCard';
+import { MarginHealthCard } from './generative-ui/MarginHealthCard';
+import { MarginStressCard } from './generative-ui/MarginStressCard';
+import { WatchlistCard } from './generative-ui/WatchlistCard';
+import { AlertRuleCard } from './generative-ui/AlertRuleCard';
 import type { ClassificationResult, CardType } from '@/src/lib/intent-detection';
+import { parseCostBasisMethod, type CostBasisMethod } from '@/src/lib/cost-basis';
+import type { FeeBreakdown, FeeType, MonthlyFees, SymbolFees } from '@/src/lib/fees';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { parseAlertRequest, type AlertRule, type AlertRuleInput, type AlertTrigger } from '@/src/lib/alerts';
+import { DEFAULT_ACCOUNT_CODE } from '@/src/lib/account-context';
+import type { JournalEntry, JournalInput, TagPnL } from '@/src/lib/journal';
+import type { Account } from '@/src/types';
 
 type InputMode = 'voice' | 'text';
 type View = 'chat' | 'history';
@@ -32,7 +57,7 @@ interface Conversation {
 }
 
 interface TradeUIData {
-  type: 'summary' | 'detailed' | 'stats' | 'profitable' | 'time-based' | 'option-stats' | 'average-price' | 'advanced-options' | 'highest-strike' | 'total-premium' | 'expiring-options' | 'last-option' | 'account-balance' | 'fees';
+  type: CardType;
   symbol: string;
   tradeType?: 'buy' | 'sell' | 'all';
   timePeriod?: string;
@@ -63,6 +88,13 @@ interface QueryIntent {
   expiration?: string;
   accountQueryType?: AccountQueryType;
   feeType?: FeeType;
+  costBasisMethod?: CostBasisMethod;
+  strategy?: string;
+  shockPercent?: number;
+  tag?: string;
+  watchlist?: string;
+  watchlistAction?: 'add' | 'remove';
+  alertRule?: AlertRuleInput;
 }
 
 
@@ -118,6 +150,75 @@ function detectUserQueryIntent(query: string): QueryIntent | null {
   const isPutQuery = /\bputs?\b/i.test(lowerQuery);
   const callPut = isCallQuery && !isPutQuery ? 'call' : isPutQuery && !isCallQuery ? 'put' : undefined;
 
+  // Alert rules ("alert me when my TSLA short puts are 3 days from expiry") - first, since the
+  // condition can mention margin, fees or P&L
+  if (/\b(alert|notify|remind|warn|ping)\s+me\b|\b(tell|let)\s+me\s+(know\s+)?(when|if)\b|\b(set|create|add)\s+(up\s+)?an?\s+alert\b|\bmy\s+alerts\b/i.test(lowerQuery)) {
+    return { cardType: 'alert', symbol, alertRule: parseAlertRequest(query, symbol) ?? undefined };
+  }
+
+  // Watchlists ("add AMD to my tech watchlist", "how did my watchlist do this week?")
+  if (/\bwatch\s?lists?\b/i.test(lowerQuery)) {
+    const nameMatch =
+      lowerQuery.match(/\b(?:my|the)\s+([a-z0-9][a-z0-9 &-]*?)\s+watch\s?list\b/) ||
+      lowerQuery.match(/\bwatch\s?list\s+(?:called|named)\s+["']?([a-z0-9][a-z0-9 &-]*)/);
+    const watchlistAction = /\b(add|put|include)\b/i.test(lowerQuery)
+      ? 'add'
+      : /\b(remove|drop|delete|take)\b/i.test(lowerQuery) ? 'remove' : undefined;
+    return {
+      cardType: 'watchlist',
+      symbol: watchlistAction ? symbol : undefined,
+      watchlist: nameMatch?.[1],
+      watchlistAction,
+      timePeriod,
+    };
+  }
+
+  // Trade journal tags ("show my earnings-play trades", "trades tagged breakout", "P&L by tag")
+  const tagMatch =
+    lowerQuery.match(/#([a-z0-9][a-z0-9-]*)/) ||
+    lowerQuery.match(/\btagged\s+(?:as\s+)?["']?([a-z0-9][a-z0-9-]*)/) ||
+    lowerQuery.match(/\b([a-z0-9]+(?:-[a-z0-9]+)+)\s+trades?\b/);
+  const journalTag = tagMatch && !['short-term', 'long-term'].includes(tagMatch[1]) ? tagMatch[1] : undefined;
+  if (journalTag || /\b(p&l|pnl|profits?|performance|results?)\s+by\s+tags?\b|\b(tagged|journal(ed)?)\s+trades\b/i.test(lowerQuery)) {
+    return { cardType: 'journal', symbol, tag: journalTag, timePeriod };
+  }
+
+  // Benchmark comparison ("compare my performance to SPY", "did I beat the market?") - before performance
+  if (/\b(benchmark|alpha|beta|(compare|compared|comparison|vs\.?|versus|against|beat|beating|outperform(ed)?|underperform(ed)?)\b.*\b(spy|qqq|dia|iwm|voo|vti|s&p|sp500|spx|nasdaq|dow|russell|market|index))\b/i.test(lowerQuery)) {
+    const benchmarkAliases: Record<string, string> = {
+      's&p': 'SPY', sp500: 'SPY', spx: 'SPY', market: 'SPY', index: 'SPY',
+      nasdaq: 'QQQ', dow: 'DIA', russell: 'IWM',
+    };
+    const benchmarkMatch = lowerQuery.match(/\b(spy|qqq|dia|iwm|voo|vti|s&p|sp500|spx|nasdaq|dow|russell)/);
+    const benchmark = benchmarkMatch ? benchmarkAliases[benchmarkMatch[1]] || benchmarkMatch[1].toUpperCase() : 'SPY';
+    return { cardType: 'benchmark', symbol: benchmark, timePeriod };
+  }
+
+  // Account performance ("what's my time-weighted return this year?") - before account balance, which matches "equity"
+  if (/\b(performance|time[-\s]?weighted|money[-\s]?weighted|twr|irr|rate\s+of\s+return|(portfolio|account)\s+returns?|returns?\s+on\s+(my\s+)?(portfolio|account))\b/i.test(lowerQuery)) {
+    return { cardType: 'performance', timePeriod };
+  }
+
+  // Risk analytics ("what was my worst drawdown this year?") - "implied volatility" stays with Greeks
+  if (/\b(max(imum)?\s+)?drawdowns?\b|\b(sharpe|sortino)\b|\bworst\s+days?\b|\b(portfolio|account|daily)\s+volatility\b|\brisk\s+(metrics|analytics|stats|statistics)\b/i.test(lowerQuery)) {
+    return { cardType: 'risk', timePeriod };
+  }
+
+  // Margin stress test ("what happens to my margin if NVDA drops 20%?") - before margin health and account balance
+  const shockMatch = lowerQuery.match(/\b(drops?|dropped|falls?|fell|crash(es|ed)?|declines?|down|rall(y|ies|ied)|rises?|rose|jumps?|up)\s+(by\s+)?(\d+(\.\d+)?)\s*(%|percent)/);
+  if ((shockMatch && /\b(margin|stress|what\s+(happens|if)|would\s+i|equity|excess|deficit)\b/i.test(lowerQuery)) || /\bstress\s+test\b/i.test(lowerQuery)) {
+    const isRise = shockMatch ? /^(rall|rise|rose|jump|up)/.test(shockMatch[1]) : false;
+    const shockPercent = shockMatch ? (isRise ? 1 : -1) * parseFloat(shockMatch[5]) : undefined;
+    // A market-wide move stresses the whole portfolio
+    const isMarketWide = /\b(market|portfolio|everything|account|all\s+(my\s+)?positions)\b/i.test(lowerQuery);
+    return { cardType: 'margin-stress', symbol: isMarketWide ? undefined : symbol, shockPercent };
+  }
+
+  // Margin health ("any margin warnings?", "was I in a house deficit?") - before account balance, which matches "margin"
+  if (/\b(margin\s+(health|alerts?|warnings?|calls?|cushion|timeline|history)|(house|fed(eral)?)\s+(excess|deficits?)|margin\s+deficits?|sma\s+drops?)\b/i.test(lowerQuery)) {
+    return { cardType: 'margin', timePeriod };
+  }
+
   // 1. Account balance queries
   if (/\b(balance|buying\s*power|equity|margin|net\s*liquidation|nlv|market\s*value)\b/i.test(lowerQuery)) {
     let accountQueryType: AccountQueryType = 'account_summary';
@@ -130,14 +231,27 @@ function detectUserQueryIntent(query: string): QueryIntent | null {
   }
 
   // 2. Fees queries
-  if (/\b(fees?|commissions?|interest|locate)\b/i.test(lowerQuery)) {
-    let feeType: FeeType = 'commission';
+  if (/\b(fees?|commissions?|interest|locate)\b|\bcost\s+per\s+(share|contract)\b/i.test(lowerQuery)) {
+    let feeType: FeeType = 'all';
     if (/credit\s*interest/i.test(lowerQuery)) feeType = 'credit_interest';
     else if (/debit\s*interest|margin\s*interest/i.test(lowerQuery)) feeType = 'debit_interest';
     else if (/locate/i.test(lowerQuery)) feeType = 'locate_fee';
+    else if (/(exchange|regulatory|reg)\s*fees?/i.test(lowerQuery)) feeType = 'exchange_fee';
+    else if (/commissions?/i.test(lowerQuery)) feeType = 'commission';
     return { cardType: 'fees', feeType, timePeriod, symbol };
   }
 
+  // Option rolls ("show my rolled puts on TSLA")
+  if (/\b(roll(s|ed|ing)?|roll[-\s]?chains?)\b/i.test(lowerQuery)) {
+    return { cardType: 'rolls', symbol, timePeriod };
+  }
+
+  // Option outcomes ("did my puts get assigned?") - before expiring options, which matches "options expired"
+  if (/\b(expired\s+worthless|assign(ed|ment)s?|exercised|what\s+happened\s+to\s+my\s+(options?|calls?|puts?|contracts?))\b/i.test(lowerQuery) ||
+      /\b(options?|calls?|puts?|contracts?)\s+(that\s+)?expired\b/i.test(lowerQuery)) {
+    return { cardType: 'option-lifecycle', symbol, timePeriod };
+  }
+
   // 3. Expiring options
   if (/\b(expir(?:ing|es?|ation))\s+(tomorrow|this\s+week|this\s+month)/i.test(lowerQuery) ||
       /options?\s+expir/i.test(lowerQuery)) {
@@ -146,6 +260,31 @@ function detectUserQueryIntent(query: string): QueryIntent | null {
     return { cardType: 'expiring-options', expiration: expirationMatch?.[1] || 'tomorrow', symbol };
   }
 
+  // Greeks exposure ("what's my net delta on SPY?")
+  if (/\b(greeks?|(net\s+)?delta|gamma|theta|vega|implied\s+vol(atility)?)\b/i.test(lowerQuery)) {
+    return { cardType: 'greeks', symbol };
+  }
+
+  // Open positions ("what am I holding in NVDA?") - before bulk options, which matches "my calls"
+  if (/\b(what\s+am\s+i\s+holding|what\s+do\s+i\s+(own|hold)|(open|current)\s+positions?|my\s+(positions?|holdings?)|am\s+i\s+(long|short)\s+(in\s+)?[a-z]+)\b/i.test(lowerQuery) ||
+      /\bhow\s+many\s+(shares|contracts)\b.*\bdo\s+i\s+(have|own|hold)\b/i.test(lowerQuery)) {
+    return { cardType: 'positions', symbol };
+  }
+
+  // Premium income ("what did my short puts make this month?") - before strategies, which matches "covered calls"
+  if (/\b(premium\s+income|option\s+income|wheel(\s+strategy)?)\b/i.test(lowerQuery) ||
+      (/\b(income|yield|return|make|made|earn(ed)?)\b/i.test(lowerQuery) &&
+       /\b(short\s+(puts?|calls?)|covered\s+calls?|cash[-\s]secured(\s+puts?)?|csps?)\b/i.test(lowerQuery))) {
+    return { cardType: 'premium-income', symbol, timePeriod };
+  }
+
+  // Multi-leg strategies - before bulk options, which matches "my ... calls"
+  const strategyMatch = lowerQuery.match(/\b(iron\s+condors?|iron\s+butterfl(?:y|ies)|straddles?|strangles?|covered\s+calls?|protective\s+puts?|collars?|(?:credit\s+|debit\s+|vertical\s+|call\s+|put\s+)?spreads?|verticals?)\b/i);
+  if (strategyMatch || /\b(option\s+)?strateg(y|ies)\b/i.test(lowerQuery)) {
+    const strategy = strategyMatch?.[1].replace(/^(credit|debit|vertical)\s+/i, '').replace(/ies$/i, 'y').replace(/s$/i, '');
+    return { cardType: 'strategies', symbol, timePeriod, strategy };
+  }
+
   // 4. Bulk options queries (all short/long calls/puts, option trades)
   // Matches: "show all the short calls", "all my short puts", "short call options on TSLA"
   const isBulkOptionsQuery =
@@ -179,6 +318,33 @@ function detectUserQueryIntent(query: string): QueryIntent | null {
     return { cardType: 'total-premium', symbol, tradeType, timePeriod };
   }
 
+  // Form 8949 / Schedule D tax-lot export
+  if (/\b(form\s+)?8949\b|schedule\s+d\b|tax[\s-]*lots?\b/i.test(lowerQuery)) {
+    return { cardType: 'tax-lots', timePeriod };
+  }
+
+  // Wash sales (tax) - before P&L, since "disallowed loss" also mentions losses
+  if (/\bwash[\s-]*sales?\b|disallowed\s+loss/i.test(lowerQuery)) {
+    return { cardType: 'wash-sales', symbol, timePeriod };
+  }
+
+  // Cost-basis method what-if (before average price, which also matches "average cost")
+  if (/\b(fifo|lifo|hifo)\b|cost[\s-]*basis\s+method|\b(under|using|with)\s+(average\s+cost|specific\s+lots?)\b/i.test(lowerQuery)) {
+    return { cardType: 'cost-basis', symbol, timePeriod, costBasisMethod: parseCostBasisMethod(lowerQuery) ?? undefined };
+  }
+
+  // Dividends ("how much did I earn in dividends?") - before P&L, which also matches "earned"
+  if (/\bdividends?\b|\byield\s+on\s+cost\b/i.test(lowerQuery)) {
+    return { cardType: 'dividends', symbol, timePeriod };
+  }
+
+  // Realized/unrealized P&L ("how much have I made this year?") - before profitable trades
+  if (/\b(p\s*&\s*l|pnl|profit\s+and\s+loss|unrealized|realized)\b/i.test(lowerQuery) ||
+      /\bhow\s+much\s+(have\s+i|did\s+i|i've)\s+(made|lost|earned)\b/i.test(lowerQuery) ||
+      /\bam\s+i\s+(up|down)\b/i.test(lowerQuery)) {
+    return { cardType: 'pnl', symbol, timePeriod };
+  }
+
   // 8. Average price (simple average query - before general stats)
   if (/\b(average|avg)\s+(price|cost)\b/i.test(lowerQuery) &&
       !/\b(highest|lowest|max|min)\b/i.test(lowerQuery)) {
@@ -261,6 +427,23 @@ async function classifyIntentViaAPI(query: string): Promise<QueryIntent | null>
       expiration: result.entities.expiration,
       accountQueryType: result.entities.accountQueryType,
       feeType: result.entities.feeType,
+      costBasisMethod: result.entities.costBasisMethod,
+      strategy: result.entities.strategy,
+      shockPercent: result.entities.shockPercent,
+      tag: result.entities.tag,
+      watchlist: result.entities.watchlist,
+      watchlistAction: result.entities.watchlistAction,
+      alertRule: result.entities.alertType
+        ? {
+            type: result.entities.alertType,
+            symbol: result.entities.symbol,
+            direction: result.entities.alertDirection,
+            threshold: result.entities.alertThreshold,
+            days: result.entities.alertDays,
+            callPut: result.entities.callPut,
+            side: result.entities.alertSide,
+          }
+        : undefined,
     };
   } catch (error) {
     console.error('[LLM Classifier] Error:', error);
@@ -268,6 +451,59 @@ async function classifyIntentViaAPI(query: string): Promise<QueryIntent | null>
   }
 }
 
+// Save a trade journal entry; returns null once an emptied entry is deleted
+async function saveJournalEntry(input: JournalInput): Promise<JournalEntry | null> {
+  const res = await fetch('/api/journal', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!res.ok) throw new Error(`Journal save failed: ${res.status}`);
+  const data = await res.json();
+  return data.entry;
+}
+
+interface GreeksResponse {
+  symbol: string | null;
+  bySeries: Record<string, unknown>;
+  byUnderlying: Array<{ underlying: string; optionDelta: number; theta: number; contracts: Array<{ contracts: number }> }>;
+}
+
+/**
+ * Fetch Black-Scholes Greeks for open option series, keyed by instrument key.
+ * Option tables add them as columns; a failed lookup just leaves the columns out.
+ */
+async function fetchGreeks(symbol?: string): Promise<GreeksResponse | undefined> {
+  try {
+    const res = await fetch('/api/greeks-ui', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ symbol: symbol || undefined }),
+    });
+    if (!res.ok) return undefined;
+    return await res.json();
+  } catch (error) {
+    console.error('[Greeks] Error:', error);
+    return undefined;
+  }
+}
+
+async function fetchSeriesGreeks(symbol?: string): Promise<Record<string, unknown> | undefined> {
+  return (await fetchGreeks(symbol))?.bySeries;
+}
+
+// Net option delta and theta of the symbol's open series (undefined when none are open)
+async function fetchOpenSeriesGreeks(symbol: string): Promise<{ netDelta: number; theta: number; contracts: number } | undefined> {
+  const greeks = await fetchGreeks(symbol);
+  const underlying = greeks?.byUnderlying.find(g => g.underlying === greeks.symbol);
+  if (!underlying || underlying.contracts.length === 0) return undefined;
+  return {
+    netDelta: underlying.optionDelta,
+    theta: underlying.theta,
+    contracts: underlying.contracts.reduce((sum, c) => sum + c.contracts, 0),
+  };
+}
+
 // App color scheme (dark theme)
 const colors = {
   bgPrimary: '#000000',
@@ -1075,7 +1311,17 @@ function detectFeesQuery(text: string): { feeType: FeeType; symbol?: string; tim
   return null;
 }
 
-const UnifiedAssistant: React.FC = () => {
+interface UnifiedAssistantProps {
+  accounts?: Account[];
+  accountCode?: string;
+  onAccountChange?: (accountCode: string) => void;
+}
+
+const UnifiedAssistant: React.FC<UnifiedAssistantProps> = ({
+  accounts = [],
+  accountCode = DEFAULT_ACCOUNT_CODE,
+  onAccountChange,
+}) => {
   const [isOpen, setIsOpen] = useState(false);
   const [inputMode, setInputMode] = useState<InputMode>('text');
   const [currentView, setCurrentView] = useState<View>('chat');
@@ -1148,6 +1394,13 @@ const UnifiedAssistant: React.FC = () => {
               expiration: pendingIntent.expiration,
               accountQueryType: pendingIntent.accountQueryType,
               feeType: pendingIntent.feeType,
+              costBasisMethod: pendingIntent.costBasisMethod,
+              strategy: pendingIntent.strategy,
+              shockPercent: pendingIntent.shockPercent,
+              tag: pendingIntent.tag,
+              watchlist: pendingIntent.watchlist,
+              watchlistAction: pendingIntent.watchlistAction,
+              alertRule: pendingIntent.alertRule,
             }
           );
           if (data) {
@@ -1315,10 +1568,10 @@ const UnifiedAssistant: React.FC = () => {
   // Fetch trade data for UI rendering
   const fetchTradeData = useCallback(async (
     symbol: string,
-    type: 'summary' | 'detailed' | 'stats' | 'profitable' | 'time-based' | 'option-stats' | 'average-price' | 'advanced-options' | 'highest-strike' | 'total-premium' | 'expiring-options' | 'last-option' | 'account-balance' | 'fees',
+    type: CardType,
     tradeType?: 'buy' | 'sell' | 'all',
     timePeriod?: string,
-    extraParams?: { callPut?: 'call' | 'put'; expiration?: string; aggregation?: string; accountQueryType?: AccountQueryType; feeType?: FeeType }
+    extraParams?: { callPut?: 'call' | 'put'; expiration?: string; aggregation?: string; accountQueryType?: AccountQueryType; feeType?: FeeType; costBasisMethod?: CostBasisMethod; strategy?: string; shockPercent?: number; tag?: string; watchlist?: string; watchlistAction?: 'add' | 'remove'; alertRule?: AlertRuleInput }
   ): Promise<TradeUIData | null> => {
     try {
       let endpoint: string;
@@ -1334,6 +1587,96 @@ const UnifiedAssistant: React.FC = () => {
         });
         const data = await res.json();
         return { type, symbol: '', accountQueryType: extraParams?.accountQueryType, data };
+      } else if (type === 'performance') {
+        endpoint = '/api/performance-ui';
+        body = { timePeriod };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol: '', timePeriod, data };
+      } else if (type === 'margin') {
+        endpoint = '/api/margin-ui';
+        body = { timePeriod };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol: '', timePeriod, data };
+      } else if (type === 'alert') {
+        endpoint = '/api/alert-ui';
+        body = { rule: extraParams?.alertRule, symbol: symbol || undefined };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol: symbol || '', timePeriod, data };
+      } else if (type === 'watchlist') {
+        endpoint = '/api/watchlist-ui';
+        body = {
+          name: extraParams?.watchlist,
+          add: extraParams?.watchlistAction === 'add' && symbol ? [symbol] : undefined,
+          remove: extraParams?.watchlistAction === 'remove' && symbol ? [symbol] : undefined,
+          timePeriod,
+        };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol: '', timePeriod, data };
+      } else if (type === 'journal') {
+        endpoint = '/api/advanced-query-ui';
+        body = {
+          symbol: symbol || undefined,
+          tag: extraParams?.tag,
+          groupByTag: !extraParams?.tag,
+          fromDate: timePeriod || undefined,
+        };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol, timePeriod, data };
+      } else if (type === 'margin-stress') {
+        endpoint = '/api/margin-stress-ui';
+        body = { symbol: symbol || undefined, shockPercent: extraParams?.shockPercent };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol: data.symbol || symbol, data };
+      } else if (type === 'benchmark') {
+        endpoint = '/api/benchmark-ui';
+        body = { symbol: symbol || undefined, timePeriod };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol: data.symbol || symbol, timePeriod, data };
+      } else if (type === 'risk') {
+        endpoint = '/api/risk-ui';
+        body = { timePeriod };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol: '', timePeriod, data };
       } else if (type === 'fees') {
         endpoint = '/api/fees-ui';
         body = { feeType: extraParams?.feeType, timePeriod, symbol: symbol || undefined };
@@ -1344,6 +1687,116 @@ const UnifiedAssistant: React.FC = () => {
         });
         const data = await res.json();
         return { type, symbol, feeType: extraParams?.feeType, timePeriod, data };
+      } else if (type === 'cost-basis') {
+        endpoint = '/api/cost-basis-ui';
+        body = { symbol: symbol || undefined, method: extraParams?.costBasisMethod, timePeriod };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol, timePeriod, data };
+      } else if (type === 'wash-sales') {
+        endpoint = '/api/wash-sales-ui';
+        body = { symbol: symbol || undefined, timePeriod };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol, timePeriod, data };
+      } else if (type === 'tax-lots') {
+        endpoint = '/api/tax-lots';
+        body = { timePeriod };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol, timePeriod, data };
+      } else if (type === 'positions') {
+        endpoint = '/api/positions-ui';
+        body = { symbol: symbol || undefined };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol, data };
+      } else if (type === 'option-lifecycle') {
+        endpoint = '/api/option-lifecycle-ui';
+        body = { symbol: symbol || undefined, timePeriod };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol, timePeriod, data };
+      } else if (type === 'strategies') {
+        endpoint = '/api/strategies-ui';
+        body = { symbol: symbol || undefined, timePeriod, strategy: extraParams?.strategy };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol, timePeriod, data };
+      } else if (type === 'rolls') {
+        endpoint = '/api/rolls-ui';
+        body = { symbol: symbol || undefined, timePeriod };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol, timePeriod, data };
+      } else if (type === 'premium-income') {
+        endpoint = '/api/premium-income-ui';
+        body = { symbol: symbol || undefined, timePeriod };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol, timePeriod, data };
+      } else if (type === 'greeks') {
+        endpoint = '/api/greeks-ui';
+        body = { symbol: symbol || undefined };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol, data };
+      } else if (type === 'dividends') {
+        endpoint = '/api/dividends-ui';
+        body = { symbol: symbol || undefined, timePeriod };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol, timePeriod, data };
+      } else if (type === 'pnl') {
+        endpoint = '/api/pnl-ui';
+        body = { symbol: symbol || undefined, timePeriod };
+        const res = await fetch(endpoint, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        const data = await res.json();
+        return { type, symbol, timePeriod, data };
       } else if (type === 'average-price') {
         endpoint = '/api/average-price';
         body = { symbol, tradeType: tradeType || 'all', timePeriod };
@@ -1373,6 +1826,7 @@ const UnifiedAssistant: React.FC = () => {
           body: JSON.stringify(body),
         });
         const data = await res.json();
+        data.greeks = await fetchSeriesGreeks(symbol);
         return {
           type,
           symbol,
@@ -1397,6 +1851,20 @@ const UnifiedAssistant: React.FC = () => {
           body: JSON.stringify(body),
         });
         const data = await res.json();
+        // Premium totals count every fill; the lifecycle shows what was actually kept
+        if (type === 'total-premium') {
+          const lifecycleRes = await fetch('/api/option-lifecycle-ui', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              symbol: symbol || undefined,
+              timePeriod,
+              side: tradeType === 'sell' ? 'short' : tradeType === 'buy' ? 'long' : undefined,
+            }),
+          });
+          if (lifecycleRes.ok) data.lifecycle = await lifecycleRes.json();
+        }
+        if (type === 'expiring-options') data.greeks = await fetchSeriesGreeks(symbol);
         return {
           type,
           symbol,
@@ -1424,6 +1892,9 @@ const UnifiedAssistant: React.FC = () => {
         ]);
         const stockData = await stockRes.json();
         const optionData = await optionRes.json();
+        if (optionData.optionStats && symbol) {
+          optionData.optionStats.openGreeks = await fetchOpenSeriesGreeks(symbol);
+        }
         return { type, symbol, tradeType, timePeriod, data: stockData, optionData };
       } else if (type === 'option-stats') {
         endpoint = '/api/option-stats';
@@ -1526,6 +1997,13 @@ const UnifiedAssistant: React.FC = () => {
                   expiration: pendingIntent.expiration,
                   accountQueryType: pendingIntent.accountQueryType,
                   feeType: pendingIntent.feeType,
+                  costBasisMethod: pendingIntent.costBasisMethod,
+                  strategy: pendingIntent.strategy,
+                  shockPercent: pendingIntent.shockPercent,
+                  tag: pendingIntent.tag,
+                  watchlist: pendingIntent.watchlist,
+                  watchlistAction: pendingIntent.watchlistAction,
+                  alertRule: pendingIntent.alertRule,
                 }
               );
               if (data) {
@@ -1925,6 +2403,19 @@ const UnifiedAssistant: React.FC = () => {
     if (isOpen) fetchConversations();
   }, [isOpen]);
 
+  // Conversations belong to an account - start fresh when the account changes
+  const previousAccountRef = useRef(accountCode);
+  useEffect(() => {
+    if (previousAccountRef.current === accountCode) return;
+    previousAccountRef.current = accountCode;
+    setTranscript([]);
+    setCurrentConversationId(null);
+    if (elevenLabsConversation.status === 'connected') elevenLabsConversation.endSession();
+    if (textOnlyConversation.status === 'connected') textOnlyConversation.endSession();
+    if (isOpen) fetchConversations();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [accountCode]);
+
   // Voice session handlers
   const startVoiceSession = useCallback(async () => {
     if (elevenLabsConversation.status === 'connected' || elevenLabsConversation.status === 'connecting') {
@@ -1933,11 +2424,11 @@ const UnifiedAssistant: React.FC = () => {
     try {
       await navigator.mediaDevices.getUserMedia({ audio: true });
       // @ts-expect-error - ElevenLabs SDK types
-      await elevenLabsConversation.startSession({ agentId });
+      await elevenLabsConversation.startSession({ agentId, dynamicVariables: { account_code: accountCode } });
     } catch (error) {
       console.error('Failed to start voice session:', error);
     }
-  }, [elevenLabsConversation, agentId]);
+  }, [elevenLabsConversation, agentId, accountCode]);
 
   const stopVoiceSession = useCallback(async () => {
     if (elevenLabsConversation.status === 'connected') {
@@ -1959,12 +2450,12 @@ const UnifiedAssistant: React.FC = () => {
       try {
         await navigator.mediaDevices.getUserMedia({ audio: true });
         // @ts-expect-error - ElevenLabs SDK types
-        await elevenLabsConversation.startSession({ agentId });
+        await elevenLabsConversation.startSession({ agentId, dynamicVariables: { account_code: accountCode } });
       } catch (error) {
         console.error('Failed to auto-start voice session:', error);
       }
     }
-  }, [currentConversationId, elevenLabsConversation, agentId]);
+  }, [currentConversationId, elevenLabsConversation, agentId, accountCode]);
 
   const handleClose = useCallback(() => {
     setIsOpen(false);
@@ -2023,7 +2514,7 @@ const UnifiedAssistant: React.FC = () => {
       if (textOnlyConversation.status !== 'connected') {
         try {
           // @ts-expect-error - ElevenLabs SDK types
-          await textOnlyConversation.startSession({ agentId });
+          await textOnlyConversation.startSession({ agentId, dynamicVariables: { account_code: accountCode } });
           await new Promise(resolve => setTimeout(resolve, 500));
         } catch (error) {
           console.error('Failed to start text-only session:', error);
@@ -2061,7 +2552,7 @@ const UnifiedAssistant: React.FC = () => {
       try {
         await navigator.mediaDevices.getUserMedia({ audio: true });
         // @ts-expect-error - ElevenLabs SDK types
-        await elevenLabsConversation.startSession({ agentId });
+        await elevenLabsConversation.startSession({ agentId, dynamicVariables: { account_code: accountCode } });
         // Wait a moment for connection to establish
         await new Promise(resolve => setTimeout(resolve, 500));
       } catch (error) {
@@ -2092,7 +2583,7 @@ const UnifiedAssistant: React.FC = () => {
 
     // Send message to ElevenLabs agent (will respond with voice)
     elevenLabsConversation.sendUserMessage(message);
-  }, [inputValue, isSending, inputMode, currentConversationId, conversations, elevenLabsConversation, agentId, textOnlyConversation]);
+  }, [inputValue, isSending, inputMode, currentConversationId, conversations, elevenLabsConversation, agentId, accountCode, textOnlyConversation]);
 
   const handleEndChat = useCallback(() => {
     setTranscript([]);
@@ -2111,7 +2602,7 @@ const UnifiedAssistant: React.FC = () => {
       if (textOnlyConversation.status !== 'connected' && textOnlyConversation.status !== 'connecting') {
         try {
           // @ts-expect-error - ElevenLabs SDK types
-          await textOnlyConversation.startSession({ agentId });
+          await textOnlyConversation.startSession({ agentId, dynamicVariables: { account_code: accountCode } });
         } catch (error) {
           console.error('Failed to start text-only session:', error);
         }
@@ -2125,7 +2616,7 @@ const UnifiedAssistant: React.FC = () => {
         startVoiceSession();
       }
     }
-  }, [inputMode, elevenLabsConversation.status, textOnlyConversation, startVoiceSession, stopVoiceSession, agentId]);
+  }, [inputMode, elevenLabsConversation.status, textOnlyConversation, startVoiceSession, stopVoiceSession, agentId, accountCode]);
 
   // Render trade UI component based on data
   const renderTradeUI = (tradeUI: TradeUIData) => {
@@ -2152,7 +2643,13 @@ const UnifiedAssistant: React.FC = () => {
 
     if (type === 'detailed') {
       // Check if data already contains trades
-      const queryData = data as { trades?: Array<Record<string, unknown>>; aggregations?: Aggregations; filters?: ActiveFilters };
+      const queryData = data as {
+        trades?: Array<Record<string, unknown>>;
+        aggregations?: Aggregations;
+        filters?: ActiveFilters;
+        journal?: Record<number, JournalEntry>;
+        corporateAdjustments?: CorporateAdjustment[];
+      };
       if (queryData.trades && queryData.trades.length > 0) {
         return (
           <div style={{ marginTop: '12px' }}>
@@ -2175,6 +2672,9 @@ const UnifiedAssistant: React.FC = () => {
               }>}
               filters={queryData.filters}
               aggregations={queryData.aggregations}
+              journal={queryData.journal}
+              onSaveJournal={saveJournalEntry}
+              corporateAdjustments={queryData.corporateAdjustments}
             />
           </div>
         );
@@ -2205,6 +2705,7 @@ const UnifiedAssistant: React.FC = () => {
         totalTrades: number;
         totalShares: number;
         totalValue: number;
+        corporateAdjustments?: CorporateAdjustment[];
       }};
 
       const optionStatsData = tradeUI.optionData as { optionStats?: {
@@ -2227,6 +2728,8 @@ const UnifiedAssistant: React.FC = () => {
         totalValue: number;
         callCount: number;
         putCount: number;
+        corporateAdjustments?: CorporateAdjustment[];
+        openGreeks?: { netDelta: number; theta: number; contracts: number };
       }} | null;
 
       const hasStockStats = stockStatsData?.stats;
@@ -2252,6 +2755,7 @@ const UnifiedAssistant: React.FC = () => {
                 totalTrades={stockStatsData.stats!.totalTrades}
                 totalShares={stockStatsData.stats!.totalShares}
                 totalValue={stockStatsData.stats!.totalValue}
+                corporateAdjustments={stockStatsData.stats!.corporateAdjustments}
               />
             )}
             {hasStockStats && !hasTimePeriod && (
@@ -2270,6 +2774,7 @@ const UnifiedAssistant: React.FC = () => {
                 totalTrades={stockStatsData.stats!.totalTrades}
                 totalShares={stockStatsData.stats!.totalShares}
                 totalValue={stockStatsData.stats!.totalValue}
+                corporateAdjustments={stockStatsData.stats!.corporateAdjustments}
               />
             )}
             {hasOptionStats && (
@@ -2293,6 +2798,8 @@ const UnifiedAssistant: React.FC = () => {
                 totalValue={optionStatsData.optionStats!.totalValue}
                 callCount={optionStatsData.optionStats!.callCount}
                 putCount={optionStatsData.optionStats!.putCount}
+                corporateAdjustments={optionStatsData.optionStats!.corporateAdjustments}
+                openGreeks={optionStatsData.optionStats!.openGreeks}
               />
             )}
           </div>
@@ -2308,13 +2815,17 @@ const UnifiedAssistant: React.FC = () => {
         totalProfit: number;
         trades: Array<{
           securityType: string;
+          side?: 'long' | 'short';
           buyDate: string;
           sellDate: string;
           quantity: number;
           buyPrice: number;
           sellPrice: number;
+          fees?: number;
           profitLoss: number;
         }>;
+        methodLabel?: string;
+        corporateAdjustments?: CorporateAdjustment[];
       };
 
       // Always render if we have data, even with 0 trades (to show "no profitable trades")
@@ -2326,6 +2837,8 @@ const UnifiedAssistant: React.FC = () => {
               totalProfitableTrades={profitableData.totalProfitableTrades || 0}
               totalProfit={profitableData.totalProfit || 0}
               trades={profitableData.trades || []}
+              methodLabel={profitableData.methodLabel}
+              corporateAdjustments={profitableData.corporateAdjustments}
             />
           </div>
         );
@@ -2360,6 +2873,7 @@ const UnifiedAssistant: React.FC = () => {
           displayDate?: string;
         }>;
         symbol?: string | null;
+        corporateAdjustments?: CorporateAdjustment[];
       };
 
       if (timeData.timePeriod && timeData.summary) {
@@ -2370,6 +2884,7 @@ const UnifiedAssistant: React.FC = () => {
               summary={timeData.summary}
               trades={timeData.trades || []}
               symbol={timeData.symbol}
+              corporateAdjustments={timeData.corporateAdjustments}
             />
           </div>
         );
@@ -2387,6 +2902,10 @@ const UnifiedAssistant: React.FC = () => {
         totalShares?: number;
         timePeriod: string;
         tradeType: 'buy' | 'sell' | 'all';
+        costBasisMethod?: string;
+        costBasisPerShare?: number | null;
+        openShares?: number;
+        corporateAdjustments?: CorporateAdjustment[];
       };
 
       if (avgData.averagePrice !== null && avgData.averagePrice !== undefined) {
@@ -2401,6 +2920,10 @@ const UnifiedAssistant: React.FC = () => {
               totalShares={avgData.totalShares}
               highestPrice={avgData.highestPrice}
               lowestPrice={avgData.lowestPrice}
+              costBasisMethod={avgData.costBasisMethod}
+              costBasisPerShare={avgData.costBasisPerShare}
+              openShares={avgData.openShares}
+              corporateAdjustments={avgData.corporateAdjustments}
             />
           </div>
         );
@@ -2579,6 +3102,11 @@ const UnifiedAssistant: React.FC = () => {
           callCount: number;
           putCount: number;
         };
+        lifecycle?: {
+          realizedPremiumPnL: number;
+          openContracts: number;
+          counts: { closed: number; expired: number; assigned: number; exercised: number; open: number };
+        };
       };
 
       console.log('🎨 premiumData.aggregations:', premiumData.aggregations);
@@ -2593,6 +3121,7 @@ const UnifiedAssistant: React.FC = () => {
               totalContracts={premiumData.aggregations.totalContracts}
               callCount={premiumData.aggregations.callCount}
               putCount={premiumData.aggregations.putCount}
+              lifecycle={premiumData.lifecycle}
               tradeType={tradeUI.tradeType || 'buy'}
               timePeriod={tradeUI.timePeriod || 'last 12 months'}
             />
@@ -2625,6 +3154,7 @@ const UnifiedAssistant: React.FC = () => {
           putCount?: number;
           totalContracts?: number;
         };
+        greeks?: Record<string, { delta: number; gamma: number; theta: number; vega: number; impliedVolatility: number | null; theoreticalValue: number }>;
       };
 
       if (expiringData.trades && expiringData.trades.length > 0) {
@@ -2633,6 +3163,7 @@ const UnifiedAssistant: React.FC = () => {
             <ExpiringOptionsTable
               trades={expiringData.trades}
               expirationPeriod={tradeUI.expiration || 'tomorrow'}
+              greeks={expiringData.greeks}
               aggregations={expiringData.aggregations ? {
                 tradeCount: expiringData.aggregations.tradeCount,
                 totalPremium: expiringData.aggregations.totalNetAmount, // Use net amount for "Total Value"
@@ -2669,6 +3200,7 @@ const UnifiedAssistant: React.FC = () => {
           callCount: number;
           putCount: number;
         };
+        greeks?: Record<string, { delta: number; gamma: number; theta: number; vega: number; impliedVolatility: number | null; theoreticalValue: number }>;
       };
 
       if (lastOptionData.trades && lastOptionData.trades.length > 0) {
@@ -2721,6 +3253,7 @@ const UnifiedAssistant: React.FC = () => {
               contracts={contracts}
               premium={premium}
               totalValue={totalValue}
+              greeks={lastOptionData.greeks?.[`${displaySymbol} ${trade.Expiration} ${strike} ${trade['Call/Put']}`]}
             />
           </div>
         );
@@ -2781,6 +3314,924 @@ const UnifiedAssistant: React.FC = () => {
       }
     }
 
+    if (type === 'cost-basis') {
+      console.log('🎨 Rendering cost basis comparison card with data:', data);
+      const costBasisData = data as {
+        symbol: string | null;
+        timePeriod: string;
+        accountMethod: string;
+        accountMethodLabel: string;
+        requestedMethod: string;
+        requestedMethodLabel: string;
+        difference: number;
+        results: Array<{
+          method: string;
+          label: string;
+          realizedPnL: number;
+          realizedGains: number;
+          realizedLosses: number;
+          closedLots: number;
+          openShares: number;
+          openCostBasis: number;
+        }>;
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (costBasisData.results?.length) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <CostBasisComparison
+              symbol={costBasisData.symbol}
+              timePeriod={costBasisData.timePeriod}
+              accountMethod={costBasisData.accountMethod}
+              accountMethodLabel={costBasisData.accountMethodLabel}
+              requestedMethod={costBasisData.requestedMethod}
+              requestedMethodLabel={costBasisData.requestedMethodLabel}
+              difference={costBasisData.difference}
+              results={costBasisData.results}
+              corporateAdjustments={costBasisData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'positions') {
+      console.log('🎨 Rendering positions card with data:', data);
+      const positionsData = data as {
+        symbol: string | null;
+        methodLabel: string;
+        positionCount: number;
+        longMarketValue: number;
+        shortMarketValue: number;
+        unrealizedPnL: number;
+        byUnderlying: Array<{
+          underlying: string;
+          netShares: number;
+          marketValue: number;
+          unrealizedPnL: number;
+          stock: Array<{
+            instrumentKey: string;
+            symbol: string;
+            underlying: string;
+            securityType: string;
+            side: 'long' | 'short';
+            quantity: number;
+            averagePrice: number;
+            costBasis: number;
+            marketPrice: number;
+            marketValue: number;
+            unrealizedPnL: number;
+            openedDate: string;
+          }>;
+          options: Array<{
+            instrumentKey: string;
+            symbol: string;
+            underlying: string;
+            securityType: string;
+            side: 'long' | 'short';
+            quantity: number;
+            averagePrice: number;
+            costBasis: number;
+            marketPrice: number;
+            marketValue: number;
+            unrealizedPnL: number;
+            openedDate: string;
+            series?: { expiration: string; strike: number; callPut: 'C' | 'P' };
+          }>;
+        }>;
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (positionsData.byUnderlying) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <PositionsCard
+              symbol={positionsData.symbol}
+              methodLabel={positionsData.methodLabel}
+              positionCount={positionsData.positionCount || 0}
+              longMarketValue={positionsData.longMarketValue || 0}
+              shortMarketValue={positionsData.shortMarketValue || 0}
+              unrealizedPnL={positionsData.unrealizedPnL || 0}
+              byUnderlying={positionsData.byUnderlying}
+              corporateAdjustments={positionsData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'option-lifecycle') {
+      console.log('🎨 Rendering option lifecycle card with data:', data);
+      const lifecycleData = data as {
+        symbol: string | null;
+        timePeriod: string;
+        counts: { closed: number; expired: number; assigned: number; exercised: number; open: number };
+        premiumCollected: number;
+        premiumPaid: number;
+        realizedPremiumPnL: number;
+        events: Array<{
+          instrumentKey: string;
+          underlying: string;
+          expiration: string;
+          strike: number;
+          callPut: 'C' | 'P';
+          side: 'long' | 'short';
+          contracts: number;
+          openDate: string;
+          openPremium: number;
+          outcome: 'closed' | 'expired' | 'assigned' | 'exercised' | 'open';
+          resolvedDate: string | null;
+          closePremium: number | null;
+          premiumPnL: number;
+        }>;
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (lifecycleData.events) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <OptionLifecycleCard
+              symbol={lifecycleData.symbol}
+              timePeriod={lifecycleData.timePeriod}
+              counts={lifecycleData.counts}
+              premiumCollected={lifecycleData.premiumCollected || 0}
+              premiumPaid={lifecycleData.premiumPaid || 0}
+              realizedPremiumPnL={lifecycleData.realizedPremiumPnL || 0}
+              events={lifecycleData.events}
+              corporateAdjustments={lifecycleData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'strategies') {
+      console.log('🎨 Rendering strategies card with data:', data);
+      const strategiesData = data as {
+        symbol: string | null;
+        timePeriod: string;
+        netCredit: number;
+        netDebit: number;
+        strategies: Array<{
+          id: string;
+          name: string;
+          underlying: string;
+          openDate: string;
+          expiration: string;
+          netPremium: number;
+          maxProfit: number | null;
+          maxLoss: number | null;
+          breakevens: number[];
+          legs: Array<{
+            tradeId: number | string;
+            securityType: 'Stock' | 'Option';
+            side: 'long' | 'short';
+            quantity: number;
+            price: number;
+            strike: number | null;
+            callPut: 'C' | 'P' | null;
+            held?: boolean;
+          }>;
+        }>;
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (strategiesData.strategies) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <StrategiesCard
+              symbol={strategiesData.symbol}
+              timePeriod={strategiesData.timePeriod}
+              strategies={strategiesData.strategies}
+              netCredit={strategiesData.netCredit || 0}
+              netDebit={strategiesData.netDebit || 0}
+              corporateAdjustments={strategiesData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'performance') {
+      console.log('🎨 Rendering performance card with data:', data);
+      const performanceData = data as {
+        timePeriod: string;
+        startEquity: number;
+        endEquity: number;
+        netFlows: number;
+        gain: number;
+        twr: number;
+        annualizedTwr: number | null;
+        irr: number | null;
+        periodIrr: number | null;
+        monthly: Array<{ period: string; label: string; startEquity: number; endEquity: number; netFlows: number; gain: number; twr: number }>;
+        quarterly: Array<{ period: string; label: string; startEquity: number; endEquity: number; netFlows: number; gain: number; twr: number }>;
+        ytd: { period: string; label: string; startEquity: number; endEquity: number; netFlows: number; gain: number; twr: number } | null;
+      };
+
+      if (performanceData.monthly) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <PerformanceCard
+              timePeriod={performanceData.timePeriod}
+              startEquity={performanceData.startEquity || 0}
+              endEquity={performanceData.endEquity || 0}
+              netFlows={performanceData.netFlows || 0}
+              gain={performanceData.gain || 0}
+              twr={performanceData.twr || 0}
+              annualizedTwr={performanceData.annualizedTwr}
+              irr={performanceData.irr}
+              periodIrr={performanceData.periodIrr}
+              monthly={performanceData.monthly}
+              quarterly={performanceData.quarterly || []}
+              ytd={performanceData.ytd}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'margin') {
+      console.log('🎨 Rendering margin health card with data:', data);
+      const marginData = data as {
+        timePeriod: string;
+        status: 'healthy' | 'warning' | 'critical';
+        thresholds: { minExcessPercent: number; smaDropPercent: number };
+        latest: {
+          date: string;
+          equity: number;
+          sma: number;
+          houseRequirement: number;
+          houseExcess: number;
+          fedRequirement: number;
+          fedExcess: number;
+          houseExcessPercent: number | null;
+          fedExcessPercent: number | null;
+          status: 'healthy' | 'warning' | 'critical';
+        } | null;
+        active: Array<{ date: string; type: string; label: string; severity: 'warning' | 'critical'; message: string }>;
+        alerts: Array<{ date: string; type: string; label: string; severity: 'warning' | 'critical'; message: string }>;
+        timeline: Array<{
+          date: string;
+          label: string;
+          equity: number;
+          sma: number;
+          houseRequirement: number;
+          houseExcess: number;
+          fedRequirement: number;
+          fedExcess: number;
+          houseExcessPercent: number | null;
+          fedExcessPercent: number | null;
+          status: 'healthy' | 'warning' | 'critical';
+        }>;
+      };
+
+      if (marginData.timeline) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <MarginHealthCard
+              timePeriod={marginData.timePeriod}
+              status={marginData.status}
+              minExcessPercent={marginData.thresholds?.minExcessPercent ?? 0}
+              latest={marginData.latest}
+              active={marginData.active || []}
+              alerts={marginData.alerts || []}
+              timeline={marginData.timeline}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'alert') {
+      console.log('🎨 Rendering alert card with data:', data);
+      const alertData = data as {
+        rule: AlertRule | null;
+        created: boolean;
+        matches: AlertTrigger[];
+        rules: AlertRule[];
+        error?: string;
+      };
+
+      if (alertData.rules) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <AlertRuleCard
+              rule={alertData.rule}
+              created={alertData.created}
+              matches={alertData.matches || []}
+              rules={alertData.rules}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'watchlist') {
+      console.log('🎨 Rendering watchlist card with data:', data);
+      const watchlistData = data as {
+        watchlist?: { id: string; name: string; symbols: string[] };
+        periodLabel: string;
+        symbols: Array<{
+          symbol: string;
+          price: number | null;
+          change: number | null;
+          changePercent: number | null;
+          lastTrade: {
+            date: string;
+            side: 'buy' | 'sell';
+            securityType: string;
+            price: number;
+            quantity: number;
+          } | null;
+          trades: number;
+          shares: number;
+          averageCost: number | null;
+          realizedPnL: number;
+          unrealizedPnL: number;
+          totalPnL: number;
+        }>;
+        realizedPnL: number;
+        unrealizedPnL: number;
+        averageChangePercent: number | null;
+        best: string | null;
+        worst: string | null;
+        created?: boolean;
+        added?: string[];
+        removed?: string[];
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (watchlistData.watchlist) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <WatchlistCard
+              name={watchlistData.watchlist.name}
+              periodLabel={watchlistData.periodLabel}
+              symbols={watchlistData.symbols || []}
+              realizedPnL={watchlistData.realizedPnL}
+              unrealizedPnL={watchlistData.unrealizedPnL}
+              averageChangePercent={watchlistData.averageChangePercent}
+              best={watchlistData.best}
+              worst={watchlistData.worst}
+              created={watchlistData.created}
+              added={watchlistData.added}
+              removed={watchlistData.removed}
+              corporateAdjustments={watchlistData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'journal') {
+      console.log('🎨 Rendering trade journal table with data:', data);
+      const journalData = data as {
+        trades?: Array<{
+          TradeID: number;
+          Date: string;
+          Symbol: string;
+          SecurityType: string;
+          TradeType: string;
+          StockTradePrice: string;
+          StockShareQty: string;
+          OptionContracts: string;
+          OptionTradePremium: string;
+          GrossAmount: string;
+          NetAmount: string;
+          Strike?: string;
+          Expiration?: string;
+          'Call/Put'?: string;
+        }>;
+        aggregations?: Aggregations;
+        filters?: ActiveFilters;
+        journal?: Record<number, JournalEntry>;
+        tagPnL?: TagPnL[];
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (journalData.trades) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <TradesTable
+              trades={journalData.trades}
+              filters={journalData.filters}
+              aggregations={journalData.aggregations}
+              journal={journalData.journal}
+              onSaveJournal={saveJournalEntry}
+              tagPnL={journalData.tagPnL}
+              corporateAdjustments={journalData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'margin-stress') {
+      console.log('🎨 Rendering margin stress card with data:', data);
+      const stressData = data as {
+        balanceDate: string;
+        shocks: Record<string, number>;
+        portfolioShock: number;
+        current: {
+          stockLMV: number;
+          stockSMV: number;
+          optionsLMV: number;
+          optionsSMV: number;
+          equity: number;
+          fedRequirement: number;
+          fedExcess: number;
+          houseRequirement: number;
+          houseExcess: number;
+        };
+        projected: {
+          stockLMV: number;
+          stockSMV: number;
+          optionsLMV: number;
+          optionsSMV: number;
+          equity: number;
+          fedRequirement: number;
+          fedExcess: number;
+          houseRequirement: number;
+          houseExcess: number;
+        };
+        equityChange: number;
+        positions: Array<{
+          instrumentKey: string;
+          underlying: string;
+          side: 'long' | 'short';
+          quantity: number;
+          series?: { strike: number; callPut: 'C' | 'P' };
+          shock: number;
+          spot: number;
+          shockedSpot: number;
+          valueChange: number;
+          houseRequirementChange: number;
+          excessImpact: number;
+        }>;
+        unpriced: string[];
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (stressData.current && stressData.projected) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <MarginStressCard
+              balanceDate={stressData.balanceDate}
+              shocks={stressData.shocks || {}}
+              portfolioShock={stressData.portfolioShock || 0}
+              current={stressData.current}
+              projected={stressData.projected}
+              equityChange={stressData.equityChange}
+              positions={stressData.positions || []}
+              unpriced={stressData.unpriced || []}
+              corporateAdjustments={stressData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'benchmark') {
+      console.log('🎨 Rendering benchmark card with data:', data);
+      const benchmarkData = data as {
+        symbol: string;
+        timePeriod: string;
+        tradingDays: number;
+        portfolioReturn: number;
+        benchmarkReturn: number;
+        excessReturn: number;
+        beta: number | null;
+        alpha: number | null;
+        correlation: number | null;
+        series: Array<{ date: string; label: string; portfolio: number; benchmark: number }>;
+      };
+
+      if (benchmarkData.series) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <BenchmarkCard
+              symbol={benchmarkData.symbol}
+              timePeriod={benchmarkData.timePeriod}
+              tradingDays={benchmarkData.tradingDays || 0}
+              portfolioReturn={benchmarkData.portfolioReturn || 0}
+              benchmarkReturn={benchmarkData.benchmarkReturn || 0}
+              excessReturn={benchmarkData.excessReturn || 0}
+              beta={benchmarkData.beta}
+              alpha={benchmarkData.alpha}
+              correlation={benchmarkData.correlation}
+              series={benchmarkData.series}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'risk') {
+      console.log('🎨 Rendering risk card with data:', data);
+      const riskData = data as {
+        timePeriod: string;
+        tradingDays: number;
+        maxDrawdown: {
+          depth: number;
+          peakDate: string;
+          peakEquity: number;
+          troughDate: string;
+          troughEquity: number;
+          recoveryDate: string | null;
+          daysToTrough: number;
+          daysToRecovery: number | null;
+        } | null;
+        currentDrawdown: number;
+        volatility: number | null;
+        sharpe: number | null;
+        sortino: number | null;
+        riskFreeRate: number;
+        worstDays: Array<{ date: string; return: number; change: number; equity: number }>;
+        drawdowns: Array<{ date: string; label: string; drawdown: number }>;
+      };
+
+      if (riskData.drawdowns) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <RiskCard
+              timePeriod={riskData.timePeriod}
+              tradingDays={riskData.tradingDays || 0}
+              maxDrawdown={riskData.maxDrawdown}
+              currentDrawdown={riskData.currentDrawdown || 0}
+              volatility={riskData.volatility}
+              sharpe={riskData.sharpe}
+              sortino={riskData.sortino}
+              riskFreeRate={riskData.riskFreeRate || 0}
+              worstDays={riskData.worstDays || []}
+              drawdowns={riskData.drawdowns}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'rolls') {
+      console.log('🎨 Rendering roll chains card with data:', data);
+      const rollsData = data as {
+        symbol: string | null;
+        timePeriod: string;
+        rollCount: number;
+        netPremium: number;
+        realizedPnL: number;
+        chains: Array<{
+          id: string;
+          underlying: string;
+          callPut: 'C' | 'P';
+          side: 'long' | 'short';
+          startDate: string;
+          netPremium: number;
+          realizedPnL: number;
+          finalOutcome: 'closed' | 'expired' | 'assigned' | 'exercised' | 'open';
+          legs: Array<{
+            openTradeId: number | string;
+            instrumentKey: string;
+            expiration: string;
+            strike: number;
+            callPut: 'C' | 'P';
+            contracts: number;
+            openDate: string;
+            openPremium: number;
+            closePremium: number | null;
+            resolvedDate: string | null;
+            outcome: 'closed' | 'expired' | 'assigned' | 'exercised' | 'open';
+            netPremium: number;
+          }>;
+          rolls: Array<{
+            date: string;
+            fromStrike: number;
+            toStrike: number;
+            fromExpiration: string;
+            toExpiration: string;
+            netPremium: number;
+          }>;
+        }>;
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (rollsData.chains) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <RollChainsCard
+              symbol={rollsData.symbol}
+              timePeriod={rollsData.timePeriod}
+              chains={rollsData.chains}
+              rollCount={rollsData.rollCount || 0}
+              netPremium={rollsData.netPremium || 0}
+              realizedPnL={rollsData.realizedPnL || 0}
+              corporateAdjustments={rollsData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'premium-income') {
+      console.log('🎨 Rendering premium income card with data:', data);
+      const incomeData = data as {
+        symbol: string | null;
+        timePeriod: string;
+        credits: number;
+        debits: number;
+        netIncome: number;
+        annualizedReturn: number | null;
+        pendingCredit: number;
+        byStrategy: Record<'Cash-Secured Put' | 'Covered Call', {
+          netIncome: number;
+          collateral: number;
+          annualizedReturn: number | null;
+          contracts: number;
+        }>;
+        byUnderlying: Array<{
+          underlying: string;
+          netIncome: number;
+          collateral: number;
+          annualizedReturn: number | null;
+          contracts: number;
+        }>;
+        byMonth: Array<{
+          month: string;
+          label: string;
+          cashSecuredPuts: number;
+          coveredCalls: number;
+          netIncome: number;
+        }>;
+        uncoveredCalls?: Array<{
+          instrumentKey: string;
+          underlying: string;
+          expiration: string;
+          strike: number;
+          contracts: number;
+          openDate: string;
+          outcome: string;
+          netIncome: number;
+        }>;
+        uncoveredIncome?: number;
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (incomeData.byStrategy) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <PremiumIncomeCard
+              symbol={incomeData.symbol}
+              timePeriod={incomeData.timePeriod}
+              credits={incomeData.credits || 0}
+              debits={incomeData.debits || 0}
+              netIncome={incomeData.netIncome || 0}
+              annualizedReturn={incomeData.annualizedReturn}
+              pendingCredit={incomeData.pendingCredit || 0}
+              byStrategy={incomeData.byStrategy}
+              byUnderlying={incomeData.byUnderlying || []}
+              byMonth={incomeData.byMonth || []}
+              uncoveredCalls={incomeData.uncoveredCalls}
+              uncoveredIncome={incomeData.uncoveredIncome}
+              corporateAdjustments={incomeData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'greeks') {
+      console.log('🎨 Rendering greeks exposure card with data:', data);
+      const greeksData = data as {
+        symbol: string | null;
+        asOf: string;
+        dollarDelta: number;
+        theta: number;
+        vega: number;
+        byUnderlying: Array<{
+          underlying: string;
+          spot: number;
+          stockShares: number;
+          optionDelta: number;
+          netDelta: number;
+          dollarDelta: number;
+          gamma: number;
+          theta: number;
+          vega: number;
+          contracts: Array<{
+            instrumentKey: string;
+            underlying: string;
+            expiration: string;
+            strike: number;
+            callPut: 'C' | 'P';
+            side: 'long' | 'short';
+            contracts: number;
+            impliedVolatility: number | null;
+            delta: number;
+            positionDelta: number;
+            positionGamma: number;
+            positionTheta: number;
+            positionVega: number;
+          }>;
+        }>;
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (greeksData.byUnderlying) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <GreeksExposureCard
+              symbol={greeksData.symbol}
+              asOf={greeksData.asOf}
+              dollarDelta={greeksData.dollarDelta || 0}
+              theta={greeksData.theta || 0}
+              vega={greeksData.vega || 0}
+              byUnderlying={greeksData.byUnderlying}
+              corporateAdjustments={greeksData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'dividends') {
+      console.log('🎨 Rendering dividends summary card with data:', data);
+      const dividendData = data as {
+        symbol: string | null;
+        timePeriod: string;
+        payments: number;
+        netAmount: number;
+        withholdingTax: number;
+        reinvestedAmount: number;
+        annualIncome: number;
+        yieldOnCost: number | null;
+        bySymbol: Array<{
+          symbol: string;
+          payments: number;
+          netAmount: number;
+          lastPayDate: string | null;
+          lastAmountPerShare: number;
+          openShares: number;
+          annualIncome: number;
+          yieldOnCost: number | null;
+        }>;
+        byMonth: Array<{ month: string; label: string; netAmount: number; payments: number }>;
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (dividendData.bySymbol) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <DividendsSummary
+              symbol={dividendData.symbol}
+              timePeriod={dividendData.timePeriod}
+              payments={dividendData.payments || 0}
+              netAmount={dividendData.netAmount || 0}
+              withholdingTax={dividendData.withholdingTax || 0}
+              reinvestedAmount={dividendData.reinvestedAmount || 0}
+              annualIncome={dividendData.annualIncome || 0}
+              yieldOnCost={dividendData.yieldOnCost ?? null}
+              bySymbol={dividendData.bySymbol}
+              byMonth={dividendData.byMonth || []}
+              corporateAdjustments={dividendData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'pnl') {
+      console.log('🎨 Rendering P&L summary card with data:', data);
+      const pnlData = data as {
+        symbol: string | null;
+        timePeriod: string;
+        methodLabel?: string;
+        realizedPnL: number;
+        unrealizedPnL: number;
+        totalPnL: number;
+        bySymbol: Array<{
+          symbol: string;
+          realizedPnL: number;
+          unrealizedPnL: number;
+          totalPnL: number;
+          openShares: number;
+          marketValue: number;
+        }>;
+        bySecurityType: Array<{
+          securityType: string;
+          realizedPnL: number;
+          unrealizedPnL: number;
+          totalPnL: number;
+        }>;
+        byMonth: Array<{
+          month: string;
+          label: string;
+          realizedPnL: number;
+          closedLots: number;
+        }>;
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (pnlData.totalPnL !== undefined) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <PnLSummary
+              symbol={pnlData.symbol}
+              timePeriod={pnlData.timePeriod}
+              methodLabel={pnlData.methodLabel}
+              realizedPnL={pnlData.realizedPnL}
+              unrealizedPnL={pnlData.unrealizedPnL}
+              totalPnL={pnlData.totalPnL}
+              bySymbol={pnlData.bySymbol || []}
+              bySecurityType={pnlData.bySecurityType || []}
+              byMonth={pnlData.byMonth || []}
+              corporateAdjustments={pnlData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'wash-sales') {
+      console.log('🎨 Rendering wash sale card with data:', data);
+      const washData = data as {
+        symbol: string | null;
+        timePeriod: string;
+        totalDisallowed: number;
+        washSales: Array<{
+          symbol: string;
+          lossTradeId: number | string;
+          lossDate: string;
+          lossInstrument: string;
+          loss: number;
+          disallowedLoss: number;
+          washedShares: number;
+          replacementTradeId: number | string;
+          replacementDate: string;
+          replacementInstrument: string;
+          daysApart: number;
+        }>;
+        adjustments: Array<{
+          tradeId: number | string;
+          symbol: string;
+          date: string;
+          adjustment: number;
+          realizedAdjustment: number;
+          openAdjustment: number;
+        }>;
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (washData.washSales) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <WashSaleCard
+              symbol={washData.symbol}
+              timePeriod={washData.timePeriod}
+              totalDisallowed={washData.totalDisallowed || 0}
+              washSales={washData.washSales}
+              adjustments={washData.adjustments || []}
+              corporateAdjustments={washData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
+    if (type === 'tax-lots') {
+      console.log('🎨 Rendering tax lot export card with data:', data);
+      const taxData = data as {
+        taxYear: number;
+        methodLabel: string;
+        lotCount: number;
+        washSaleLots: number;
+        shortTerm: { count: number; proceeds: number; costBasis: number; adjustments: number; gainLoss: number };
+        longTerm: { count: number; proceeds: number; costBasis: number; adjustments: number; gainLoss: number };
+        total: { count: number; proceeds: number; costBasis: number; adjustments: number; gainLoss: number };
+        csvUrl: string;
+        xlsxUrl: string;
+        corporateAdjustments?: CorporateAdjustment[];
+      };
+
+      if (taxData.total) {
+        return (
+          <div style={{ marginTop: '12px' }}>
+            <TaxLotExportCard
+              taxYear={taxData.taxYear}
+              methodLabel={taxData.methodLabel}
+              lotCount={taxData.lotCount || 0}
+              washSaleLots={taxData.washSaleLots || 0}
+              shortTerm={taxData.shortTerm}
+              longTerm={taxData.longTerm}
+              total={taxData.total}
+              csvUrl={taxData.csvUrl}
+              xlsxUrl={taxData.xlsxUrl}
+              corporateAdjustments={taxData.corporateAdjustments}
+            />
+          </div>
+        );
+      }
+    }
+
     if (type === 'fees') {
       console.log('🎨 Rendering fees summary card with data:', data);
       const feesData = data as {
@@ -2789,11 +4240,20 @@ const UnifiedAssistant: React.FC = () => {
         transactionCount: number;
         timePeriod: string;
         symbol?: string;
+        totals?: FeeBreakdown;
+        trades?: number;
+        costPerShare?: number | null;
+        costPerContract?: number | null;
+        feePercentOfGross?: number | null;
+        bySymbol?: SymbolFees[];
+        byMonth?: Array<MonthlyFees & { label: string }>;
         breakdown?: Array<{
           date: string;
           amount: number;
           symbol?: string;
+          feeType?: Exclude<FeeType, 'all'>;
         }>;
+        corporateAdjustments?: CorporateAdjustment[];
       };
 
       if (feesData.feeType && feesData.totalAmount !== undefined) {
@@ -2805,7 +4265,15 @@ const UnifiedAssistant: React.FC = () => {
               transactionCount={feesData.transactionCount}
               timePeriod={feesData.timePeriod}
               symbol={feesData.symbol}
+              totals={feesData.totals}
+              trades={feesData.trades}
+              costPerShare={feesData.costPerShare}
+              costPerContract={feesData.costPerContract}
+              feePercentOfGross={feesData.feePercentOfGross}
+              bySymbol={feesData.bySymbol}
+              byMonth={feesData.byMonth}
               breakdown={feesData.breakdown}
+              corporateAdjustments={feesData.corporateAdjustments}
             />
           </div>
         );
@@ -2991,6 +4459,16 @@ const UnifiedAssistant: React.FC = () => {
       borderRadius: '6px',
       cursor: 'pointer',
     },
+    accountSelect: {
+      padding: '6px 8px',
+      fontSize: '12px',
+      fontWeight: 500,
+      color: colors.textSecondary,
+      backgroundColor: colors.bgHover,
+      border: `1px solid ${colors.border}`,
+      borderRadius: '6px',
+      cursor: 'pointer',
+    },
     iconButton: {
       padding: '8px',
       backgroundColor: 'transparent',
@@ -3225,6 +4703,20 @@ const UnifiedAssistant: React.FC = () => {
           </span>
         </div>
         <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          {accounts.length > 1 && onAccountChange && (
+            <select
+              value={accountCode}
+              onChange={(e) => onAccountChange(e.target.value)}
+              style={styles.accountSelect}
+              title="Switch account"
+            >
+              {accounts.map((account) => (
+                <option key={account.accountCode} value={account.accountCode}>
+                  {account.accountCode}
+                </option>
+              ))}
+            </select>
+          )}
           {currentView === 'chat' && (
             <>
               <button onClick={toggleMode} style={styles.modeButton}>
@@ -3641,6 +5133,8 @@ function DetailedTradesLoader({ symbol }: { symbol: string }) {
       currentValue: number;
       symbol: string;
     };
+    journal?: Record<number, JournalEntry>;
+    corporateAdjustments?: CorporateAdjustment[];
   } | null>(null);
   const [loading, setLoading] = useState(true);
 
@@ -3678,7 +5172,15 @@ function DetailedTradesLoader({ symbol }: { symbol: string }) {
     return null;
   }
 
-  return <TradesTable trades={tradesData.trades} summary={tradesData.summary} />;
+  return (
+    <TradesTable
+      trades={tradesData.trades}
+      summary={tradesData.summary}
+      journal={tradesData.journal}
+      onSaveJournal={saveJournalEntry}
+      corporateAdjustments={tradesData.corporateAdjustments}
+    />
+  );
 }
 
 export default UnifiedAssistant;
@@ -0,0 +1,282 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Eye, Loader2, Plus, Trash2, X } from 'lucide-react';
+import type { Watchlist } from '../types';
+import type { WatchlistReport } from '../lib/watchlists';
+import alpacaApi from '../services/alpacaApi';
+
+type Period = '1D' | '1W' | '1M' | '3M' | '1Y';
+
+const formatCurrency = (value: number | null) => {
+  if (value === null) {
+    return '—';
+  }
+  const sign = value < 0 ? '-' : '';
+  return `${sign}$${Math.abs(value).toLocaleString('en-US', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const gainClass = (value: number | null) => (value === null || value === 0 ? '' : value > 0 ? 'gain' : 'loss');
+
+const WatchlistManager: React.FC = () => {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [report, setReport] = useState<WatchlistReport | null>(null);
+  const [period, setPeriod] = useState<Period>('1W');
+  const [newName, setNewName] = useState('');
+  const [newSymbol, setNewSymbol] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const active = watchlists.find((w) => w.id === activeId) ?? null;
+
+  useEffect(() => {
+    const loadLists = async () => {
+      try {
+        const lists = await alpacaApi.getWatchlists();
+        setWatchlists(lists);
+        setActiveId(lists[0]?.id ?? null);
+      } catch (err) {
+        console.error('Error fetching watchlists:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLists();
+  }, []);
+
+  useEffect(() => {
+    if (!active) {
+      setReport(null);
+      return;
+    }
+
+    let cancelled = false;
+    alpacaApi
+      .getWatchlistReport(active, period)
+      .then((next) => {
+        if (!cancelled) setReport(next);
+      })
+      .catch((err) => console.error('Error fetching watchlist report:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [active, period]);
+
+  // Replace a list in state after a write, keeping it selected
+  const applyUpdate = useCallback((updated: Watchlist) => {
+    setWatchlists((lists) => lists.map((w) => (w.id === updated.id ? updated : w)));
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    if (watchlists.some((w) => w.name.toLowerCase() === name.toLowerCase())) {
+      setError(`A watchlist named "${name}" already exists`);
+      return;
+    }
+
+    try {
+      const created = await alpacaApi.createWatchlist({ name });
+      setWatchlists((lists) => [created, ...lists]);
+      setActiveId(created.id);
+      setNewName('');
+      setError(null);
+    } catch (err) {
+      console.error('Error creating watchlist:', err);
+      setError('Could not create the watchlist');
+    }
+  };
+
+  const handleAddSymbol = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const symbol = newSymbol.trim().toUpperCase();
+    if (!active || !symbol) return;
+
+    try {
+      applyUpdate(await alpacaApi.updateWatchlist(active.id, { symbols: [...active.symbols, symbol] }));
+      setNewSymbol('');
+      setError(null);
+    } catch (err) {
+      console.error('Error updating watchlist:', err);
+      setError(`Could not add ${symbol}`);
+    }
+  };
+
+  const handleRemoveSymbol = async (symbol: string) => {
+    if (!active) return;
+
+    try {
+      applyUpdate(await alpacaApi.updateWatchlist(active.id, { symbols: active.symbols.filter((s) => s !== symbol) }));
+    } catch (err) {
+      console.error('Error updating watchlist:', err);
+      setError(`Could not remove ${symbol}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!active || !window.confirm(`Delete the ${active.name} watchlist?`)) return;
+
+    try {
+      await alpacaApi.deleteWatchlist(active.id);
+      const remaining = watchlists.filter((w) => w.id !== active.id);
+      setWatchlists(remaining);
+      setActiveId(remaining[0]?.id ?? null);
+    } catch (err) {
+      console.error('Error deleting watchlist:', err);
+      setError('Could not delete the watchlist');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="watchlists">
+        <Loader2 className="spinner" size={24} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="watchlists">
+      <div className="watchlists-header">
+        <h3>
+          <Eye size={18} /> Watchlists
+        </h3>
+        <form className="watchlist-form" onSubmit={handleCreate}>
+          <input
+            type="text"
+            placeholder="New watchlist"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <button type="submit" aria-label="Create watchlist">
+            <Plus size={16} />
+          </button>
+        </form>
+      </div>
+
+      {error && <div className="watchlist-error">{error}</div>}
+
+      {watchlists.length === 0 ? (
+        <p className="watchlist-empty">
+          No watchlists yet. Create one here or ask the assistant to "add AMD to my tech watchlist".
+        </p>
+      ) : (
+        <>
+          <div className="watchlist-tabs">
+            {watchlists.map((w) => (
+              <button
+                key={w.id}
+                className={`period-btn ${w.id === activeId ? 'active' : ''}`}
+                onClick={() => setActiveId(w.id)}
+              >
+                {w.name}
+              </button>
+            ))}
+          </div>
+
+          {active && (
+            <>
+              <div className="watchlist-toolbar">
+                <form className="watchlist-form" onSubmit={handleAddSymbol}>
+                  <input
+                    type="text"
+                    placeholder="Add symbol"
+                    value={newSymbol}
+                    onChange={(e) => setNewSymbol(e.target.value)}
+                  />
+                  <button type="submit" aria-label="Add symbol">
+                    <Plus size={16} />
+                  </button>
+                </form>
+                <div className="chart-periods">
+                  {(['1D', '1W', '1M', '3M', '1Y'] as const).map((p) => (
+                    <button
+                      key={p}
+                      className={`period-btn ${period === p ? 'active' : ''}`}
+                      onClick={() => setPeriod(p)}
+                    >
+                      {p}
+                    </button>
+                  ))}
+                </div>
+                <button className="watchlist-delete" onClick={handleDelete} aria-label="Delete watchlist">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+
+              {active.symbols.length === 0 ? (
+                <p className="watchlist-empty">This watchlist is empty.</p>
+              ) : (
+                <table className="returns-table">
+                  <thead>
+                    <tr>
+                      <th>Symbol</th>
+                      <th>Price</th>
+                      <th>Change</th>
+                      <th>Last Trade</th>
+                      <th>Position</th>
+                      <th>Realized</th>
+                      <th>Unrealized</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {active.symbols.map((symbol) => {
+                      const stats = report?.symbols.find((s) => s.symbol === symbol);
+                      const lastTrade = stats?.lastTrade;
+                      return (
+                        <tr key={symbol}>
+                          <td>{symbol}</td>
+                          <td>{formatCurrency(stats?.price ?? null)}</td>
+                          <td className={gainClass(stats?.changePercent ?? null)}>
+                            {formatPercent(stats?.changePercent ?? null)}
+                          </td>
+                          <td>
+                            {lastTrade
+                              ? `${lastTrade.side === 'buy' ? 'Buy' : 'Sell'} ${lastTrade.quantity.toLocaleString()} @ ${formatCurrency(lastTrade.price)} · ${lastTrade.date}`
+                              : '—'}
+                          </td>
+                          <td>
+                            {stats && stats.shares !== 0
+                              ? `${stats.shares.toLocaleString()} @ ${formatCurrency(stats.averageCost)}`
+                              : '—'}
+                          </td>
+                          <td className={gainClass(stats?.realizedPnL ?? null)}>
+                            {formatCurrency(stats?.realizedPnL ?? null)}
+                          </td>
+                          <td className={gainClass(stats?.unrealizedPnL ?? null)}>
+                            {formatCurrency(stats?.unrealizedPnL ?? null)}
+                          </td>
+                          <td>
+                            <button
+                              className="journal-edit-btn"
+                              onClick={() => handleRemoveSymbol(symbol)}
+                              aria-label={`Remove ${symbol}`}
+                            >
+                              <X size={14} />
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistManager;
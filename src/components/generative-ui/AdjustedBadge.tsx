@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { Split } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+
+interface AdjustedBadgeProps {
+  adjustments?: CorporateAdjustment[];
+}
+
+const colors = {
+  warning: '#ffa64d',
+  warningBg: 'rgba(255, 166, 77, 0.15)',
+};
+
+// Marks card figures restated for splits or ticker changes; hover lists the actions applied
+export function AdjustedBadge({ adjustments }: AdjustedBadgeProps) {
+  if (!adjustments || adjustments.length === 0) return null;
+
+  const title = adjustments
+    .map(a => `${a.label} (effective ${a.effectiveDate}, ${a.rowsAdjusted} row${a.rowsAdjusted === 1 ? '' : 's'})`)
+    .join('\n');
+
+  return (
+    <span
+      title={`Adjusted for corporate actions:\n${title}`}
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: '4px',
+        fontSize: '11px',
+        fontWeight: 600,
+        padding: '4px 8px',
+        borderRadius: '4px',
+        backgroundColor: colors.warningBg,
+        color: colors.warning,
+        cursor: 'help',
+        whiteSpace: 'nowrap',
+      }}
+    >
+      <Split size={11} />
+      {adjustments.length === 1 ? `Adjusted · ${adjustments[0].label}` : `Adjusted · ${adjustments.length} actions`}
+    </span>
+  );
+}
+
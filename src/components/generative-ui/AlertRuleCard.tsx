@@ -0,0 +1,154 @@
+'use client';
+
+import React from 'react';
+import { Bell, BellRing } from 'lucide-react';
+import { ALERT_TYPE_LABELS, type AlertRule, type AlertTrigger } from '@/src/lib/alerts';
+
+interface AlertRuleCardProps {
+  // The rule the request created or matched (null when only listing)
+  rule: AlertRule | null;
+  created: boolean;
+  // What the rule matches on the current data
+  matches: AlertTrigger[];
+  // Every rule on the account
+  rules: AlertRule[];
+}
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  warning: '#ffa64d',
+};
+
+export function AlertRuleCard({ rule, created, matches, rules }: AlertRuleCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    description: {
+      fontSize: '16px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+      marginBottom: '12px',
+    },
+    sectionLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      margin: '12px 0 8px',
+    },
+    match: {
+      display: 'flex',
+      alignItems: 'flex-start',
+      gap: '8px',
+      fontSize: '13px',
+      color: colors.warning,
+      padding: '6px 0',
+    },
+    note: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+    row: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      gap: '12px',
+      fontSize: '13px',
+      padding: '8px 0',
+      borderBottom: `1px solid ${colors.border}`,
+      color: colors.textSecondary,
+    },
+  };
+
+  const otherRules = rules.filter(r => r.id !== rule?.id);
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Bell size={14} color={colors.accent} />
+          {rule ? (created ? 'Alert Created' : 'Alert Already Set') : 'Alerts'}
+        </span>
+        {rule && <span style={styles.badge}>{ALERT_TYPE_LABELS[rule.type]}</span>}
+      </div>
+
+      <div style={styles.content}>
+        {rule && (
+          <>
+            <div style={styles.description}>{rule.description}</div>
+            {matches.length > 0 ? (
+              <>
+                <div style={styles.sectionLabel}>Triggered now</div>
+                {matches.map(match => (
+                  <div key={match.key} style={styles.match}>
+                    <BellRing size={14} style={{ flexShrink: 0, marginTop: '2px' }} />
+                    {match.message}
+                  </div>
+                ))}
+              </>
+            ) : (
+              <div style={styles.note}>Nothing matches yet. You will see it in the notification inbox when it fires.</div>
+            )}
+          </>
+        )}
+
+        {otherRules.length > 0 && (
+          <>
+            <div style={styles.sectionLabel}>{rule ? 'Your other alerts' : 'Your alerts'}</div>
+            {otherRules.map(r => (
+              <div key={r.id} style={styles.row}>
+                <span style={{ color: r.enabled ? colors.textPrimary : colors.textMuted }}>{r.description}</span>
+                <span>{r.enabled ? ALERT_TYPE_LABELS[r.type] : 'Paused'}</span>
+              </div>
+            ))}
+          </>
+        )}
+
+        {!rule && otherRules.length === 0 && (
+          <div style={styles.note}>No alerts yet. Try "alert me when my TSLA short puts are 3 days from expiry".</div>
+        )}
+      </div>
+    </div>
+  );
+}
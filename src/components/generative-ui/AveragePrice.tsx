@@ -2,6 +2,8 @@
 
 import React from 'react';
 import { TrendingUp, TrendingDown, Calendar, Activity } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
 
 interface AveragePriceProps {
   symbol: string;
@@ -13,6 +15,12 @@ interface AveragePriceProps {
   // Optional high/low context
   highestPrice?: number;
   lowestPrice?: number;
+  // Optional cost basis of shares still held (account's cost-basis method)
+  costBasisMethod?: string;
+  costBasisPerShare?: number | null;
+  openShares?: number;
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
 }
 
 const formatCurrency = (value: number) => {
@@ -48,6 +56,10 @@ export function AveragePrice({
   totalShares,
   highestPrice,
   lowestPrice,
+  costBasisMethod,
+  costBasisPerShare,
+  openShares,
+  corporateAdjustments,
 }: AveragePriceProps) {
   const actionLabel = tradeType === 'sell' ? 'Sold' : tradeType === 'buy' ? 'Bought' : 'Traded';
   const typeColor = tradeType === 'sell' ? colors.sell : colors.buy;
@@ -251,6 +263,7 @@ export function AveragePrice({
         <div style={styles.headerLeft}>
           <span style={styles.symbolBadge}>{symbol}</span>
           <span style={styles.typeBadge}>{actionLabel}</span>
+          <AdjustedBadge adjustments={corporateAdjustments} />
         </div>
         <span style={styles.timeBadge}>
           <Calendar size={12} />
@@ -307,6 +320,19 @@ export function AveragePrice({
               </div>
             </div>
           )}
+          {costBasisPerShare !== undefined && costBasisPerShare !== null && (
+            <div style={styles.statItem}>
+              <div style={styles.statIcon}>
+                <span style={{ fontSize: '14px', color: colors.textSecondary }}>$</span>
+              </div>
+              <div style={styles.statContent}>
+                <span style={styles.statValue}>{formatCurrency(costBasisPerShare)}</span>
+                <span style={styles.statLabel}>
+                  Cost Basis{openShares ? ` · ${openShares.toLocaleString()} held` : ''}
+                </span>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -320,6 +346,12 @@ export function AveragePrice({
           <span style={styles.footerLabel}>Type:</span>
           <span style={{ ...styles.footerValue, color: typeColor }}>{actionLabel}</span>
         </div>
+        {costBasisMethod && (
+          <div style={styles.footerItem}>
+            <span style={styles.footerLabel}>Basis:</span>
+            <span style={styles.footerValue}>{costBasisMethod}</span>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,204 @@
+'use client';
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Scale } from 'lucide-react';
+
+interface BenchmarkPoint {
+  date: string;
+  label: string;
+  portfolio: number;
+  benchmark: number;
+}
+
+interface BenchmarkCardProps {
+  symbol: string;
+  timePeriod: string;
+  tradingDays: number;
+  portfolioReturn: number;
+  benchmarkReturn: number;
+  excessReturn: number;
+  beta: number | null;
+  alpha: number | null;
+  correlation: number | null;
+  series: BenchmarkPoint[];
+}
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(2)}%`);
+
+const formatRatio = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+  benchmark: '#4da6ff',
+};
+
+const pnlColor = (value: number) => (value >= 0 ? colors.profit : colors.loss);
+
+export function BenchmarkCard({
+  symbol,
+  timePeriod,
+  tradingDays,
+  portfolioReturn,
+  benchmarkReturn,
+  excessReturn,
+  beta,
+  alpha,
+  correlation,
+  series,
+}: BenchmarkCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    summaryDetail: {
+      fontSize: '11px',
+      color: colors.textSecondary,
+      marginTop: '4px',
+    },
+    sectionHeader: {
+      fontSize: '12px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      margin: '16px 0 8px',
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Scale size={14} color={colors.accent} />
+          Portfolio vs {symbol}
+        </span>
+        <span style={styles.badge}>{timePeriod}</span>
+      </div>
+
+      <div style={styles.content}>
+        {tradingDays === 0 ? (
+          <div style={styles.empty}>No {symbol} prices or balance history to compare in this period.</div>
+        ) : (
+          <>
+            {/* Totals */}
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Excess Return</div>
+                <div style={{ ...styles.summaryValue, color: pnlColor(excessReturn) }}>{formatPercent(excessReturn)}</div>
+                <div style={styles.summaryDetail}>
+                  {formatPercent(portfolioReturn)} vs {formatPercent(benchmarkReturn)}
+                </div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Alpha</div>
+                <div style={{ ...styles.summaryValue, color: pnlColor(alpha ?? 0) }}>{formatPercent(alpha)}</div>
+                <div style={styles.summaryDetail}>Annualized</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Beta</div>
+                <div style={styles.summaryValue}>{formatRatio(beta)}</div>
+                <div style={styles.summaryDetail}>Correlation {formatRatio(correlation)}</div>
+              </div>
+            </div>
+
+            {/* Cumulative returns */}
+            <div style={styles.sectionHeader}>Cumulative Return</div>
+            <ResponsiveContainer width="100%" height={160}>
+              <LineChart data={series}>
+                <XAxis dataKey="label" stroke={colors.textMuted} fontSize={10} tickLine={false} minTickGap={24} />
+                <YAxis
+                  stroke={colors.textMuted}
+                  fontSize={10}
+                  tickLine={false}
+                  tickFormatter={(value: number) => `${(value * 100).toFixed(0)}%`}
+                  width={40}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: colors.bgHeader, border: `1px solid ${colors.border}`, fontSize: '12px' }}
+                  formatter={(value) => formatPercent(Number(value))}
+                />
+                <Line type="monotone" dataKey="portfolio" name="Portfolio" stroke={colors.accent} strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="benchmark" name={symbol} stroke={colors.benchmark} strokeWidth={1.5} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+            <div style={styles.summaryDetail}>
+              <span style={{ color: colors.accent }}>━</span> Portfolio{'  '}
+              <span style={{ color: colors.benchmark }}>━</span> {symbol} · {tradingDays} trading days
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+'use client';
+
+import React from 'react';
+import { Scale, TrendingUp, TrendingDown } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+interface MethodResult {
+  method: string;
+  label: string;
+  realizedPnL: number;
+  realizedGains: number;
+  realizedLosses: number;
+  closedLots: number;
+  openShares: number;
+  openCostBasis: number;
+}
+
+interface CostBasisComparisonProps {
+  symbol?: string | null;
+  timePeriod: string;
+  accountMethod: string;
+  accountMethodLabel: string;
+  requestedMethod: string;
+  requestedMethodLabel: string;
+  difference: number;
+  results: MethodResult[];
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  bgHighlight: 'rgba(0, 200, 6, 0.08)',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+  elected: '#4da6ff',
+};
+
+export function CostBasisComparison({
+  symbol,
+  timePeriod,
+  accountMethod,
+  accountMethodLabel,
+  requestedMethod,
+  requestedMethodLabel,
+  difference,
+  results,
+  corporateAdjustments,
+}: CostBasisComparisonProps) {
+  const requested = results.find(r => r.method === requestedMethod);
+  const realized = requested?.realizedPnL ?? 0;
+  const isWhatIf = requestedMethod !== accountMethod;
+
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(77, 166, 255, 0.15)',
+      color: colors.elected,
+    },
+    content: {
+      padding: '16px',
+    },
+    hero: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+      marginBottom: '16px',
+    },
+    heroLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    heroValue: {
+      fontSize: '24px',
+      fontWeight: 700,
+      color: realized >= 0 ? colors.profit : colors.loss,
+    },
+    heroSubtext: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '4px',
+      fontSize: '12px',
+      color: colors.textSecondary,
+      marginTop: '6px',
+    },
+    table: {
+      width: '100%',
+      borderCollapse: 'collapse' as const,
+      fontSize: '12px',
+    },
+    th: {
+      textAlign: 'right' as const,
+      padding: '8px',
+      fontSize: '10px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    td: {
+      textAlign: 'right' as const,
+      padding: '8px',
+      color: colors.textPrimary,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    tag: {
+      fontSize: '9px',
+      fontWeight: 600,
+      marginLeft: '6px',
+      padding: '2px 5px',
+      borderRadius: '3px',
+      backgroundColor: 'rgba(77, 166, 255, 0.15)',
+      color: colors.elected,
+    },
+  };
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Scale size={14} color={colors.accent} />
+          {symbol || 'Portfolio'} Cost Basis
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        <span style={styles.badge}>Elected: {accountMethodLabel}</span>
+      </div>
+
+      <div style={styles.content}>
+        {/* Requested method */}
+        <div style={styles.hero}>
+          <div style={styles.heroLabel}>Realized P&L under {requestedMethodLabel} · {timePeriod}</div>
+          <div style={styles.heroValue}>{formatCurrency(realized)}</div>
+          {isWhatIf && (
+            <div style={styles.heroSubtext}>
+              {difference >= 0
+                ? <TrendingUp size={12} color={colors.profit} />
+                : <TrendingDown size={12} color={colors.loss} />}
+              <span style={{ color: difference >= 0 ? colors.profit : colors.loss }}>
+                {difference >= 0 ? '+' : ''}{formatCurrency(difference)}
+              </span>
+              vs. {accountMethodLabel}
+            </div>
+          )}
+        </div>
+
+        {/* All methods */}
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={{ ...styles.th, textAlign: 'left' }}>Method</th>
+              <th style={styles.th}>Realized</th>
+              <th style={styles.th}>Lots</th>
+              <th style={styles.th}>Open Basis</th>
+            </tr>
+          </thead>
+          <tbody>
+            {results.map(result => (
+              <tr
+                key={result.method}
+                style={{ backgroundColor: result.method === requestedMethod ? colors.bgHighlight : 'transparent' }}
+              >
+                <td style={{ ...styles.td, textAlign: 'left', fontWeight: 600 }}>
+                  {result.label}
+                  {result.method === accountMethod && <span style={styles.tag}>ELECTED</span>}
+                </td>
+                <td style={{ ...styles.td, color: result.realizedPnL >= 0 ? colors.profit : colors.loss }}>
+                  {formatCurrency(result.realizedPnL)}
+                </td>
+                <td style={{ ...styles.td, color: colors.textSecondary }}>{result.closedLots}</td>
+                <td style={styles.td}>{formatCurrency(result.openCostBasis)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Coins } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+interface SymbolDividends {
+  symbol: string;
+  payments: number;
+  netAmount: number;
+  lastPayDate: string | null;
+  lastAmountPerShare: number;
+  openShares: number;
+  annualIncome: number;
+  yieldOnCost: number | null;
+}
+
+interface MonthlyDividends {
+  month: string;
+  label: string;
+  netAmount: number;
+  payments: number;
+}
+
+interface DividendsSummaryProps {
+  symbol?: string | null;
+  timePeriod: string;
+  payments: number;
+  netAmount: number;
+  withholdingTax: number;
+  reinvestedAmount: number;
+  annualIncome: number;
+  yieldOnCost: number | null;
+  bySymbol: SymbolDividends[];
+  byMonth: MonthlyDividends[];
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatCompact = (value: number) => {
+  const abs = Math.abs(value);
+  if (abs >= 1000000) return `$${(abs / 1000000).toFixed(1)}M`;
+  if (abs >= 1000) return `$${(abs / 1000).toFixed(1)}K`;
+  return `$${abs.toFixed(0)}`;
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(2)}%`);
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+};
+
+export function DividendsSummary({
+  symbol,
+  timePeriod,
+  payments,
+  netAmount,
+  withholdingTax,
+  reinvestedAmount,
+  annualIncome,
+  yieldOnCost,
+  bySymbol,
+  byMonth,
+  corporateAdjustments,
+}: DividendsSummaryProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    summaryDetail: {
+      fontSize: '11px',
+      color: colors.textSecondary,
+      marginTop: '4px',
+    },
+    sectionHeader: {
+      fontSize: '12px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      margin: '16px 0 8px',
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '8px 0',
+      borderBottom: `1px solid ${colors.border}`,
+      fontSize: '13px',
+    },
+    rowSymbol: {
+      fontWeight: 600,
+      color: colors.textPrimary,
+      minWidth: '64px',
+    },
+    rowDetail: {
+      flex: 1,
+      fontSize: '11px',
+      color: colors.textMuted,
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Coins size={14} color={colors.accent} />
+          {symbol || 'Portfolio'} Dividends · {timePeriod}
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        <span style={styles.badge}>{payments} {payments === 1 ? 'Payment' : 'Payments'}</span>
+      </div>
+
+      <div style={styles.content}>
+        {payments === 0 && bySymbol.length === 0 ? (
+          <div style={styles.empty}>No dividends received in this period.</div>
+        ) : (
+          <>
+            {/* Totals */}
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Received</div>
+                <div style={{ ...styles.summaryValue, color: colors.accent }}>{formatCurrency(netAmount)}</div>
+                {withholdingTax > 0 && (
+                  <div style={styles.summaryDetail}>{formatCurrency(withholdingTax)} withheld</div>
+                )}
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Annual Income</div>
+                <div style={styles.summaryValue}>{formatCurrency(annualIncome)}</div>
+                <div style={styles.summaryDetail}>Trailing 12 months</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Yield on Cost</div>
+                <div style={styles.summaryValue}>{formatPercent(yieldOnCost)}</div>
+                {reinvestedAmount > 0 && (
+                  <div style={styles.summaryDetail}>{formatCurrency(reinvestedAmount)} reinvested</div>
+                )}
+              </div>
+            </div>
+
+            {/* By month */}
+            {byMonth.length > 0 && (
+              <>
+                <div style={styles.sectionHeader}>By Month</div>
+                <ResponsiveContainer width="100%" height={140}>
+                  <BarChart data={byMonth}>
+                    <XAxis dataKey="label" stroke={colors.textMuted} fontSize={10} tickLine={false} />
+                    <YAxis stroke={colors.textMuted} fontSize={10} tickLine={false} tickFormatter={formatCompact} width={48} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: colors.bgHeader, border: `1px solid ${colors.border}`, fontSize: '12px' }}
+                      formatter={(value) => formatCurrency(Number(value))}
+                    />
+                    <Bar dataKey="netAmount" name="Received" fill={colors.accent} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </>
+            )}
+
+            {/* By symbol */}
+            {bySymbol.length > 0 && (
+              <>
+                <div style={styles.sectionHeader}>By Symbol</div>
+                {bySymbol.slice(0, 8).map(s => (
+                  <div key={s.symbol} style={styles.row}>
+                    <span style={styles.rowSymbol}>{s.symbol}</span>
+                    <span style={styles.rowDetail}>
+                      {s.payments} paid{s.lastPayDate ? ` · last ${formatCurrency(s.lastAmountPerShare)}/sh on ${s.lastPayDate}` : ''}
+                      {s.openShares > 0 ? ` · ${formatPercent(s.yieldOnCost)} YoC` : ''}
+                    </span>
+                    <span style={{ fontWeight: 600, color: colors.textPrimary }}>{formatCurrency(s.netAmount)}</span>
+                  </div>
+                ))}
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
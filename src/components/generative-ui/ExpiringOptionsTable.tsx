@@ -14,10 +14,21 @@ interface ExpiringOption {
   'Call/Put'?: string;
   OptionContracts?: string;
   NetAmount: string;
+  // Adjusted instrument key from the advanced query, matching the greeks keys
+  instrumentKey?: string;
+}
+
+// Black-Scholes Greeks for a series (per share of one long contract)
+interface SeriesGreeks {
+  delta: number;
+  theta: number;
+  impliedVolatility: number | null;
 }
 
 interface ExpiringOptionsTableProps {
   trades: ExpiringOption[];
+  // Keyed by lot-matching instrument key: "UNDERLYING YYYY-MM-DD STRIKE C|P"
+  greeks?: Record<string, SeriesGreeks>;
   expirationPeriod: string; // "tomorrow", "this week", "this month"
   aggregations?: {
     tradeCount?: number;
@@ -95,6 +106,7 @@ export function ExpiringOptionsTable({
   trades,
   expirationPeriod,
   aggregations: externalAggregations,
+  greeks,
 }: ExpiringOptionsTableProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const isUrgent = expirationPeriod.toLowerCase() === 'tomorrow';
@@ -416,6 +428,13 @@ export function ExpiringOptionsTable({
               <th style={{ ...styles.th, textAlign: 'right' }}>Strike</th>
               <th style={styles.th}>Expiration</th>
               <th style={{ ...styles.th, textAlign: 'right' }}>Contracts</th>
+              {greeks && (
+                <>
+                  <th style={{ ...styles.th, textAlign: 'right' }}>Delta</th>
+                  <th style={{ ...styles.th, textAlign: 'right' }}>Theta</th>
+                  <th style={{ ...styles.th, textAlign: 'right' }}>IV</th>
+                </>
+              )}
               <th style={{ ...styles.th, textAlign: 'right' }}>Value</th>
             </tr>
           </thead>
@@ -427,6 +446,7 @@ export function ExpiringOptionsTable({
               const isCall = trade['Call/Put'] === 'C';
               const isBuy = trade.TradeType === 'B';
               const daysUntil = trade.Expiration ? getDaysUntil(trade.Expiration) : null;
+              const series = trade.instrumentKey ? greeks?.[trade.instrumentKey] : undefined;
 
               let daysColor = colors.textMuted;
               let daysBg = colors.bgHeader;
@@ -486,6 +506,15 @@ export function ExpiringOptionsTable({
                     </div>
                   </td>
                   <td style={{ ...styles.td, textAlign: 'right' }}>{contracts}</td>
+                  {greeks && (
+                    <>
+                      <td style={{ ...styles.td, textAlign: 'right' }}>{series ? series.delta.toFixed(2) : '-'}</td>
+                      <td style={{ ...styles.td, textAlign: 'right' }}>{series ? series.theta.toFixed(2) : '-'}</td>
+                      <td style={{ ...styles.td, textAlign: 'right' }}>
+                        {series && series.impliedVolatility !== null ? `${(series.impliedVolatility * 100).toFixed(1)}%` : '-'}
+                      </td>
+                    </>
+                  )}
                   <td style={{
                     ...styles.td,
                     textAlign: 'right',
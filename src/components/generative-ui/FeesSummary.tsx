@@ -1,9 +1,16 @@
 'use client';
 
 import React from 'react';
-import { formatCalendarDate } from '@/src/lib/date-utils';
-
-export type FeeType = 'commission' | 'credit_interest' | 'debit_interest' | 'locate_fee';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import {
+  getFeeAmount,
+  type FeeBreakdown,
+  type FeeType,
+  type MonthlyFees,
+  type SymbolFees,
+} from '@/src/lib/fees';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
 
 export interface FeesSummaryProps {
   feeType: FeeType;
@@ -11,11 +18,21 @@ export interface FeesSummaryProps {
   transactionCount: number;
   timePeriod: string;
   symbol?: string;
+  totals?: FeeBreakdown;
+  trades?: number;
+  costPerShare?: number | null;
+  costPerContract?: number | null;
+  feePercentOfGross?: number | null;
+  bySymbol?: SymbolFees[];
+  byMonth?: Array<MonthlyFees & { label: string }>;
   breakdown?: Array<{
     date: string;
     amount: number;
     symbol?: string;
+    feeType?: Exclude<FeeType, 'all'>;
   }>;
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
 }
 
 // Colors for the premium theme
@@ -34,6 +51,7 @@ const colors = {
   green: '#50fa7b',
   red: '#ff5555',
   purple: '#bd93f9',
+  cyan: '#8be9fd',
   white: '#ffffff',
 };
 
@@ -45,6 +63,26 @@ const formatCurrency = (value: number) => {
   }).format(value);
 };
 
+// Per-unit fees are often fractions of a cent
+const formatUnitCost = (value: number | null) => {
+  if (value === null) return '—';
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: value < 0.1 ? 4 : 2,
+  }).format(value);
+};
+
+const formatCompact = (value: number) => {
+  const abs = Math.abs(value);
+  if (abs >= 1000000) return `$${(abs / 1000000).toFixed(1)}M`;
+  if (abs >= 1000) return `$${(abs / 1000).toFixed(1)}K`;
+  return `$${abs.toFixed(0)}`;
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(3)}%`);
+
 // Fee type configuration
 const feeConfig: Record<FeeType, {
   title: string;
@@ -54,6 +92,14 @@ const feeConfig: Record<FeeType, {
   gradientFrom: string;
   isCredit: boolean;
 }> = {
+  all: {
+    title: 'Fees & Interest',
+    description: 'Commissions, exchange fees, locate fees and interest',
+    icon: '🧾',
+    accentColor: colors.gold,
+    gradientFrom: '#1a1510',
+    isCredit: false,
+  },
   commission: {
     title: 'Trading Commissions',
     description: 'Total fees paid on executed trades',
@@ -62,6 +108,14 @@ const feeConfig: Record<FeeType, {
     gradientFrom: '#1a1510',
     isCredit: false,
   },
+  exchange_fee: {
+    title: 'Exchange Fees',
+    description: 'Exchange and regulatory fees on executed trades',
+    icon: '🏛️',
+    accentColor: colors.cyan,
+    gradientFrom: '#0f171a',
+    isCredit: false,
+  },
   credit_interest: {
     title: 'Credit Interest',
     description: 'Interest earned on credit balance',
@@ -88,6 +142,15 @@ const feeConfig: Record<FeeType, {
   },
 };
 
+// Components of the fee mix and the monthly chart, in stacking order
+const feeComponents: Array<{ key: keyof FeeBreakdown; label: string; color: string }> = [
+  { key: 'commission', label: 'Commissions', color: colors.gold },
+  { key: 'exchangeFees', label: 'Exchange Fees', color: colors.cyan },
+  { key: 'locateFees', label: 'Locate Fees', color: colors.purple },
+  { key: 'debitInterest', label: 'Debit Interest', color: colors.red },
+  { key: 'otherFees', label: 'Other', color: colors.textLabel },
+];
+
 // Inline styles
 const cardStyle: React.CSSProperties = {
   position: 'relative',
@@ -208,10 +271,63 @@ const IconBadge = ({ icon, color }: { icon: string; color: string }) => (
   </div>
 );
 
-export function FeesSummary({ feeType, totalAmount, transactionCount, timePeriod, symbol, breakdown }: FeesSummaryProps) {
+// Section heading with an optional note on the right
+const SectionHeader = ({ title, note }: { title: string; note?: string }) => (
+  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '16px' }}>
+    <span style={labelStyle}>{title}</span>
+    {note && <span style={{ fontSize: '10px', color: colors.textMuted }}>{note}</span>}
+  </div>
+);
+
+const sectionStyle: React.CSSProperties = {
+  borderTop: `1px solid ${colors.borderHeader}`,
+  paddingTop: '20px',
+  marginTop: '24px',
+};
+
+const listRowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: '12px',
+  padding: '12px',
+  borderRadius: '8px',
+  backgroundColor: colors.bgMetric,
+  border: `1px solid ${colors.borderHeader}`,
+};
+
+const feeTypeLabels: Record<Exclude<FeeType, 'all'>, string> = {
+  commission: 'Commission',
+  exchange_fee: 'Exchange fee',
+  credit_interest: 'Credit interest',
+  debit_interest: 'Debit interest',
+  locate_fee: 'Locate fee',
+};
+
+export function FeesSummary({
+  feeType,
+  totalAmount,
+  transactionCount,
+  timePeriod,
+  symbol,
+  totals,
+  trades,
+  costPerShare,
+  costPerContract,
+  feePercentOfGross,
+  bySymbol,
+  byMonth,
+  breakdown,
+  corporateAdjustments,
+}: FeesSummaryProps) {
   const config = feeConfig[feeType];
   const averageAmount = transactionCount > 0 ? totalAmount / transactionCount : 0;
-  const displayTitle = feeType === 'locate_fee' && symbol ? `Locate Fees — ${symbol}` : config.title;
+  const displayTitle = symbol ? `${config.title} — ${symbol}` : config.title;
+  // Per-unit cost and % of gross only describe trading fees
+  const showTradingCosts = (feeType === 'all' || feeType === 'commission' || feeType === 'exchange_fee') && !!trades;
+  const symbolRows = (bySymbol || []).filter(s => getFeeAmount(s, feeType) > 0);
+  const monthRows = (byMonth || []).filter(m => getFeeAmount(m, feeType) > 0 || (feeType === 'all' && m.creditInterest > 0));
+  const mixRows = totals ? feeComponents.filter(c => totals[c.key] > 0) : [];
 
   return (
     <div style={cardStyle}>
@@ -226,7 +342,10 @@ export function FeesSummary({ feeType, totalAmount, transactionCount, timePeriod
             <p style={{ fontSize: '12px', color: colors.textMuted, margin: '4px 0 0 0' }}>{config.description}</p>
           </div>
         </div>
-        <span style={periodBadgeStyle}>{timePeriod}</span>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <AdjustedBadge adjustments={corporateAdjustments} />
+          <span style={periodBadgeStyle}>{timePeriod}</span>
+        </div>
       </div>
 
       {/* Main content */}
@@ -248,10 +367,15 @@ export function FeesSummary({ feeType, totalAmount, transactionCount, timePeriod
           <p style={{ ...heroValueStyle(config.accentColor), marginTop: '12px' }}>
             {formatCurrency(Math.abs(totalAmount))}
           </p>
+          {feeType === 'all' && totals && totals.creditInterest > 0 && (
+            <p style={{ fontSize: '12px', color: colors.textMuted, margin: '8px 0 0 0' }}>
+              {formatCurrency(totals.netCost)} net of {formatCurrency(totals.creditInterest)} credit interest
+            </p>
+          )}
         </div>
 
         {/* Stats grid */}
-        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '16px', marginBottom: '24px' }}>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: '16px' }}>
           <div style={metricBoxStyle}>
             <span style={labelStyle}>Transactions</span>
             <p style={{ ...metricValueStyle, marginTop: '8px' }}>
@@ -266,32 +390,119 @@ export function FeesSummary({ feeType, totalAmount, transactionCount, timePeriod
           </div>
         </div>
 
+        {/* Trading cost */}
+        {showTradingCosts && (
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(3, 1fr)', gap: '16px', marginTop: '16px' }}>
+            <div style={metricBoxStyle}>
+              <span style={labelStyle}>Per Share</span>
+              <p style={{ ...metricValueStyle, marginTop: '8px' }}>{formatUnitCost(costPerShare ?? null)}</p>
+            </div>
+            <div style={metricBoxStyle}>
+              <span style={labelStyle}>Per Contract</span>
+              <p style={{ ...metricValueStyle, marginTop: '8px' }}>{formatUnitCost(costPerContract ?? null)}</p>
+            </div>
+            <div style={metricBoxStyle}>
+              <span style={labelStyle}>% of Gross</span>
+              <p style={{ ...metricValueStyle, marginTop: '8px' }}>{formatPercent(feePercentOfGross ?? null)}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Fee mix */}
+        {feeType === 'all' && totals && mixRows.length > 0 && (
+          <div style={sectionStyle}>
+            <SectionHeader title="Fee Mix" />
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+              {mixRows.map(component => {
+                const share = totals.totalFees > 0 ? totals[component.key] / totals.totalFees : 0;
+                return (
+                  <div key={component.key}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px', marginBottom: '4px' }}>
+                      <span style={{ color: colors.textTitle }}>{component.label}</span>
+                      <span style={{ fontFamily: 'monospace', color: colors.white }}>
+                        {formatCurrency(totals[component.key])}
+                        <span style={{ color: colors.textMuted }}> · {(share * 100).toFixed(1)}%</span>
+                      </span>
+                    </div>
+                    <div style={{ height: '6px', borderRadius: '3px', backgroundColor: colors.borderHeader }}>
+                      <div style={{ width: `${share * 100}%`, height: '100%', borderRadius: '3px', backgroundColor: component.color }} />
+                    </div>
+                  </div>
+                );
+              })}
+              {totals.creditInterest > 0 && (
+                <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '12px' }}>
+                  <span style={{ color: colors.textTitle }}>Credit Interest (offset)</span>
+                  <span style={{ fontFamily: 'monospace', color: colors.green }}>−{formatCurrency(totals.creditInterest)}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* By month */}
+        {monthRows.length > 0 && (
+          <div style={sectionStyle}>
+            <SectionHeader title="By Month" />
+            <ResponsiveContainer width="100%" height={160}>
+              <BarChart data={monthRows}>
+                <XAxis dataKey="label" stroke={colors.textMuted} fontSize={10} tickLine={false} />
+                <YAxis stroke={colors.textMuted} fontSize={10} tickLine={false} tickFormatter={formatCompact} width={48} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: colors.bgMetric, border: `1px solid ${colors.border}`, fontSize: '12px' }}
+                  formatter={(value) => formatCurrency(Number(value))}
+                />
+                {feeType === 'all' ? (
+                  mixRows.map(component => (
+                    <Bar key={component.key} dataKey={component.key} name={component.label} stackId="fees" fill={component.color} />
+                  ))
+                ) : (
+                  <Bar
+                    dataKey={(m: MonthlyFees) => getFeeAmount(m, feeType)}
+                    name={config.title}
+                    fill={config.accentColor}
+                  />
+                )}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {/* By symbol */}
+        {!symbol && symbolRows.length > 0 && (
+          <div style={sectionStyle}>
+            <SectionHeader title="By Symbol" note={`${symbolRows.length} ${symbolRows.length === 1 ? 'symbol' : 'symbols'}`} />
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', maxHeight: '240px', overflowY: 'auto' }}>
+              {symbolRows.map(s => (
+                <div key={s.symbol} style={listRowStyle}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '12px', minWidth: 0 }}>
+                    <span style={{ fontSize: '13px', fontFamily: 'monospace', fontWeight: 600, color: colors.white, minWidth: '56px' }}>
+                      {s.symbol}
+                    </span>
+                    <span style={{ fontSize: '11px', color: colors.textMuted }}>
+                      {s.trades > 0 ? `${s.trades} ${s.trades === 1 ? 'trade' : 'trades'}` : 'No trades'}
+                      {s.feePercentOfGross !== null && s.tradingFees > 0 ? ` · ${formatPercent(s.feePercentOfGross)} of gross` : ''}
+                    </span>
+                  </div>
+                  <span style={{ fontFamily: 'monospace', fontSize: '14px', fontWeight: 500, color: config.accentColor }}>
+                    {formatCurrency(getFeeAmount(s, feeType))}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Breakdown section */}
         {breakdown && breakdown.length > 0 && (
-          <div style={{ borderTop: `1px solid ${colors.borderHeader}`, paddingTop: '20px' }}>
-            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '16px' }}>
-              <span style={labelStyle}>Recent Activity</span>
-              <span style={{ fontSize: '10px', color: colors.textMuted }}>
-                Showing {Math.min(5, breakdown.length)} of {breakdown.length}
-              </span>
-            </div>
-            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', maxHeight: '144px', overflowY: 'auto' }}>
-              {breakdown.slice(0, 5).map((item, index) => (
-                <div
-                  key={index}
-                  style={{
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'space-between',
-                    padding: '12px',
-                    borderRadius: '8px',
-                    backgroundColor: colors.bgMetric,
-                    border: `1px solid ${colors.borderHeader}`,
-                  }}
-                >
+          <div style={sectionStyle}>
+            <SectionHeader title="All Activity" note={`${breakdown.length} ${breakdown.length === 1 ? 'charge' : 'charges'}`} />
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', maxHeight: '240px', overflowY: 'auto' }}>
+              {breakdown.map((item, index) => (
+                <div key={index} style={listRowStyle}>
                   <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
                     <span style={{ fontSize: '12px', fontFamily: 'monospace', color: colors.textLabel }}>
-                      {formatCalendarDate(item.date)}
+                      {item.date}
                     </span>
                     {item.symbol && (
                       <span
@@ -308,13 +519,16 @@ export function FeesSummary({ feeType, totalAmount, transactionCount, timePeriod
                         {item.symbol}
                       </span>
                     )}
+                    {feeType === 'all' && item.feeType && (
+                      <span style={{ fontSize: '11px', color: colors.textMuted }}>{feeTypeLabels[item.feeType]}</span>
+                    )}
                   </div>
                   <span
                     style={{
                       fontFamily: 'monospace',
                       fontSize: '14px',
                       fontWeight: 500,
-                      color: config.accentColor,
+                      color: item.feeType === 'credit_interest' ? colors.green : config.accentColor,
                     }}
                   >
                     {formatCurrency(Math.abs(item.amount))}
@@ -0,0 +1,262 @@
+'use client';
+
+import React from 'react';
+import { Sigma } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+interface ContractGreeks {
+  instrumentKey: string;
+  underlying: string;
+  expiration: string;
+  strike: number;
+  callPut: 'C' | 'P';
+  side: 'long' | 'short';
+  contracts: number;
+  impliedVolatility: number | null;
+  delta: number;
+  positionDelta: number;
+  positionGamma: number;
+  positionTheta: number;
+  positionVega: number;
+}
+
+interface UnderlyingGreeks {
+  underlying: string;
+  spot: number;
+  stockShares: number;
+  optionDelta: number;
+  netDelta: number;
+  dollarDelta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  contracts: ContractGreeks[];
+}
+
+interface GreeksExposureCardProps {
+  symbol?: string | null;
+  asOf: string;
+  dollarDelta: number;
+  theta: number;
+  vega: number;
+  byUnderlying: UnderlyingGreeks[];
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatNumber = (value: number, digits = 0) => {
+  return value.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+};
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  positive: '#00c806',
+  negative: '#ff5252',
+};
+
+const signColor = (value: number) => (value >= 0 ? colors.positive : colors.negative);
+
+export function GreeksExposureCard({
+  symbol,
+  asOf,
+  dollarDelta,
+  theta,
+  vega,
+  byUnderlying,
+  corporateAdjustments,
+}: GreeksExposureCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    table: {
+      width: '100%',
+      borderCollapse: 'collapse' as const,
+      fontSize: '12px',
+    },
+    th: {
+      textAlign: 'right' as const,
+      padding: '6px 8px',
+      fontSize: '10px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    td: {
+      textAlign: 'right' as const,
+      padding: '8px',
+      color: colors.textSecondary,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    subRow: {
+      fontSize: '11px',
+      color: colors.textMuted,
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Sigma size={14} color={colors.accent} />
+          {symbol || 'Portfolio'} Greeks Exposure
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        <span style={styles.badge}>As of {asOf}</span>
+      </div>
+
+      <div style={styles.content}>
+        {byUnderlying.length === 0 ? (
+          <div style={styles.empty}>No open positions to measure.</div>
+        ) : (
+          <>
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Dollar Delta</div>
+                <div style={{ ...styles.summaryValue, color: signColor(dollarDelta) }}>{formatCurrency(dollarDelta)}</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Theta / Day</div>
+                <div style={{ ...styles.summaryValue, color: signColor(theta) }}>{formatCurrency(theta)}</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Vega / Vol Pt</div>
+                <div style={{ ...styles.summaryValue, color: signColor(vega) }}>{formatCurrency(vega)}</div>
+              </div>
+            </div>
+
+            <table style={styles.table}>
+              <thead>
+                <tr>
+                  <th style={{ ...styles.th, textAlign: 'left' }}>Underlying</th>
+                  <th style={styles.th}>Net Delta</th>
+                  <th style={styles.th}>Gamma</th>
+                  <th style={styles.th}>Theta</th>
+                  <th style={styles.th}>Vega</th>
+                </tr>
+              </thead>
+              <tbody>
+                {byUnderlying.map(group => (
+                  <React.Fragment key={group.underlying}>
+                    <tr>
+                      <td style={{ ...styles.td, textAlign: 'left', color: colors.textPrimary, fontWeight: 600 }}>
+                        {group.underlying}
+                        <span style={{ fontWeight: 400, color: colors.textMuted }}> @ {formatCurrency(group.spot)}</span>
+                      </td>
+                      <td style={{ ...styles.td, color: signColor(group.netDelta), fontWeight: 600 }}>
+                        {formatNumber(group.netDelta)}
+                      </td>
+                      <td style={styles.td}>{formatNumber(group.gamma, 2)}</td>
+                      <td style={{ ...styles.td, color: signColor(group.theta) }}>{formatCurrency(group.theta)}</td>
+                      <td style={{ ...styles.td, color: signColor(group.vega) }}>{formatCurrency(group.vega)}</td>
+                    </tr>
+                    {group.contracts.map(contract => (
+                      <tr key={`${contract.instrumentKey}-${contract.side}`} style={styles.subRow}>
+                        <td style={{ ...styles.td, textAlign: 'left', paddingLeft: '20px', color: colors.textMuted }}>
+                          {contract.side === 'long' ? '+' : '−'}{contract.contracts} ${contract.strike}{' '}
+                          {contract.callPut === 'C' ? 'Call' : 'Put'} · {contract.expiration}
+                          {' '}· Δ {contract.delta.toFixed(2)}
+                          {contract.impliedVolatility !== null && ` · IV ${(contract.impliedVolatility * 100).toFixed(1)}%`}
+                        </td>
+                        <td style={{ ...styles.td, color: colors.textMuted }}>{formatNumber(contract.positionDelta)}</td>
+                        <td style={{ ...styles.td, color: colors.textMuted }}>{formatNumber(contract.positionGamma, 2)}</td>
+                        <td style={{ ...styles.td, color: colors.textMuted }}>{formatCurrency(contract.positionTheta)}</td>
+                        <td style={{ ...styles.td, color: colors.textMuted }}>{formatCurrency(contract.positionVega)}</td>
+                      </tr>
+                    ))}
+                    {group.contracts.length > 0 && group.stockShares !== 0 && (
+                      <tr style={styles.subRow}>
+                        <td style={{ ...styles.td, textAlign: 'left', paddingLeft: '20px', color: colors.textMuted }}>Stock</td>
+                        <td style={{ ...styles.td, color: colors.textMuted }}>{formatNumber(group.stockShares)}</td>
+                        <td style={styles.td} colSpan={3} />
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
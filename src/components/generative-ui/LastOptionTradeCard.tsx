@@ -15,6 +15,15 @@ interface LastOptionTradeCardProps {
   totalValue: number;
   totalTrades?: number;
   avgPremium?: number;
+  // Black-Scholes Greeks for the series while it is still open (per share of one long contract)
+  greeks?: {
+    delta: number;
+    gamma: number;
+    theta: number;
+    vega: number;
+    impliedVolatility: number | null;
+    theoreticalValue: number;
+  };
 }
 
 const formatCurrency = (value: number) => {
@@ -69,6 +78,7 @@ export function LastOptionTradeCard({
   totalValue,
   totalTrades,
   avgPremium,
+  greeks,
 }: LastOptionTradeCardProps) {
   const isBuy = tradeType === 'buy';
   const isCall = callPut === 'Call';
@@ -358,6 +368,30 @@ export function LastOptionTradeCard({
         </div>
       </div>
 
+      {/* Greeks (open contracts only) */}
+      {greeks && (
+        <div style={{ ...styles.detailsGrid, borderTop: `1px solid ${colors.border}` }}>
+          <div style={styles.detailItem}>
+            <div style={styles.detailLabel}>Delta / Gamma</div>
+            <div style={styles.detailValue}>{greeks.delta.toFixed(2)} / {greeks.gamma.toFixed(3)}</div>
+          </div>
+          <div style={styles.detailItem}>
+            <div style={styles.detailLabel}>Theta / Vega</div>
+            <div style={styles.detailValue}>{greeks.theta.toFixed(2)} / {greeks.vega.toFixed(2)}</div>
+          </div>
+          <div style={styles.detailItem}>
+            <div style={styles.detailLabel}>Implied Vol</div>
+            <div style={styles.detailValue}>
+              {greeks.impliedVolatility !== null ? `${(greeks.impliedVolatility * 100).toFixed(1)}%` : '-'}
+            </div>
+          </div>
+          <div style={styles.detailItem}>
+            <div style={styles.detailLabel}>Theoretical Value</div>
+            <div style={styles.detailValue}>{formatCurrency(greeks.theoreticalValue)}</div>
+          </div>
+        </div>
+      )}
+
       {/* Total Value Section */}
       <div style={styles.totalSection}>
         <div style={styles.totalLabel}>
@@ -0,0 +1,281 @@
+'use client';
+
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { ShieldAlert, ShieldCheck } from 'lucide-react';
+
+type MarginStatus = 'healthy' | 'warning' | 'critical';
+
+interface MarginAlert {
+  date: string;
+  type: string;
+  label: string;
+  severity: 'warning' | 'critical';
+  message: string;
+}
+
+interface MarginSnapshot {
+  date: string;
+  label: string;
+  equity: number;
+  sma: number;
+  houseRequirement: number;
+  houseExcess: number;
+  fedRequirement: number;
+  fedExcess: number;
+  houseExcessPercent: number | null;
+  fedExcessPercent: number | null;
+  status: MarginStatus;
+}
+
+interface MarginHealthCardProps {
+  timePeriod: string;
+  status: MarginStatus;
+  minExcessPercent: number;
+  latest: Omit<MarginSnapshot, 'label'> | null;
+  active: MarginAlert[];
+  alerts: MarginAlert[];
+  timeline: MarginSnapshot[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+  fed: '#4da6ff',
+};
+
+const STATUS_STYLES: Record<MarginStatus, { label: string; color: string; background: string }> = {
+  healthy: { label: 'Healthy', color: '#00c806', background: 'rgba(0, 200, 6, 0.15)' },
+  warning: { label: 'Warning', color: '#ffa64d', background: 'rgba(255, 166, 77, 0.15)' },
+  critical: { label: 'Deficit', color: '#ff5252', background: 'rgba(255, 82, 82, 0.15)' },
+};
+
+export function MarginHealthCard({
+  timePeriod,
+  status,
+  minExcessPercent,
+  latest,
+  active,
+  alerts,
+  timeline,
+}: MarginHealthCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: STATUS_STYLES[status].background,
+      color: STATUS_STYLES[status].color,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    summaryDetail: {
+      fontSize: '11px',
+      color: colors.textSecondary,
+      marginTop: '4px',
+    },
+    sectionHeader: {
+      fontSize: '12px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      margin: '16px 0 8px',
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '6px 0',
+      fontSize: '12px',
+      color: colors.textSecondary,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    tag: {
+      fontSize: '10px',
+      fontWeight: 700,
+      padding: '2px 6px',
+      borderRadius: '4px',
+      minWidth: '64px',
+      textAlign: 'center' as const,
+      backgroundColor: colors.bgHeader,
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  const excessColor = (value: number) => (value < 0 ? colors.loss : colors.textPrimary);
+  const StatusIcon = status === 'healthy' ? ShieldCheck : ShieldAlert;
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <StatusIcon size={14} color={STATUS_STYLES[status].color} />
+          Margin Health
+        </span>
+        <span style={styles.badge}>
+          {STATUS_STYLES[status].label} · {timePeriod}
+        </span>
+      </div>
+
+      <div style={styles.content}>
+        {!latest ? (
+          <div style={styles.empty}>No balance snapshots to evaluate.</div>
+        ) : (
+          <>
+            {/* Latest snapshot */}
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>House Excess</div>
+                <div style={{ ...styles.summaryValue, color: excessColor(latest.houseExcess) }}>
+                  {formatCurrency(latest.houseExcess)}
+                </div>
+                <div style={styles.summaryDetail}>
+                  {formatPercent(latest.houseExcessPercent)} of equity · req {formatCurrency(latest.houseRequirement)}
+                </div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Fed Excess</div>
+                <div style={{ ...styles.summaryValue, color: excessColor(latest.fedExcess) }}>
+                  {formatCurrency(latest.fedExcess)}
+                </div>
+                <div style={styles.summaryDetail}>
+                  {formatPercent(latest.fedExcessPercent)} of equity · req {formatCurrency(latest.fedRequirement)}
+                </div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>SMA</div>
+                <div style={styles.summaryValue}>{formatCurrency(latest.sma)}</div>
+                <div style={styles.summaryDetail}>As of {latest.date}</div>
+              </div>
+            </div>
+
+            {/* Active warnings */}
+            <div style={styles.sectionHeader}>Active Warnings</div>
+            {active.length === 0 ? (
+              <div style={styles.empty}>No active margin warnings.</div>
+            ) : (
+              active.map(alert => (
+                <div key={alert.type} style={styles.row}>
+                  <span style={{ ...styles.tag, color: STATUS_STYLES[alert.severity].color }}>
+                    {alert.severity.toUpperCase()}
+                  </span>
+                  <span style={{ color: colors.textPrimary }}>{alert.message}</span>
+                </div>
+              ))
+            )}
+
+            {/* Timeline */}
+            <div style={styles.sectionHeader}>Excess as % of Equity</div>
+            <ResponsiveContainer width="100%" height={140}>
+              <LineChart data={timeline}>
+                <XAxis dataKey="label" stroke={colors.textMuted} fontSize={10} tickLine={false} minTickGap={24} />
+                <YAxis
+                  stroke={colors.textMuted}
+                  fontSize={10}
+                  tickLine={false}
+                  tickFormatter={(value: number) => `${(value * 100).toFixed(0)}%`}
+                  width={40}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: colors.bgHeader, border: `1px solid ${colors.border}`, fontSize: '12px' }}
+                  formatter={(value) => formatPercent(Number(value))}
+                />
+                <ReferenceLine y={minExcessPercent} stroke={STATUS_STYLES.warning.color} strokeDasharray="4 4" />
+                <ReferenceLine y={0} stroke={colors.loss} />
+                <Line type="monotone" dataKey="houseExcessPercent" name="House" stroke={colors.accent} strokeWidth={2} dot={false} />
+                <Line type="monotone" dataKey="fedExcessPercent" name="Fed" stroke={colors.fed} strokeWidth={1.5} dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+
+            {/* Alert history */}
+            <div style={styles.sectionHeader}>Alert History</div>
+            {alerts.length === 0 ? (
+              <div style={styles.empty}>No margin alerts in this period.</div>
+            ) : (
+              alerts.slice(0, 10).map(alert => (
+                <div key={`${alert.date}-${alert.type}`} style={styles.row}>
+                  <span style={{ ...styles.tag, color: STATUS_STYLES[alert.severity].color }}>{alert.label.toUpperCase()}</span>
+                  <span style={{ flex: 1 }}>{alert.message}</span>
+                  <span style={{ color: colors.textMuted }}>{alert.date}</span>
+                </div>
+              ))
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+'use client';
+
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, ReferenceLine } from 'recharts';
+import { Zap } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+interface MarginProjection {
+  stockLMV: number;
+  stockSMV: number;
+  optionsLMV: number;
+  optionsSMV: number;
+  equity: number;
+  fedRequirement: number;
+  fedExcess: number;
+  houseRequirement: number;
+  houseExcess: number;
+}
+
+interface StressPosition {
+  instrumentKey: string;
+  underlying: string;
+  side: 'long' | 'short';
+  quantity: number;
+  series?: { strike: number; callPut: 'C' | 'P' };
+  shock: number;
+  spot: number;
+  shockedSpot: number;
+  valueChange: number;
+  houseRequirementChange: number;
+  excessImpact: number;
+}
+
+interface MarginStressCardProps {
+  balanceDate: string;
+  shocks: Record<string, number>;
+  portfolioShock: number;
+  current: MarginProjection;
+  projected: MarginProjection;
+  equityChange: number;
+  positions: StressPosition[];
+  unpriced: string[];
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatShock = (value: number) => `${value > 0 ? '+' : ''}${(value * 100).toFixed(0)}%`;
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+};
+
+function positionLabel(position: StressPosition): string {
+  if (position.series) {
+    return `${position.underlying} $${position.series.strike}${position.series.callPut}`;
+  }
+  return position.underlying;
+}
+
+export function MarginStressCard({
+  balanceDate,
+  shocks,
+  portfolioShock,
+  current,
+  projected,
+  equityChange,
+  positions,
+  unpriced,
+  corporateAdjustments,
+}: MarginStressCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: colors.border,
+      color: colors.textSecondary,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    summaryDetail: {
+      fontSize: '11px',
+      color: colors.textSecondary,
+      marginTop: '4px',
+    },
+    sectionHeader: {
+      fontSize: '12px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      margin: '16px 0 8px',
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '6px 0',
+      fontSize: '12px',
+      color: colors.textSecondary,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  const signedColor = (value: number) => (value < 0 ? colors.loss : value > 0 ? colors.profit : colors.textPrimary);
+  const excessColor = (value: number) => (value < 0 ? colors.loss : colors.textPrimary);
+
+  const shockLabels = Object.entries(shocks).map(([underlying, shock]) => `${underlying} ${formatShock(shock)}`);
+  if (portfolioShock !== 0) {
+    shockLabels.push(`${shockLabels.length > 0 ? 'Others' : 'Portfolio'} ${formatShock(portfolioShock)}`);
+  }
+
+  const drivers = positions.filter(p => p.valueChange !== 0 || p.houseRequirementChange !== 0);
+  const chartData = drivers.slice(0, 8).map(p => ({ label: positionLabel(p), impact: p.excessImpact }));
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Zap size={14} color={colors.accent} />
+          Margin Stress Test
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        <span style={styles.badge}>{shockLabels.length > 0 ? shockLabels.join(' · ') : 'No shock'}</span>
+      </div>
+
+      <div style={styles.content}>
+        {/* Current vs projected */}
+        <div style={styles.summaryGrid}>
+          <div style={styles.summaryCard}>
+            <div style={styles.summaryLabel}>Equity</div>
+            <div style={styles.summaryValue}>{formatCurrency(projected.equity)}</div>
+            <div style={{ ...styles.summaryDetail, color: signedColor(equityChange) }}>
+              {equityChange >= 0 ? '+' : ''}{formatCurrency(equityChange)} from {formatCurrency(current.equity)}
+            </div>
+          </div>
+          <div style={styles.summaryCard}>
+            <div style={styles.summaryLabel}>House Excess</div>
+            <div style={{ ...styles.summaryValue, color: excessColor(projected.houseExcess) }}>
+              {formatCurrency(projected.houseExcess)}
+            </div>
+            <div style={styles.summaryDetail}>
+              now {formatCurrency(current.houseExcess)} · req {formatCurrency(projected.houseRequirement)}
+            </div>
+          </div>
+          <div style={styles.summaryCard}>
+            <div style={styles.summaryLabel}>Fed Excess</div>
+            <div style={{ ...styles.summaryValue, color: excessColor(projected.fedExcess) }}>
+              {formatCurrency(projected.fedExcess)}
+            </div>
+            <div style={styles.summaryDetail}>
+              now {formatCurrency(current.fedExcess)} · req {formatCurrency(projected.fedRequirement)}
+            </div>
+          </div>
+        </div>
+
+        {/* Drivers */}
+        <div style={styles.sectionHeader}>Impact on House Excess</div>
+        {drivers.length === 0 ? (
+          <div style={styles.empty}>No open positions are affected by this shock.</div>
+        ) : (
+          <>
+            <ResponsiveContainer width="100%" height={Math.max(80, chartData.length * 24)}>
+              <BarChart data={chartData} layout="vertical">
+                <XAxis type="number" stroke={colors.textMuted} fontSize={10} tickLine={false} tickFormatter={(value: number) => `$${(value / 1000).toFixed(0)}k`} />
+                <YAxis type="category" dataKey="label" stroke={colors.textMuted} fontSize={10} tickLine={false} width={90} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: colors.bgHeader, border: `1px solid ${colors.border}`, fontSize: '12px' }}
+                  formatter={(value) => formatCurrency(Number(value))}
+                />
+                <ReferenceLine x={0} stroke={colors.border} />
+                <Bar dataKey="impact" name="Excess impact">
+                  {chartData.map(entry => (
+                    <Cell key={entry.label} fill={entry.impact < 0 ? colors.loss : colors.profit} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+
+            {drivers.slice(0, 10).map(p => (
+              <div key={`${p.instrumentKey}-${p.side}`} style={styles.row}>
+                <span>
+                  <span style={{ color: colors.textPrimary }}>
+                    {p.side === 'long' ? 'Long' : 'Short'} {p.quantity.toLocaleString()} {positionLabel(p)}
+                  </span>
+                  {' '}· {formatCurrency(p.spot)} → {formatCurrency(p.shockedSpot)}
+                </span>
+                <span>
+                  value <span style={{ color: signedColor(p.valueChange) }}>{formatCurrency(p.valueChange)}</span>
+                  {' '}· req {formatCurrency(p.houseRequirementChange)}
+                </span>
+              </div>
+            ))}
+          </>
+        )}
+
+        <div style={{ ...styles.summaryDetail, marginTop: '12px' }}>
+          Projected from the {balanceDate} balance
+          {unpriced.length > 0 ? ` · ${unpriced.length} option series could not be repriced` : ''}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+'use client';
+
+import React from 'react';
+import { GitCommitHorizontal } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+type OptionOutcome = 'closed' | 'expired' | 'assigned' | 'exercised' | 'open';
+
+interface OptionLifecycleEvent {
+  instrumentKey: string;
+  underlying: string;
+  expiration: string;
+  strike: number;
+  callPut: 'C' | 'P';
+  side: 'long' | 'short';
+  contracts: number;
+  openDate: string;
+  openPremium: number;
+  outcome: OptionOutcome;
+  resolvedDate: string | null;
+  closePremium: number | null;
+  premiumPnL: number;
+}
+
+interface OptionLifecycleCardProps {
+  symbol?: string | null;
+  timePeriod: string;
+  counts: Record<OptionOutcome, number>;
+  premiumCollected: number;
+  premiumPaid: number;
+  realizedPremiumPnL: number;
+  events: OptionLifecycleEvent[];
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+};
+
+const OUTCOME_STYLES: Record<OptionOutcome, { label: string; color: string }> = {
+  closed: { label: 'Closed', color: '#4da6ff' },
+  expired: { label: 'Expired', color: '#999999' },
+  assigned: { label: 'Assigned', color: '#ffa64d' },
+  exercised: { label: 'Exercised', color: '#b388ff' },
+  open: { label: 'Open', color: '#00c806' },
+};
+
+const OUTCOME_ORDER: OptionOutcome[] = ['closed', 'expired', 'assigned', 'exercised', 'open'];
+
+const pnlColor = (value: number) => (value >= 0 ? colors.profit : colors.loss);
+
+export function OptionLifecycleCard({
+  symbol,
+  timePeriod,
+  counts,
+  premiumCollected,
+  premiumPaid,
+  realizedPremiumPnL,
+  events,
+  corporateAdjustments,
+}: OptionLifecycleCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    chips: {
+      display: 'flex',
+      flexWrap: 'wrap' as const,
+      gap: '8px',
+      marginBottom: '16px',
+    },
+    chip: {
+      padding: '6px 10px',
+      borderRadius: '6px',
+      backgroundColor: colors.bgHeader,
+      fontSize: '12px',
+      color: colors.textSecondary,
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '8px 0',
+      borderBottom: `1px solid ${colors.border}`,
+      fontSize: '12px',
+      color: colors.textSecondary,
+    },
+    tag: {
+      fontSize: '10px',
+      fontWeight: 700,
+      padding: '2px 6px',
+      borderRadius: '4px',
+      minWidth: '64px',
+      textAlign: 'center' as const,
+      backgroundColor: colors.bgHeader,
+    },
+    rowInstrument: {
+      flex: 1,
+      color: colors.textPrimary,
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <GitCommitHorizontal size={14} color={colors.accent} />
+          {symbol || 'Portfolio'} Option Outcomes
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        <span style={styles.badge}>{timePeriod}</span>
+      </div>
+
+      <div style={styles.content}>
+        {events.length === 0 ? (
+          <div style={styles.empty}>No option contracts opened in this period.</div>
+        ) : (
+          <>
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Collected</div>
+                <div style={styles.summaryValue}>{formatCurrency(premiumCollected)}</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Paid</div>
+                <div style={styles.summaryValue}>{formatCurrency(premiumPaid)}</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Realized Premium</div>
+                <div style={{ ...styles.summaryValue, color: pnlColor(realizedPremiumPnL) }}>
+                  {formatCurrency(realizedPremiumPnL)}
+                </div>
+              </div>
+            </div>
+
+            <div style={styles.chips}>
+              {OUTCOME_ORDER.filter(o => counts[o] > 0).map(o => (
+                <span key={o} style={styles.chip}>
+                  <span style={{ color: OUTCOME_STYLES[o].color, fontWeight: 600 }}>{OUTCOME_STYLES[o].label}</span>{' '}
+                  {counts[o]} {counts[o] === 1 ? 'contract' : 'contracts'}
+                </span>
+              ))}
+            </div>
+
+            {events.slice(0, 10).map((event, index) => (
+              <div key={`${event.instrumentKey}-${event.openDate}-${index}`} style={styles.row}>
+                <span style={{ ...styles.tag, color: OUTCOME_STYLES[event.outcome].color }}>
+                  {OUTCOME_STYLES[event.outcome].label.toUpperCase()}
+                </span>
+                <span style={styles.rowInstrument}>
+                  {event.side === 'short' ? 'Short' : 'Long'} {event.contracts} {event.underlying} ${event.strike}{' '}
+                  {event.callPut === 'C' ? 'Call' : 'Put'} · {event.expiration}
+                </span>
+                <span>{event.resolvedDate ?? `opened ${event.openDate}`}</span>
+                <span style={{ minWidth: '90px', textAlign: 'right', fontWeight: 600, color: event.outcome === 'open' ? colors.textMuted : pnlColor(event.premiumPnL) }}>
+                  {event.outcome === 'open' ? '—' : formatCurrency(event.premiumPnL)}
+                </span>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
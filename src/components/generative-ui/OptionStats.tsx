@@ -1,7 +1,9 @@
 'use client';
 
 import React from 'react';
-import { TrendingUp, TrendingDown, Calendar, FileText } from 'lucide-react';
+import { TrendingUp, TrendingDown, Calendar, FileText, Activity } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
 
 interface OptionStatsProps {
   symbol: string;
@@ -23,6 +25,14 @@ interface OptionStatsProps {
   totalValue: number;
   callCount: number;
   putCount: number;
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+  // Net option delta (shares) and theta ($/day) of the symbol's open series, from /api/greeks-ui
+  openGreeks?: {
+    netDelta: number;
+    theta: number;
+    contracts: number;
+  };
 }
 
 const formatCurrency = (value: number) => {
@@ -78,6 +88,8 @@ export function OptionStats({
   totalValue,
   callCount,
   putCount,
+  corporateAdjustments,
+  openGreeks,
 }: OptionStatsProps) {
   const typeLabel = tradeType === 'sell' ? 'Sell' : tradeType === 'buy' ? 'Buy' : 'All';
   const actionLabel = tradeType === 'sell' ? 'Sold' : tradeType === 'buy' ? 'Bought' : 'Traded';
@@ -100,6 +112,9 @@ export function OptionStats({
       borderBottom: `1px solid ${colors.border}`,
     },
     headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
       fontSize: '14px',
       fontWeight: 600,
       color: colors.textPrimary,
@@ -182,7 +197,10 @@ export function OptionStats({
     <div style={styles.container}>
       {/* Header */}
       <div style={styles.header}>
-        <span style={styles.headerTitle}>{symbol} Option {typeLabel} Stats ({year})</span>
+        <span style={styles.headerTitle}>
+          {symbol} Option {typeLabel} Stats ({year})
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
         <span style={styles.badge}>Options</span>
       </div>
 
@@ -248,10 +266,32 @@ export function OptionStats({
           </div>
         </div>
 
-        {/* Average Premium */}
-        <div style={{ ...styles.statCard, marginTop: '16px' }}>
-          <div style={styles.statLabel}>Average Premium</div>
-          <div style={styles.statValue}>{formatCurrency(averagePremium)}</div>
+        <div style={{ ...styles.statsGrid, marginTop: '16px' }}>
+          {/* Average Premium */}
+          <div style={styles.statCard}>
+            <div style={styles.statLabel}>Average Premium</div>
+            <div style={styles.statValue}>{formatCurrency(averagePremium)}</div>
+          </div>
+
+          {/* Open series Greeks */}
+          <div style={styles.statCard}>
+            <div style={styles.statLabel}>
+              <Activity size={12} color={colors.option} />
+              Open Series
+            </div>
+            {openGreeks ? (
+              <>
+                <div style={styles.statValue}>
+                  Δ {openGreeks.netDelta >= 0 ? '+' : ''}{openGreeks.netDelta.toFixed(1)}
+                </div>
+                <div style={styles.statMeta}>
+                  Theta {formatCurrency(openGreeks.theta)}/day · {openGreeks.contracts} contracts
+                </div>
+              </>
+            ) : (
+              <div style={styles.statMeta}>No open contracts</div>
+            )}
+          </div>
         </div>
       </div>
 
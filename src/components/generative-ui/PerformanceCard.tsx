@@ -0,0 +1,264 @@
+'use client';
+
+import React from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Activity } from 'lucide-react';
+
+interface PeriodReturn {
+  period: string;
+  label: string;
+  startEquity: number;
+  endEquity: number;
+  netFlows: number;
+  gain: number;
+  twr: number;
+}
+
+interface PerformanceCardProps {
+  timePeriod: string;
+  startEquity: number;
+  endEquity: number;
+  netFlows: number;
+  gain: number;
+  twr: number;
+  annualizedTwr: number | null;
+  irr: number | null;
+  periodIrr: number | null;
+  monthly: PeriodReturn[];
+  quarterly: PeriodReturn[];
+  ytd: PeriodReturn | null;
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(2)}%`);
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+};
+
+const pnlColor = (value: number) => (value >= 0 ? colors.profit : colors.loss);
+
+export function PerformanceCard({
+  timePeriod,
+  startEquity,
+  endEquity,
+  netFlows,
+  gain,
+  twr,
+  annualizedTwr,
+  irr,
+  periodIrr,
+  monthly,
+  quarterly,
+  ytd,
+}: PerformanceCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    summaryDetail: {
+      fontSize: '11px',
+      color: colors.textSecondary,
+      marginTop: '4px',
+    },
+    sectionHeader: {
+      fontSize: '12px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      margin: '16px 0 8px',
+    },
+    table: {
+      width: '100%',
+      borderCollapse: 'collapse' as const,
+      fontSize: '12px',
+    },
+    th: {
+      textAlign: 'right' as const,
+      padding: '6px 8px',
+      fontSize: '10px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    td: {
+      textAlign: 'right' as const,
+      padding: '8px',
+      color: colors.textSecondary,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  const rows = [...quarterly, ...(ytd ? [ytd] : [])];
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Activity size={14} color={colors.accent} />
+          Account Performance
+        </span>
+        <span style={styles.badge}>{timePeriod}</span>
+      </div>
+
+      <div style={styles.content}>
+        {monthly.length === 0 ? (
+          <div style={styles.empty}>Not enough balance history to measure returns in this period.</div>
+        ) : (
+          <>
+            {/* Totals */}
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Time-Weighted</div>
+                <div style={{ ...styles.summaryValue, color: pnlColor(twr) }}>{formatPercent(twr)}</div>
+                {annualizedTwr !== null && (
+                  <div style={styles.summaryDetail}>{formatPercent(annualizedTwr)} annualized</div>
+                )}
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Money-Weighted</div>
+                <div style={{ ...styles.summaryValue, color: pnlColor(periodIrr ?? 0) }}>{formatPercent(periodIrr)}</div>
+                <div style={styles.summaryDetail}>IRR {formatPercent(irr)} annualized</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Gain</div>
+                <div style={{ ...styles.summaryValue, color: pnlColor(gain) }}>{formatCurrency(gain)}</div>
+                <div style={styles.summaryDetail}>
+                  {formatCurrency(startEquity)} → {formatCurrency(endEquity)}
+                  {netFlows !== 0 && ` · ${formatCurrency(netFlows)} net flows`}
+                </div>
+              </div>
+            </div>
+
+            {/* By month */}
+            <div style={styles.sectionHeader}>Monthly Returns</div>
+            <ResponsiveContainer width="100%" height={140}>
+              <BarChart data={monthly}>
+                <XAxis dataKey="label" stroke={colors.textMuted} fontSize={10} tickLine={false} />
+                <YAxis
+                  stroke={colors.textMuted}
+                  fontSize={10}
+                  tickLine={false}
+                  tickFormatter={(value: number) => `${(value * 100).toFixed(0)}%`}
+                  width={40}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: colors.bgHeader, border: `1px solid ${colors.border}`, fontSize: '12px' }}
+                  formatter={(value) => formatPercent(Number(value))}
+                />
+                <Bar dataKey="twr" name="Return">
+                  {monthly.map(m => (
+                    <Cell key={m.period} fill={pnlColor(m.twr)} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+
+            {/* By quarter */}
+            <div style={styles.sectionHeader}>Quarterly &amp; Year to Date</div>
+            <table style={styles.table}>
+              <thead>
+                <tr>
+                  <th style={{ ...styles.th, textAlign: 'left' }}>Period</th>
+                  <th style={styles.th}>Net Flows</th>
+                  <th style={styles.th}>Gain</th>
+                  <th style={styles.th}>Return</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.label}>
+                    <td style={{ ...styles.td, textAlign: 'left', color: colors.textPrimary }}>{row.label}</td>
+                    <td style={styles.td}>{formatCurrency(row.netFlows)}</td>
+                    <td style={{ ...styles.td, color: pnlColor(row.gain) }}>{formatCurrency(row.gain)}</td>
+                    <td style={{ ...styles.td, color: pnlColor(row.twr), fontWeight: 600 }}>{formatPercent(row.twr)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,278 @@
+'use client';
+
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, ReferenceLine } from 'recharts';
+import { TrendingUp, TrendingDown, Wallet } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+interface SymbolPnL {
+  symbol: string;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalPnL: number;
+  openShares: number;
+  marketValue: number;
+}
+
+interface SecurityTypePnL {
+  securityType: string;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalPnL: number;
+}
+
+interface MonthlyPnL {
+  month: string;
+  label: string;
+  realizedPnL: number;
+  closedLots: number;
+}
+
+interface PnLSummaryProps {
+  symbol?: string | null;
+  timePeriod: string;
+  methodLabel?: string;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalPnL: number;
+  bySymbol: SymbolPnL[];
+  bySecurityType: SecurityTypePnL[];
+  byMonth: MonthlyPnL[];
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatCompact = (value: number) => {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (abs >= 1000000) return `${sign}$${(abs / 1000000).toFixed(1)}M`;
+  if (abs >= 1000) return `${sign}$${(abs / 1000).toFixed(1)}K`;
+  return `${sign}$${abs.toFixed(0)}`;
+};
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+};
+
+const pnlColor = (value: number) => (value >= 0 ? colors.profit : colors.loss);
+
+export function PnLSummary({
+  symbol,
+  timePeriod,
+  methodLabel,
+  realizedPnL,
+  unrealizedPnL,
+  totalPnL,
+  bySymbol,
+  bySecurityType,
+  byMonth,
+  corporateAdjustments,
+}: PnLSummaryProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+    },
+    sectionHeader: {
+      fontSize: '12px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      margin: '16px 0 8px',
+    },
+    chips: {
+      display: 'flex',
+      flexWrap: 'wrap' as const,
+      gap: '8px',
+    },
+    chip: {
+      padding: '6px 10px',
+      borderRadius: '6px',
+      backgroundColor: colors.bgHeader,
+      fontSize: '12px',
+      color: colors.textSecondary,
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '8px 0',
+      borderBottom: `1px solid ${colors.border}`,
+      fontSize: '13px',
+    },
+    rowSymbol: {
+      fontWeight: 600,
+      color: colors.textPrimary,
+      minWidth: '64px',
+    },
+    rowDetail: {
+      flex: 1,
+      fontSize: '11px',
+      color: colors.textMuted,
+    },
+  };
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Wallet size={14} color={colors.accent} />
+          {symbol || 'Portfolio'} P&L · {timePeriod}
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        {methodLabel && <span style={styles.badge}>{methodLabel}</span>}
+      </div>
+
+      <div style={styles.content}>
+        {/* Totals */}
+        <div style={styles.summaryGrid}>
+          <div style={styles.summaryCard}>
+            <div style={styles.summaryLabel}>Realized</div>
+            <div style={{ ...styles.summaryValue, color: pnlColor(realizedPnL) }}>{formatCurrency(realizedPnL)}</div>
+          </div>
+          <div style={styles.summaryCard}>
+            <div style={styles.summaryLabel}>Unrealized</div>
+            <div style={{ ...styles.summaryValue, color: pnlColor(unrealizedPnL) }}>{formatCurrency(unrealizedPnL)}</div>
+          </div>
+          <div style={styles.summaryCard}>
+            <div style={styles.summaryLabel}>Total</div>
+            <div style={{ ...styles.summaryValue, color: pnlColor(totalPnL) }}>
+              {totalPnL >= 0
+                ? <TrendingUp size={14} style={{ marginRight: '4px', display: 'inline' }} />
+                : <TrendingDown size={14} style={{ marginRight: '4px', display: 'inline' }} />}
+              {formatCurrency(totalPnL)}
+            </div>
+          </div>
+        </div>
+
+        {/* Realized by month */}
+        {byMonth.length > 0 && (
+          <>
+            <div style={styles.sectionHeader}>Realized by Month</div>
+            <ResponsiveContainer width="100%" height={140}>
+              <BarChart data={byMonth}>
+                <XAxis dataKey="label" stroke={colors.textMuted} fontSize={10} tickLine={false} />
+                <YAxis stroke={colors.textMuted} fontSize={10} tickLine={false} tickFormatter={formatCompact} width={48} />
+                <ReferenceLine y={0} stroke={colors.border} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: colors.bgHeader, border: `1px solid ${colors.border}`, fontSize: '12px' }}
+                  formatter={(value) => formatCurrency(Number(value))}
+                />
+                <Bar dataKey="realizedPnL" name="Realized">
+                  {byMonth.map(m => (
+                    <Cell key={m.month} fill={pnlColor(m.realizedPnL)} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </>
+        )}
+
+        {/* By security type */}
+        {bySecurityType.length > 0 && (
+          <>
+            <div style={styles.sectionHeader}>By Security Type</div>
+            <div style={styles.chips}>
+              {bySecurityType.map(t => (
+                <span key={t.securityType} style={styles.chip}>
+                  {t.securityType}{' '}
+                  <span style={{ color: pnlColor(t.totalPnL), fontWeight: 600 }}>{formatCurrency(t.totalPnL)}</span>
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+
+        {/* By symbol */}
+        {!symbol && bySymbol.length > 0 && (
+          <>
+            <div style={styles.sectionHeader}>By Symbol</div>
+            {bySymbol.slice(0, 8).map(s => (
+              <div key={s.symbol} style={styles.row}>
+                <span style={styles.rowSymbol}>{s.symbol}</span>
+                <span style={styles.rowDetail}>
+                  {formatCurrency(s.realizedPnL)} realized · {formatCurrency(s.unrealizedPnL)} open
+                </span>
+                <span style={{ fontWeight: 600, color: pnlColor(s.totalPnL) }}>{formatCurrency(s.totalPnL)}</span>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import React from 'react';
+import { Briefcase } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+interface OptionSeries {
+  expiration: string;
+  strike: number;
+  callPut: 'C' | 'P';
+}
+
+interface OpenPosition {
+  instrumentKey: string;
+  symbol: string;
+  underlying: string;
+  securityType: string;
+  side: 'long' | 'short';
+  quantity: number;
+  averagePrice: number;
+  costBasis: number;
+  marketPrice: number;
+  marketValue: number;
+  unrealizedPnL: number;
+  openedDate: string;
+  series?: OptionSeries;
+}
+
+interface UnderlyingPositions {
+  underlying: string;
+  netShares: number;
+  stock: OpenPosition[];
+  options: OpenPosition[];
+  marketValue: number;
+  unrealizedPnL: number;
+}
+
+interface PositionsCardProps {
+  symbol?: string | null;
+  methodLabel?: string;
+  positionCount: number;
+  longMarketValue: number;
+  shortMarketValue: number;
+  unrealizedPnL: number;
+  byUnderlying: UnderlyingPositions[];
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+  long: '#00c806',
+  short: '#ff5252',
+};
+
+const pnlColor = (value: number) => (value >= 0 ? colors.profit : colors.loss);
+
+const describeInstrument = (position: OpenPosition) => {
+  if (!position.series) return `${position.quantity.toLocaleString()} sh.`;
+  const type = position.series.callPut === 'C' ? 'Call' : 'Put';
+  return `${position.quantity} × $${position.series.strike} ${type} · ${position.series.expiration}`;
+};
+
+export function PositionsCard({
+  symbol,
+  methodLabel,
+  positionCount,
+  longMarketValue,
+  shortMarketValue,
+  unrealizedPnL,
+  byUnderlying,
+  corporateAdjustments,
+}: PositionsCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    group: {
+      marginBottom: '12px',
+    },
+    groupHeader: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      fontSize: '13px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+      padding: '6px 0',
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '6px 0',
+      fontSize: '12px',
+      color: colors.textSecondary,
+    },
+    sideTag: {
+      fontSize: '10px',
+      fontWeight: 700,
+      padding: '2px 6px',
+      borderRadius: '4px',
+      minWidth: '40px',
+      textAlign: 'center' as const,
+    },
+    rowInstrument: {
+      flex: 1,
+      color: colors.textPrimary,
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  const renderRow = (position: OpenPosition) => (
+    <div key={`${position.instrumentKey}-${position.side}`} style={styles.row}>
+      <span
+        style={{
+          ...styles.sideTag,
+          color: position.side === 'long' ? colors.long : colors.short,
+          backgroundColor: position.side === 'long' ? 'rgba(0, 200, 6, 0.15)' : 'rgba(255, 82, 82, 0.15)',
+        }}
+      >
+        {position.side === 'long' ? 'LONG' : 'SHORT'}
+      </span>
+      <span style={styles.rowInstrument}>{describeInstrument(position)}</span>
+      <span>@ {formatCurrency(position.averagePrice)}</span>
+      <span style={{ minWidth: '90px', textAlign: 'right', color: pnlColor(position.unrealizedPnL), fontWeight: 600 }}>
+        {formatCurrency(position.unrealizedPnL)}
+      </span>
+    </div>
+  );
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Briefcase size={14} color={colors.accent} />
+          {symbol || 'Portfolio'} Open Positions
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        <span style={styles.badge}>
+          {positionCount} {positionCount === 1 ? 'Position' : 'Positions'}{methodLabel ? ` · ${methodLabel}` : ''}
+        </span>
+      </div>
+
+      <div style={styles.content}>
+        {byUnderlying.length === 0 ? (
+          <div style={styles.empty}>No open positions.</div>
+        ) : (
+          <>
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Long Value</div>
+                <div style={styles.summaryValue}>{formatCurrency(longMarketValue)}</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Short Value</div>
+                <div style={styles.summaryValue}>{formatCurrency(Math.abs(shortMarketValue))}</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Unrealized</div>
+                <div style={{ ...styles.summaryValue, color: pnlColor(unrealizedPnL) }}>{formatCurrency(unrealizedPnL)}</div>
+              </div>
+            </div>
+
+            {byUnderlying.map(group => (
+              <div key={group.underlying} style={styles.group}>
+                <div style={styles.groupHeader}>
+                  <span>
+                    {group.underlying}
+                    {group.netShares !== 0 && (
+                      <span style={{ fontWeight: 400, color: colors.textMuted }}> · net {group.netShares.toLocaleString()} sh.</span>
+                    )}
+                  </span>
+                  <span>{formatCurrency(group.marketValue)}</span>
+                </div>
+                {group.stock.map(renderRow)}
+                {group.options.map(renderRow)}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
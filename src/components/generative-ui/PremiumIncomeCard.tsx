@@ -0,0 +1,329 @@
+'use client';
+
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { HandCoins } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+type IncomeStrategy = 'Cash-Secured Put' | 'Covered Call';
+
+interface IncomeBreakdown {
+  netIncome: number;
+  collateral: number;
+  annualizedReturn: number | null;
+  contracts: number;
+}
+
+interface MonthlyIncome {
+  month: string;
+  label: string;
+  cashSecuredPuts: number;
+  coveredCalls: number;
+  netIncome: number;
+}
+
+// Short calls written without the shares to cover them
+interface UncoveredCall {
+  instrumentKey: string;
+  underlying: string;
+  expiration: string;
+  strike: number;
+  contracts: number;
+  openDate: string;
+  outcome: string;
+  netIncome: number;
+}
+
+interface PremiumIncomeCardProps {
+  symbol?: string | null;
+  timePeriod: string;
+  credits: number;
+  debits: number;
+  netIncome: number;
+  annualizedReturn: number | null;
+  pendingCredit: number;
+  byStrategy: Record<IncomeStrategy, IncomeBreakdown>;
+  byUnderlying: Array<IncomeBreakdown & { underlying: string }>;
+  byMonth: MonthlyIncome[];
+  // Left out of the totals above
+  uncoveredCalls?: UncoveredCall[];
+  uncoveredIncome?: number;
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatCompact = (value: number) => {
+  const abs = Math.abs(value);
+  const sign = value < 0 ? '-' : '';
+  if (abs >= 1000000) return `${sign}$${(abs / 1000000).toFixed(1)}M`;
+  if (abs >= 1000) return `${sign}$${(abs / 1000).toFixed(1)}K`;
+  return `${sign}$${abs.toFixed(0)}`;
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(2)}%`);
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+  puts: '#00c806',
+  calls: '#4da6ff',
+};
+
+export function PremiumIncomeCard({
+  symbol,
+  timePeriod,
+  credits,
+  debits,
+  netIncome,
+  annualizedReturn,
+  pendingCredit,
+  byStrategy,
+  byUnderlying,
+  byMonth,
+  uncoveredCalls = [],
+  uncoveredIncome = 0,
+  corporateAdjustments,
+}: PremiumIncomeCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    summaryDetail: {
+      fontSize: '11px',
+      color: colors.textSecondary,
+      marginTop: '4px',
+    },
+    sectionHeader: {
+      fontSize: '12px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      margin: '16px 0 8px',
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '8px 0',
+      borderBottom: `1px solid ${colors.border}`,
+      fontSize: '13px',
+    },
+    rowSymbol: {
+      fontWeight: 600,
+      color: colors.textPrimary,
+      minWidth: '64px',
+    },
+    rowDetail: {
+      flex: 1,
+      fontSize: '11px',
+      color: colors.textMuted,
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  const puts = byStrategy['Cash-Secured Put'];
+  const calls = byStrategy['Covered Call'];
+  const contracts = puts.contracts + calls.contracts;
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <HandCoins size={14} color={colors.accent} />
+          {symbol || 'Portfolio'} Premium Income · {timePeriod}
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        <span style={styles.badge}>{contracts} {contracts === 1 ? 'Contract' : 'Contracts'}</span>
+      </div>
+
+      <div style={styles.content}>
+        {contracts === 0 && pendingCredit === 0 ? (
+          <div style={styles.empty}>No short puts or calls resolved in this period.</div>
+        ) : (
+          <>
+            {/* Totals */}
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Net Income</div>
+                <div style={{ ...styles.summaryValue, color: netIncome >= 0 ? colors.profit : colors.loss }}>
+                  {formatCurrency(netIncome)}
+                </div>
+                <div style={styles.summaryDetail}>
+                  {formatCurrency(credits)} credits · {formatCurrency(debits)} to close
+                </div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Annualized Return</div>
+                <div style={styles.summaryValue}>{formatPercent(annualizedReturn)}</div>
+                <div style={styles.summaryDetail}>On collateral</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Open Credit</div>
+                <div style={styles.summaryValue}>{formatCurrency(pendingCredit)}</div>
+                <div style={styles.summaryDetail}>Not yet earned</div>
+              </div>
+            </div>
+
+            {/* By strategy */}
+            <div style={styles.sectionHeader}>By Strategy</div>
+            {[
+              { name: 'Cash-Secured Puts', income: puts, color: colors.puts },
+              { name: 'Covered Calls', income: calls, color: colors.calls },
+            ].map(s => (
+              <div key={s.name} style={styles.row}>
+                <span style={{ ...styles.rowSymbol, color: s.color }}>{s.name}</span>
+                <span style={{ ...styles.rowDetail, textAlign: 'center' }}>
+                  {s.income.contracts} contracts · {formatPercent(s.income.annualizedReturn)} annualized
+                </span>
+                <span style={{ fontWeight: 600, color: colors.textPrimary }}>{formatCurrency(s.income.netIncome)}</span>
+              </div>
+            ))}
+
+            {/* Uncovered calls are not premium income; shown apart from the totals */}
+            {uncoveredCalls.length > 0 && (
+              <>
+                <div style={styles.sectionHeader}>Uncovered Calls (not in totals)</div>
+                {uncoveredCalls.slice(0, 8).map(c => (
+                  <div key={`${c.instrumentKey}|${c.openDate}`} style={styles.row}>
+                    <span style={{ ...styles.rowSymbol, color: colors.loss }}>{c.underlying}</span>
+                    <span style={styles.rowDetail}>
+                      {c.contracts} × ${c.strike} call · {c.expiration} · {c.outcome}
+                    </span>
+                    <span style={{ fontWeight: 600, color: colors.textPrimary }}>{formatCurrency(c.netIncome)}</span>
+                  </div>
+                ))}
+                <div style={{ ...styles.summaryDetail, marginTop: '8px' }}>
+                  Written without enough shares held to cover them · {formatCurrency(uncoveredIncome)} realized
+                </div>
+              </>
+            )}
+
+            {/* By month */}
+            {byMonth.length > 0 && (
+              <>
+                <div style={styles.sectionHeader}>By Month</div>
+                <ResponsiveContainer width="100%" height={140}>
+                  <BarChart data={byMonth}>
+                    <XAxis dataKey="label" stroke={colors.textMuted} fontSize={10} tickLine={false} />
+                    <YAxis stroke={colors.textMuted} fontSize={10} tickLine={false} tickFormatter={formatCompact} width={48} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: colors.bgHeader, border: `1px solid ${colors.border}`, fontSize: '12px' }}
+                      formatter={(value) => formatCurrency(Number(value))}
+                    />
+                    <Bar dataKey="cashSecuredPuts" name="Puts" stackId="income" fill={colors.puts} />
+                    <Bar dataKey="coveredCalls" name="Calls" stackId="income" fill={colors.calls} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </>
+            )}
+
+            {/* By underlying */}
+            {byUnderlying.length > 0 && (
+              <>
+                <div style={styles.sectionHeader}>By Underlying</div>
+                <ResponsiveContainer width="100%" height={Math.max(80, Math.min(byUnderlying.length, 8) * 28)}>
+                  <BarChart data={byUnderlying.slice(0, 8)} layout="vertical">
+                    <XAxis type="number" stroke={colors.textMuted} fontSize={10} tickLine={false} tickFormatter={formatCompact} />
+                    <YAxis type="category" dataKey="underlying" stroke={colors.textMuted} fontSize={10} tickLine={false} width={48} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: colors.bgHeader, border: `1px solid ${colors.border}`, fontSize: '12px' }}
+                      formatter={(value) => formatCurrency(Number(value))}
+                    />
+                    <Bar dataKey="netIncome" name="Income" fill={colors.accent} />
+                  </BarChart>
+                </ResponsiveContainer>
+                {byUnderlying.slice(0, 8).map(u => (
+                  <div key={u.underlying} style={styles.row}>
+                    <span style={styles.rowSymbol}>{u.underlying}</span>
+                    <span style={styles.rowDetail}>
+                      {u.contracts} contracts · {formatCurrency(u.collateral)} collateral
+                    </span>
+                    <span style={{ fontWeight: 600, color: colors.textPrimary }}>{formatPercent(u.annualizedReturn)}</span>
+                  </div>
+                ))}
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
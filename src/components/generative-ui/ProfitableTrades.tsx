@@ -2,14 +2,18 @@
 
 import React from 'react';
 import { TrendingUp, Calendar, DollarSign } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
 
 interface Trade {
   securityType: string;
+  side?: 'long' | 'short';
   buyDate: string;
   sellDate: string;
   quantity: number;
   buyPrice: number;
   sellPrice: number;
+  fees?: number;
   profitLoss: number;
 }
 
@@ -18,6 +22,10 @@ interface ProfitableTradesProps {
   totalProfitableTrades: number;
   totalProfit: number;
   trades: Trade[];
+  // Cost-basis method used to match lots (e.g. "FIFO", "HIFO")
+  methodLabel?: string;
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
 }
 
 const formatCurrency = (value: number) => {
@@ -55,6 +63,8 @@ export function ProfitableTrades({
   totalProfitableTrades,
   totalProfit,
   trades,
+  methodLabel,
+  corporateAdjustments,
 }: ProfitableTradesProps) {
   const styles = {
     container: {
@@ -74,6 +84,9 @@ export function ProfitableTrades({
       borderBottom: `1px solid ${colors.border}`,
     },
     headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
       fontSize: '14px',
       fontWeight: 600,
       color: colors.textPrimary,
@@ -190,10 +203,13 @@ export function ProfitableTrades({
     <div style={styles.container}>
       {/* Header */}
       <div style={styles.header}>
-        <span style={styles.headerTitle}>{symbol} Profitable Trades</span>
+        <span style={styles.headerTitle}>
+          {symbol} Profitable Trades
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
         <span style={styles.badge}>
           <TrendingUp size={10} style={{ marginRight: '4px', display: 'inline' }} />
-          Profit
+          {methodLabel ? `Profit · ${methodLabel}` : 'Profit'}
         </span>
       </div>
 
@@ -231,7 +247,7 @@ export function ProfitableTrades({
               <div key={index} style={styles.tradeItem}>
                 <div style={styles.tradeHeader}>
                   <span style={styles.tradeType}>
-                    {trade.securityType} Trade
+                    {trade.securityType} {trade.side === 'short' ? 'Short' : 'Trade'}
                   </span>
                   <span style={{
                     ...styles.tradeProfit,
@@ -242,17 +258,18 @@ export function ProfitableTrades({
                 </div>
                 <div style={styles.tradeDetails}>
                   <div style={styles.tradeDetail}>
-                    <span style={styles.tradeDetailLabel}>Buy:</span>
+                    <span style={styles.tradeDetailLabel}>{trade.side === 'short' ? 'Cover:' : 'Buy:'}</span>
                     {formatDate(trade.buyDate)} @ {formatCurrency(trade.buyPrice)}
                   </div>
                   <div style={styles.tradeDetail}>
-                    <span style={styles.tradeDetailLabel}>Sell:</span>
+                    <span style={styles.tradeDetailLabel}>{trade.side === 'short' ? 'Short:' : 'Sell:'}</span>
                     {formatDate(trade.sellDate)} @ {formatCurrency(trade.sellPrice)}
                   </div>
                 </div>
                 <div style={{ ...styles.tradeDetail, marginTop: '4px' }}>
                   <Calendar size={10} style={{ display: 'inline', marginRight: '4px' }} />
-                  {trade.quantity} {trade.securityType === 'Stock' ? 'shares' : 'contracts'}
+                  {trade.quantity} {trade.securityType === 'Option' ? 'contracts' : 'shares'}
+                  {trade.fees ? ` • ${formatCurrency(trade.fees)} fees` : ''}
                 </div>
               </div>
             ))}
@@ -0,0 +1,261 @@
+'use client';
+
+import React from 'react';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { Gauge } from 'lucide-react';
+
+interface Drawdown {
+  depth: number;
+  peakDate: string;
+  peakEquity: number;
+  troughDate: string;
+  troughEquity: number;
+  recoveryDate: string | null;
+  daysToTrough: number;
+  daysToRecovery: number | null;
+}
+
+interface WorstDay {
+  date: string;
+  return: number;
+  change: number;
+  equity: number;
+}
+
+interface DrawdownPoint {
+  date: string;
+  label: string;
+  drawdown: number;
+}
+
+interface RiskCardProps {
+  timePeriod: string;
+  tradingDays: number;
+  maxDrawdown: Drawdown | null;
+  currentDrawdown: number;
+  volatility: number | null;
+  sharpe: number | null;
+  sortino: number | null;
+  riskFreeRate: number;
+  worstDays: WorstDay[];
+  drawdowns: DrawdownPoint[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(2)}%`);
+
+const formatRatio = (value: number | null) => (value === null ? '—' : value.toFixed(2));
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+};
+
+export function RiskCard({
+  timePeriod,
+  tradingDays,
+  maxDrawdown,
+  currentDrawdown,
+  volatility,
+  sharpe,
+  sortino,
+  riskFreeRate,
+  worstDays,
+  drawdowns,
+}: RiskCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    summaryDetail: {
+      fontSize: '11px',
+      color: colors.textSecondary,
+      marginTop: '4px',
+    },
+    sectionHeader: {
+      fontSize: '12px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      margin: '16px 0 8px',
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '6px 0',
+      fontSize: '12px',
+      color: colors.textSecondary,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Gauge size={14} color={colors.accent} />
+          Portfolio Risk
+        </span>
+        <span style={styles.badge}>{timePeriod}</span>
+      </div>
+
+      <div style={styles.content}>
+        {tradingDays === 0 ? (
+          <div style={styles.empty}>Not enough balance history to measure risk in this period.</div>
+        ) : (
+          <>
+            {/* Totals */}
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Max Drawdown</div>
+                <div style={{ ...styles.summaryValue, color: maxDrawdown ? colors.loss : colors.textPrimary }}>
+                  {formatPercent(maxDrawdown?.depth ?? 0)}
+                </div>
+                {maxDrawdown && (
+                  <div style={styles.summaryDetail}>
+                    {maxDrawdown.peakDate} → {maxDrawdown.troughDate}
+                    {' · '}
+                    {maxDrawdown.recoveryDate ? `recovered ${maxDrawdown.recoveryDate}` : 'not yet recovered'}
+                  </div>
+                )}
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Volatility</div>
+                <div style={styles.summaryValue}>{formatPercent(volatility)}</div>
+                <div style={styles.summaryDetail}>Annualized over {tradingDays} days</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Sharpe / Sortino</div>
+                <div style={styles.summaryValue}>
+                  {formatRatio(sharpe)} / {formatRatio(sortino)}
+                </div>
+                <div style={styles.summaryDetail}>Risk-free {formatPercent(riskFreeRate)}</div>
+              </div>
+            </div>
+
+            {maxDrawdown && (
+              <div style={styles.summaryDetail}>
+                Peak {formatCurrency(maxDrawdown.peakEquity)} → trough {formatCurrency(maxDrawdown.troughEquity)} in{' '}
+                {maxDrawdown.daysToTrough} {maxDrawdown.daysToTrough === 1 ? 'day' : 'days'}
+                {maxDrawdown.daysToRecovery !== null && `, back at the peak after ${maxDrawdown.daysToRecovery} days`}
+                {currentDrawdown < 0 && ` · currently ${formatPercent(currentDrawdown)} below peak`}
+              </div>
+            )}
+
+            {/* Underwater curve */}
+            <div style={styles.sectionHeader}>Drawdown</div>
+            <ResponsiveContainer width="100%" height={140}>
+              <AreaChart data={drawdowns}>
+                <XAxis dataKey="label" stroke={colors.textMuted} fontSize={10} tickLine={false} minTickGap={24} />
+                <YAxis
+                  stroke={colors.textMuted}
+                  fontSize={10}
+                  tickLine={false}
+                  tickFormatter={(value: number) => `${(value * 100).toFixed(0)}%`}
+                  width={40}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: colors.bgHeader, border: `1px solid ${colors.border}`, fontSize: '12px' }}
+                  formatter={(value) => formatPercent(Number(value))}
+                />
+                <Area type="stepAfter" dataKey="drawdown" name="Drawdown" stroke={colors.loss} fill={colors.loss} fillOpacity={0.2} />
+              </AreaChart>
+            </ResponsiveContainer>
+
+            {/* Worst days */}
+            <div style={styles.sectionHeader}>Worst Days</div>
+            {worstDays.length === 0 ? (
+              <div style={styles.empty}>No down days in this period.</div>
+            ) : (
+              worstDays.map(day => (
+                <div key={day.date} style={styles.row}>
+                  <span style={{ color: colors.textPrimary }}>{day.date}</span>
+                  <span>{formatCurrency(day.change)}</span>
+                  <span style={{ color: colors.loss, fontWeight: 600 }}>{formatPercent(day.return)}</span>
+                </div>
+              ))
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+'use client';
+
+import React from 'react';
+import { Repeat } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+type OptionOutcome = 'closed' | 'expired' | 'assigned' | 'exercised' | 'open';
+
+interface RollLeg {
+  openTradeId: number | string;
+  instrumentKey: string;
+  expiration: string;
+  strike: number;
+  callPut: 'C' | 'P';
+  contracts: number;
+  openDate: string;
+  openPremium: number;
+  closePremium: number | null;
+  resolvedDate: string | null;
+  outcome: OptionOutcome;
+  netPremium: number;
+}
+
+interface Roll {
+  date: string;
+  fromStrike: number;
+  toStrike: number;
+  fromExpiration: string;
+  toExpiration: string;
+  netPremium: number;
+}
+
+interface RollChain {
+  id: string;
+  underlying: string;
+  callPut: 'C' | 'P';
+  side: 'long' | 'short';
+  startDate: string;
+  legs: RollLeg[];
+  rolls: Roll[];
+  netPremium: number;
+  realizedPnL: number;
+  finalOutcome: OptionOutcome;
+}
+
+interface RollChainsCardProps {
+  symbol?: string | null;
+  timePeriod: string;
+  chains: RollChain[];
+  rollCount: number;
+  netPremium: number;
+  realizedPnL: number;
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+};
+
+const OUTCOME_STYLES: Record<OptionOutcome, { label: string; color: string }> = {
+  closed: { label: 'Closed', color: '#4da6ff' },
+  expired: { label: 'Expired', color: '#999999' },
+  assigned: { label: 'Assigned', color: '#ffa64d' },
+  exercised: { label: 'Exercised', color: '#b388ff' },
+  open: { label: 'Open', color: '#00c806' },
+};
+
+const pnlColor = (value: number) => (value >= 0 ? colors.profit : colors.loss);
+
+// "$50.00 credit" / "$120.00 debit"
+const describeCash = (value: number) => `${formatCurrency(Math.abs(value))} ${value >= 0 ? 'credit' : 'debit'}`;
+
+export function RollChainsCard({
+  symbol,
+  timePeriod,
+  chains,
+  rollCount,
+  netPremium,
+  realizedPnL,
+  corporateAdjustments,
+}: RollChainsCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    group: {
+      marginBottom: '12px',
+      paddingBottom: '8px',
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    groupHeader: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      fontSize: '13px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+      padding: '6px 0',
+    },
+    groupMeta: {
+      display: 'flex',
+      flexWrap: 'wrap' as const,
+      gap: '12px',
+      fontSize: '11px',
+      color: colors.textMuted,
+      paddingBottom: '4px',
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '4px 0',
+      fontSize: '12px',
+      color: colors.textSecondary,
+    },
+    rollRow: {
+      fontSize: '11px',
+      color: colors.textMuted,
+      padding: '2px 0 2px 16px',
+    },
+    tag: {
+      fontSize: '10px',
+      fontWeight: 700,
+      padding: '2px 6px',
+      borderRadius: '4px',
+      minWidth: '64px',
+      textAlign: 'center' as const,
+      backgroundColor: colors.bgHeader,
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Repeat size={14} color={colors.accent} />
+          {symbol || 'Portfolio'} Option Rolls
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        <span style={styles.badge}>
+          {rollCount} {rollCount === 1 ? 'Roll' : 'Rolls'} · {timePeriod}
+        </span>
+      </div>
+
+      <div style={styles.content}>
+        {chains.length === 0 ? (
+          <div style={styles.empty}>No option rolls in this period.</div>
+        ) : (
+          <>
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Chains</div>
+                <div style={styles.summaryValue}>{chains.length}</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Net Premium</div>
+                <div style={{ ...styles.summaryValue, color: pnlColor(netPremium) }}>{formatCurrency(netPremium)}</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Realized</div>
+                <div style={{ ...styles.summaryValue, color: pnlColor(realizedPnL) }}>{formatCurrency(realizedPnL)}</div>
+              </div>
+            </div>
+
+            {chains.slice(0, 10).map(chain => (
+              <div key={chain.id} style={styles.group}>
+                <div style={styles.groupHeader}>
+                  <span>
+                    {chain.underlying} {chain.side === 'short' ? 'Short' : 'Long'} {chain.callPut === 'C' ? 'Call' : 'Put'}
+                    <span style={{ fontWeight: 400, color: colors.textMuted }}>
+                      {' '}· rolled {chain.rolls.length} {chain.rolls.length === 1 ? 'time' : 'times'}
+                    </span>
+                  </span>
+                  <span style={{ color: pnlColor(chain.netPremium) }}>{describeCash(chain.netPremium)}</span>
+                </div>
+                <div style={styles.groupMeta}>
+                  <span>Started {chain.startDate}</span>
+                  <span>
+                    Final leg{' '}
+                    <span style={{ color: OUTCOME_STYLES[chain.finalOutcome].color }}>
+                      {OUTCOME_STYLES[chain.finalOutcome].label.toLowerCase()}
+                    </span>
+                  </span>
+                  {chain.finalOutcome !== 'open' && <span>Realized {formatCurrency(chain.realizedPnL)}</span>}
+                </div>
+                {chain.legs.map((leg, index) => (
+                  <React.Fragment key={`${chain.id}-${leg.openTradeId}`}>
+                    {index > 0 && (
+                      <div style={styles.rollRow}>
+                        ↳ Rolled {chain.rolls[index - 1].date}: {describeCash(chain.rolls[index - 1].netPremium)}
+                      </div>
+                    )}
+                    <div style={styles.row}>
+                      <span style={{ ...styles.tag, color: OUTCOME_STYLES[leg.outcome].color }}>
+                        {OUTCOME_STYLES[leg.outcome].label.toUpperCase()}
+                      </span>
+                      <span style={{ flex: 1, color: colors.textPrimary }}>
+                        {leg.contracts} × ${leg.strike} · {leg.expiration}
+                      </span>
+                      <span>
+                        {formatCurrency(leg.openPremium)}
+                        {leg.closePremium !== null && ` → ${formatCurrency(leg.closePremium)}`}
+                      </span>
+                    </div>
+                  </React.Fragment>
+                ))}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
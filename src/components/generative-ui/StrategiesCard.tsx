@@ -0,0 +1,259 @@
+'use client';
+
+import React from 'react';
+import { Layers } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+interface StrategyLeg {
+  tradeId: number | string;
+  securityType: 'Stock' | 'Option';
+  side: 'long' | 'short';
+  quantity: number;
+  price: number;
+  strike: number | null;
+  callPut: 'C' | 'P' | null;
+  held?: boolean;
+}
+
+interface OptionStrategy {
+  id: string;
+  name: string;
+  underlying: string;
+  openDate: string;
+  expiration: string;
+  legs: StrategyLeg[];
+  netPremium: number;
+  maxProfit: number | null;
+  maxLoss: number | null;
+  breakevens: number[];
+}
+
+interface StrategiesCardProps {
+  symbol?: string | null;
+  timePeriod: string;
+  strategies: OptionStrategy[];
+  netCredit: number;
+  netDebit: number;
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+  long: '#00c806',
+  short: '#ff5252',
+};
+
+const describeLeg = (leg: StrategyLeg) => {
+  if (leg.securityType === 'Stock') {
+    return `${leg.quantity.toLocaleString()} sh. @ ${formatCurrency(leg.price)}${leg.held ? ' (held)' : ''}`;
+  }
+  const type = leg.callPut === 'C' ? 'Call' : 'Put';
+  return `${leg.quantity} × $${leg.strike} ${type} @ ${formatCurrency(leg.price)}`;
+};
+
+export function StrategiesCard({
+  symbol,
+  timePeriod,
+  strategies,
+  netCredit,
+  netDebit,
+  corporateAdjustments,
+}: StrategiesCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    group: {
+      marginBottom: '12px',
+      paddingBottom: '8px',
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    groupHeader: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      fontSize: '13px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+      padding: '6px 0',
+    },
+    groupMeta: {
+      display: 'flex',
+      flexWrap: 'wrap' as const,
+      gap: '12px',
+      fontSize: '11px',
+      color: colors.textMuted,
+      paddingBottom: '4px',
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '4px 0',
+      fontSize: '12px',
+      color: colors.textSecondary,
+    },
+    sideTag: {
+      fontSize: '10px',
+      fontWeight: 700,
+      padding: '2px 6px',
+      borderRadius: '4px',
+      minWidth: '40px',
+      textAlign: 'center' as const,
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Layers size={14} color={colors.accent} />
+          {symbol || 'Portfolio'} Option Strategies
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        <span style={styles.badge}>
+          {strategies.length} {strategies.length === 1 ? 'Strategy' : 'Strategies'} · {timePeriod}
+        </span>
+      </div>
+
+      <div style={styles.content}>
+        {strategies.length === 0 ? (
+          <div style={styles.empty}>No option strategies opened in this period.</div>
+        ) : (
+          <>
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Credits</div>
+                <div style={{ ...styles.summaryValue, color: colors.profit }}>{formatCurrency(netCredit)}</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Debits</div>
+                <div style={{ ...styles.summaryValue, color: colors.loss }}>{formatCurrency(netDebit)}</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Net</div>
+                <div style={styles.summaryValue}>{formatCurrency(netCredit - netDebit)}</div>
+              </div>
+            </div>
+
+            {strategies.slice(0, 10).map(strategy => (
+              <div key={strategy.id} style={styles.group}>
+                <div style={styles.groupHeader}>
+                  <span>
+                    {strategy.underlying} {strategy.name}
+                    <span style={{ fontWeight: 400, color: colors.textMuted }}> · exp {strategy.expiration}</span>
+                  </span>
+                  <span style={{ color: strategy.netPremium >= 0 ? colors.profit : colors.loss }}>
+                    {formatCurrency(Math.abs(strategy.netPremium))} {strategy.netPremium >= 0 ? 'credit' : 'debit'}
+                  </span>
+                </div>
+                <div style={styles.groupMeta}>
+                  <span>Opened {strategy.openDate}</span>
+                  <span>Max profit {strategy.maxProfit === null ? 'unlimited' : formatCurrency(strategy.maxProfit)}</span>
+                  <span>Max loss {strategy.maxLoss === null ? 'unlimited' : formatCurrency(Math.abs(strategy.maxLoss))}</span>
+                  {strategy.breakevens.length > 0 && (
+                    <span>Breakeven {strategy.breakevens.map(b => formatCurrency(b)).join(' / ')}</span>
+                  )}
+                </div>
+                {strategy.legs.map(leg => (
+                  <div key={`${strategy.id}-${leg.tradeId}`} style={styles.row}>
+                    <span
+                      style={{
+                        ...styles.sideTag,
+                        color: leg.side === 'long' ? colors.long : colors.short,
+                        backgroundColor: leg.side === 'long' ? 'rgba(0, 200, 6, 0.15)' : 'rgba(255, 82, 82, 0.15)',
+                      }}
+                    >
+                      {leg.side === 'long' ? 'LONG' : 'SHORT'}
+                    </span>
+                    <span>{describeLeg(leg)}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import React from 'react';
+import { FileText, Download, AlertTriangle } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+interface ScheduleDTotals {
+  count: number;
+  proceeds: number;
+  costBasis: number;
+  adjustments: number;
+  gainLoss: number;
+}
+
+interface TaxLotExportCardProps {
+  taxYear: number;
+  methodLabel?: string;
+  lotCount: number;
+  washSaleLots: number;
+  shortTerm: ScheduleDTotals;
+  longTerm: ScheduleDTotals;
+  total: ScheduleDTotals;
+  csvUrl: string;
+  xlsxUrl: string;
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+  warning: '#ffa64d',
+};
+
+const pnlColor = (value: number) => (value >= 0 ? colors.profit : colors.loss);
+
+export function TaxLotExportCard({
+  taxYear,
+  methodLabel,
+  lotCount,
+  washSaleLots,
+  shortTerm,
+  longTerm,
+  total,
+  csvUrl,
+  xlsxUrl,
+  corporateAdjustments,
+}: TaxLotExportCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+    },
+    summaryDetail: {
+      fontSize: '11px',
+      color: colors.textSecondary,
+      marginTop: '4px',
+    },
+    note: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '6px',
+      fontSize: '12px',
+      color: colors.warning,
+      marginBottom: '16px',
+    },
+    actions: {
+      display: 'flex',
+      gap: '8px',
+    },
+    button: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '6px',
+      padding: '8px 12px',
+      borderRadius: '8px',
+      border: `1px solid ${colors.border}`,
+      backgroundColor: colors.bgHeader,
+      color: colors.textPrimary,
+      fontSize: '12px',
+      fontWeight: 600,
+      textDecoration: 'none',
+    },
+  };
+
+  const renderTotals = (label: string, totals: ScheduleDTotals) => (
+    <div style={styles.summaryCard}>
+      <div style={styles.summaryLabel}>{label}</div>
+      <div style={{ ...styles.summaryValue, color: pnlColor(totals.gainLoss) }}>{formatCurrency(totals.gainLoss)}</div>
+      <div style={styles.summaryDetail}>{totals.count} lots</div>
+    </div>
+  );
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <FileText size={14} color={colors.accent} />
+          Form 8949 · {taxYear}
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        {methodLabel && <span style={styles.badge}>{methodLabel}</span>}
+      </div>
+
+      <div style={styles.content}>
+        <div style={styles.summaryGrid}>
+          {renderTotals('Short-term', shortTerm)}
+          {renderTotals('Long-term', longTerm)}
+          {renderTotals('Total', total)}
+        </div>
+
+        {washSaleLots > 0 && (
+          <div style={styles.note}>
+            <AlertTriangle size={12} />
+            {washSaleLots} of {lotCount} lots carry a wash-sale adjustment (code W) of {formatCurrency(total.adjustments)}
+          </div>
+        )}
+
+        <div style={styles.actions}>
+          <a href={csvUrl} style={styles.button}>
+            <Download size={12} /> Download CSV
+          </a>
+          <a href={xlsxUrl} style={styles.button}>
+            <Download size={12} /> Download XLSX
+          </a>
+          <a href="/tax" style={{ ...styles.button, color: colors.textSecondary }}>
+            View all lots
+          </a>
+        </div>
+      </div>
+    </div>
+  );
+}
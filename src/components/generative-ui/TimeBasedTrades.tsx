@@ -2,6 +2,8 @@
 
 import React from 'react';
 import { Calendar, TrendingUp, ArrowUpRight, ArrowDownRight, Clock, Hash } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
 
 interface Trade {
   TradeID: number;
@@ -35,6 +37,8 @@ interface TimeBasedTradesProps {
   summary: SummaryInfo;
   trades: Trade[];
   symbol?: string | null;
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
 }
 
 const formatCurrency = (value: number) => {
@@ -95,7 +99,8 @@ export function TimeBasedTrades({
   timePeriod,
   summary,
   trades,
-  symbol
+  symbol,
+  corporateAdjustments,
 }: TimeBasedTradesProps) {
   const styles = {
     container: {
@@ -251,6 +256,7 @@ export function TimeBasedTrades({
         <span style={styles.headerTitle}>
           <TrendingUp size={16} color={colors.accent} />
           {title}
+          <AdjustedBadge adjustments={corporateAdjustments} />
         </span>
         <div style={styles.headerBadge}>
           <Clock size={12} />
@@ -2,6 +2,8 @@
 
 import React from 'react';
 import { TrendingUp, TrendingDown, Calendar, Hash, DollarSign } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
 
 interface TimePeriodStatsProps {
   symbol: string;
@@ -17,6 +19,8 @@ interface TimePeriodStatsProps {
   totalTrades: number;
   totalShares: number;
   totalValue: number;
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
 }
 
 const formatCurrency = (value: number) => {
@@ -62,6 +66,7 @@ export function TimePeriodStats({
   averagePrice,
   totalTrades,
   totalShares,
+  corporateAdjustments,
 }: TimePeriodStatsProps) {
   const typeLabel = tradeType === 'sell' ? 'Sell' : tradeType === 'buy' ? 'Buy' : 'Trade';
   const actionLabel = tradeType === 'sell' ? 'Sold' : tradeType === 'buy' ? 'Bought' : 'Traded';
@@ -92,6 +97,9 @@ export function TimePeriodStats({
       fontSize: '14px',
       fontWeight: 600,
       color: colors.textPrimary,
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
     },
     badge: {
       fontSize: '11px',
@@ -199,7 +207,10 @@ export function TimePeriodStats({
     <div style={styles.container}>
       {/* Header */}
       <div style={styles.header}>
-        <span style={styles.headerTitle}>{symbol} {typeLabel} Prices - {formatTimePeriod(timePeriod)}</span>
+        <span style={styles.headerTitle}>
+          {symbol} {typeLabel} Prices - {formatTimePeriod(timePeriod)}
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
         <span style={styles.badge}>{formatTimePeriod(timePeriod)}</span>
       </div>
 
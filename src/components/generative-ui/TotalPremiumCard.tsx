@@ -3,6 +3,19 @@
 import React from 'react';
 import { Banknote, Calendar, TrendingUp, TrendingDown, BarChart3, Layers } from 'lucide-react';
 
+// How the contracts behind the premium ended (from the option lifecycle resolver)
+interface PremiumLifecycle {
+  realizedPremiumPnL: number;
+  openContracts: number;
+  counts: {
+    closed: number;
+    expired: number;
+    assigned: number;
+    exercised: number;
+    open: number;
+  };
+}
+
 interface TotalPremiumCardProps {
   symbol: string;
   tradeType: 'buy' | 'sell' | 'all';
@@ -12,6 +25,7 @@ interface TotalPremiumCardProps {
   timePeriod: string;
   callCount?: number;
   putCount?: number;
+  lifecycle?: PremiumLifecycle;
 }
 
 const formatCurrency = (value: number) => {
@@ -62,6 +76,7 @@ export function TotalPremiumCard({
   timePeriod,
   callCount = 0,
   putCount = 0,
+  lifecycle,
 }: TotalPremiumCardProps) {
   const isSell = tradeType === 'sell';
   const actionLabel = isSell ? 'Collected' : tradeType === 'all' ? 'Total' : 'Paid';
@@ -245,8 +260,33 @@ export function TotalPremiumCard({
       fontWeight: 600,
       color: colors.textPrimary,
     },
+    outcomeSection: {
+      padding: '16px 24px',
+      backgroundColor: colors.bgElevated,
+      borderTop: `1px solid ${colors.border}`,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: '16px',
+      flexWrap: 'wrap',
+    },
+    outcomeValue: {
+      fontFamily: '"JetBrains Mono", monospace',
+      fontSize: '18px',
+      fontWeight: 700,
+    },
   };
 
+  const outcomes = lifecycle
+    ? ([
+        ['Closed', lifecycle.counts.closed],
+        ['Expired', lifecycle.counts.expired],
+        ['Assigned', lifecycle.counts.assigned],
+        ['Exercised', lifecycle.counts.exercised],
+        ['Open', lifecycle.counts.open],
+      ] as const).filter(([, count]) => count > 0)
+    : [];
+
   return (
     <div style={styles.container}>
       <div style={styles.accentBar} />
@@ -331,6 +371,31 @@ export function TotalPremiumCard({
           </div>
         </div>
       )}
+
+      {/* Realized premium after closes, expirations and assignments */}
+      {lifecycle && (
+        <div style={styles.outcomeSection}>
+          <div>
+            <div style={styles.statLabel}>Realized Premium P&L</div>
+            <div
+              style={{
+                ...styles.outcomeValue,
+                color: lifecycle.realizedPremiumPnL >= 0 ? colors.buy : colors.sell,
+              }}
+            >
+              {formatCurrency(lifecycle.realizedPremiumPnL)}
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap' }}>
+            {outcomes.map(([label, count]) => (
+              <div key={label} style={styles.breakdownItem}>
+                <span style={styles.breakdownLabel}>{label}</span>
+                <span style={styles.breakdownValue}>{count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -2,6 +2,8 @@
 
 import React from 'react';
 import { TrendingUp, TrendingDown, Calendar, Hash } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
 
 interface TradeStatsProps {
   symbol: string;
@@ -18,6 +20,8 @@ interface TradeStatsProps {
   totalTrades: number;
   totalShares: number;
   totalValue: number;
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
 }
 
 const formatCurrency = (value: number) => {
@@ -65,6 +69,7 @@ export function TradeStats({
   totalTrades,
   totalShares,
   totalValue,
+  corporateAdjustments,
 }: TradeStatsProps) {
   const typeLabel = tradeType === 'sell' ? 'Sell' : tradeType === 'buy' ? 'Buy' : 'All';
   const actionLabel = tradeType === 'sell' ? 'Sold' : tradeType === 'buy' ? 'Bought' : 'Traded';
@@ -95,6 +100,9 @@ export function TradeStats({
       borderBottom: `1px solid ${colors.border}`,
     },
     headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
       fontSize: '14px',
       fontWeight: 600,
       color: colors.textPrimary,
@@ -170,7 +178,10 @@ export function TradeStats({
     <div style={styles.container}>
       {/* Header */}
       <div style={styles.header}>
-        <span style={styles.headerTitle}>{symbol} {typeLabel} Stats ({periodLabel})</span>
+        <span style={styles.headerTitle}>
+          {symbol} {typeLabel} Stats ({periodLabel})
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
         <span style={styles.badge}>{typeLabel}</span>
       </div>
 
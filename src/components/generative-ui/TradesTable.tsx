@@ -1,7 +1,10 @@
 'use client';
 
 import React, { useState, useMemo } from 'react';
-import { Download, Maximize2, ArrowUpRight, ArrowDownRight, X, Filter, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Download, Maximize2, ArrowUpRight, ArrowDownRight, X, Filter, ChevronLeft, ChevronRight, Pencil, StickyNote, Tag } from 'lucide-react';
+import type { JournalEntry, JournalInput, TagPnL } from '@/src/lib/journal';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
 
 interface Trade {
   TradeID: number;
@@ -36,6 +39,8 @@ export interface ActiveFilters {
   toDate?: string;
   expiration?: string;
   strike?: number;
+  tag?: string;
+  groupByTag?: boolean;
 }
 
 export interface Aggregations {
@@ -58,6 +63,18 @@ interface TradesTableProps {
   aggregations?: Aggregations;
   onClearFilter?: (key: keyof ActiveFilters) => void;
   pageSize?: number;
+  // Journal entries by TradeID; notes and tags are editable when onSaveJournal is given
+  journal?: Record<number, JournalEntry>;
+  onSaveJournal?: (input: JournalInput) => Promise<JournalEntry | null>;
+  tagPnL?: TagPnL[];
+  // Splits and ticker changes applied to the trades
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+interface JournalDraft {
+  tags: string;
+  setup: string;
+  notes: string;
 }
 
 const ITEMS_PER_PAGE = 10;
@@ -107,13 +124,31 @@ const formatFilterLabel = (key: string, value: unknown): string => {
     case 'toDate': return `To: ${value}`;
     case 'expiration': return `Exp: ${value}`;
     case 'strike': return `$${value} Strike`;
+    case 'tag': return `#${value}`;
+    case 'groupByTag': return 'Tagged';
     default: return String(value);
   }
 };
 
-export function TradesTable({ trades, summary, filters, aggregations, onClearFilter, pageSize = ITEMS_PER_PAGE }: TradesTableProps) {
+export function TradesTable({
+  trades,
+  summary,
+  filters,
+  aggregations,
+  onClearFilter,
+  pageSize = ITEMS_PER_PAGE,
+  journal,
+  onSaveJournal,
+  tagPnL,
+  corporateAdjustments,
+}: TradesTableProps) {
   const [stockPage, setStockPage] = useState(1);
   const [optionPage, setOptionPage] = useState(1);
+  const [entries, setEntries] = useState<Record<number, JournalEntry>>(journal || {});
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<JournalDraft>({ tags: '', setup: '', notes: '' });
+  const [saving, setSaving] = useState(false);
+  const [journalError, setJournalError] = useState<string | null>(null);
 
   const stockTrades = useMemo(() => trades.filter(t => t.SecurityType === 'S'), [trades]);
   const optionTrades = useMemo(() => trades.filter(t => t.SecurityType === 'O'), [trades]);
@@ -134,7 +169,7 @@ export function TradesTable({ trades, summary, filters, aggregations, onClearFil
 
   // Handle null/undefined summary
   const safeSummary = summary || {
-    symbol: filters?.symbol || stockTrades[0]?.Symbol || optionTrades[0]?.Symbol || 'Trades',
+    symbol: filters?.symbol || (filters?.tag ? `#${filters.tag}` : undefined) || stockTrades[0]?.Symbol || optionTrades[0]?.Symbol || 'Trades',
     totalShares: 0,
     totalCost: 0,
     currentValue: 0,
@@ -172,6 +207,9 @@ export function TradesTable({ trades, summary, filters, aggregations, onClearFil
       borderBottom: `1px solid ${colors.border}`,
     },
     headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
       fontSize: '14px',
       fontWeight: 600,
       color: colors.textPrimary,
@@ -298,6 +336,169 @@ export function TradesTable({ trades, summary, filters, aggregations, onClearFil
     },
   };
 
+  // Journal cell and inline editor styles
+  const journalStyles: Record<string, React.CSSProperties> = {
+    cell: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '4px',
+      flexWrap: 'wrap',
+    },
+    tag: {
+      padding: '2px 6px',
+      borderRadius: '8px',
+      fontSize: '10px',
+      fontWeight: 500,
+      backgroundColor: 'rgba(77, 166, 255, 0.12)',
+      color: '#4da6ff',
+    },
+    setup: {
+      fontSize: '11px',
+      color: colors.textSecondary,
+    },
+    editor: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr',
+      gap: '8px',
+      padding: '10px 12px',
+      backgroundColor: '#141414',
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    input: {
+      backgroundColor: colors.bgCard,
+      border: `1px solid ${colors.border}`,
+      borderRadius: '6px',
+      padding: '6px 8px',
+      fontSize: '12px',
+      color: colors.textPrimary,
+      outline: 'none',
+    },
+    actions: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'flex-end',
+      gap: '8px',
+      gridColumn: '1 / -1',
+    },
+    button: {
+      padding: '6px 12px',
+      borderRadius: '6px',
+      fontSize: '12px',
+      fontWeight: 600,
+      cursor: 'pointer',
+      border: `1px solid ${colors.border}`,
+      backgroundColor: 'transparent',
+      color: colors.textSecondary,
+    },
+    primaryButton: {
+      borderColor: colors.accent,
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+  };
+
+  const startEditing = (tradeId: number) => {
+    const entry = entries[tradeId];
+    setDraft({
+      tags: entry?.tags.join(', ') ?? '',
+      setup: entry?.setup ?? '',
+      notes: entry?.notes ?? '',
+    });
+    setJournalError(null);
+    setEditingId(tradeId);
+  };
+
+  const saveEditing = async () => {
+    if (editingId === null || !onSaveJournal) return;
+    setSaving(true);
+    setJournalError(null);
+    try {
+      const saved = await onSaveJournal({
+        tradeId: editingId,
+        tags: draft.tags.split(','),
+        setup: draft.setup,
+        notes: draft.notes,
+      });
+      setEntries(prev => {
+        const next = { ...prev };
+        if (saved) next[editingId] = saved;
+        else delete next[editingId];
+        return next;
+      });
+      setEditingId(null);
+    } catch (error) {
+      console.error('Error saving journal entry:', error);
+      setJournalError('Could not save the journal entry.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const showJournal = Boolean(onSaveJournal) || Object.keys(entries).length > 0;
+
+  const renderJournalCell = (tradeId: number) => {
+    const entry = entries[tradeId];
+    return (
+      <td style={styles.td}>
+        <div style={journalStyles.cell}>
+          {entry?.tags.map(tag => (
+            <span key={tag} style={journalStyles.tag}>#{tag}</span>
+          ))}
+          {entry?.setup && <span style={journalStyles.setup}>{entry.setup}</span>}
+          {entry?.notes && (
+            <span title={entry.notes} style={{ display: 'flex', color: colors.textSecondary }}>
+              <StickyNote size={12} />
+            </span>
+          )}
+          {onSaveJournal && (
+            <button style={styles.iconButton} onClick={() => startEditing(tradeId)} title="Edit notes and tags">
+              <Pencil size={12} />
+            </button>
+          )}
+        </div>
+      </td>
+    );
+  };
+
+  const renderJournalEditor = (tradeId: number, colSpan: number) => {
+    if (editingId !== tradeId) return null;
+    return (
+      <tr>
+        <td colSpan={colSpan} style={{ padding: 0 }}>
+          <div style={journalStyles.editor}>
+            <input
+              style={journalStyles.input}
+              value={draft.tags}
+              onChange={event => setDraft({ ...draft, tags: event.target.value })}
+              placeholder="Tags, comma separated (earnings-play, breakout)"
+            />
+            <input
+              style={journalStyles.input}
+              value={draft.setup}
+              onChange={event => setDraft({ ...draft, setup: event.target.value })}
+              placeholder="Setup (e.g. Bull flag)"
+            />
+            <textarea
+              style={{ ...journalStyles.input, gridColumn: '1 / -1', minHeight: '56px', resize: 'vertical', fontFamily: 'inherit' }}
+              value={draft.notes}
+              onChange={event => setDraft({ ...draft, notes: event.target.value })}
+              placeholder="Notes"
+            />
+            <div style={journalStyles.actions}>
+              {journalError && <span style={{ fontSize: '12px', color: colors.sell, marginRight: 'auto' }}>{journalError}</span>}
+              <button style={journalStyles.button} onClick={() => setEditingId(null)} disabled={saving}>
+                Cancel
+              </button>
+              <button style={{ ...journalStyles.button, ...journalStyles.primaryButton }} onClick={saveEditing} disabled={saving}>
+                {saving ? 'Saving…' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </td>
+      </tr>
+    );
+  };
+
   // Additional styles for filters and aggregations
   const filterStyles: Record<string, React.CSSProperties> = {
     filterBar: {
@@ -450,7 +651,10 @@ export function TradesTable({ trades, summary, filters, aggregations, onClearFil
     <div style={styles.container}>
       {/* Header */}
       <div style={styles.header}>
-        <span style={styles.headerTitle}>{safeSummary.symbol} Trades</span>
+        <span style={styles.headerTitle}>
+          {safeSummary.symbol} Trades
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
         <div style={styles.headerActions}>
           <button style={styles.iconButton} title="Download">
             <Download size={16} />
@@ -520,6 +724,30 @@ export function TradesTable({ trades, summary, filters, aggregations, onClearFil
         </div>
       )}
 
+      {/* P&L by Tag */}
+      {tagPnL && tagPnL.length > 0 && (
+        <div style={filterStyles.aggregationBar}>
+          <Tag size={14} style={filterStyles.filterIcon} />
+          {tagPnL.map(group => (
+            <div key={group.tag} style={filterStyles.aggregationItem}>
+              <span style={{
+                ...filterStyles.aggregationLabel,
+                ...(group.tag === filters?.tag ? { color: colors.accent } : {}),
+              }}>
+                #{group.tag} · {group.trades} trades
+                {group.winRate !== null ? ` · ${(group.winRate * 100).toFixed(0)}% wins` : ''}
+              </span>
+              <span style={{
+                ...filterStyles.aggregationValue,
+                color: group.realizedPnL >= 0 ? colors.buy : colors.sell,
+              }}>
+                {formatCurrency(group.realizedPnL)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Summary */}
       <div style={styles.summarySection}>
         <p style={styles.summaryText}>
@@ -554,6 +782,7 @@ export function TradesTable({ trades, summary, filters, aggregations, onClearFil
                   <th style={{ ...styles.th, ...styles.thRight }}>Shares</th>
                   <th style={{ ...styles.th, ...styles.thRight }}>Price</th>
                   <th style={{ ...styles.th, ...styles.thRight }}>Net Amount</th>
+                  {showJournal && <th style={styles.th}>Journal</th>}
                 </tr>
               </thead>
               <tbody>
@@ -561,35 +790,39 @@ export function TradesTable({ trades, summary, filters, aggregations, onClearFil
                   const netAmount = parseFloat(trade.NetAmount || '0');
                   const globalIndex = (stockPage - 1) * pageSize + index;
                   return (
-                    <tr key={trade.TradeID} style={{ backgroundColor: index % 2 === 0 ? colors.bgRow : colors.bgRowAlt }}>
-                      <td style={{ ...styles.td, ...styles.tdCenter, ...styles.rowNum }}>{globalIndex + 1}</td>
-                      <td style={styles.td}>{formatDate(trade.Date)}</td>
-                      <td style={{ ...styles.td, ...styles.tdCenter }}>
-                        {trade.TradeType === 'B' ? (
-                          <span style={styles.buyBadge}>
-                            <ArrowUpRight size={12} /> Buy
-                          </span>
-                        ) : (
-                          <span style={styles.sellBadge}>
-                            <ArrowDownRight size={12} /> Sell
-                          </span>
-                        )}
-                      </td>
-                      <td style={{ ...styles.td, ...styles.tdRight }}>
-                        {parseFloat(trade.StockShareQty || '0').toLocaleString()}
-                      </td>
-                      <td style={{ ...styles.td, ...styles.tdRight }}>
-                        {formatCurrency(parseFloat(trade.StockTradePrice || '0'))}
-                      </td>
-                      <td style={{
-                        ...styles.td,
-                        ...styles.tdRight,
-                        ...(netAmount >= 0 ? styles.positive : styles.negative),
-                        fontWeight: 500,
-                      }}>
-                        {formatCurrency(netAmount)}
-                      </td>
-                    </tr>
+                    <React.Fragment key={trade.TradeID}>
+                      <tr style={{ backgroundColor: index % 2 === 0 ? colors.bgRow : colors.bgRowAlt }}>
+                        <td style={{ ...styles.td, ...styles.tdCenter, ...styles.rowNum }}>{globalIndex + 1}</td>
+                        <td style={styles.td}>{formatDate(trade.Date)}</td>
+                        <td style={{ ...styles.td, ...styles.tdCenter }}>
+                          {trade.TradeType === 'B' ? (
+                            <span style={styles.buyBadge}>
+                              <ArrowUpRight size={12} /> Buy
+                            </span>
+                          ) : (
+                            <span style={styles.sellBadge}>
+                              <ArrowDownRight size={12} /> Sell
+                            </span>
+                          )}
+                        </td>
+                        <td style={{ ...styles.td, ...styles.tdRight }}>
+                          {parseFloat(trade.StockShareQty || '0').toLocaleString()}
+                        </td>
+                        <td style={{ ...styles.td, ...styles.tdRight }}>
+                          {formatCurrency(parseFloat(trade.StockTradePrice || '0'))}
+                        </td>
+                        <td style={{
+                          ...styles.td,
+                          ...styles.tdRight,
+                          ...(netAmount >= 0 ? styles.positive : styles.negative),
+                          fontWeight: 500,
+                        }}>
+                          {formatCurrency(netAmount)}
+                        </td>
+                        {showJournal && renderJournalCell(trade.TradeID)}
+                      </tr>
+                      {renderJournalEditor(trade.TradeID, 7)}
+                    </React.Fragment>
                   );
                 })}
               </tbody>
@@ -623,6 +856,7 @@ export function TradesTable({ trades, summary, filters, aggregations, onClearFil
                   <th style={styles.th}>Exp</th>
                   <th style={{ ...styles.th, ...styles.thRight }}>Contracts</th>
                   <th style={{ ...styles.th, ...styles.thRight }}>Net Amount</th>
+                  {showJournal && <th style={styles.th}>Journal</th>}
                 </tr>
               </thead>
               <tbody>
@@ -630,42 +864,46 @@ export function TradesTable({ trades, summary, filters, aggregations, onClearFil
                   const netAmount = parseFloat(trade.NetAmount || '0');
                   const globalIndex = (optionPage - 1) * pageSize + index;
                   return (
-                    <tr key={trade.TradeID} style={{ backgroundColor: index % 2 === 0 ? colors.bgRow : colors.bgRowAlt }}>
-                      <td style={{ ...styles.td, ...styles.tdCenter, ...styles.rowNum }}>{globalIndex + 1}</td>
-                      <td style={styles.td}>{formatDate(trade.Date)}</td>
-                      <td style={{ ...styles.td, ...styles.tdCenter }}>
-                        {trade.TradeType === 'B' ? (
-                          <span style={styles.buyBadge}>Buy</span>
-                        ) : (
-                          <span style={styles.sellBadge}>Sell</span>
-                        )}
-                      </td>
-                      <td style={{ ...styles.td, ...styles.tdCenter }}>
-                        <span style={{
-                          color: trade['Call/Put'] === 'C' ? '#4da6ff' : '#ffa64d',
+                    <React.Fragment key={trade.TradeID}>
+                      <tr style={{ backgroundColor: index % 2 === 0 ? colors.bgRow : colors.bgRowAlt }}>
+                        <td style={{ ...styles.td, ...styles.tdCenter, ...styles.rowNum }}>{globalIndex + 1}</td>
+                        <td style={styles.td}>{formatDate(trade.Date)}</td>
+                        <td style={{ ...styles.td, ...styles.tdCenter }}>
+                          {trade.TradeType === 'B' ? (
+                            <span style={styles.buyBadge}>Buy</span>
+                          ) : (
+                            <span style={styles.sellBadge}>Sell</span>
+                          )}
+                        </td>
+                        <td style={{ ...styles.td, ...styles.tdCenter }}>
+                          <span style={{
+                            color: trade['Call/Put'] === 'C' ? '#4da6ff' : '#ffa64d',
+                            fontWeight: 500,
+                          }}>
+                            {trade['Call/Put'] === 'C' ? 'Call' : 'Put'}
+                          </span>
+                        </td>
+                        <td style={{ ...styles.td, ...styles.tdRight }}>
+                          {formatCurrency(parseFloat(trade.Strike || '0'))}
+                        </td>
+                        <td style={styles.td}>
+                          {trade.Expiration ? formatDate(trade.Expiration) : '-'}
+                        </td>
+                        <td style={{ ...styles.td, ...styles.tdRight }}>
+                          {parseFloat(trade.OptionContracts || '0').toLocaleString()}
+                        </td>
+                        <td style={{
+                          ...styles.td,
+                          ...styles.tdRight,
+                          ...(netAmount >= 0 ? styles.positive : styles.negative),
                           fontWeight: 500,
                         }}>
-                          {trade['Call/Put'] === 'C' ? 'Call' : 'Put'}
-                        </span>
-                      </td>
-                      <td style={{ ...styles.td, ...styles.tdRight }}>
-                        {formatCurrency(parseFloat(trade.Strike || '0'))}
-                      </td>
-                      <td style={styles.td}>
-                        {trade.Expiration ? formatDate(trade.Expiration) : '-'}
-                      </td>
-                      <td style={{ ...styles.td, ...styles.tdRight }}>
-                        {parseFloat(trade.OptionContracts || '0').toLocaleString()}
-                      </td>
-                      <td style={{
-                        ...styles.td,
-                        ...styles.tdRight,
-                        ...(netAmount >= 0 ? styles.positive : styles.negative),
-                        fontWeight: 500,
-                      }}>
-                        {formatCurrency(netAmount)}
-                      </td>
-                    </tr>
+                          {formatCurrency(netAmount)}
+                        </td>
+                        {showJournal && renderJournalCell(trade.TradeID)}
+                      </tr>
+                      {renderJournalEditor(trade.TradeID, 9)}
+                    </React.Fragment>
                   );
                 })}
               </tbody>
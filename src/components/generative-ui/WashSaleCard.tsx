@@ -0,0 +1,248 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle, CheckCircle, ArrowRight } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+interface WashSale {
+  symbol: string;
+  lossTradeId: number | string;
+  lossDate: string;
+  lossInstrument: string;
+  loss: number;
+  disallowedLoss: number;
+  washedShares: number;
+  replacementTradeId: number | string;
+  replacementDate: string;
+  replacementInstrument: string;
+  daysApart: number;
+}
+
+interface BasisAdjustment {
+  tradeId: number | string;
+  symbol: string;
+  date: string;
+  adjustment: number;
+  realizedAdjustment: number;
+  openAdjustment: number;
+}
+
+interface WashSaleCardProps {
+  symbol?: string | null;
+  timePeriod: string;
+  totalDisallowed: number;
+  washSales: WashSale[];
+  adjustments: BasisAdjustment[];
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  loss: '#ff5252',
+  warning: '#ffa64d',
+  warningDim: 'rgba(255, 166, 77, 0.15)',
+};
+
+export function WashSaleCard({
+  symbol,
+  timePeriod,
+  totalDisallowed,
+  washSales,
+  adjustments,
+  corporateAdjustments,
+}: WashSaleCardProps) {
+  const hasWashSales = washSales.length > 0;
+
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '4px',
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: hasWashSales ? colors.warningDim : 'rgba(0, 200, 6, 0.15)',
+      color: hasWashSales ? colors.warning : colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr',
+      gap: '16px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '20px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    sectionHeader: {
+      fontSize: '12px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      margin: '8px 0 12px',
+    },
+    saleItem: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+      marginBottom: '8px',
+    },
+    saleRow: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '13px',
+      color: colors.textPrimary,
+    },
+    saleSide: {
+      flex: 1,
+      display: 'flex',
+      flexDirection: 'column' as const,
+      gap: '2px',
+    },
+    saleLabel: {
+      fontSize: '10px',
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+    },
+    saleFooter: {
+      display: 'flex',
+      justifyContent: 'space-between',
+      marginTop: '8px',
+      fontSize: '11px',
+      color: colors.textSecondary,
+    },
+    empty: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  const openAdjustment = adjustments.reduce((sum, a) => sum + a.openAdjustment, 0);
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          {symbol || 'Portfolio'} Wash Sales · {timePeriod}
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        <span style={styles.badge}>
+          {hasWashSales ? <AlertTriangle size={10} /> : <CheckCircle size={10} />}
+          {hasWashSales ? `${washSales.length} Found` : 'None'}
+        </span>
+      </div>
+
+      <div style={styles.content}>
+        {!hasWashSales ? (
+          <div style={styles.empty}>
+            <CheckCircle size={14} color={colors.accent} />
+            No losses with a repurchase within 30 days before or after the sale.
+          </div>
+        ) : (
+          <>
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Loss Disallowed</div>
+                <div style={{ ...styles.summaryValue, color: colors.warning }}>{formatCurrency(totalDisallowed)}</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Added to Open Basis</div>
+                <div style={styles.summaryValue}>{formatCurrency(openAdjustment)}</div>
+              </div>
+            </div>
+
+            <div style={styles.sectionHeader}>Loss Sale → Replacement</div>
+            {washSales.slice(0, 5).map((sale, index) => (
+              <div key={`${sale.lossTradeId}-${sale.replacementTradeId}-${index}`} style={styles.saleItem}>
+                <div style={styles.saleRow}>
+                  <div style={styles.saleSide}>
+                    <span style={styles.saleLabel}>Sold at a loss · {sale.lossDate}</span>
+                    <span>{sale.lossInstrument}</span>
+                  </div>
+                  <ArrowRight size={14} color={colors.textMuted} />
+                  <div style={styles.saleSide}>
+                    <span style={styles.saleLabel}>Bought · {sale.replacementDate}</span>
+                    <span>{sale.replacementInstrument}</span>
+                  </div>
+                </div>
+                <div style={styles.saleFooter}>
+                  <span>
+                    {Math.abs(sale.daysApart)} days {sale.daysApart >= 0 ? 'after' : 'before'} · {sale.washedShares.toLocaleString()} sh. equiv.
+                  </span>
+                  <span style={{ color: colors.warning, fontWeight: 600 }}>
+                    {formatCurrency(sale.disallowedLoss)} disallowed
+                  </span>
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import React from 'react';
+import { Eye, TrendingUp, TrendingDown } from 'lucide-react';
+import type { CorporateAdjustment } from '@/src/lib/corporate-actions';
+import { AdjustedBadge } from './AdjustedBadge';
+
+interface LastTrade {
+  date: string;
+  side: 'buy' | 'sell';
+  securityType: string;
+  price: number;
+  quantity: number;
+}
+
+interface WatchlistSymbolStats {
+  symbol: string;
+  price: number | null;
+  change: number | null;
+  changePercent: number | null;
+  lastTrade: LastTrade | null;
+  trades: number;
+  shares: number;
+  averageCost: number | null;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalPnL: number;
+}
+
+interface WatchlistCardProps {
+  name: string;
+  periodLabel: string;
+  symbols: WatchlistSymbolStats[];
+  realizedPnL: number;
+  unrealizedPnL: number;
+  averageChangePercent: number | null;
+  best: string | null;
+  worst: string | null;
+  // What the request changed
+  created?: boolean;
+  added?: string[];
+  removed?: string[];
+  // Splits and ticker changes applied to the figures
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+// Colors matching the app theme
+const colors = {
+  bgCard: '#1a1a1a',
+  bgHeader: '#252525',
+  border: '#333333',
+  textPrimary: '#ffffff',
+  textSecondary: '#999999',
+  textMuted: '#666666',
+  accent: '#00c806',
+  profit: '#00c806',
+  loss: '#ff5252',
+};
+
+const pnlColor = (value: number) => (value >= 0 ? colors.profit : colors.loss);
+
+const describeLastTrade = (trade: LastTrade) => {
+  const unit = trade.securityType === 'O' ? 'ct' : 'sh';
+  return `${trade.side === 'buy' ? 'Bought' : 'Sold'} ${trade.quantity.toLocaleString()} ${unit} @ ${formatCurrency(trade.price)} · ${trade.date}`;
+};
+
+export function WatchlistCard({
+  name,
+  periodLabel,
+  symbols,
+  realizedPnL,
+  unrealizedPnL,
+  averageChangePercent,
+  best,
+  worst,
+  created,
+  added = [],
+  removed = [],
+  corporateAdjustments,
+}: WatchlistCardProps) {
+  const styles = {
+    container: {
+      backgroundColor: colors.bgCard,
+      borderRadius: '12px',
+      border: `1px solid ${colors.border}`,
+      overflow: 'hidden',
+      marginTop: '8px',
+      marginBottom: '8px',
+    },
+    header: {
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      padding: '12px 16px',
+      backgroundColor: colors.bgHeader,
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    headerTitle: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    badge: {
+      fontSize: '11px',
+      fontWeight: 600,
+      padding: '4px 8px',
+      borderRadius: '4px',
+      backgroundColor: 'rgba(0, 200, 6, 0.15)',
+      color: colors.accent,
+    },
+    content: {
+      padding: '16px',
+    },
+    notice: {
+      fontSize: '12px',
+      color: colors.textSecondary,
+      marginBottom: '12px',
+    },
+    summaryGrid: {
+      display: 'grid',
+      gridTemplateColumns: '1fr 1fr 1fr',
+      gap: '12px',
+      marginBottom: '16px',
+    },
+    summaryCard: {
+      padding: '12px',
+      borderRadius: '8px',
+      backgroundColor: colors.bgHeader,
+    },
+    summaryLabel: {
+      fontSize: '11px',
+      fontWeight: 600,
+      color: colors.textMuted,
+      textTransform: 'uppercase' as const,
+      letterSpacing: '0.5px',
+      marginBottom: '8px',
+    },
+    summaryValue: {
+      fontSize: '18px',
+      fontWeight: 700,
+      color: colors.textPrimary,
+    },
+    row: {
+      display: 'flex',
+      alignItems: 'flex-start',
+      justifyContent: 'space-between',
+      gap: '12px',
+      padding: '10px 0',
+      borderBottom: `1px solid ${colors.border}`,
+    },
+    rowSymbol: {
+      fontSize: '14px',
+      fontWeight: 600,
+      color: colors.textPrimary,
+    },
+    rowDetail: {
+      fontSize: '11px',
+      color: colors.textMuted,
+      marginTop: '2px',
+    },
+    rowRight: {
+      textAlign: 'right' as const,
+      fontSize: '12px',
+      color: colors.textSecondary,
+    },
+    empty: {
+      fontSize: '13px',
+      color: colors.textSecondary,
+    },
+  };
+
+  const changes = [
+    created ? `Created ${name}` : '',
+    added.length > 0 && !created ? `Added ${added.join(', ')}` : '',
+    removed.length > 0 ? `Removed ${removed.join(', ')}` : '',
+  ].filter(Boolean);
+
+  return (
+    <div style={styles.container}>
+      {/* Header */}
+      <div style={styles.header}>
+        <span style={styles.headerTitle}>
+          <Eye size={14} color={colors.accent} />
+          {name}
+          <AdjustedBadge adjustments={corporateAdjustments} />
+        </span>
+        <span style={styles.badge}>
+          {symbols.length} {symbols.length === 1 ? 'Symbol' : 'Symbols'} · {periodLabel}
+        </span>
+      </div>
+
+      <div style={styles.content}>
+        {changes.length > 0 && <div style={styles.notice}>{changes.join(' · ')}</div>}
+
+        {symbols.length === 0 ? (
+          <div style={styles.empty}>This watchlist is empty.</div>
+        ) : (
+          <>
+            <div style={styles.summaryGrid}>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Avg Change</div>
+                <div style={{ ...styles.summaryValue, color: averageChangePercent !== null ? pnlColor(averageChangePercent) : colors.textMuted }}>
+                  {averageChangePercent !== null ? formatPercent(averageChangePercent) : '—'}
+                </div>
+                {best && worst && (
+                  <div style={styles.rowDetail}>Best {best} · Worst {worst}</div>
+                )}
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Realized</div>
+                <div style={{ ...styles.summaryValue, color: pnlColor(realizedPnL) }}>{formatCurrency(realizedPnL)}</div>
+              </div>
+              <div style={styles.summaryCard}>
+                <div style={styles.summaryLabel}>Unrealized</div>
+                <div style={{ ...styles.summaryValue, color: pnlColor(unrealizedPnL) }}>{formatCurrency(unrealizedPnL)}</div>
+              </div>
+            </div>
+
+            {symbols.map(stats => (
+              <div key={stats.symbol} style={styles.row}>
+                <div>
+                  <div style={styles.rowSymbol}>{stats.symbol}</div>
+                  <div style={styles.rowDetail}>
+                    {stats.lastTrade ? describeLastTrade(stats.lastTrade) : 'Never traded'}
+                  </div>
+                  {stats.shares !== 0 && (
+                    <div style={styles.rowDetail}>
+                      {stats.shares > 0 ? 'Long' : 'Short'} {Math.abs(stats.shares).toLocaleString()} sh.
+                      {stats.averageCost !== null ? ` @ ${formatCurrency(stats.averageCost)}` : ''}
+                    </div>
+                  )}
+                </div>
+                <div style={styles.rowRight}>
+                  <div style={{ fontSize: '14px', fontWeight: 600, color: colors.textPrimary }}>
+                    {stats.price !== null ? formatCurrency(stats.price) : '—'}
+                  </div>
+                  {stats.changePercent !== null && (
+                    <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: '4px', color: pnlColor(stats.changePercent) }}>
+                      {stats.changePercent >= 0 ? <TrendingUp size={12} /> : <TrendingDown size={12} />}
+                      {formatPercent(stats.changePercent)}
+                    </div>
+                  )}
+                  {(stats.totalPnL !== 0 || stats.trades > 0) && (
+                    <div style={{ color: pnlColor(stats.totalPnL) }}>P&L {formatCurrency(stats.totalPnL)}</div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
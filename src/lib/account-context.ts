@@ -0,0 +1,126 @@
+/**
+ * Account context utilities
+ * Resolves which brokerage account a request is acting on.
+ *
+ * Resolution order (first match wins):
+ *   1. ElevenLabs dynamic variable `account_code` passed through the webhook body
+ *   2. `x-account-code` request header (set explicitly by API callers)
+ *   3. `account_code` session cookie (set by the account switcher in the UI)
+ *   4. DEFAULT_ACCOUNT_CODE
+ *
+ * There is no authorization: any caller can name any account. Write routes
+ * only check that the account exists (isKnownAccount) so a typo or forged
+ * code cannot create rows for an account that is not in AccountInfo.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Fallback account used when a request carries no account context
+export const DEFAULT_ACCOUNT_CODE = 'C40421';
+
+export const ACCOUNT_HEADER = 'x-account-code';
+export const ACCOUNT_COOKIE = 'account_code';
+
+// Account codes are short alphanumeric identifiers (e.g. C40421)
+const ACCOUNT_CODE_PATTERN = /^[A-Za-z0-9_-]{1,20}$/;
+
+function sanitizeAccountCode(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim().toUpperCase();
+  return ACCOUNT_CODE_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+function readCookie(cookieHeader: string | null, name: string): string | null {
+  if (!cookieHeader) return null;
+  for (const part of cookieHeader.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+  return null;
+}
+
+interface AccountBody {
+  account_code?: unknown;
+  accountCode?: unknown;
+  parameters?: AccountBody;
+  body?: AccountBody;
+  dynamic_variables?: AccountBody;
+}
+
+/**
+ * Extract the account code from an ElevenLabs webhook body.
+ * Handles the same nesting variations as the tool parameters
+ * (body.x, body.parameters.x, body.body.x, body.body.parameters.x).
+ */
+function accountFromBody(body: unknown): string | null {
+  if (!body || typeof body !== 'object') return null;
+  const b = body as AccountBody;
+  const candidates = [
+    b.account_code,
+    b.accountCode,
+    b.parameters?.account_code,
+    b.body?.account_code,
+    b.body?.parameters?.account_code,
+    b.dynamic_variables?.account_code,
+  ];
+  for (const candidate of candidates) {
+    const code = sanitizeAccountCode(candidate);
+    if (code) return code;
+  }
+  return null;
+}
+
+/**
+ * Resolve the account code for an incoming API request.
+ *
+ * @param req - The incoming request (headers and cookies are inspected)
+ * @param body - Optional parsed JSON body (for ElevenLabs dynamic variables)
+ * @returns The resolved account code, never empty
+ */
+export function resolveAccountCode(req: Request, body?: unknown): string {
+  return (
+    accountFromBody(body) ||
+    sanitizeAccountCode(req.headers.get(ACCOUNT_HEADER)) ||
+    sanitizeAccountCode(readCookie(req.headers.get('cookie'), ACCOUNT_COOKIE)) ||
+    DEFAULT_ACCOUNT_CODE
+  );
+}
+
+/**
+ * Check that an account code exists in AccountInfo.
+ * Write routes reject unknown codes before touching any table.
+ */
+export async function isKnownAccount(supabase: SupabaseClient, accountCode: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('AccountInfo')
+    .select('AccountCode')
+    .eq('AccountCode', accountCode)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up account ${accountCode}: ${error.message}`);
+  }
+
+  return data !== null;
+}
+
+/**
+ * Persist the selected account in the session cookie (client-side only).
+ * Every same-origin fetch then carries the account automatically.
+ */
+export function setSessionAccountCode(accountCode: string): void {
+  if (typeof document === 'undefined') return;
+  const code = sanitizeAccountCode(accountCode);
+  if (!code) return;
+  document.cookie = `${ACCOUNT_COOKIE}=${encodeURIComponent(code)}; path=/; SameSite=Lax`;
+}
+
+/**
+ * Read the selected account from the session cookie (client-side only).
+ */
+export function getSessionAccountCode(): string {
+  if (typeof document === 'undefined') return DEFAULT_ACCOUNT_CODE;
+  return sanitizeAccountCode(readCookie(document.cookie, ACCOUNT_COOKIE)) || DEFAULT_ACCOUNT_CODE;
+}
@@ -0,0 +1,799 @@
+/**
+ * Alerts engine
+ * User-defined alert rules (AlertRules) evaluated by a job over the account's
+ * own data. Each rule that fires records a notification in AlertNotifications,
+ * which the header inbox shows until it is read.
+ *
+ * - price_cross: the latest close is above or below a price; fires once per
+ *   cross (keyed by the first close on that side of the price)
+ * - position_pnl: unrealized P&L of the open positions in a symbol (or the
+ *   whole account) is at or above a gain, or at or below a loss; fires once a day
+ * - option_expiry: an open option series, optionally limited by underlying,
+ *   call/put and long/short, expires within N days; fires once per series
+ * - margin_excess: the lower of house and fed excess, as a percent of equity,
+ *   is below a threshold; fires once per balance date
+ * - fee_spike: fees over the last N days are at least a multiple of the usual
+ *   for that many days over the 90 days before; fires once a day
+ * - Dates are database (demo) dates and "today" is the demo today; splits and
+ *   ticker changes are applied to trades before positions are evaluated
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  TRADE_RECORD_COLUMNS,
+  toNumber,
+  type LotMatchOptions,
+  type LotSide,
+  type TradeRecord,
+} from './lot-matching';
+import { computeOpenPositions } from './positions';
+import { analyzeFees, FEE_ACTIVITY_COLUMNS, type FeeActivityRecord } from './fees';
+import { buildMarginHealth, MARGIN_BALANCE_COLUMNS, type MarginBalanceRecord } from './margin';
+import { loadCostBasisSettings } from './cost-basis';
+import { applyCorporateActions, getCurrentSymbol, loadCorporateActions } from './corporate-actions';
+import { getDemoToday } from './date-utils';
+import type { DailyBar, MarketDataProvider } from './market-data';
+import { fetchAllRows } from './paged-query';
+
+export type AlertRuleType = 'price_cross' | 'position_pnl' | 'option_expiry' | 'margin_excess' | 'fee_spike';
+
+export type AlertDirection = 'above' | 'below';
+
+export interface AlertRuleInput {
+  type: AlertRuleType;
+  symbol?: string | null;
+  direction?: AlertDirection | null;
+  // Price (price_cross), P&L amount (position_pnl), percent of equity
+  // (margin_excess) or multiple of the usual fees (fee_spike)
+  threshold?: number | null;
+  // Days to expiration (option_expiry) or fee window (fee_spike)
+  days?: number | null;
+  callPut?: 'call' | 'put' | null;
+  side?: LotSide | null;
+}
+
+export interface AlertRule extends AlertRuleInput {
+  id: string;
+  symbol: string | null;
+  direction: AlertDirection | null;
+  threshold: number | null;
+  days: number | null;
+  callPut: 'call' | 'put' | null;
+  side: LotSide | null;
+  description: string;
+  enabled: boolean;
+  createdAt: string | null;
+}
+
+// Raw AlertRules row
+export interface AlertRuleRecord {
+  id: string;
+  RuleType: AlertRuleType;
+  Symbol: string | null;
+  Direction: AlertDirection | null;
+  Threshold: number | string | null;
+  Days: number | null;
+  CallPut: 'call' | 'put' | null;
+  Side: LotSide | null;
+  Description: string;
+  Enabled: boolean;
+  created_at: string | null;
+}
+
+export const ALERT_RULE_COLUMNS =
+  'id, RuleType, Symbol, Direction, Threshold, Days, CallPut, Side, Description, Enabled, created_at';
+
+export interface AlertNotification {
+  id: string;
+  ruleId: string;
+  date: string;
+  message: string;
+  value: number | null;
+  threshold: number | null;
+  read: boolean;
+  createdAt: string | null;
+}
+
+// Raw AlertNotifications row
+export interface AlertNotificationRecord {
+  id: string;
+  RuleID: string;
+  Date: string;
+  Message: string;
+  Value: number | string | null;
+  Threshold: number | string | null;
+  ReadAt: string | null;
+  created_at: string | null;
+}
+
+export const ALERT_NOTIFICATION_COLUMNS = 'id, RuleID, Date, Message, Value, Threshold, ReadAt, created_at';
+
+// A rule firing on the current data, before it is recorded
+export interface AlertTrigger {
+  ruleId: string;
+  // One notification per rule and key
+  key: string;
+  date: string;
+  message: string;
+  value: number | null;
+  threshold: number | null;
+}
+
+// What the rules are evaluated against
+export interface AlertData {
+  asOf: string;
+  trades: TradeRecord[];
+  fees: FeeActivityRecord[];
+  balances: MarginBalanceRecord[];
+  // Daily bars by symbol (price rules and position marks)
+  bars: Record<string, DailyBar[]>;
+  // Current ticker for rule symbols that changed ticker
+  currentSymbols?: Record<string, string>;
+  lotOptions?: LotMatchOptions;
+}
+
+export interface AlertJobResult {
+  asOf: string;
+  rules: AlertRule[];
+  triggers: AlertTrigger[];
+  // Notifications new in this run
+  recorded: number;
+}
+
+export const ALERT_TYPE_LABELS: Record<AlertRuleType, string> = {
+  price_cross: 'Price',
+  position_pnl: 'Position P&L',
+  option_expiry: 'Option expiry',
+  margin_excess: 'Margin excess',
+  fee_spike: 'Fee spike',
+};
+
+export const DEFAULT_EXPIRY_DAYS = 7;
+export const DEFAULT_MARGIN_EXCESS_PERCENT = 10;
+export const DEFAULT_FEE_SPIKE_DAYS = 7;
+export const DEFAULT_FEE_SPIKE_MULTIPLE = 2;
+
+// Fee history the spike window is compared with
+const FEE_BASELINE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatAmount = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+/**
+ * Rule with defaults filled in and fields that do not apply to its type cleared
+ */
+export function normalizeAlertRule(input: AlertRuleInput): AlertRuleInput {
+  const symbol = input.symbol ? input.symbol.trim().toUpperCase() : null;
+  const threshold = input.threshold !== null && input.threshold !== undefined && Number.isFinite(Number(input.threshold))
+    ? Number(input.threshold)
+    : null;
+  const days = input.days !== null && input.days !== undefined && Number.isFinite(Number(input.days))
+    ? Math.round(Number(input.days))
+    : null;
+  const none = { symbol: null, direction: null, threshold: null, days: null, callPut: null, side: null };
+
+  switch (input.type) {
+    case 'price_cross':
+      return { ...none, type: input.type, symbol, direction: input.direction ?? 'above', threshold };
+    case 'position_pnl':
+      return {
+        ...none,
+        type: input.type,
+        symbol,
+        direction: input.direction ?? (threshold !== null && threshold < 0 ? 'below' : 'above'),
+        threshold,
+      };
+    case 'option_expiry':
+      return {
+        ...none,
+        type: input.type,
+        symbol,
+        days: days ?? DEFAULT_EXPIRY_DAYS,
+        callPut: input.callPut ?? null,
+        side: input.side ?? null,
+      };
+    case 'margin_excess':
+      return { ...none, type: input.type, direction: 'below', threshold: threshold ?? DEFAULT_MARGIN_EXCESS_PERCENT };
+    case 'fee_spike':
+      return {
+        ...none,
+        type: input.type,
+        threshold: threshold ?? DEFAULT_FEE_SPIKE_MULTIPLE,
+        days: days ?? DEFAULT_FEE_SPIKE_DAYS,
+      };
+  }
+}
+
+/**
+ * Why a rule cannot be saved, or null when it is valid
+ */
+export function validateAlertRule(input: AlertRuleInput): string | null {
+  if (!(input.type in ALERT_TYPE_LABELS)) {
+    return `Unknown alert type: ${input.type}`;
+  }
+  if (input.type === 'price_cross' && !input.symbol) {
+    return 'A price alert needs a symbol';
+  }
+  if ((input.type === 'price_cross' || input.type === 'position_pnl') && (input.threshold === null || input.threshold === undefined)) {
+    return input.type === 'price_cross' ? 'A price alert needs a price' : 'A P&L alert needs an amount';
+  }
+  if (input.type === 'price_cross' && (input.threshold ?? 0) <= 0) {
+    return 'The alert price must be positive';
+  }
+  if (input.days !== null && input.days !== undefined && input.days < 0) {
+    return 'Days cannot be negative';
+  }
+  if (input.type === 'fee_spike' && (input.threshold ?? 0) <= 1) {
+    return 'A fee spike multiple must be more than 1';
+  }
+  return null;
+}
+
+/**
+ * Plain-language rule, e.g. "TSLA short puts within 3 days of expiry"
+ */
+export function describeAlertRule(input: AlertRuleInput): string {
+  const rule = normalizeAlertRule(input);
+  switch (rule.type) {
+    case 'price_cross':
+      return `${rule.symbol} closes ${rule.direction} ${formatAmount(rule.threshold ?? 0)}`;
+    case 'position_pnl':
+      return `${rule.symbol ?? 'Account'} unrealized P&L ${rule.direction === 'below' ? 'at or below' : 'at or above'} ${formatAmount(rule.threshold ?? 0)}`;
+    case 'option_expiry': {
+      const contracts = rule.callPut ? `${rule.callPut}s` : 'options';
+      const subject = [rule.symbol, rule.side, contracts].filter(Boolean).join(' ');
+      return `${subject.charAt(0).toUpperCase()}${subject.slice(1)} within ${rule.days} ${rule.days === 1 ? 'day' : 'days'} of expiry`;
+    }
+    case 'margin_excess':
+      return `Margin excess below ${rule.threshold}% of equity`;
+    case 'fee_spike':
+      return `Fees over ${rule.days} days at least ${rule.threshold}x the usual`;
+  }
+}
+
+/**
+ * True when two rules check the same condition
+ */
+export function isSameAlertRule(a: AlertRuleInput, b: AlertRuleInput): boolean {
+  const x = normalizeAlertRule(a);
+  const y = normalizeAlertRule(b);
+  return x.type === y.type && x.symbol === y.symbol && x.direction === y.direction &&
+    x.threshold === y.threshold && x.days === y.days && x.callPut === y.callPut && x.side === y.side;
+}
+
+/**
+ * Rule from a request like "alert me when my TSLA short puts are 3 days from
+ * expiry" or "tell me if NVDA drops below $100", or null when the text does not
+ * describe one. `symbol` is the ticker already picked out of the text, if any.
+ */
+export function parseAlertRequest(text: string, symbol?: string): AlertRuleInput | null {
+  const lower = text.toLowerCase();
+  const percent = lower.match(/(\d+(?:\.\d+)?)\s*(?:%|percent)/);
+  const dayCount = lower.match(/(\d+)\s*(?:trading\s+|calendar\s+)?days?\b/);
+  const amount = lower.match(/(-)?\$\s?(\d[\d,]*(?:\.\d+)?)\s*(k\b)?/) ||
+    lower.match(/\b(-)?(\d[\d,]*(?:\.\d+)?)\s*(k\b)?\s*(?:dollars|bucks)/);
+  const dollars = amount ? (amount[1] ? -1 : 1) * parseFloat(amount[2].replace(/,/g, '')) * (amount[3] ? 1000 : 1) : null;
+
+  if (/\b(expir\w*|expiry)\b/.test(lower)) {
+    const days = dayCount
+      ? parseInt(dayCount[1], 10)
+      : /\btomorrow\b/.test(lower) ? 1 : /\btoday\b/.test(lower) ? 0 : /\bweek\b/.test(lower) ? 7 : null;
+    const isCall = /\bcalls?\b/.test(lower);
+    const isPut = /\bputs?\b/.test(lower);
+    return {
+      type: 'option_expiry',
+      symbol: symbol ?? null,
+      days,
+      callPut: isCall && !isPut ? 'call' : isPut && !isCall ? 'put' : null,
+      side: /\b(short|sold|written|wrote)\b/.test(lower) ? 'short' : /\b(long|bought)\b/.test(lower) ? 'long' : null,
+    };
+  }
+
+  if (/\b(margin|excess|cushion)\b/.test(lower)) {
+    return { type: 'margin_excess', threshold: percent ? parseFloat(percent[1]) : null };
+  }
+
+  if (/\b(fees?|commissions?)\b/.test(lower)) {
+    const multiple = lower.match(/(\d+(?:\.\d+)?)\s*(?:x|times)\b/);
+    return {
+      type: 'fee_spike',
+      threshold: multiple ? parseFloat(multiple[1]) : /\btriple\b/.test(lower) ? 3 : /\b(double|twice)\b/.test(lower) ? 2 : null,
+      days: dayCount ? parseInt(dayCount[1], 10) : /\bmonth\b/.test(lower) ? 30 : /\bweek\b/.test(lower) ? 7 : null,
+    };
+  }
+
+  if (dollars !== null && /\b(p&l|pnl|profits?|gains?|loss(es)?|los(e|ing)|lost|made|make|unrealized|positions?)\b|\b(up|down)\s+(by\s+)?\$/.test(lower)) {
+    const isLoss = dollars < 0 || /\b(loss(es)?|los(e|ing)|lost|down)\b/.test(lower);
+    return {
+      type: 'position_pnl',
+      symbol: symbol ?? null,
+      direction: isLoss ? 'below' : 'above',
+      threshold: isLoss ? -Math.abs(dollars) : Math.abs(dollars),
+    };
+  }
+
+  const price = lower.match(/\b(above|over|below|under|crosses|hits|reaches|to|at)\s+\$?\s?(\d[\d,]*(?:\.\d+)?)/);
+  if (symbol && price) {
+    const isBelow = /\b(below|under|drops?|falls?|dips?|sinks?)\b/.test(lower);
+    return {
+      type: 'price_cross',
+      symbol,
+      direction: isBelow ? 'below' : 'above',
+      threshold: parseFloat(price[2].replace(/,/g, '')),
+    };
+  }
+
+  return null;
+}
+
+export function toAlertRule(row: AlertRuleRecord): AlertRule {
+  return {
+    id: row.id,
+    type: row.RuleType,
+    symbol: row.Symbol,
+    direction: row.Direction,
+    threshold: row.Threshold === null ? null : toNumber(row.Threshold),
+    days: row.Days,
+    callPut: row.CallPut,
+    side: row.Side,
+    description: row.Description,
+    enabled: row.Enabled,
+    createdAt: row.created_at,
+  };
+}
+
+export function toAlertNotification(row: AlertNotificationRecord): AlertNotification {
+  return {
+    id: row.id,
+    ruleId: row.RuleID,
+    date: row.Date,
+    message: row.Message,
+    value: row.Value === null ? null : toNumber(row.Value),
+    threshold: row.Threshold === null ? null : toNumber(row.Threshold),
+    read: row.ReadAt !== null,
+    createdAt: row.created_at,
+  };
+}
+
+function evaluatePriceCross(rule: AlertRule, data: AlertData): AlertTrigger[] {
+  const bars = (data.bars[rule.symbol ?? ''] ?? []).filter(bar => bar.date <= data.asOf);
+  const threshold = rule.threshold ?? 0;
+  const onSide = (bar: DailyBar) => (rule.direction === 'below' ? bar.close <= threshold : bar.close >= threshold);
+  if (bars.length === 0 || !onSide(bars[bars.length - 1])) return [];
+
+  // The cross is the first close of the current run on this side of the price
+  let start = bars.length - 1;
+  while (start > 0 && onSide(bars[start - 1])) start--;
+  const last = bars[bars.length - 1];
+
+  return [{
+    ruleId: rule.id,
+    key: bars[start].date,
+    date: last.date,
+    message: `${rule.symbol} closed at ${formatAmount(last.close)}, ${rule.direction} ${formatAmount(threshold)}` +
+      (bars[start].date !== last.date ? ` since ${bars[start].date}` : ''),
+    value: last.close,
+    threshold,
+  }];
+}
+
+// Latest close on or before the as-of date for each symbol with bars
+function getMarks(data: AlertData): Record<string, number> {
+  const marks: Record<string, number> = {};
+  for (const [symbol, bars] of Object.entries(data.bars)) {
+    const last = bars.filter(bar => bar.date <= data.asOf).pop();
+    if (last) marks[symbol] = last.close;
+  }
+  return marks;
+}
+
+function evaluatePositionPnL(rule: AlertRule, data: AlertData): AlertTrigger[] {
+  const report = computeOpenPositions(data.trades, { ...data.lotOptions, marks: getMarks(data), asOf: data.asOf });
+  const group = rule.symbol ? report.byUnderlying.find(g => g.underlying === rule.symbol) : null;
+  if (rule.symbol ? !group : report.positions.length === 0) return [];
+
+  const pnl = group ? group.unrealizedPnL : report.unrealizedPnL;
+  const threshold = rule.threshold ?? 0;
+  const fires = rule.direction === 'below' ? pnl <= threshold : pnl >= threshold;
+  if (!fires) return [];
+
+  return [{
+    ruleId: rule.id,
+    key: data.asOf,
+    date: data.asOf,
+    message: `${rule.symbol ?? 'Account'} unrealized P&L is ${formatAmount(pnl)}, ${rule.direction} ${formatAmount(threshold)}`,
+    value: pnl,
+    threshold,
+  }];
+}
+
+function evaluateOptionExpiry(rule: AlertRule, data: AlertData): AlertTrigger[] {
+  const days = rule.days ?? DEFAULT_EXPIRY_DAYS;
+  const callPut = rule.callPut === 'call' ? 'C' : rule.callPut === 'put' ? 'P' : null;
+  const { positions } = computeOpenPositions(data.trades, { ...data.lotOptions, asOf: data.asOf });
+
+  return positions
+    .filter(position =>
+      position.series &&
+      (!rule.symbol || position.underlying === rule.symbol) &&
+      (!callPut || position.series.callPut === callPut) &&
+      (!rule.side || position.side === rule.side)
+    )
+    .map(position => ({ position, daysLeft: daysBetween(data.asOf, position.series!.expiration) }))
+    .filter(({ daysLeft }) => daysLeft >= 0 && daysLeft <= days)
+    .map(({ position, daysLeft }) => {
+      const { expiration, strike, callPut: type } = position.series!;
+      const when = daysLeft === 0 ? 'today' : daysLeft === 1 ? 'tomorrow' : `in ${daysLeft} days`;
+      return {
+        ruleId: rule.id,
+        key: `${position.instrumentKey} ${position.side}`,
+        date: data.asOf,
+        message: `${position.underlying} ${strike}${type} ${expiration} (${position.side} ${position.quantity}) expires ${when}`,
+        value: daysLeft,
+        threshold: days,
+      };
+    });
+}
+
+function evaluateMarginExcess(rule: AlertRule, data: AlertData): AlertTrigger[] {
+  const { latest } = buildMarginHealth(data.balances.filter(row => row.Date <= data.asOf));
+  if (!latest) return [];
+
+  const percents = [latest.houseExcessPercent, latest.fedExcessPercent].filter((p): p is number => p !== null);
+  if (percents.length === 0) return [];
+
+  const excess = Math.min(...percents) * 100;
+  const threshold = rule.threshold ?? DEFAULT_MARGIN_EXCESS_PERCENT;
+  if (excess >= threshold) return [];
+
+  return [{
+    ruleId: rule.id,
+    key: latest.date,
+    date: latest.date,
+    message: `Margin excess is ${excess.toFixed(1)}% of equity on ${latest.date}, below ${threshold}%`,
+    value: excess,
+    threshold,
+  }];
+}
+
+function evaluateFeeSpike(rule: AlertRule, data: AlertData): AlertTrigger[] {
+  const days = Math.max(1, rule.days ?? DEFAULT_FEE_SPIKE_DAYS);
+  const multiple = rule.threshold ?? DEFAULT_FEE_SPIKE_MULTIPLE;
+  const windowStart = addDays(data.asOf, -days);
+  const baselineStart = addDays(windowStart, -FEE_BASELINE_DAYS);
+
+  // Every charge except credit interest, which is income
+  const charges = analyzeFees(data.trades, data.fees).items.filter(item => item.feeType !== 'credit_interest');
+  const sumBetween = (from: string, to: string) => charges
+    .filter(item => item.date > from && item.date <= to)
+    .reduce((sum, item) => sum + item.amount, 0);
+
+  const recent = sumBetween(windowStart, data.asOf);
+  const usual = (sumBetween(baselineStart, windowStart) / FEE_BASELINE_DAYS) * days;
+  if (usual <= 0 || recent < usual * multiple) return [];
+
+  return [{
+    ruleId: rule.id,
+    key: data.asOf,
+    date: data.asOf,
+    message: `Fees over the last ${days} days are ${formatAmount(recent)}, ${(recent / usual).toFixed(1)}x the usual ${formatAmount(usual)}`,
+    value: recent / usual,
+    threshold: multiple,
+  }];
+}
+
+/**
+ * Triggers for one rule on the given data (an expiry rule can fire for several series)
+ */
+export function evaluateAlertRule(alertRule: AlertRule, data: AlertData): AlertTrigger[] {
+  const symbol = alertRule.symbol ? data.currentSymbols?.[alertRule.symbol] ?? alertRule.symbol : null;
+  const rule = { ...alertRule, symbol };
+  switch (rule.type) {
+    case 'price_cross':
+      return evaluatePriceCross(rule, data);
+    case 'position_pnl':
+      return evaluatePositionPnL(rule, data);
+    case 'option_expiry':
+      return evaluateOptionExpiry(rule, data);
+    case 'margin_excess':
+      return evaluateMarginExcess(rule, data);
+    case 'fee_spike':
+      return evaluateFeeSpike(rule, data);
+  }
+}
+
+export function evaluateAlertRules(rules: AlertRule[], data: AlertData): AlertTrigger[] {
+  return rules.filter(rule => rule.enabled).flatMap(rule => evaluateAlertRule(rule, data));
+}
+
+/**
+ * The account's alert rules, newest first
+ */
+export async function loadAlertRules(supabase: SupabaseClient, accountCode: string): Promise<AlertRule[]> {
+  const { data, error } = await supabase
+    .from('AlertRules')
+    .select(ALERT_RULE_COLUMNS)
+    .eq('AccountCode', accountCode)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load alert rules: ${error.message}`);
+  }
+
+  return ((data || []) as AlertRuleRecord[]).map(toAlertRule);
+}
+
+/**
+ * Save a rule unless the account already has one checking the same condition
+ */
+export async function createAlertRule(
+  supabase: SupabaseClient,
+  accountCode: string,
+  input: AlertRuleInput
+): Promise<{ rule: AlertRule; created: boolean }> {
+  const rule = normalizeAlertRule(input);
+  const existing = (await loadAlertRules(supabase, accountCode)).find(r => isSameAlertRule(r, rule));
+  if (existing) {
+    if (!existing.enabled) {
+      return { rule: await setAlertRuleEnabled(supabase, accountCode, existing.id, true), created: false };
+    }
+    return { rule: existing, created: false };
+  }
+
+  const { data, error } = await supabase
+    .from('AlertRules')
+    .insert({
+      AccountCode: accountCode,
+      RuleType: rule.type,
+      Symbol: rule.symbol,
+      Direction: rule.direction,
+      Threshold: rule.threshold,
+      Days: rule.days,
+      CallPut: rule.callPut,
+      Side: rule.side,
+      Description: describeAlertRule(rule),
+    })
+    .select(ALERT_RULE_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create alert rule: ${error.message}`);
+  }
+
+  return { rule: toAlertRule(data as AlertRuleRecord), created: true };
+}
+
+export async function setAlertRuleEnabled(
+  supabase: SupabaseClient,
+  accountCode: string,
+  id: string,
+  enabled: boolean
+): Promise<AlertRule> {
+  const { data, error } = await supabase
+    .from('AlertRules')
+    .update({ Enabled: enabled, updated_at: new Date().toISOString() })
+    .eq('AccountCode', accountCode)
+    .eq('id', id)
+    .select(ALERT_RULE_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update alert rule: ${error.message}`);
+  }
+
+  return toAlertRule(data as AlertRuleRecord);
+}
+
+/**
+ * Delete a rule; its notifications go with it
+ */
+export async function deleteAlertRule(supabase: SupabaseClient, accountCode: string, id: string): Promise<void> {
+  const { error } = await supabase
+    .from('AlertRules')
+    .delete()
+    .eq('AccountCode', accountCode)
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete alert rule: ${error.message}`);
+  }
+}
+
+/**
+ * The account's notifications, newest first
+ */
+export async function loadAlertNotifications(
+  supabase: SupabaseClient,
+  accountCode: string,
+  options: { unreadOnly?: boolean; limit?: number } = {}
+): Promise<AlertNotification[]> {
+  let query = supabase
+    .from('AlertNotifications')
+    .select(ALERT_NOTIFICATION_COLUMNS)
+    .eq('AccountCode', accountCode)
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 50);
+
+  if (options.unreadOnly) {
+    query = query.is('ReadAt', null);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Alert notifications load error:', error);
+    return [];
+  }
+
+  return ((data || []) as AlertNotificationRecord[]).map(toAlertNotification);
+}
+
+/**
+ * Mark notifications read (every unread one when no ids are given)
+ */
+export async function markAlertNotificationsRead(
+  supabase: SupabaseClient,
+  accountCode: string,
+  ids?: string[]
+): Promise<void> {
+  let query = supabase
+    .from('AlertNotifications')
+    .update({ ReadAt: new Date().toISOString() })
+    .eq('AccountCode', accountCode)
+    .is('ReadAt', null);
+
+  if (ids) {
+    query = query.in('id', ids);
+  }
+
+  const { error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to mark notifications read: ${error.message}`);
+  }
+}
+
+/**
+ * Record triggers as notifications, once per rule and key. Returns how many were new.
+ */
+export async function recordAlertTriggers(
+  supabase: SupabaseClient,
+  accountCode: string,
+  triggers: AlertTrigger[]
+): Promise<number> {
+  if (triggers.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('AlertNotifications')
+    .upsert(
+      triggers.map(trigger => ({
+        AccountCode: accountCode,
+        RuleID: trigger.ruleId,
+        TriggerKey: trigger.key,
+        Date: trigger.date,
+        Message: trigger.message,
+        Value: trigger.value,
+        Threshold: trigger.threshold,
+      })),
+      { onConflict: 'RuleID,TriggerKey', ignoreDuplicates: true }
+    )
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to record alert notifications: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
+
+/**
+ * Load the data the given rules need: trades for position and expiry rules,
+ * fees for fee rules, balances for margin rules and bars for price rules and marks
+ */
+export async function loadAlertData(
+  supabase: SupabaseClient,
+  accountCode: string,
+  rules: AlertRule[],
+  marketData: MarketDataProvider
+): Promise<AlertData> {
+  const types = new Set(rules.map(rule => rule.type));
+  const needsTrades = types.has('position_pnl') || types.has('option_expiry') || types.has('fee_spike');
+  const empty = { data: [], error: null };
+
+  const [corporateActions, trades, fees, balances, settings] = await Promise.all([
+    loadCorporateActions(supabase),
+    needsTrades
+      ? fetchAllRows(
+        supabase
+          .from('TradeData')
+          .select(TRADE_RECORD_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('Date', { ascending: true })
+          .order('TradeID', { ascending: true })
+      )
+      : empty,
+    types.has('fee_spike')
+      ? fetchAllRows(
+        supabase
+          .from('FeesAndInterest')
+          .select(FEE_ACTIVITY_COLUMNS)
+          .eq('AccountCode', accountCode)
+          .order('Date', { ascending: true })
+          .order('id', { ascending: true })
+      )
+      : empty,
+    types.has('margin_excess')
+      ? fetchAllRows(supabase.from('AccountBalance').select(MARGIN_BALANCE_COLUMNS).eq('AccountCode', accountCode).order('Date', { ascending: true }))
+      : empty,
+    loadCostBasisSettings(supabase, accountCode),
+  ]);
+
+  // Evaluating on missing rows would quietly skip or misfire rules, so a failed load fails the job
+  const error = trades.error || fees.error || balances.error;
+  if (error) {
+    throw new Error(`Failed to load alert data: ${error.message}`);
+  }
+
+  const { rows } = applyCorporateActions((trades.data || []) as TradeRecord[], corporateActions);
+
+  const currentSymbols: Record<string, string> = {};
+  for (const rule of rules) {
+    if (rule.symbol && getCurrentSymbol(rule.symbol, corporateActions) !== rule.symbol) {
+      currentSymbols[rule.symbol] = getCurrentSymbol(rule.symbol, corporateActions);
+    }
+  }
+
+  // Price rules need their symbol; P&L rules mark stock to the latest close
+  const symbols = new Set<string>();
+  for (const rule of rules) {
+    if (rule.type === 'price_cross' && rule.symbol) {
+      symbols.add(currentSymbols[rule.symbol] ?? rule.symbol);
+    }
+  }
+  if (types.has('position_pnl')) {
+    rows.filter(row => row.SecurityType !== 'O').forEach(row => symbols.add(row.Symbol));
+  }
+  const symbolList = Array.from(symbols);
+  const bars = await Promise.all(symbolList.map(symbol => marketData.getDailyBars(symbol)));
+
+  return {
+    asOf: getDemoToday(),
+    trades: rows,
+    fees: (fees.data || []) as FeeActivityRecord[],
+    balances: (balances.data || []) as MarginBalanceRecord[],
+    bars: Object.fromEntries(symbolList.map((symbol, i) => [symbol, bars[i]])),
+    currentSymbols,
+    lotOptions: settings,
+  };
+}
+
+/**
+ * Evaluate the account's enabled rules and record what fired
+ */
+export async function runAlertJob(
+  supabase: SupabaseClient,
+  accountCode: string,
+  marketData: MarketDataProvider
+): Promise<AlertJobResult> {
+  const rules = await loadAlertRules(supabase, accountCode);
+  const enabled = rules.filter(rule => rule.enabled);
+  if (enabled.length === 0) {
+    return { asOf: getDemoToday(), rules, triggers: [], recorded: 0 };
+  }
+
+  const data = await loadAlertData(supabase, accountCode, enabled, marketData);
+  const triggers = evaluateAlertRules(enabled, data);
+  const recorded = await recordAlertTriggers(supabase, accountCode, triggers);
+
+  return { asOf: data.asOf, rules, triggers, recorded };
+}
@@ -0,0 +1,168 @@
+/**
+ * Benchmark comparison
+ * Compares the account's flow-adjusted daily returns with an index ETF whose
+ * daily closes are stored locally in market_data_cache.
+ *
+ * - Benchmark prices are daily bars (data_type 'bar', timeframe '1Day') with
+ *   the close in data.close, dated on the database calendar like AccountBalance
+ * - Each portfolio day is paired with the benchmark's return between the closes
+ *   on or before the previous and current balance dates
+ * - Beta is the slope of portfolio on benchmark daily returns; alpha is
+ *   Jensen's alpha (mean daily excess return not explained by beta), annualized
+ * - Excess return is the portfolio's time-weighted return minus the benchmark's
+ */
+
+import { DEFAULT_RISK_FREE_RATE } from './black-scholes';
+import { toNumber } from './lot-matching';
+import { balancesInRange, computeDailyReturns, type BalanceRecord, type CashFlow, type PerformanceOptions } from './performance';
+import { TRADING_DAYS_PER_YEAR } from './risk';
+
+export const DEFAULT_BENCHMARK = 'SPY';
+
+// market_data_cache row shape for stored daily bars
+export const BENCHMARK_DATA_TYPE = 'bar';
+export const BENCHMARK_TIMEFRAME = '1Day';
+
+// Raw market_data_cache row (the columns the comparison needs)
+export interface BenchmarkPriceRecord {
+  timestamp: string;
+  data: { close?: number | string | null } | null;
+}
+
+// market_data_cache columns to select when building BenchmarkPriceRecords
+export const BENCHMARK_PRICE_COLUMNS = 'timestamp, data';
+
+export interface BenchmarkPrice {
+  date: string;
+  close: number;
+}
+
+export interface BenchmarkOptions extends PerformanceOptions {
+  // Annual risk-free rate for alpha
+  riskFreeRate?: number;
+}
+
+export interface BenchmarkPoint {
+  date: string;
+  // Cumulative returns since the start of the range
+  portfolio: number;
+  benchmark: number;
+}
+
+export interface BenchmarkComparison {
+  symbol: string;
+  startDate: string;
+  endDate: string;
+  tradingDays: number;
+  portfolioReturn: number;
+  benchmarkReturn: number;
+  excessReturn: number;
+  // Null with fewer than two paired days or a flat benchmark
+  beta: number | null;
+  alpha: number | null;
+  correlation: number | null;
+  riskFreeRate: number;
+  series: BenchmarkPoint[];
+}
+
+/**
+ * Daily closes from market_data_cache rows, sorted by date. Rows without a close are skipped.
+ */
+export function toBenchmarkPrices(rows: BenchmarkPriceRecord[]): BenchmarkPrice[] {
+  return rows
+    .map(row => ({ date: String(row.timestamp).slice(0, 10), close: toNumber(row.data?.close) }))
+    .filter(price => price.close > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function closeOnOrBefore(prices: BenchmarkPrice[], date: string): number | null {
+  let close: number | null = null;
+  for (const price of prices) {
+    if (price.date > date) break;
+    close = price.close;
+  }
+  return close;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * Compare the account's returns with a benchmark over a date range
+ */
+export function compareToBenchmark(
+  balances: BalanceRecord[],
+  flows: CashFlow[],
+  prices: BenchmarkPrice[],
+  symbol: string,
+  options: BenchmarkOptions = {}
+): BenchmarkComparison | null {
+  const range = balancesInRange(balances, options);
+  const daily = computeDailyReturns(range, flows);
+  if (daily.length === 0) return null;
+
+  const riskFreeRate = options.riskFreeRate ?? DEFAULT_RISK_FREE_RATE;
+  const dailyRiskFree = riskFreeRate / TRADING_DAYS_PER_YEAR;
+
+  // Pair each portfolio day with the benchmark over the same interval
+  const paired: Array<{ date: string; portfolio: number; benchmark: number }> = [];
+  let previousDate = range[0].Date;
+  for (const day of daily) {
+    const from = closeOnOrBefore(prices, previousDate);
+    const to = closeOnOrBefore(prices, day.date);
+    if (from !== null && to !== null) {
+      paired.push({ date: day.date, portfolio: day.return, benchmark: to / from - 1 });
+    }
+    previousDate = day.date;
+  }
+  if (paired.length === 0) return null;
+
+  const series: BenchmarkPoint[] = [];
+  let portfolioGrowth = 1;
+  let benchmarkGrowth = 1;
+  for (const day of paired) {
+    portfolioGrowth *= 1 + day.portfolio;
+    benchmarkGrowth *= 1 + day.benchmark;
+    series.push({ date: day.date, portfolio: portfolioGrowth - 1, benchmark: benchmarkGrowth - 1 });
+  }
+
+  let beta: number | null = null;
+  let alpha: number | null = null;
+  let correlation: number | null = null;
+  if (paired.length > 1) {
+    const portfolioExcess = paired.map(day => day.portfolio - dailyRiskFree);
+    const benchmarkExcess = paired.map(day => day.benchmark - dailyRiskFree);
+    const portfolioMean = mean(portfolioExcess);
+    const benchmarkMean = mean(benchmarkExcess);
+    let covariance = 0;
+    let benchmarkVariance = 0;
+    let portfolioVariance = 0;
+    paired.forEach((_, i) => {
+      covariance += (portfolioExcess[i] - portfolioMean) * (benchmarkExcess[i] - benchmarkMean);
+      benchmarkVariance += (benchmarkExcess[i] - benchmarkMean) ** 2;
+      portfolioVariance += (portfolioExcess[i] - portfolioMean) ** 2;
+    });
+    if (benchmarkVariance > 0) {
+      beta = covariance / benchmarkVariance;
+      alpha = (portfolioMean - beta * benchmarkMean) * TRADING_DAYS_PER_YEAR;
+      correlation = portfolioVariance > 0 ? covariance / Math.sqrt(benchmarkVariance * portfolioVariance) : null;
+    }
+  }
+
+  const portfolioReturn = portfolioGrowth - 1;
+  const benchmarkReturn = benchmarkGrowth - 1;
+
+  return {
+    symbol,
+    startDate: range[0].Date,
+    endDate: paired[paired.length - 1].date,
+    tradingDays: paired.length,
+    portfolioReturn,
+    benchmarkReturn,
+    excessReturn: portfolioReturn - benchmarkReturn,
+    beta,
+    alpha,
+    correlation,
+    riskFreeRate,
+    series,
+  };
+}
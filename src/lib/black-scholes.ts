@@ -0,0 +1,159 @@
+/**
+ * Black-Scholes option pricing
+ * European option value and Greeks with a continuous dividend yield
+ * (Merton's extension), plus implied volatility solved from a traded premium.
+ *
+ * - Time is in years, rates and yields are annual and continuously compounded
+ * - Theta is per calendar day, vega and rho per 1 percentage point
+ * - Expired contracts (time <= 0) are worth their intrinsic value
+ */
+
+export type OptionRight = 'C' | 'P';
+
+export interface PricingInputs {
+  spot: number;
+  strike: number;
+  // Years to expiration
+  time: number;
+  // Annualized volatility (0.25 = 25%)
+  volatility: number;
+  // Risk-free rate (0.045 = 4.5%)
+  rate: number;
+  dividendYield?: number;
+  callPut: OptionRight;
+}
+
+export interface Greeks {
+  price: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  rho: number;
+}
+
+// Default risk-free rate when none is supplied
+export const DEFAULT_RISK_FREE_RATE = 0.045;
+
+const DAYS_PER_YEAR = 365;
+const MIN_VOLATILITY = 0.001;
+const MAX_VOLATILITY = 5;
+
+/**
+ * Standard normal probability density
+ */
+export function normPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz-Stegun 7.1.26, |error| < 7.5e-8)
+ */
+export function normCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = normPdf(x) * poly;
+  return x >= 0 ? 1 - tail : tail;
+}
+
+function intrinsic({ spot, strike, callPut }: PricingInputs): number {
+  return callPut === 'C' ? Math.max(0, spot - strike) : Math.max(0, strike - spot);
+}
+
+/**
+ * Theoretical value and Greeks of one option (per share)
+ */
+export function blackScholes(inputs: PricingInputs): Greeks {
+  const { spot, strike, time, volatility, rate, callPut } = inputs;
+  const q = inputs.dividendYield ?? 0;
+
+  if (time <= 0 || volatility <= 0 || spot <= 0 || strike <= 0) {
+    const value = intrinsic(inputs);
+    const itm = value > 0 ? 1 : 0;
+    return { price: value, delta: callPut === 'C' ? itm : -itm, gamma: 0, theta: 0, vega: 0, rho: 0 };
+  }
+
+  const sqrtT = Math.sqrt(time);
+  const d1 = (Math.log(spot / strike) + (rate - q + 0.5 * volatility * volatility) * time) / (volatility * sqrtT);
+  const d2 = d1 - volatility * sqrtT;
+  const discountQ = Math.exp(-q * time);
+  const discountR = Math.exp(-rate * time);
+  const pdf = normPdf(d1);
+
+  const gamma = (discountQ * pdf) / (spot * volatility * sqrtT);
+  const vega = (spot * discountQ * pdf * sqrtT) / 100;
+  const decay = -(spot * discountQ * pdf * volatility) / (2 * sqrtT);
+
+  if (callPut === 'C') {
+    const nd1 = normCdf(d1);
+    const nd2 = normCdf(d2);
+    return {
+      price: spot * discountQ * nd1 - strike * discountR * nd2,
+      delta: discountQ * nd1,
+      gamma,
+      theta: (decay - rate * strike * discountR * nd2 + q * spot * discountQ * nd1) / DAYS_PER_YEAR,
+      vega,
+      rho: (strike * time * discountR * nd2) / 100,
+    };
+  }
+
+  const nd1 = normCdf(-d1);
+  const nd2 = normCdf(-d2);
+  return {
+    price: strike * discountR * nd2 - spot * discountQ * nd1,
+    delta: -discountQ * nd1,
+    gamma,
+    theta: (decay + rate * strike * discountR * nd2 - q * spot * discountQ * nd1) / DAYS_PER_YEAR,
+    vega,
+    rho: -(strike * time * discountR * nd2) / 100,
+  };
+}
+
+/**
+ * Volatility at which the model price equals the traded premium.
+ * Newton-Raphson from 30%, falling back to bisection when vega is too small.
+ * Returns null when the premium is outside the no-arbitrage bounds.
+ */
+export function impliedVolatility(
+  premium: number,
+  inputs: Omit<PricingInputs, 'volatility'>
+): number | null {
+  if (inputs.time <= 0 || premium <= 0) return null;
+
+  const priceAt = (volatility: number) => blackScholes({ ...inputs, volatility }).price;
+  const lower = priceAt(MIN_VOLATILITY);
+  const upper = priceAt(MAX_VOLATILITY);
+  if (premium < lower - 1e-6 || premium > upper + 1e-6) return null;
+
+  let volatility = 0.3;
+  for (let i = 0; i < 50; i++) {
+    const { price, vega } = blackScholes({ ...inputs, volatility });
+    const diff = price - premium;
+    if (Math.abs(diff) < 1e-6) return volatility;
+    // vega is per percentage point
+    const step = diff / (vega * 100);
+    if (vega < 1e-8 || !isFinite(step)) break;
+    volatility -= step;
+    if (volatility <= MIN_VOLATILITY || volatility >= MAX_VOLATILITY) break;
+  }
+
+  let low = MIN_VOLATILITY;
+  let high = MAX_VOLATILITY;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (priceAt(mid) > premium) high = mid;
+    else low = mid;
+    if (high - low < 1e-6) break;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Years between two YYYY-MM-DD dates (calendar days / 365)
+ */
+export function yearsBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  const days = (Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / (1000 * 60 * 60 * 24);
+  return days / DAYS_PER_YEAR;
+}
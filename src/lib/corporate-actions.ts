@@ -0,0 +1,299 @@
+/**
+ * Corporate actions
+ * Rewrites historical TradeData and Dividends rows on read so splits, reverse
+ * splits and ticker changes never break position, average-price and lot math.
+ * Stored rows are left untouched.
+ *
+ * - A split with Ratio r (new shares per old share; r < 1 is a reverse split)
+ *   multiplies quantities by r and divides prices by r for rows dated before
+ *   the effective date, so cash amounts are unchanged
+ * - Options on the split underlying scale contracts and divide strike and premium,
+ *   including the strike embedded in OCC option symbols
+ * - A symbol change renames Symbol, UnderlyingSymbol and the option symbol prefix
+ * - Actions apply in effective-date order and follow earlier renames, so an
+ *   FB row is renamed to META before a later META split scales it
+ * - Corporate actions are market-wide and shared by every account
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toNumber, type TradeRecord } from './lot-matching';
+import type { DividendRecord } from './dividends';
+
+export type CorporateActionType = 'split' | 'symbol_change';
+
+// Raw CorporateActions row
+export interface CorporateActionRecord {
+  Symbol: string;
+  ActionType: CorporateActionType | string;
+  EffectiveDate: string;
+  // New shares per old share (splits only)
+  Ratio?: number | string | null;
+  // Ticker after the change (symbol changes only)
+  NewSymbol?: string | null;
+}
+
+// CorporateActions columns to select when building CorporateActionRecords
+export const CORPORATE_ACTION_COLUMNS = 'Symbol, ActionType, EffectiveDate, Ratio, NewSymbol';
+
+// An action that changed at least one row in a result set
+export interface CorporateAdjustment {
+  symbol: string;
+  actionType: CorporateActionType;
+  effectiveDate: string;
+  ratio: number | null;
+  newSymbol: string | null;
+  label: string;
+  rowsAdjusted: number;
+}
+
+export interface AdjustedRows<T> {
+  rows: T[];
+  adjustments: CorporateAdjustment[];
+}
+
+type Numeric = number | string | null | undefined;
+
+function isSplit(action: CorporateActionRecord): boolean {
+  return action.ActionType === 'split' && toNumber(action.Ratio) > 0 && toNumber(action.Ratio) !== 1;
+}
+
+function isSymbolChange(action: CorporateActionRecord): boolean {
+  return action.ActionType === 'symbol_change' && !!action.NewSymbol && action.NewSymbol !== action.Symbol;
+}
+
+function sortActions(actions: CorporateActionRecord[]): CorporateActionRecord[] {
+  return actions
+    .filter(a => isSplit(a) || isSymbolChange(a))
+    .sort((a, b) => a.EffectiveDate.localeCompare(b.EffectiveDate));
+}
+
+// Scale a numeric column, keeping its original type (Supabase returns NUMERIC as string)
+function scale<V extends Numeric>(value: V, factor: number): V {
+  if (value === null || value === undefined || value === '') return value;
+  const scaled = toNumber(value) * factor;
+  return (typeof value === 'string' ? String(scaled) : scaled) as V;
+}
+
+// Calendar date of a row (timestamps compare by their date part)
+function rowDate(date: string | null | undefined): string {
+  return (date || '').slice(0, 10);
+}
+
+function formatRatio(ratio: number): string {
+  return Number.isInteger(ratio) ? String(ratio) : ratio.toFixed(2).replace(/\.?0+$/, '');
+}
+
+/**
+ * Short label for a corporate action, e.g. "FB → META", "AAPL 4:1 split", "GE 1:8 reverse split"
+ */
+export function describeCorporateAction(action: CorporateActionRecord): string {
+  if (isSymbolChange(action)) {
+    return `${action.Symbol} → ${action.NewSymbol}`;
+  }
+  const ratio = toNumber(action.Ratio);
+  return ratio >= 1
+    ? `${action.Symbol} ${formatRatio(ratio)}:1 split`
+    : `${action.Symbol} 1:${formatRatio(1 / ratio)} reverse split`;
+}
+
+/**
+ * Every ticker a symbol has traded under: its current ticker first, then former ones.
+ * Works from either end of a rename chain, so FB and META both return [META, FB].
+ */
+export function getSymbolAliases(symbol: string, actions: CorporateActionRecord[]): string[] {
+  const renames = sortActions(actions).filter(isSymbolChange);
+
+  let current = symbol;
+  const seen = new Set([current]);
+  for (let next = renames.find(a => a.Symbol === current); next; next = renames.find(a => a.Symbol === current)) {
+    current = next.NewSymbol as string;
+    if (seen.has(current)) break;
+    seen.add(current);
+  }
+
+  const aliases = [current];
+  for (let i = 0; i < aliases.length; i++) {
+    for (const rename of renames) {
+      if (rename.NewSymbol === aliases[i] && !aliases.includes(rename.Symbol)) {
+        aliases.push(rename.Symbol);
+      }
+    }
+  }
+  return aliases;
+}
+
+/**
+ * Ticker a symbol trades under today (FB -> META)
+ */
+export function getCurrentSymbol(symbol: string, actions: CorporateActionRecord[]): string {
+  return getSymbolAliases(symbol, actions)[0];
+}
+
+/**
+ * PostgREST filter matching trades in any alias, as Symbol or UnderlyingSymbol
+ */
+export function buildSymbolFilter(symbols: string[]): string {
+  const list = symbols.join(',');
+  return `Symbol.in.(${list}),UnderlyingSymbol.in.(${list})`;
+}
+
+function renameOptionSymbol(symbol: string, from: string, to: string): string {
+  // Option symbols lead with the underlying followed by a space or digit (OCC style)
+  return symbol.startsWith(from) && /^[\s\d]/.test(symbol.slice(from.length))
+    ? to + symbol.slice(from.length)
+    : symbol;
+}
+
+// OCC symbols (GOOGL251220C00200000) embed the strike × 1000 in the last eight digits
+function splitOptionSymbol(symbol: string, ratio: number): string {
+  const match = symbol.match(/^(\D+\d{6}[CP])(\d{8})$/);
+  if (!match) return symbol;
+  const strike = Math.round(parseInt(match[2], 10) / ratio);
+  return `${match[1]}${String(strike).padStart(8, '0')}`;
+}
+
+function adjustTrade<T extends TradeRecord>(trade: T, action: CorporateActionRecord): T {
+  const isOption = trade.SecurityType === 'O';
+
+  if (isSymbolChange(action)) {
+    const newSymbol = action.NewSymbol as string;
+    return {
+      ...trade,
+      Symbol: trade.Symbol === action.Symbol
+        ? newSymbol
+        : isOption ? renameOptionSymbol(trade.Symbol, action.Symbol, newSymbol) : trade.Symbol,
+      UnderlyingSymbol: trade.UnderlyingSymbol === action.Symbol ? newSymbol : trade.UnderlyingSymbol,
+    };
+  }
+
+  const ratio = toNumber(action.Ratio);
+  if (isOption) {
+    return {
+      ...trade,
+      Symbol: splitOptionSymbol(trade.Symbol, ratio),
+      OptionContracts: scale(trade.OptionContracts, ratio),
+      OptionTradePremium: scale(trade.OptionTradePremium, 1 / ratio),
+      Strike: scale(trade.Strike, 1 / ratio),
+    };
+  }
+  return {
+    ...trade,
+    StockShareQty: scale(trade.StockShareQty, ratio),
+    StockTradePrice: scale(trade.StockTradePrice, 1 / ratio),
+  };
+}
+
+function affects(symbol: string | null | undefined, date: string, action: CorporateActionRecord): boolean {
+  return symbol === action.Symbol && date < action.EffectiveDate;
+}
+
+function applyActions<T>(
+  rows: T[],
+  actions: CorporateActionRecord[],
+  isAffected: (row: T, action: CorporateActionRecord) => boolean,
+  adjust: (row: T, action: CorporateActionRecord) => T
+): AdjustedRows<T> {
+  let adjusted = rows;
+  const adjustments: CorporateAdjustment[] = [];
+
+  for (const action of sortActions(actions)) {
+    let rowsAdjusted = 0;
+    adjusted = adjusted.map(row => {
+      if (!isAffected(row, action)) return row;
+      rowsAdjusted++;
+      return adjust(row, action);
+    });
+
+    if (rowsAdjusted > 0) {
+      const split = isSplit(action);
+      adjustments.push({
+        symbol: action.Symbol,
+        actionType: split ? 'split' : 'symbol_change',
+        effectiveDate: action.EffectiveDate,
+        ratio: split ? toNumber(action.Ratio) : null,
+        newSymbol: split ? null : (action.NewSymbol as string),
+        label: describeCorporateAction(action),
+        rowsAdjusted,
+      });
+    }
+  }
+
+  return { rows: adjusted, adjustments };
+}
+
+/**
+ * Restate trades as if every split and ticker change had always been in effect
+ */
+export function applyCorporateActions<T extends TradeRecord>(
+  trades: T[],
+  actions: CorporateActionRecord[]
+): AdjustedRows<T> {
+  return applyActions(
+    trades,
+    actions,
+    (trade, action) => affects(
+      trade.SecurityType === 'O' ? trade.UnderlyingSymbol || trade.Symbol : trade.Symbol,
+      rowDate(trade.Date),
+      action
+    ),
+    adjustTrade
+  );
+}
+
+/**
+ * Restate dividends the same way: per-share amounts and share counts follow
+ * splits (by ex-date, else pay date) so they line up with adjusted positions
+ */
+export function applyCorporateActionsToDividends<T extends DividendRecord>(
+  dividends: T[],
+  actions: CorporateActionRecord[]
+): AdjustedRows<T> {
+  return applyActions(
+    dividends,
+    actions,
+    (dividend, action) => affects(dividend.Symbol, rowDate(dividend.ExDate || dividend.PayDate), action),
+    (dividend, action) => {
+      if (isSymbolChange(action)) {
+        return { ...dividend, Symbol: action.NewSymbol as string };
+      }
+      const ratio = toNumber(action.Ratio);
+      return {
+        ...dividend,
+        AmountPerShare: scale(dividend.AmountPerShare, 1 / ratio),
+        Quantity: scale(dividend.Quantity, ratio),
+      };
+    }
+  );
+}
+
+/**
+ * Merge adjustment lists from several result sets (e.g. trades and dividends)
+ */
+export function mergeAdjustments(...lists: CorporateAdjustment[][]): CorporateAdjustment[] {
+  const merged = new Map<string, CorporateAdjustment>();
+  for (const adjustment of lists.flat()) {
+    const key = `${adjustment.symbol} ${adjustment.actionType} ${adjustment.effectiveDate}`;
+    const existing = merged.get(key);
+    merged.set(key, existing
+      ? { ...existing, rowsAdjusted: existing.rowsAdjusted + adjustment.rowsAdjusted }
+      : adjustment);
+  }
+  return [...merged.values()].sort((a, b) => a.effectiveDate.localeCompare(b.effectiveDate));
+}
+
+/**
+ * Load every corporate action. A failed load throws rather than leaving
+ * analytics on unadjusted rows.
+ */
+export async function loadCorporateActions(supabase: SupabaseClient): Promise<CorporateActionRecord[]> {
+  const { data, error } = await supabase
+    .from('CorporateActions')
+    .select(CORPORATE_ACTION_COLUMNS)
+    .order('EffectiveDate', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load corporate actions: ${error.message}`);
+  }
+
+  return (data || []) as CorporateActionRecord[];
+}
@@ -0,0 +1,138 @@
+/**
+ * Cost-basis method settings
+ * Each account elects a method (AccountInfo.CostBasisMethod) that drives how
+ * lots are relieved for realized P&L, open-position cost and the trade cards.
+ * Specific-lot elections are stored in the LotSelections table.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { matchLots, type CostBasisMethod, type LotSelections, type TradeRecord } from './lot-matching';
+import { fetchAllRows } from './paged-query';
+
+export type { CostBasisMethod, LotSelections };
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo';
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'hifo', 'average', 'specific'];
+
+export const COST_BASIS_LABELS: Record<CostBasisMethod, string> = {
+  fifo: 'FIFO',
+  lifo: 'LIFO',
+  hifo: 'HIFO',
+  average: 'Average Cost',
+  specific: 'Specific Lot',
+};
+
+export interface CostBasisSettings {
+  method: CostBasisMethod;
+  lotSelections: LotSelections;
+}
+
+/**
+ * Parse a method from user or agent input
+ * e.g. "HIFO", "highest in first out", "average cost", "spec id"
+ */
+export function parseCostBasisMethod(input: unknown): CostBasisMethod | null {
+  if (typeof input !== 'string') return null;
+  const lower = input.toLowerCase().trim();
+  if (!lower) return null;
+
+  if (/\bhifo\b|highest[\s-]*(cost\s*)?in/.test(lower)) return 'hifo';
+  if (/\blifo\b|last[\s-]*in/.test(lower)) return 'lifo';
+  if (/\bfifo\b|first[\s-]*in/.test(lower)) return 'fifo';
+  if (/\bavg\b|average/.test(lower)) return 'average';
+  if (/specific|spec\s*id|\blot\s*id/.test(lower)) return 'specific';
+  return null;
+}
+
+/**
+ * Load the account's cost-basis method and specific-lot elections.
+ * Falls back to FIFO when the account has no election; a failed load throws.
+ */
+export async function loadCostBasisSettings(
+  supabase: SupabaseClient,
+  accountCode: string
+): Promise<CostBasisSettings> {
+  const { data: account, error } = await supabase
+    .from('AccountInfo')
+    .select('CostBasisMethod')
+    .eq('AccountCode', accountCode)
+    .maybeSingle();
+
+  // Falling back to FIFO on a failed load would quietly compute every figure under the wrong method
+  if (error) {
+    throw new Error(`Failed to load cost basis method: ${error.message}`);
+  }
+
+  const method = parseCostBasisMethod(account?.CostBasisMethod) ?? DEFAULT_COST_BASIS_METHOD;
+  const lotSelections: LotSelections = {};
+
+  if (method === 'specific') {
+    const { data: selections, error: selectionError } = await fetchAllRows(
+      supabase
+        .from('LotSelections')
+        .select('CloseTradeID, OpenTradeID, Priority')
+        .eq('AccountCode', accountCode)
+        .order('Priority', { ascending: true })
+        .order('CloseTradeID', { ascending: true })
+        .order('OpenTradeID', { ascending: true })
+    );
+
+    if (selectionError) {
+      throw new Error(`Failed to load lot selections: ${selectionError.message}`);
+    }
+
+    for (const row of selections ?? []) {
+      const key = String(row.CloseTradeID);
+      if (!lotSelections[key]) lotSelections[key] = [];
+      lotSelections[key].push(row.OpenTradeID);
+    }
+  }
+
+  return { method, lotSelections };
+}
+
+export interface CostBasisOutcome {
+  method: CostBasisMethod;
+  label: string;
+  realizedPnL: number;
+  realizedGains: number;
+  realizedLosses: number;
+  closedLots: number;
+  openShares: number;
+  openCostBasis: number;
+}
+
+/**
+ * Replay the same trades under each method and summarize the results.
+ * Realized figures only include lots closed within [startDate, endDate] when given.
+ */
+export function compareCostBasisMethods(
+  trades: TradeRecord[],
+  settings: CostBasisSettings,
+  methods: CostBasisMethod[] = COST_BASIS_METHODS,
+  startDate?: string,
+  endDate?: string
+): CostBasisOutcome[] {
+  return methods.map(method => {
+    const { closedLots, openLots } = matchLots(trades, { method, lotSelections: settings.lotSelections });
+
+    // A long lot closes on the sale; a short lot closes on the cover (buy)
+    const realized = closedLots.filter(lot => {
+      const closeDate = lot.side === 'long' ? lot.sellDate : lot.buyDate;
+      return (!startDate || closeDate >= startDate) && (!endDate || closeDate <= endDate);
+    });
+    const longLots = openLots.filter(lot => lot.side === 'long');
+
+    return {
+      method,
+      label: COST_BASIS_LABELS[method],
+      realizedPnL: realized.reduce((sum, lot) => sum + lot.profitLoss, 0),
+      realizedGains: realized.filter(lot => lot.profitLoss > 0).reduce((sum, lot) => sum + lot.profitLoss, 0),
+      realizedLosses: realized.filter(lot => lot.profitLoss < 0).reduce((sum, lot) => sum + lot.profitLoss, 0),
+      closedLots: realized.length,
+      openShares: longLots.reduce((sum, lot) => sum + lot.quantity * lot.multiplier, 0),
+      openCostBasis: longLots.reduce((sum, lot) => sum + lot.price * lot.quantity * lot.multiplier + lot.fees, 0),
+    };
+  });
+}
@@ -1,6 +1,6 @@
 /**
  * Natural language date parsing for time-based trade queries
- * Parses expressions like "last week", "yesterday", "past 5 days", "Monday"
+ * Parses expressions like "last week", "yesterday", "past 5 days", "last 3 months", "this year", "March", "Monday"
  *
  * IMPORTANT: Uses US Pacific timezone for consistent date calculations
  */
@@ -250,6 +250,75 @@ export function parseTimeExpression(expression: string): ParsedDateQuery | null
     };
   }
 
+  // Pattern: "last N months" / "past N months" (supports spelled-out numbers)
+  const monthsMatch = lowerExpr.match(new RegExp(`^(?:last|past)\\s*(${numberWordsPattern})\\s*months?$`, 'i'));
+  if (monthsMatch) {
+    const numMonths = parseNumber(monthsMatch[1]);
+    if (numMonths !== null) {
+      const startDate = new Date(today.getFullYear(), today.getMonth() - numMonths, today.getDate() + 1);
+      return {
+        type: 'range',
+        dateRange: {
+          startDate: toDBDate(startDate),
+          endDate: toDBDate(today),
+          description: `last ${numMonths} months`,
+          tradingDays: Math.round((today.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1
+        }
+      };
+    }
+  }
+
+  // Pattern: "this year" / "year to date" / "YTD"
+  if (/^(this\s*year|year\s*to\s*date|ytd|since\s+the\s+beginning\s+of\s+the\s+year)$/.test(lowerExpr)) {
+    const startDate = new Date(today.getFullYear(), 0, 1);
+    return {
+      type: 'range',
+      dateRange: {
+        startDate: toDBDate(startDate),
+        endDate: toDBDate(today),
+        description: 'this year',
+        tradingDays: Math.round((today.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1
+      }
+    };
+  }
+
+  // Pattern: "last year" / "past year" - previous calendar year
+  if (/^(last|past)\s*year$/.test(lowerExpr)) {
+    const startDate = new Date(today.getFullYear() - 1, 0, 1);
+    const endDate = new Date(today.getFullYear() - 1, 11, 31);
+    return {
+      type: 'range',
+      dateRange: {
+        startDate: toDBDate(startDate),
+        endDate: toDBDate(endDate),
+        description: 'last year',
+        tradingDays: Math.round((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)) + 1
+      }
+    };
+  }
+
+  // Pattern: Whole month - "March", "in March", "March last year" (most recent March unless "last year")
+  const wholeMonthMatch = lowerExpr.match(new RegExp(`^(?:in\\s+|during\\s+)?(${monthNames})(\\s+last\\s+year)?$`, 'i'));
+  if (wholeMonthMatch) {
+    const month = monthNameToNumber[wholeMonthMatch[1].toLowerCase()];
+    let year = wholeMonthMatch[2] ? today.getFullYear() - 1 : today.getFullYear();
+    if (!wholeMonthMatch[2] && new Date(year, month, 1) > today) {
+      year -= 1;
+    }
+    const startDate = new Date(year, month, 1);
+    const monthEnd = new Date(year, month + 1, 0);
+    const endDate = monthEnd > today ? today : monthEnd;
+    return {
+      type: 'range',
+      dateRange: {
+        startDate: toDBDate(startDate),
+        endDate: toDBDate(endDate),
+        description: startDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+        tradingDays: endDate.getDate()
+      }
+    };
+  }
+
   // Pattern: Day of week - "Monday", "Tuesday", etc.
   const dayOfWeekMap: Record<string, number> = {
     'sunday': 0,
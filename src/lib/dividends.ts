@@ -0,0 +1,239 @@
+/**
+ * Dividends service
+ * Summarizes dividend payments from the Dividends table by symbol and month,
+ * and measures yield on cost against the open stock position.
+ *
+ * - Payments are attributed to their pay date
+ * - Annual income is the trailing-twelve-month dividend per share (as of the
+ *   end of the period) times the shares currently held
+ * - Yield on cost divides annual income by the open position's cost basis,
+ *   which comes from the lot-matching engine and the account's method
+ */
+
+import { matchLots, toNumber, type LotMatchOptions, type TradeRecord } from './lot-matching';
+
+export type DividendType = 'Ordinary' | 'Qualified' | 'Special' | 'ReturnOfCapital' | 'CapitalGain';
+
+// Column default in 003_dividends.sql, whose CHECK allows only the five types above
+export const DEFAULT_DIVIDEND_TYPE: DividendType = 'Ordinary';
+
+/**
+ * Map a broker's dividend type label onto the canonical DividendType
+ * e.g. "QUALIFIED DIV", "Return of Capital", "LT Cap Gain", "special"
+ * Anything unrecognized (or missing) is an ordinary dividend.
+ */
+export function parseDividendType(input: unknown): DividendType {
+  if (typeof input !== 'string') return DEFAULT_DIVIDEND_TYPE;
+  const lower = input.toLowerCase().trim();
+
+  if (/return\s*of\s*capital|\broc\b|returnofcapital/.test(lower)) return 'ReturnOfCapital';
+  if (/cap(ital)?\s*gain|\bcg\b|capitalgain/.test(lower)) return 'CapitalGain';
+  if (/qualified|\bqdi?v?\b/.test(lower) && !/non[\s-]*qualified/.test(lower)) return 'Qualified';
+  if (/special|extra/.test(lower)) return 'Special';
+  return DEFAULT_DIVIDEND_TYPE;
+}
+
+// Raw Dividends row
+export interface DividendRecord {
+  Symbol: string;
+  ExDate?: string | null;
+  PayDate: string;
+  DividendType?: DividendType | string | null;
+  AmountPerShare: number | string;
+  Quantity: number | string;
+  GrossAmount: number | string;
+  WithholdingTax?: number | string | null;
+  NetAmount: number | string;
+  Reinvested?: boolean | null;
+}
+
+// Dividends columns to select when building DividendRecords
+export const DIVIDEND_RECORD_COLUMNS =
+  'Symbol, ExDate, PayDate, DividendType, AmountPerShare, Quantity, GrossAmount, WithholdingTax, NetAmount, Reinvested';
+
+export interface DividendOptions extends LotMatchOptions {
+  // Only payments within [startDate, endDate] count toward totals
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface SymbolDividends {
+  symbol: string;
+  payments: number;
+  grossAmount: number;
+  netAmount: number;
+  lastPayDate: string;
+  lastAmountPerShare: number;
+  // Trailing-twelve-month dividend per share
+  ttmPerShare: number;
+  openShares: number;
+  costBasis: number;
+  annualIncome: number;
+  // Annual income / cost basis of the open position (null when nothing is held)
+  yieldOnCost: number | null;
+}
+
+export interface MonthlyDividends {
+  month: string; // YYYY-MM (database calendar)
+  netAmount: number;
+  payments: number;
+}
+
+export interface DividendReport {
+  payments: number;
+  grossAmount: number;
+  withholdingTax: number;
+  netAmount: number;
+  reinvestedAmount: number;
+  annualIncome: number;
+  costBasis: number;
+  yieldOnCost: number | null;
+  bySymbol: SymbolDividends[];
+  byMonth: MonthlyDividends[];
+}
+
+function oneYearBefore(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return `${year - 1}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Open stock shares and cost basis per symbol (long lots only)
+ */
+function getOpenStockPositions(trades: TradeRecord[], options: LotMatchOptions) {
+  const positions = new Map<string, { shares: number; costBasis: number }>();
+  const { openLots } = matchLots(trades, options);
+
+  for (const lot of openLots) {
+    if (lot.side !== 'long' || lot.securityType !== 'S') continue;
+    const entry = positions.get(lot.symbol) ?? { shares: 0, costBasis: 0 };
+    entry.shares += lot.quantity;
+    entry.costBasis += lot.price * lot.quantity + lot.fees;
+    positions.set(lot.symbol, entry);
+  }
+
+  return positions;
+}
+
+/**
+ * Trailing-twelve-month dividend per share by symbol as of a date
+ */
+export function getTrailingDividendsPerShare(dividends: DividendRecord[], asOf: string): Record<string, number> {
+  const ttmStart = oneYearBefore(asOf);
+  const perShare: Record<string, number> = {};
+  for (const dividend of dividends) {
+    if (dividend.PayDate <= ttmStart || dividend.PayDate > asOf) continue;
+    if (dividend.DividendType === 'ReturnOfCapital') continue;
+    perShare[dividend.Symbol] = (perShare[dividend.Symbol] ?? 0) + toNumber(dividend.AmountPerShare);
+  }
+  return perShare;
+}
+
+/**
+ * Summarize dividends received, optionally within a period
+ */
+export function summarizeDividends(
+  dividends: DividendRecord[],
+  trades: TradeRecord[],
+  options: DividendOptions = {}
+): DividendReport {
+  const positions = getOpenStockPositions(trades, options);
+  const sorted = [...dividends].sort((a, b) => a.PayDate.localeCompare(b.PayDate));
+
+  // Trailing twelve months end at the period end, or the latest payment
+  const asOf = options.endDate ?? sorted[sorted.length - 1]?.PayDate;
+  const ttmStart = asOf ? oneYearBefore(asOf) : undefined;
+
+  const symbols = new Map<string, SymbolDividends>();
+  const months = new Map<string, MonthlyDividends>();
+  let grossAmount = 0;
+  let withholdingTax = 0;
+  let netAmount = 0;
+  let reinvestedAmount = 0;
+  let payments = 0;
+
+  const symbolEntry = (symbol: string) => {
+    let entry = symbols.get(symbol);
+    if (!entry) {
+      const position = positions.get(symbol);
+      entry = {
+        symbol,
+        payments: 0,
+        grossAmount: 0,
+        netAmount: 0,
+        lastPayDate: '',
+        lastAmountPerShare: 0,
+        ttmPerShare: 0,
+        openShares: position?.shares ?? 0,
+        costBasis: position?.costBasis ?? 0,
+        annualIncome: 0,
+        yieldOnCost: null,
+      };
+      symbols.set(symbol, entry);
+    }
+    return entry;
+  };
+
+  for (const dividend of sorted) {
+    const perShare = toNumber(dividend.AmountPerShare);
+    const inTtm = !!ttmStart && !!asOf && dividend.PayDate > ttmStart && dividend.PayDate <= asOf;
+    const inPeriod = (!options.startDate || dividend.PayDate >= options.startDate) &&
+      (!options.endDate || dividend.PayDate <= options.endDate);
+
+    if (!inPeriod && !inTtm) continue;
+
+    const entry = symbolEntry(dividend.Symbol);
+    // Return of capital reduces basis rather than paying income
+    if (inTtm && dividend.DividendType !== 'ReturnOfCapital') {
+      entry.ttmPerShare += perShare;
+    }
+
+    if (!inPeriod) continue;
+
+    const gross = toNumber(dividend.GrossAmount);
+    const net = toNumber(dividend.NetAmount);
+    entry.payments += 1;
+    entry.grossAmount += gross;
+    entry.netAmount += net;
+    entry.lastPayDate = dividend.PayDate;
+    entry.lastAmountPerShare = perShare;
+
+    payments += 1;
+    grossAmount += gross;
+    withholdingTax += toNumber(dividend.WithholdingTax);
+    netAmount += net;
+    if (dividend.Reinvested) reinvestedAmount += net;
+
+    const month = dividend.PayDate.slice(0, 7);
+    const monthEntry = months.get(month) ?? { month, netAmount: 0, payments: 0 };
+    monthEntry.netAmount += net;
+    monthEntry.payments += 1;
+    months.set(month, monthEntry);
+  }
+
+  let annualIncome = 0;
+  let costBasis = 0;
+  for (const entry of symbols.values()) {
+    entry.annualIncome = entry.ttmPerShare * entry.openShares;
+    entry.yieldOnCost = entry.costBasis > 0 ? entry.annualIncome / entry.costBasis : null;
+    if (entry.openShares > 0) {
+      annualIncome += entry.annualIncome;
+      costBasis += entry.costBasis;
+    }
+  }
+
+  return {
+    payments,
+    grossAmount,
+    withholdingTax,
+    netAmount,
+    reinvestedAmount,
+    annualIncome,
+    costBasis,
+    yieldOnCost: costBasis > 0 ? annualIncome / costBasis : null,
+    bySymbol: Array.from(symbols.values())
+      .filter(s => s.payments > 0 || s.openShares > 0)
+      .sort((a, b) => b.netAmount - a.netAmount),
+    byMonth: Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month)),
+  };
+}
@@ -0,0 +1,261 @@
+/**
+ * Fee analytics
+ * Combines trading fees from TradeData (Commission, ExchFees) with locate fees
+ * and interest from FeesAndInterest, by symbol and month.
+ *
+ * - Every fee is a positive cost; credit interest is income and only offsets
+ *   fees in netCost
+ * - Options are grouped under their underlying symbol
+ * - Cost per share and per contract divide stock and option trading fees by
+ *   the shares and contracts traded
+ * - Fees as % of gross divide trading fees by the notional traded
+ *   (quantity × price × multiplier)
+ */
+
+import {
+  getMultiplier,
+  getTradePrice,
+  getTradeQuantity,
+  toNumber,
+  type TradeRecord,
+} from './lot-matching';
+
+export type FeeType = 'all' | 'commission' | 'exchange_fee' | 'credit_interest' | 'debit_interest' | 'locate_fee';
+
+// Raw FeesAndInterest row
+export interface FeeActivityRecord {
+  Date: string;
+  Type: string;
+  Symbol?: string | null;
+  Amount: number | string | null;
+}
+
+// FeesAndInterest columns to select when building FeeActivityRecords
+export const FEE_ACTIVITY_COLUMNS = 'Date, Type, Symbol, Amount';
+
+// FeesAndInterest Type for each fee type stored there
+export const FEE_TYPE_CODES: Partial<Record<FeeType, string>> = {
+  credit_interest: 'CreditInt',
+  debit_interest: 'DebitInt',
+  locate_fee: 'LocateFee',
+};
+
+export interface FeeBreakdown {
+  commission: number;
+  exchangeFees: number;
+  locateFees: number;
+  debitInterest: number;
+  creditInterest: number;
+  // FeesAndInterest rows of any other type
+  otherFees: number;
+  // Every charge (credit interest excluded)
+  totalFees: number;
+  // totalFees less credit interest
+  netCost: number;
+}
+
+export interface SymbolFees extends FeeBreakdown {
+  symbol: string;
+  trades: number;
+  shares: number;
+  contracts: number;
+  grossAmount: number;
+  // Commission plus exchange fees
+  tradingFees: number;
+  // Trading fees / gross traded (null without trades)
+  feePercentOfGross: number | null;
+}
+
+export interface MonthlyFees extends FeeBreakdown {
+  month: string; // YYYY-MM (database calendar)
+}
+
+export interface FeeItem {
+  date: string;
+  symbol: string | null;
+  feeType: Exclude<FeeType, 'all'>;
+  amount: number;
+  tradeId?: number | string;
+}
+
+export interface FeeReport {
+  totals: FeeBreakdown;
+  trades: number;
+  shares: number;
+  contracts: number;
+  stockGross: number;
+  optionGross: number;
+  grossAmount: number;
+  // Stock trading fees per share traded (null without stock trades)
+  costPerShare: number | null;
+  // Option trading fees per contract traded (null without option trades)
+  costPerContract: number | null;
+  // Trading fees / gross traded (null without trades)
+  feePercentOfGross: number | null;
+  bySymbol: SymbolFees[];
+  byMonth: MonthlyFees[];
+  // Every fee and interest charge, newest first
+  items: FeeItem[];
+}
+
+const FEE_TYPE_FIELDS: Record<Exclude<FeeType, 'all'>, keyof FeeBreakdown> = {
+  commission: 'commission',
+  exchange_fee: 'exchangeFees',
+  credit_interest: 'creditInterest',
+  debit_interest: 'debitInterest',
+  locate_fee: 'locateFees',
+};
+
+function emptyBreakdown(): FeeBreakdown {
+  return {
+    commission: 0,
+    exchangeFees: 0,
+    locateFees: 0,
+    debitInterest: 0,
+    creditInterest: 0,
+    otherFees: 0,
+    totalFees: 0,
+    netCost: 0,
+  };
+}
+
+function addFee(breakdown: FeeBreakdown, field: keyof FeeBreakdown, amount: number) {
+  breakdown[field] += amount;
+  if (field === 'creditInterest') {
+    breakdown.netCost -= amount;
+  } else {
+    breakdown.totalFees += amount;
+    breakdown.netCost += amount;
+  }
+}
+
+function getFeeTypeForCode(code: string): Exclude<FeeType, 'all'> | null {
+  const match = Object.entries(FEE_TYPE_CODES).find(([, value]) => value === code);
+  return match ? (match[0] as Exclude<FeeType, 'all'>) : null;
+}
+
+/**
+ * Amount of one fee type in a breakdown ('all' is every charge)
+ */
+export function getFeeAmount(breakdown: FeeBreakdown, feeType: FeeType): number {
+  return feeType === 'all' ? breakdown.totalFees : breakdown[FEE_TYPE_FIELDS[feeType]];
+}
+
+/**
+ * Analyze trading fees, locate fees and interest. Rows are expected to be
+ * limited to the period (and symbol) already.
+ */
+export function analyzeFees(trades: TradeRecord[], fees: FeeActivityRecord[]): FeeReport {
+  const totals = emptyBreakdown();
+  const symbols = new Map<string, SymbolFees>();
+  const months = new Map<string, MonthlyFees>();
+  const items: FeeItem[] = [];
+  let shares = 0;
+  let contracts = 0;
+  let stockGross = 0;
+  let optionGross = 0;
+  let stockFees = 0;
+  let optionFees = 0;
+
+  const symbolEntry = (symbol: string) => {
+    let entry = symbols.get(symbol);
+    if (!entry) {
+      entry = {
+        symbol,
+        ...emptyBreakdown(),
+        trades: 0,
+        shares: 0,
+        contracts: 0,
+        grossAmount: 0,
+        tradingFees: 0,
+        feePercentOfGross: null,
+      };
+      symbols.set(symbol, entry);
+    }
+    return entry;
+  };
+
+  const monthEntry = (date: string) => {
+    const month = date.slice(0, 7);
+    let entry = months.get(month);
+    if (!entry) {
+      entry = { month, ...emptyBreakdown() };
+      months.set(month, entry);
+    }
+    return entry;
+  };
+
+  const record = (item: FeeItem) => {
+    if (item.amount === 0) return;
+    const field = FEE_TYPE_FIELDS[item.feeType];
+    addFee(totals, field, item.amount);
+    addFee(monthEntry(item.date), field, item.amount);
+    if (item.symbol) addFee(symbolEntry(item.symbol), field, item.amount);
+    items.push(item);
+  };
+
+  for (const trade of trades) {
+    const symbol = trade.UnderlyingSymbol || trade.Symbol;
+    const quantity = getTradeQuantity(trade);
+    const gross = quantity * getTradePrice(trade) * getMultiplier(trade);
+    const commission = Math.abs(toNumber(trade.Commission));
+    const exchangeFees = Math.abs(toNumber(trade.ExchFees));
+
+    const entry = symbolEntry(symbol);
+    entry.trades += 1;
+    entry.grossAmount += gross;
+    entry.tradingFees += commission + exchangeFees;
+
+    if (trade.SecurityType === 'O') {
+      entry.contracts += quantity;
+      contracts += quantity;
+      optionGross += gross;
+      optionFees += commission + exchangeFees;
+    } else {
+      entry.shares += quantity;
+      shares += quantity;
+      stockGross += gross;
+      stockFees += commission + exchangeFees;
+    }
+
+    record({ date: trade.Date, symbol, feeType: 'commission', amount: commission, tradeId: trade.TradeID });
+    record({ date: trade.Date, symbol, feeType: 'exchange_fee', amount: exchangeFees, tradeId: trade.TradeID });
+  }
+
+  for (const fee of fees) {
+    const amount = Math.abs(toNumber(fee.Amount));
+    const feeType = getFeeTypeForCode(fee.Type);
+    if (feeType) {
+      record({ date: fee.Date, symbol: fee.Symbol || null, feeType, amount });
+    } else if (amount !== 0) {
+      // Unknown types still cost money; they count toward totals but have no fee type of their own
+      addFee(totals, 'otherFees', amount);
+      addFee(monthEntry(fee.Date), 'otherFees', amount);
+      if (fee.Symbol) addFee(symbolEntry(fee.Symbol), 'otherFees', amount);
+    }
+  }
+
+  for (const entry of symbols.values()) {
+    entry.feePercentOfGross = entry.grossAmount > 0 ? entry.tradingFees / entry.grossAmount : null;
+  }
+
+  const grossAmount = stockGross + optionGross;
+
+  return {
+    totals,
+    trades: trades.length,
+    shares,
+    contracts,
+    stockGross,
+    optionGross,
+    grossAmount,
+    costPerShare: shares > 0 ? stockFees / shares : null,
+    costPerContract: contracts > 0 ? optionFees / contracts : null,
+    feePercentOfGross: grossAmount > 0 ? (stockFees + optionFees) / grossAmount : null,
+    bySymbol: Array.from(symbols.values())
+      .filter(s => s.totalFees > 0 || s.creditInterest > 0)
+      .sort((a, b) => b.totalFees - a.totalFees),
+    byMonth: Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month)),
+    items: items.sort((a, b) => b.date.localeCompare(a.date)),
+  };
+}
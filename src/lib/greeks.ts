@@ -0,0 +1,223 @@
+/**
+ * Greeks exposure
+ * Prices every open option contract with Black-Scholes and rolls the Greeks up
+ * per underlying, together with the stock held, into net delta.
+ *
+ * - Open positions come from the positions engine (one per series and side)
+ * - The underlying price is the latest stock fill unless spot prices are supplied
+ * - Dividends enter as a continuous yield: trailing 12-month dividends / spot
+ * - Implied volatility is solved from the average opening premium, using the
+ *   underlying price and time to expiration on the day the position was opened;
+ *   when it cannot be solved the default volatility is used instead
+ * - Per-contract Greeks are per share of a long contract; position Greeks are
+ *   signed by side and scaled by contracts × 100 (delta in share equivalents,
+ *   theta and vega in dollars)
+ */
+
+import {
+  OPTION_MULTIPLIER,
+  type LotMatchOptions,
+  type LotSide,
+  type TradeRecord,
+} from './lot-matching';
+import { computeOpenPositions } from './positions';
+import { getStockPriceHistory, priceOnOrBefore } from './pnl';
+import {
+  blackScholes,
+  impliedVolatility,
+  yearsBetween,
+  DEFAULT_RISK_FREE_RATE,
+  type OptionRight,
+} from './black-scholes';
+
+// Volatility used when implied volatility cannot be solved from the premium
+export const DEFAULT_VOLATILITY = 0.3;
+
+export interface GreeksOptions extends LotMatchOptions {
+  // Valuation date (YYYY-MM-DD); series expiring before it are no longer held
+  asOf: string;
+  rate?: number;
+  // Trailing 12-month dividends per share by underlying, turned into a yield at the spot price
+  annualDividends?: Record<string, number>;
+  // Current underlying prices; falls back to the latest stock fill
+  spots?: Record<string, number>;
+}
+
+export interface ContractGreeks {
+  instrumentKey: string;
+  underlying: string;
+  expiration: string;
+  strike: number;
+  callPut: OptionRight;
+  side: LotSide;
+  contracts: number;
+  averagePremium: number;
+  spot: number;
+  daysToExpiration: number;
+  impliedVolatility: number | null;
+  volatilitySource: 'implied' | 'default';
+  // Per share of one long contract
+  theoreticalValue: number;
+  delta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  // Position totals, signed by side
+  positionDelta: number;
+  positionGamma: number;
+  positionTheta: number;
+  positionVega: number;
+}
+
+export interface UnderlyingGreeks {
+  underlying: string;
+  spot: number;
+  // Net long minus short shares
+  stockShares: number;
+  optionDelta: number;
+  // Option delta plus stock, in shares
+  netDelta: number;
+  // Net delta × spot
+  dollarDelta: number;
+  gamma: number;
+  theta: number;
+  vega: number;
+  contracts: ContractGreeks[];
+}
+
+export interface GreeksReport {
+  asOf: string;
+  rate: number;
+  contracts: ContractGreeks[];
+  byUnderlying: UnderlyingGreeks[];
+  // Contracts skipped because no underlying price is known
+  unpriced: string[];
+  dollarDelta: number;
+  theta: number;
+  vega: number;
+}
+
+/**
+ * Compute Greeks for open option positions and net delta per underlying
+ */
+export function computeGreeksExposure(trades: TradeRecord[], options: GreeksOptions): GreeksReport {
+  const rate = options.rate ?? DEFAULT_RISK_FREE_RATE;
+  const { positions } = computeOpenPositions(trades, options);
+  const history = getStockPriceHistory(trades);
+
+  const spotFor = (underlying: string) =>
+    options.spots?.[underlying] ?? priceOnOrBefore(history.get(underlying), options.asOf);
+
+  const contracts: ContractGreeks[] = [];
+  const unpriced: string[] = [];
+  const underlyings = new Map<string, UnderlyingGreeks>();
+
+  const groupFor = (underlying: string, spot: number) => {
+    let group = underlyings.get(underlying);
+    if (!group) {
+      group = {
+        underlying, spot, stockShares: 0, optionDelta: 0, netDelta: 0, dollarDelta: 0,
+        gamma: 0, theta: 0, vega: 0, contracts: [],
+      };
+      underlyings.set(underlying, group);
+    }
+    return group;
+  };
+
+  for (const position of positions) {
+    const spot = spotFor(position.underlying);
+
+    if (!position.series) {
+      if (spot !== null) {
+        groupFor(position.underlying, spot).stockShares += position.side === 'long' ? position.quantity : -position.quantity;
+      }
+      continue;
+    }
+
+    if (spot === null) {
+      unpriced.push(position.instrumentKey);
+      continue;
+    }
+
+    const { expiration, strike, callPut } = position.series;
+    const dividendYield = (options.annualDividends?.[position.underlying] ?? 0) / spot;
+
+    // Solve volatility from the opening premium with the market as it was that day
+    const openSpot = priceOnOrBefore(history.get(position.underlying), position.openedDate) ?? spot;
+    const iv = impliedVolatility(position.averagePrice, {
+      spot: openSpot,
+      strike,
+      time: yearsBetween(position.openedDate, expiration),
+      rate,
+      dividendYield,
+      callPut,
+    });
+    const volatility = iv ?? DEFAULT_VOLATILITY;
+
+    const greeks = blackScholes({
+      spot,
+      strike,
+      time: Math.max(0, yearsBetween(options.asOf, expiration)),
+      volatility,
+      rate,
+      dividendYield,
+      callPut,
+    });
+
+    const scale = (position.side === 'long' ? 1 : -1) * position.quantity * OPTION_MULTIPLIER;
+    const contract: ContractGreeks = {
+      instrumentKey: position.instrumentKey,
+      underlying: position.underlying,
+      expiration,
+      strike,
+      callPut,
+      side: position.side,
+      contracts: position.quantity,
+      averagePremium: position.averagePrice,
+      spot,
+      daysToExpiration: Math.max(0, Math.round(yearsBetween(options.asOf, expiration) * 365)),
+      impliedVolatility: iv,
+      volatilitySource: iv === null ? 'default' : 'implied',
+      theoreticalValue: greeks.price,
+      delta: greeks.delta,
+      gamma: greeks.gamma,
+      theta: greeks.theta,
+      vega: greeks.vega,
+      positionDelta: greeks.delta * scale,
+      positionGamma: greeks.gamma * scale,
+      positionTheta: greeks.theta * scale,
+      positionVega: greeks.vega * scale,
+    };
+    contracts.push(contract);
+
+    const group = groupFor(position.underlying, spot);
+    group.optionDelta += contract.positionDelta;
+    group.gamma += contract.positionGamma;
+    group.theta += contract.positionTheta;
+    group.vega += contract.positionVega;
+    group.contracts.push(contract);
+  }
+
+  let dollarDelta = 0;
+  let theta = 0;
+  let vega = 0;
+  for (const group of underlyings.values()) {
+    group.netDelta = group.optionDelta + group.stockShares;
+    group.dollarDelta = group.netDelta * group.spot;
+    dollarDelta += group.dollarDelta;
+    theta += group.theta;
+    vega += group.vega;
+  }
+
+  return {
+    asOf: options.asOf,
+    rate,
+    contracts,
+    byUnderlying: Array.from(underlyings.values())
+      .sort((a, b) => Math.abs(b.dollarDelta) - Math.abs(a.dollarDelta)),
+    unpriced,
+    dollarDelta,
+    theta,
+    vega,
+  };
+}
@@ -33,6 +33,48 @@ export const intentRegistry: IntentDefinition[] = [
     requiredEntities: ['symbol'],
     optionalEntities: ['timePeriod', 'tradeType'],
   },
+  {
+    id: 'account.alerts',
+    domain: 'account',
+    cardType: 'alert',
+    description: 'User asks to be alerted or notified when a price is crossed, a position P&L passes an amount, options near expiry, margin excess gets low or fees spike, or asks to see their alerts',
+    examples: [
+      'Alert me when my TSLA short puts are 3 days from expiry',
+      'Notify me if NVDA drops below $100',
+      'Tell me if my margin excess falls below 15%',
+      'Show my alerts',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['alertType', 'symbol', 'alertDirection', 'alertThreshold', 'alertDays', 'callPut', 'alertSide'],
+  },
+  {
+    id: 'positions.watchlist',
+    domain: 'positions',
+    cardType: 'watchlist',
+    description: 'User adds or removes a symbol on a watchlist, or asks how a watchlist did (price change, last trade, position and P&L per symbol)',
+    examples: [
+      'Add AMD to my tech watchlist',
+      'Remove Intel from my watchlist',
+      'How did my watchlist do this week?',
+      'Show my semis watchlist',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['watchlist', 'watchlistAction', 'symbol', 'timePeriod'],
+  },
+  {
+    id: 'trades.journal',
+    domain: 'trades',
+    cardType: 'journal',
+    description: 'User asks about trades by trade journal tag or setup (e.g. earnings plays, breakouts), or P&L by tag',
+    examples: [
+      'Show my earnings-play trades',
+      'Trades tagged breakout',
+      'What is my P&L by tag?',
+      'How did my #momentum trades do?',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['tag', 'symbol', 'timePeriod'],
+  },
   {
     id: 'trades.time_based',
     domain: 'trades',
@@ -88,6 +130,34 @@ export const intentRegistry: IntentDefinition[] = [
     requiredEntities: ['symbol'],
     optionalEntities: ['tradeType', 'timePeriod'],
   },
+  {
+    id: 'trades.cost_basis',
+    domain: 'trades',
+    cardType: 'cost-basis',
+    description: 'User asks how realized gains or cost basis would change under a cost-basis method (FIFO, LIFO, HIFO, average cost, specific lot), or which method they use',
+    examples: [
+      'What would my gain be under HIFO?',
+      'Compare FIFO and LIFO for Tesla',
+      'What if I used average cost on NVDA this year?',
+      'Which cost basis method am I using?',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['costBasisMethod', 'symbol', 'timePeriod'],
+  },
+  {
+    id: 'trades.pnl',
+    domain: 'trades',
+    cardType: 'pnl',
+    description: 'User asks how much they made or lost overall, realized vs unrealized P&L, or P&L by symbol/month (portfolio-wide or for a symbol)',
+    examples: [
+      'How much have I made this year?',
+      'What is my realized and unrealized P&L?',
+      'P&L on Tesla last month',
+      'Am I up or down on NVDA?',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['symbol', 'timePeriod'],
+  },
 
   // === OPTIONS DOMAIN ===
   {
@@ -156,6 +226,59 @@ export const intentRegistry: IntentDefinition[] = [
     requiredEntities: [],
     optionalEntities: ['symbol', 'tradeType', 'timePeriod'],
   },
+  {
+    id: 'options.lifecycle',
+    domain: 'options',
+    cardType: 'option-lifecycle',
+    description: 'User asks how their options ended: closed, expired worthless, assigned or exercised',
+    examples: [
+      'Which of my puts got assigned?',
+      'Did my TSLA calls expire worthless?',
+      'What happened to my options last month?',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['symbol', 'timePeriod'],
+  },
+  {
+    id: 'options.strategies',
+    domain: 'options',
+    cardType: 'strategies',
+    description: 'User asks about multi-leg option strategies (spreads, iron condors, straddles, strangles, covered calls) with net credit/debit, max profit/loss and breakevens',
+    examples: [
+      'Show my iron condors on SPY',
+      'What spreads did I open last month?',
+      'What is the breakeven on my TSLA straddle?',
+      'List my covered calls',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['symbol', 'strategy', 'timePeriod'],
+  },
+  {
+    id: 'options.rolls',
+    domain: 'options',
+    cardType: 'rolls',
+    description: 'User asks about rolled options: a position bought back or sold and replaced the same day in a new strike or expiration, with the cumulative credit/debit and final outcome of each roll chain',
+    examples: [
+      'Show my rolled puts on TSLA',
+      'How much credit have I collected rolling my SPY calls?',
+      'What happened to the options I rolled last month?',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['symbol', 'timePeriod'],
+  },
+  {
+    id: 'options.premium_income',
+    domain: 'options',
+    cardType: 'premium-income',
+    description: 'User asks how much income their short puts or covered calls made (wheel strategy), net of buybacks, and the annualized return on collateral',
+    examples: [
+      'How much income did my short puts make this month?',
+      'What yield am I getting on my covered calls?',
+      'Show my wheel strategy premium income by month',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['symbol', 'timePeriod'],
+  },
 
   // === ACCOUNT DOMAIN ===
   {
@@ -174,20 +297,182 @@ export const intentRegistry: IntentDefinition[] = [
     requiredEntities: ['accountQueryType'],
     optionalEntities: ['timePeriod'],
   },
+  {
+    id: 'account.margin_health',
+    domain: 'account',
+    cardType: 'margin',
+    description: 'User asks about margin health over time: active margin warnings, house or fed deficits, excess cushion as a share of equity, SMA drops, margin alert history',
+    examples: [
+      'Do I have any margin warnings?',
+      'Was I ever in a house deficit?',
+      'Show my margin health',
+      'Margin alerts this month',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['timePeriod'],
+  },
+  {
+    id: 'account.margin_stress',
+    domain: 'account',
+    cardType: 'margin-stress',
+    description: 'User asks a what-if margin question: how a price drop or rise in one symbol or the whole portfolio would change equity, house and fed requirements and excess or deficit',
+    examples: [
+      'What happens to my margin if NVDA drops 20%?',
+      'Stress test my account for a 10% market drop',
+      'Would I get a margin call if Tesla fell 30 percent?',
+    ],
+    requiredEntities: ['shockPercent'],
+    optionalEntities: ['symbol'],
+  },
+  {
+    id: 'account.performance',
+    domain: 'account',
+    cardType: 'performance',
+    description: 'User asks how the account performed: time-weighted or money-weighted return (IRR), monthly/quarterly/year-to-date returns, excluding deposits and withdrawals',
+    examples: [
+      'What is my time-weighted return this year?',
+      'How has my portfolio performed?',
+      'Show my monthly returns',
+      'What is my IRR?',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['timePeriod'],
+  },
+  {
+    id: 'account.risk',
+    domain: 'account',
+    cardType: 'risk',
+    description: 'User asks about portfolio risk: max drawdown (peak, trough, recovery), volatility of the equity curve, Sharpe or Sortino ratio, or worst days',
+    examples: [
+      'What was my worst drawdown this year?',
+      'What is my Sharpe ratio?',
+      'How volatile is my portfolio?',
+      'Show my worst days',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['timePeriod'],
+  },
+  {
+    id: 'account.benchmark',
+    domain: 'account',
+    cardType: 'benchmark',
+    description: 'User compares the account with a benchmark index ETF (SPY by default, or QQQ, DIA, IWM): did they beat the market, excess return, alpha, beta',
+    examples: [
+      'Compare my performance to SPY',
+      'Did I beat the S&P 500 this year?',
+      'What is my alpha and beta?',
+      'How did I do versus QQQ?',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['symbol', 'timePeriod'],
+  },
 
   // === FEES DOMAIN ===
   {
     id: 'fees.query',
     domain: 'fees',
     cardType: 'fees',
-    description: 'User asks about fees, commissions, interest charges, or locate fees',
+    description: 'User asks about fees, commissions, exchange fees, interest charges, locate fees, or cost per share/contract',
     examples: [
       'How much did I pay in commissions?',
       'Interest charges this month',
       'Locate fees for GME',
       'Total fees last year',
+      'Exchange fees on TSLA',
+      'What is my cost per contract?',
     ],
     requiredEntities: ['feeType'],
     optionalEntities: ['symbol', 'timePeriod'],
   },
+
+  // === POSITIONS DOMAIN ===
+  {
+    id: 'positions.open',
+    domain: 'positions',
+    cardType: 'positions',
+    description: 'User asks what they currently hold: open stock (long or short) and open option contracts, for a symbol or the whole account',
+    examples: [
+      'What am I holding in NVDA?',
+      'Show my open positions',
+      'Am I short any Tesla?',
+      'How many shares of Apple do I have?',
+      'What option contracts do I have open?',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['symbol'],
+  },
+
+  {
+    id: 'positions.greeks',
+    domain: 'positions',
+    cardType: 'greeks',
+    description: 'User asks about option Greeks or directional exposure: net delta, gamma, theta, vega or implied volatility of open positions',
+    examples: [
+      "What's my net delta on SPY?",
+      'Show my Greeks exposure',
+      'How much theta am I collecting per day?',
+      'What is the implied volatility on my TSLA calls?',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['symbol'],
+  },
+
+  // === DIVIDENDS DOMAIN ===
+  {
+    id: 'dividends.summary',
+    domain: 'dividends',
+    cardType: 'dividends',
+    description: 'User asks how much they received in dividends or distributions, overall, by month, or for a symbol',
+    examples: [
+      'How much did I earn in dividends this year?',
+      'Show my dividends by month',
+      'What dividends did Apple pay me?',
+      'Dividend income last quarter',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['symbol', 'timePeriod'],
+  },
+  {
+    id: 'dividends.yield',
+    domain: 'dividends',
+    cardType: 'dividends',
+    description: 'User asks about dividend yield on cost or expected annual dividend income from current holdings',
+    examples: [
+      'What is my yield on cost for MSFT?',
+      'How much dividend income do my holdings generate per year?',
+      "What's my portfolio dividend yield?",
+    ],
+    requiredEntities: [],
+    optionalEntities: ['symbol'],
+  },
+
+  // === TAX DOMAIN ===
+  {
+    id: 'tax.wash_sales',
+    domain: 'tax',
+    cardType: 'wash-sales',
+    description: 'User asks about wash sales, disallowed losses, or whether selling at a loss and rebuying affects their taxes',
+    examples: [
+      'Did I trigger a wash sale on TSLA?',
+      'Show my wash sales this year',
+      'Any disallowed losses on Apple?',
+      'Will rebuying NVDA cause a wash sale?',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['symbol', 'timePeriod'],
+  },
+  {
+    id: 'tax.export_lots',
+    domain: 'tax',
+    cardType: 'tax-lots',
+    description: 'User wants their tax lots, Form 8949, Schedule D totals, or a capital gains export for a tax year',
+    examples: [
+      'Export my tax lots for 2025',
+      'Generate my Form 8949',
+      'What are my Schedule D totals this year?',
+      'Download my capital gains report for last year',
+    ],
+    requiredEntities: [],
+    optionalEntities: ['timePeriod'],
+  },
 ];
@@ -35,10 +35,33 @@ ${intents.map(i => `### ${i.id}
   - "margin" / "margin requirement" / "overnight margin" -> "overnight_margin"
   - "market value" / "position value" / "total value" -> "market_value"
 - **feeType**: Infer from context:
-  - "commission" / "commissions" / "trading fees" -> "commission"
+  - "fees" (general) / "total fees" / "all fees" / "cost per share" / "cost per contract" -> "all"
+  - "commission" / "commissions" -> "commission"
+  - "exchange fees" / "regulatory fees" / "reg fees" -> "exchange_fee"
   - "credit interest" / "interest earned" -> "credit_interest"
   - "debit interest" / "margin interest" / "interest charged" / "short interest" -> "debit_interest"
   - "locate fee" / "borrow fee" / "stock borrow" -> "locate_fee"
+- **costBasisMethod**: Lot relief method the user asks about:
+  - "FIFO" / "first in first out" -> "fifo"
+  - "LIFO" / "last in first out" -> "lifo"
+  - "HIFO" / "highest in first out" / "highest cost" -> "hifo"
+  - "average cost" / "average basis" -> "average"
+  - "specific lot" / "spec ID" / "specific identification" -> "specific"
+- **strategy**: Multi-leg option strategy named in the query, singular and lowercase:
+  - "iron condors" -> "iron condor", "covered calls" -> "covered call", "straddles" -> "straddle"
+  - "spreads" / "verticals" -> "spread"
+- **shockPercent**: Price move in a what-if margin question, in percent, negative for a drop:
+  - "drops 20%" / "falls 20 percent" / "down 20%" -> -20, "rallies 10%" / "up 10%" -> 10
+- **tag**: Trade journal tag, lowercase and hyphenated:
+  - "earnings play trades" / "#earnings-play" / "tagged earnings play" -> "earnings-play"
+- **watchlist**: Watchlist name without the word "watchlist", lowercase; leave out for "my watchlist":
+  - "my tech watchlist" -> "tech", "the semis watchlist" -> "semis"
+- **watchlistAction**: "add" when adding a symbol to a watchlist, "remove" when removing one; leave out when only asking how it did
+- **alertType**: What an alert request watches: "price_cross", "position_pnl", "option_expiry", "margin_excess" or "fee_spike"; leave out when only listing alerts
+- **alertDirection**: "above" or "below" for price and P&L alerts ("drops below" -> "below", "up $1,000" -> "above")
+- **alertThreshold**: Number only: the price, the P&L amount (negative for a loss), the margin excess percent, or the fee multiple ("double" -> 2)
+- **alertDays**: Days before expiry for option alerts, or the fee window in days ("a week" -> 7)
+- **alertSide**: "short" or "long" when an expiry alert names the side ("my short puts" -> "short")
 
 ## Response Format
 
@@ -67,6 +90,63 @@ Response: {"intent": "options.expiring", "confidence": 0.98, "entities": {"expir
 Query: "How much buying power do I have?"
 Response: {"intent": "account.summary", "confidence": 0.92, "entities": {"accountQueryType": "buying_power"}}
 
+Query: "Do I have any margin warnings?"
+Response: {"intent": "account.margin_health", "confidence": 0.94, "entities": {}}
+
+Query: "Alert me when my TSLA short puts are 3 days from expiry"
+Response: {"intent": "account.alerts", "confidence": 0.95, "entities": {"symbol": "TSLA", "alertType": "option_expiry", "alertDays": 3, "callPut": "put", "alertSide": "short"}}
+
+Query: "Add AMD to my tech watchlist"
+Response: {"intent": "positions.watchlist", "confidence": 0.95, "entities": {"symbol": "AMD", "watchlist": "tech", "watchlistAction": "add"}}
+
+Query: "What happens to my margin if NVDA drops 20%?"
+Response: {"intent": "account.margin_stress", "confidence": 0.95, "entities": {"symbol": "NVDA", "shockPercent": -20}}
+
+Query: "What's my time-weighted return this year?"
+Response: {"intent": "account.performance", "confidence": 0.95, "entities": {"timePeriod": "this year"}}
+
+Query: "What was my worst drawdown this year?"
+Response: {"intent": "account.risk", "confidence": 0.95, "entities": {"timePeriod": "this year"}}
+
+Query: "Compare my performance to SPY"
+Response: {"intent": "account.benchmark", "confidence": 0.95, "entities": {"symbol": "SPY"}}
+
+Query: "How much have I made this year?"
+Response: {"intent": "trades.pnl", "confidence": 0.93, "entities": {"timePeriod": "this year"}}
+
+Query: "Which of my AAPL puts got assigned?"
+Response: {"intent": "options.lifecycle", "confidence": 0.94, "entities": {"symbol": "AAPL"}}
+
+Query: "Show my earnings-play trades"
+Response: {"intent": "trades.journal", "confidence": 0.94, "entities": {"tag": "earnings-play"}}
+
+Query: "Show my iron condors on SPY"
+Response: {"intent": "options.strategies", "confidence": 0.95, "entities": {"symbol": "SPY", "strategy": "iron condor"}}
+
+Query: "Show my rolled puts on TSLA"
+Response: {"intent": "options.rolls", "confidence": 0.95, "entities": {"symbol": "TSLA"}}
+
+Query: "How much income did my short puts make this month?"
+Response: {"intent": "options.premium_income", "confidence": 0.94, "entities": {"timePeriod": "this month"}}
+
+Query: "What am I holding in NVDA?"
+Response: {"intent": "positions.open", "confidence": 0.95, "entities": {"symbol": "NVDA"}}
+
+Query: "What's my net delta on SPY?"
+Response: {"intent": "positions.greeks", "confidence": 0.96, "entities": {"symbol": "SPY"}}
+
+Query: "How much did I earn in dividends this year?"
+Response: {"intent": "dividends.summary", "confidence": 0.95, "entities": {"timePeriod": "this year"}}
+
+Query: "Did I trigger a wash sale on TSLA?"
+Response: {"intent": "tax.wash_sales", "confidence": 0.96, "entities": {"symbol": "TSLA"}}
+
+Query: "Export my tax lots for 2025"
+Response: {"intent": "tax.export_lots", "confidence": 0.95, "entities": {"timePeriod": "2025"}}
+
+Query: "What would my gain on Apple be under HIFO?"
+Response: {"intent": "trades.cost_basis", "confidence": 0.94, "entities": {"symbol": "AAPL", "costBasisMethod": "hifo"}}
+
 Query: "Show all my short calls on Tesla last month"
 Response: {"intent": "options.bulk", "confidence": 0.96, "entities": {"symbol": "TSLA", "callPut": "call", "tradeType": "sell", "timePeriod": "last month"}}`;
 }
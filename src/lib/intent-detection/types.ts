@@ -2,7 +2,9 @@
 // These types are used for GPT-based intent classification
 
 import type { AccountQueryType } from '@/src/components/generative-ui/AccountSummary';
-import type { FeeType } from '@/src/components/generative-ui/FeesSummary';
+import type { CostBasisMethod } from '@/src/lib/cost-basis';
+import type { FeeType } from '@/src/lib/fees';
+import type { AlertDirection, AlertRuleType } from '@/src/lib/alerts';
 
 // Card types that map to UI components
 export type CardType =
@@ -19,7 +21,26 @@ export type CardType =
   | 'expiring-options'
   | 'last-option'
   | 'account-balance'
-  | 'fees';
+  | 'fees'
+  | 'cost-basis'
+  | 'pnl'
+  | 'wash-sales'
+  | 'tax-lots'
+  | 'dividends'
+  | 'positions'
+  | 'option-lifecycle'
+  | 'strategies'
+  | 'greeks'
+  | 'premium-income'
+  | 'rolls'
+  | 'performance'
+  | 'risk'
+  | 'benchmark'
+  | 'margin'
+  | 'margin-stress'
+  | 'journal'
+  | 'watchlist'
+  | 'alert';
 
 // Domain categories for intents
 export type IntentDomain = 'trades' | 'options' | 'account' | 'fees' | 'positions' | 'dividends' | 'tax';
@@ -43,6 +64,17 @@ export interface ExtractedEntities {
   callPut?: 'call' | 'put';
   accountQueryType?: AccountQueryType;
   feeType?: FeeType;
+  costBasisMethod?: CostBasisMethod;
+  strategy?: string;
+  shockPercent?: number;
+  tag?: string;
+  watchlist?: string;
+  watchlistAction?: 'add' | 'remove';
+  alertType?: AlertRuleType;
+  alertDirection?: AlertDirection;
+  alertThreshold?: number;
+  alertDays?: number;
+  alertSide?: 'long' | 'short';
   expiration?: string;
   strike?: number;
   limit?: number;
@@ -0,0 +1,265 @@
+/**
+ * Trade journal
+ * Notes, tags and a setup attached to individual TradeData rows, stored in
+ * TradeJournal (one entry per account and TradeID).
+ *
+ * - Tags are normalized to lowercase and hyphenated ("Earnings Play" and
+ *   "#earnings-play" are the same tag)
+ * - An entry with no notes, tags or setup is deleted rather than stored
+ * - P&L by tag is realized P&L from the lot-matching engine: a closed lot counts
+ *   toward every tag on its opening or closing trade
+ * - Whole-account loads are paged; loads for a list of trades go in batches so
+ *   the TradeID filter stays within URL limits
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ClosedLot } from './lot-matching';
+import { fetchAllRows } from './paged-query';
+
+// TradeIDs per .in() filter; the ids travel in the request URL
+const TRADE_ID_BATCH_SIZE = 200;
+
+// Raw TradeJournal row
+export interface JournalRecord {
+  TradeID: number | string;
+  Notes: string | null;
+  Tags: string[] | null;
+  Setup: string | null;
+  updated_at: string | null;
+}
+
+// TradeJournal columns to select when building JournalRecords
+export const JOURNAL_COLUMNS = 'TradeID, Notes, Tags, Setup, updated_at';
+
+export interface JournalEntry {
+  tradeId: number;
+  notes: string;
+  tags: string[];
+  setup: string | null;
+  updatedAt: string | null;
+}
+
+export interface JournalInput {
+  tradeId: number;
+  notes?: string | null;
+  tags?: string[];
+  setup?: string | null;
+}
+
+export interface TagPnL {
+  tag: string;
+  trades: number;
+  closedLots: number;
+  realizedPnL: number;
+  wins: number;
+  losses: number;
+  // Share of closed lots with a gain (null without closed lots)
+  winRate: number | null;
+}
+
+// TradeIDs are integers; anything else would match no trade (or NaN would reach the query)
+export function parseTradeId(value: string): number | null {
+  const tradeId = Number(value);
+  return value.trim() !== '' && Number.isInteger(tradeId) ? tradeId : null;
+}
+
+/**
+ * Lowercase, hyphenated tag without a leading '#'
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Normalized, de-duplicated tags (empty tags dropped)
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normalizeTag).filter(tag => tag !== '')));
+}
+
+export function toJournalEntry(row: JournalRecord): JournalEntry {
+  return {
+    tradeId: Number(row.TradeID),
+    notes: row.Notes ?? '',
+    tags: row.Tags ?? [],
+    setup: row.Setup || null,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Journal entries by TradeID, optionally limited to some trades
+ */
+export async function loadJournalEntries(
+  supabase: SupabaseClient,
+  accountCode: string,
+  tradeIds?: Array<number | string>
+): Promise<Record<number, JournalEntry>> {
+  const rows: JournalRecord[] = [];
+
+  if (tradeIds) {
+    const ids = Array.from(new Set(tradeIds.map(Number)));
+    for (let start = 0; start < ids.length; start += TRADE_ID_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('TradeJournal')
+        .select(JOURNAL_COLUMNS)
+        .eq('AccountCode', accountCode)
+        .in('TradeID', ids.slice(start, start + TRADE_ID_BATCH_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to load journal entries: ${error.message}`);
+      }
+      rows.push(...((data || []) as JournalRecord[]));
+    }
+  } else {
+    const { data, error } = await fetchAllRows(
+      supabase
+        .from('TradeJournal')
+        .select(JOURNAL_COLUMNS)
+        .eq('AccountCode', accountCode)
+        .order('TradeID', { ascending: true })
+    );
+
+    if (error) {
+      throw new Error(`Failed to load journal entries: ${error.message}`);
+    }
+    rows.push(...((data || []) as JournalRecord[]));
+  }
+
+  const entries: Record<number, JournalEntry> = {};
+  for (const row of rows) {
+    const entry = toJournalEntry(row);
+    entries[entry.tradeId] = entry;
+  }
+  return entries;
+}
+
+/**
+ * TradeIDs carrying a tag
+ */
+export async function findTradeIdsByTag(
+  supabase: SupabaseClient,
+  accountCode: string,
+  tag: string
+): Promise<number[]> {
+  const { data, error } = await fetchAllRows(
+    supabase
+      .from('TradeJournal')
+      .select('TradeID')
+      .eq('AccountCode', accountCode)
+      .contains('Tags', [normalizeTag(tag)])
+      .order('TradeID', { ascending: true })
+  );
+
+  if (error) {
+    throw new Error(`Failed to look up journal tag: ${error.message}`);
+  }
+
+  return (data || []).map(row => Number(row.TradeID));
+}
+
+/**
+ * Create, update or (when empty) delete the entry for a trade. Returns the stored entry, or null once deleted.
+ */
+export async function saveJournalEntry(
+  supabase: SupabaseClient,
+  accountCode: string,
+  input: JournalInput
+): Promise<JournalEntry | null> {
+  const notes = input.notes?.trim() || null;
+  const tags = normalizeTags(input.tags ?? []);
+  const setup = input.setup?.trim() || null;
+
+  if (!notes && tags.length === 0 && !setup) {
+    await deleteJournalEntry(supabase, accountCode, input.tradeId);
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('TradeJournal')
+    .upsert(
+      {
+        AccountCode: accountCode,
+        TradeID: input.tradeId,
+        Notes: notes,
+        Tags: tags,
+        Setup: setup,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'AccountCode,TradeID' }
+    )
+    .select(JOURNAL_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save journal entry: ${error.message}`);
+  }
+
+  return toJournalEntry(data as JournalRecord);
+}
+
+export async function deleteJournalEntry(
+  supabase: SupabaseClient,
+  accountCode: string,
+  tradeId: number
+): Promise<void> {
+  const { error } = await supabase
+    .from('TradeJournal')
+    .delete()
+    .eq('AccountCode', accountCode)
+    .eq('TradeID', tradeId);
+
+  if (error) {
+    throw new Error(`Failed to delete journal entry: ${error.message}`);
+  }
+}
+
+/**
+ * Realized P&L by tag, largest gain first
+ */
+export function computeTagPnL(closedLots: ClosedLot[], entries: Record<number, JournalEntry>): TagPnL[] {
+  const byTag = new Map<string, TagPnL & { tradeIds: Set<number> }>();
+
+  const groupFor = (tag: string) => {
+    let group = byTag.get(tag);
+    if (!group) {
+      group = { tag, trades: 0, closedLots: 0, realizedPnL: 0, wins: 0, losses: 0, winRate: null, tradeIds: new Set() };
+      byTag.set(tag, group);
+    }
+    return group;
+  };
+
+  // Every tagged trade counts, closed or not
+  for (const entry of Object.values(entries)) {
+    for (const tag of entry.tags) groupFor(tag).tradeIds.add(entry.tradeId);
+  }
+
+  for (const lot of closedLots) {
+    const tags = new Set([
+      ...(entries[Number(lot.buyTradeId)]?.tags ?? []),
+      ...(entries[Number(lot.sellTradeId)]?.tags ?? []),
+    ]);
+    for (const tag of tags) {
+      const group = groupFor(tag);
+      group.closedLots += 1;
+      group.realizedPnL += lot.profitLoss;
+      if (lot.profitLoss > 0) group.wins += 1;
+      else if (lot.profitLoss < 0) group.losses += 1;
+    }
+  }
+
+  return Array.from(byTag.values())
+    .map(({ tradeIds, ...group }) => ({
+      ...group,
+      trades: tradeIds.size,
+      winRate: group.closedLots > 0 ? group.wins / group.closedLots : null,
+    }))
+    .sort((a, b) => b.realizedPnL - a.realizedPnL);
+}
@@ -0,0 +1,301 @@
+/**
+ * Lot matching engine
+ * Replays TradeData rows in chronological order and matches closing fills
+ * against open lots of the same instrument, relieving lots according to the
+ * account's cost-basis method (FIFO, LIFO, HIFO, average cost, specific lot).
+ *
+ * - Lots are split across partial fills (a 100-share buy sold as 2×50 yields two closed lots)
+ * - A sell with no open long lot opens a short lot; a later buy covers it
+ * - Option quantities are contracts and use a 100× multiplier
+ * - Commission and ExchFees are included in basis (opening fills) and
+ *   deducted from proceeds (closing fills), allocated pro rata by quantity
+ */
+
+export const OPTION_MULTIPLIER = 100;
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo' | 'average' | 'specific';
+
+// Specific-lot elections: closing TradeID -> opening TradeIDs to relieve, in order
+export type LotSelections = Record<string, Array<number | string>>;
+
+export interface LotMatchOptions {
+  method?: CostBasisMethod;
+  lotSelections?: LotSelections;
+}
+
+// Raw TradeData row (only the columns the engine needs)
+export interface TradeRecord {
+  TradeID: number | string;
+  Date: string;
+  TradeTimeStamp?: string | null;
+  SecurityType: string;
+  TradeType: string;
+  Symbol: string;
+  UnderlyingSymbol?: string | null;
+  Expiration?: string | null;
+  Strike?: number | string | null;
+  'Call/Put'?: string | null;
+  StockTradePrice?: number | string | null;
+  OptionTradePremium?: number | string | null;
+  StockShareQty?: number | string | null;
+  OptionContracts?: number | string | null;
+  Commission?: number | string | null;
+  ExchFees?: number | string | null;
+}
+
+// TradeData columns to select when building TradeRecords
+export const TRADE_RECORD_COLUMNS =
+  'TradeID, Date, TradeTimeStamp, SecurityType, TradeType, Symbol, UnderlyingSymbol, Expiration, Strike, "Call/Put", StockTradePrice, OptionTradePremium, StockShareQty, OptionContracts, Commission, ExchFees';
+
+export type LotSide = 'long' | 'short';
+
+export interface OpenLot {
+  instrumentKey: string;
+  symbol: string;
+  underlying: string;
+  securityType: string;
+  side: LotSide;
+  tradeId: number | string;
+  openDate: string;
+  quantity: number;
+  price: number;
+  multiplier: number;
+  // Opening fees still attached to the remaining quantity
+  fees: number;
+}
+
+export interface ClosedLot {
+  instrumentKey: string;
+  symbol: string;
+  underlying: string;
+  securityType: 'Stock' | 'Option' | 'Warrant';
+  side: LotSide;
+  buyTradeId: number | string;
+  sellTradeId: number | string;
+  buyDate: string;
+  sellDate: string;
+  quantity: number;
+  multiplier: number;
+  buyPrice: number;
+  sellPrice: number;
+  fees: number;
+  costBasis: number;
+  proceeds: number;
+  profitLoss: number;
+}
+
+export interface LotMatchResult {
+  method: CostBasisMethod;
+  closedLots: ClosedLot[];
+  openLots: OpenLot[];
+}
+
+// Helper to safely parse numeric values (handles null, undefined, empty strings)
+export function toNumber(value: unknown): number {
+  if (value === null || value === undefined || value === '') return 0;
+  const parsed = parseFloat(String(value));
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+const SECURITY_TYPE_LABELS: Record<string, ClosedLot['securityType']> = {
+  S: 'Stock',
+  O: 'Option',
+  W: 'Warrant',
+};
+
+/**
+ * Identify the instrument a trade belongs to.
+ * Options are keyed by series so different strikes/expiries never offset each other.
+ */
+export function getInstrumentKey(trade: TradeRecord): string {
+  if (trade.SecurityType === 'O' && trade.Expiration && trade.Strike !== null && trade.Strike !== undefined) {
+    const underlying = trade.UnderlyingSymbol || trade.Symbol;
+    return `${underlying} ${trade.Expiration} ${toNumber(trade.Strike)} ${trade['Call/Put'] || ''}`.trim();
+  }
+  return trade.Symbol;
+}
+
+export function getMultiplier(trade: TradeRecord): number {
+  return trade.SecurityType === 'O' ? OPTION_MULTIPLIER : 1;
+}
+
+export function getTradeQuantity(trade: TradeRecord): number {
+  return trade.SecurityType === 'O'
+    ? Math.abs(toNumber(trade.OptionContracts))
+    : Math.abs(toNumber(trade.StockShareQty));
+}
+
+export function getTradePrice(trade: TradeRecord): number {
+  return trade.SecurityType === 'O'
+    ? toNumber(trade.OptionTradePremium)
+    : toNumber(trade.StockTradePrice);
+}
+
+export function getTradeFees(trade: TradeRecord): number {
+  return Math.abs(toNumber(trade.Commission)) + Math.abs(toNumber(trade.ExchFees));
+}
+
+function isSell(trade: TradeRecord): boolean {
+  return (trade.TradeType || '').toUpperCase().startsWith('S');
+}
+
+/**
+ * Sort trades chronologically (Date, then TradeTimeStamp, then TradeID)
+ */
+export function sortTradesChronologically<T extends TradeRecord>(trades: T[]): T[] {
+  return [...trades].sort((a, b) => {
+    if (a.Date !== b.Date) return a.Date < b.Date ? -1 : 1;
+    const timeA = a.TradeTimeStamp || '';
+    const timeB = b.TradeTimeStamp || '';
+    if (timeA !== timeB) return timeA < timeB ? -1 : 1;
+    return toNumber(a.TradeID) - toNumber(b.TradeID);
+  });
+}
+
+/**
+ * Pick the next open lot to relieve for a closing fill.
+ * - fifo: earliest lot first
+ * - lifo: latest lot first
+ * - hifo: highest cost first for longs; lowest sale price first for shorts
+ *   (both realize the smallest gain)
+ * - specific: lots elected for this closing trade, then FIFO for any remainder
+ * - average: lots are pooled to one average price before relief, then FIFO
+ */
+function selectLot(
+  candidates: OpenLot[],
+  method: CostBasisMethod,
+  elected: Array<number | string> | undefined
+): OpenLot | undefined {
+  if (candidates.length === 0) return undefined;
+
+  if (method === 'specific' && elected) {
+    for (const tradeId of elected) {
+      const lot = candidates.find(l => String(l.tradeId) === String(tradeId));
+      if (lot) return lot;
+    }
+  }
+
+  if (method === 'lifo') {
+    return candidates[candidates.length - 1];
+  }
+
+  if (method === 'hifo') {
+    return candidates.reduce((best, lot) => {
+      const better = lot.side === 'long' ? lot.price > best.price : lot.price < best.price;
+      return better ? lot : best;
+    });
+  }
+
+  return candidates[0];
+}
+
+/**
+ * Pool lots of one side into a single average price (average cost method).
+ * Quantities and fees are preserved; only the per-unit price is blended.
+ */
+function averageLots(lots: OpenLot[]): void {
+  const totalQuantity = lots.reduce((sum, l) => sum + l.quantity, 0);
+  if (lots.length < 2 || !totalQuantity) return;
+  const totalFees = lots.reduce((sum, l) => sum + l.fees, 0);
+  const averagePrice = lots.reduce((sum, l) => sum + l.price * l.quantity, 0) / totalQuantity;
+  for (const lot of lots) {
+    lot.price = averagePrice;
+    lot.fees = totalFees * (lot.quantity / totalQuantity);
+  }
+}
+
+/**
+ * Match trades into closed lots (realized) and open lots (still held).
+ * Lots are relieved using the given cost-basis method (FIFO by default).
+ */
+export function matchLots(trades: TradeRecord[], options: LotMatchOptions = {}): LotMatchResult {
+  const method = options.method ?? 'fifo';
+  const openLots = new Map<string, OpenLot[]>();
+  const closedLots: ClosedLot[] = [];
+
+  for (const trade of sortTradesChronologically(trades)) {
+    let remaining = getTradeQuantity(trade);
+    const price = getTradePrice(trade);
+    if (!remaining) continue;
+
+    const key = getInstrumentKey(trade);
+    const multiplier = getMultiplier(trade);
+    const totalQuantity = remaining;
+    const feesPerUnit = getTradeFees(trade) / totalQuantity;
+    const sell = isSell(trade);
+    // A sell closes long lots; a buy closes (covers) short lots
+    const closingSide: LotSide = sell ? 'long' : 'short';
+    const lots = openLots.get(key) ?? [];
+    const elected = options.lotSelections?.[String(trade.TradeID)];
+
+    if (method === 'average') {
+      averageLots(lots.filter(l => l.side === closingSide));
+    }
+
+    while (remaining > 0) {
+      const lot = selectLot(lots.filter(l => l.side === closingSide && l.quantity > 0), method, elected);
+      if (!lot) break;
+
+      const quantity = Math.min(remaining, lot.quantity);
+      const openFees = lot.fees * (quantity / lot.quantity);
+      const closeFees = feesPerUnit * quantity;
+
+      const buyPrice = sell ? lot.price : price;
+      const sellPrice = sell ? price : lot.price;
+      const costBasis = buyPrice * quantity * multiplier + (sell ? openFees : closeFees);
+      const proceeds = sellPrice * quantity * multiplier - (sell ? closeFees : openFees);
+
+      closedLots.push({
+        instrumentKey: key,
+        symbol: trade.Symbol,
+        underlying: trade.UnderlyingSymbol || trade.Symbol,
+        securityType: SECURITY_TYPE_LABELS[trade.SecurityType] ?? 'Stock',
+        side: lot.side,
+        buyTradeId: sell ? lot.tradeId : trade.TradeID,
+        sellTradeId: sell ? trade.TradeID : lot.tradeId,
+        buyDate: sell ? lot.openDate : trade.Date,
+        sellDate: sell ? trade.Date : lot.openDate,
+        quantity,
+        multiplier,
+        buyPrice,
+        sellPrice,
+        fees: openFees + closeFees,
+        costBasis,
+        proceeds,
+        profitLoss: proceeds - costBasis,
+      });
+
+      lot.fees -= openFees;
+      lot.quantity -= quantity;
+      remaining -= quantity;
+      if (lot.quantity <= 0) {
+        lots.splice(lots.indexOf(lot), 1);
+      }
+    }
+
+    // Whatever was not used to close a lot opens a new one
+    if (remaining > 0) {
+      lots.push({
+        instrumentKey: key,
+        symbol: trade.Symbol,
+        underlying: trade.UnderlyingSymbol || trade.Symbol,
+        securityType: trade.SecurityType,
+        side: sell ? 'short' : 'long',
+        tradeId: trade.TradeID,
+        openDate: trade.Date,
+        quantity: remaining,
+        price,
+        multiplier,
+        fees: feesPerUnit * remaining,
+      });
+    }
+
+    openLots.set(key, lots);
+  }
+
+  return {
+    method,
+    closedLots,
+    openLots: Array.from(openLots.values()).flat(),
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Margin stress test
+ * Projects equity and Reg-T (fed) and house requirements after price shocks to
+ * the underlyings of the open positions.
+ *
+ * - Shocks are fractional moves (-0.2 = down 20%) per underlying, with an
+ *   optional portfolio-wide shock for every underlying not listed
+ * - Stock moves one-for-one with the shock; options are repriced with
+ *   Black-Scholes at the shocked spot (same volatility as the Greeks engine)
+ * - Requirements are modelled from configurable rates: a share of long and short
+ *   stock value, and for short options the standard naked formula
+ *   (rate × underlying less the out-of-the-money amount, at least 10%, plus the
+ *   option value); long options are paid in full and carry none
+ * - The reported AccountBalance figures are the baseline: projected LMV/SMV,
+ *   equity and requirements add the modelled change to them
+ */
+
+import { OPTION_MULTIPLIER, toNumber, type TradeRecord } from './lot-matching';
+import { computeGreeksExposure, type GreeksOptions } from './greeks';
+import { computeOpenPositions, type OpenPosition } from './positions';
+import { MARGIN_BALANCE_COLUMNS, type MarginBalanceRecord } from './margin';
+
+// AccountBalance row with the market value columns ("Optons" is the database spelling)
+export interface StressBalanceRecord extends MarginBalanceRecord {
+  'Stock LMV': number | string | null;
+  'Stock SMV': number | string | null;
+  'Options LMV': number | string | null;
+  'Optons SMV': number | string | null;
+}
+
+// AccountBalance columns to select when building StressBalanceRecords
+export const STRESS_BALANCE_COLUMNS =
+  `${MARGIN_BALANCE_COLUMNS}, "Stock LMV", "Stock SMV", "Options LMV", "Optons SMV"`;
+
+export interface MarginRates {
+  // Share of long and short stock market value
+  long: number;
+  short: number;
+  // Share of underlying value for short options (before the out-of-the-money reduction)
+  shortOption: number;
+}
+
+export interface StressRates {
+  regT: MarginRates;
+  house: MarginRates;
+}
+
+export const DEFAULT_STRESS_RATES: StressRates = {
+  regT: { long: 0.5, short: 0.5, shortOption: 0.2 },
+  house: { long: 0.3, short: 0.3, shortOption: 0.2 },
+};
+
+export interface StressRateOverrides {
+  regT?: Partial<MarginRates>;
+  house?: Partial<MarginRates>;
+}
+
+// Floor of the naked option requirement, as a share of underlying (calls) or strike (puts)
+const MIN_SHORT_OPTION_RATE = 0.1;
+
+// Prices come from the Greeks engine; the shocked prices are derived from them
+export interface StressTestOptions extends Omit<GreeksOptions, 'spots'> {
+  // Fractional price moves by underlying
+  shocks?: Record<string, number>;
+  // Applied to every underlying without its own shock
+  portfolioShock?: number;
+  rates?: StressRates;
+}
+
+export interface StressPosition {
+  instrumentKey: string;
+  underlying: string;
+  securityType: OpenPosition['securityType'];
+  side: OpenPosition['side'];
+  quantity: number;
+  series?: OpenPosition['series'];
+  shock: number;
+  spot: number;
+  shockedSpot: number;
+  // Signed: negative for short positions
+  marketValue: number;
+  shockedMarketValue: number;
+  valueChange: number;
+  fedRequirementChange: number;
+  houseRequirementChange: number;
+  // Change in house excess this position causes (value change less requirement change)
+  excessImpact: number;
+}
+
+export interface MarginProjection {
+  stockLMV: number;
+  stockSMV: number;
+  optionsLMV: number;
+  optionsSMV: number;
+  equity: number;
+  fedRequirement: number;
+  fedExcess: number;
+  houseRequirement: number;
+  houseExcess: number;
+}
+
+export interface StressTestReport {
+  asOf: string;
+  balanceDate: string;
+  shocks: Record<string, number>;
+  portfolioShock: number;
+  rates: StressRates;
+  current: MarginProjection;
+  projected: MarginProjection;
+  equityChange: number;
+  // Positions by how much they reduce house excess, worst first
+  positions: StressPosition[];
+  // Option series that could not be repriced (no underlying price)
+  unpriced: string[];
+}
+
+/**
+ * Default rates with any overridden values applied
+ */
+export function resolveStressRates(overrides?: StressRateOverrides): StressRates {
+  return {
+    regT: { ...DEFAULT_STRESS_RATES.regT, ...overrides?.regT },
+    house: { ...DEFAULT_STRESS_RATES.house, ...overrides?.house },
+  };
+}
+
+/**
+ * Modelled requirement for a position at an underlying price
+ */
+function requirementFor(position: OpenPosition, spot: number, optionValue: number, rates: MarginRates): number {
+  if (!position.series) {
+    const value = spot * position.quantity * position.multiplier;
+    return value * (position.side === 'long' ? rates.long : rates.short);
+  }
+  if (position.side === 'long') return 0;
+
+  const { strike, callPut } = position.series;
+  const outOfTheMoney = callPut === 'C' ? Math.max(0, strike - spot) : Math.max(0, spot - strike);
+  const floor = MIN_SHORT_OPTION_RATE * (callPut === 'C' ? spot : strike);
+  const perShare = Math.max(rates.shortOption * spot - outOfTheMoney, floor) + optionValue;
+  return perShare * position.quantity * OPTION_MULTIPLIER;
+}
+
+function projectionFrom(balance: StressBalanceRecord): MarginProjection {
+  return {
+    stockLMV: toNumber(balance['Stock LMV']),
+    stockSMV: toNumber(balance['Stock SMV']),
+    optionsLMV: toNumber(balance['Options LMV']),
+    optionsSMV: toNumber(balance['Optons SMV']),
+    equity: toNumber(balance['Account Equity']),
+    fedRequirement: toNumber(balance.FedRequirement),
+    fedExcess: toNumber(balance.FedExcessDeficit),
+    houseRequirement: toNumber(balance.HouseRequirment),
+    houseExcess: toNumber(balance.HouseExcessDeficit),
+  };
+}
+
+/**
+ * Apply price shocks to the open positions and project margin from the latest balance
+ */
+export function runMarginStressTest(
+  trades: TradeRecord[],
+  balance: StressBalanceRecord,
+  options: StressTestOptions
+): StressTestReport {
+  const rates = options.rates ?? DEFAULT_STRESS_RATES;
+  const shocks = options.shocks ?? {};
+  const portfolioShock = options.portfolioShock ?? 0;
+  const shockFor = (underlying: string) => shocks[underlying] ?? portfolioShock;
+
+  const { positions } = computeOpenPositions(trades, options);
+  const base = computeGreeksExposure(trades, options);
+  const spots: Record<string, number> = {};
+  for (const group of base.byUnderlying) spots[group.underlying] = group.spot;
+  const shockedSpots: Record<string, number> = {};
+  for (const [underlying, spot] of Object.entries(spots)) shockedSpots[underlying] = spot * (1 + shockFor(underlying));
+  const shocked = computeGreeksExposure(trades, { ...options, spots: shockedSpots });
+
+  const contractKey = (instrumentKey: string, side: string) => `${instrumentKey}|${side}`;
+  const baseValues = new Map(base.contracts.map(c => [contractKey(c.instrumentKey, c.side), c.theoreticalValue]));
+  const shockedValues = new Map(shocked.contracts.map(c => [contractKey(c.instrumentKey, c.side), c.theoreticalValue]));
+
+  const current = projectionFrom(balance);
+  const projected = { ...current };
+  const results: StressPosition[] = [];
+
+  for (const position of positions) {
+    const spot = spots[position.underlying] ?? (position.series ? undefined : position.marketPrice);
+    if (spot === undefined) continue;
+    const shock = shockFor(position.underlying);
+    const shockedSpot = spot * (1 + shock);
+    const sign = position.side === 'long' ? 1 : -1;
+
+    let valueChange: number;
+    let optionValue = 0;
+    let shockedOptionValue = 0;
+    if (position.series) {
+      const key = contractKey(position.instrumentKey, position.side);
+      optionValue = baseValues.get(key) ?? 0;
+      shockedOptionValue = shockedValues.get(key) ?? optionValue;
+      valueChange = sign * (shockedOptionValue - optionValue) * position.quantity * OPTION_MULTIPLIER;
+      if (position.side === 'long') projected.optionsLMV += valueChange;
+      else projected.optionsSMV += valueChange;
+    } else {
+      valueChange = sign * (shockedSpot - spot) * position.quantity * position.multiplier;
+      if (position.side === 'long') projected.stockLMV += valueChange;
+      else projected.stockSMV += valueChange;
+    }
+
+    const fedRequirementChange =
+      requirementFor(position, shockedSpot, shockedOptionValue, rates.regT) - requirementFor(position, spot, optionValue, rates.regT);
+    const houseRequirementChange =
+      requirementFor(position, shockedSpot, shockedOptionValue, rates.house) - requirementFor(position, spot, optionValue, rates.house);
+
+    projected.equity += valueChange;
+    projected.fedRequirement += fedRequirementChange;
+    projected.houseRequirement += houseRequirementChange;
+
+    results.push({
+      instrumentKey: position.instrumentKey,
+      underlying: position.underlying,
+      securityType: position.securityType,
+      side: position.side,
+      quantity: position.quantity,
+      series: position.series,
+      shock,
+      spot,
+      shockedSpot,
+      marketValue: position.marketValue,
+      shockedMarketValue: position.marketValue + valueChange,
+      valueChange,
+      fedRequirementChange,
+      houseRequirementChange,
+      excessImpact: valueChange - houseRequirementChange,
+    });
+  }
+
+  // Excess moves with equity less the change in requirement
+  projected.fedExcess = current.fedExcess + (projected.equity - current.equity) - (projected.fedRequirement - current.fedRequirement);
+  projected.houseExcess =
+    current.houseExcess + (projected.equity - current.equity) - (projected.houseRequirement - current.houseRequirement);
+
+  return {
+    asOf: options.asOf,
+    balanceDate: balance.Date,
+    shocks,
+    portfolioShock,
+    rates,
+    current,
+    projected,
+    equityChange: projected.equity - current.equity,
+    positions: results.sort((a, b) => a.excessImpact - b.excessImpact),
+    unpriced: shocked.unpriced,
+  };
+}
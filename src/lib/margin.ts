@@ -0,0 +1,341 @@
+/**
+ * Margin health monitor
+ * Evaluates each daily AccountBalance snapshot against margin thresholds and
+ * turns breaches into alert events.
+ *
+ * - Excess is the house or fed excess/deficit column; a negative value is a deficit
+ * - Excess is compared with account equity: below the minimum cushion is a warning,
+ *   a deficit is critical
+ * - SMA (special memorandum account) falling by more than the drop threshold
+ *   from the previous snapshot is a warning
+ * - Alerts on the latest snapshot are the active warnings; every alert is
+ *   recorded once per account, date and type in MarginAlerts
+ * - Only alerts at DEFAULT_MARGIN_THRESHOLDS are recorded (by the margin route and
+ *   the scheduled alerts job); other thresholds are evaluated for display only
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toNumber } from './lot-matching';
+import { fetchAllRows } from './paged-query';
+
+// Raw AccountBalance row (the margin columns; "Requirment" is the database spelling)
+export interface MarginBalanceRecord {
+  Date: string;
+  'Account Equity': number | string | null;
+  SMA: number | string | null;
+  HouseRequirment: number | string | null;
+  HouseExcessDeficit: number | string | null;
+  FedRequirement: number | string | null;
+  FedExcessDeficit: number | string | null;
+}
+
+// AccountBalance columns to select when building MarginBalanceRecords
+export const MARGIN_BALANCE_COLUMNS =
+  'Date, "Account Equity", SMA, HouseRequirment, HouseExcessDeficit, FedRequirement, FedExcessDeficit';
+
+export interface MarginThresholds {
+  // Minimum excess as a fraction of equity before warning
+  minExcessPercent: number;
+  // Day-over-day SMA drop, as a fraction of the previous SMA, before warning
+  smaDropPercent: number;
+}
+
+export const DEFAULT_MARGIN_THRESHOLDS: MarginThresholds = {
+  minExcessPercent: 0.1,
+  smaDropPercent: 0.25,
+};
+
+export type MarginAlertType = 'house_deficit' | 'fed_deficit' | 'low_house_excess' | 'low_fed_excess' | 'sma_drop';
+
+export type MarginSeverity = 'warning' | 'critical';
+
+export type MarginStatus = 'healthy' | MarginSeverity;
+
+export interface MarginAlert {
+  date: string;
+  type: MarginAlertType;
+  severity: MarginSeverity;
+  message: string;
+  // The measured value and the threshold it crossed
+  value: number;
+  threshold: number;
+}
+
+export interface MarginSnapshot {
+  date: string;
+  equity: number;
+  sma: number;
+  houseRequirement: number;
+  houseExcess: number;
+  fedRequirement: number;
+  fedExcess: number;
+  // Excess as a fraction of equity (null without equity)
+  houseExcessPercent: number | null;
+  fedExcessPercent: number | null;
+  status: MarginStatus;
+}
+
+export interface MarginHealthReport {
+  thresholds: MarginThresholds;
+  timeline: MarginSnapshot[];
+  alerts: MarginAlert[];
+  // Alerts raised by the latest snapshot
+  active: MarginAlert[];
+  status: MarginStatus;
+  latest: MarginSnapshot | null;
+}
+
+// Raw MarginAlerts row
+export interface MarginAlertRecord {
+  Date: string;
+  AlertType: MarginAlertType;
+  Severity: MarginSeverity;
+  Message: string;
+  Value: number | string | null;
+  Threshold: number | string | null;
+}
+
+export const MARGIN_ALERT_COLUMNS = 'Date, AlertType, Severity, Message, Value, Threshold';
+
+export const MARGIN_ALERT_LABELS: Record<MarginAlertType, string> = {
+  house_deficit: 'House deficit',
+  fed_deficit: 'Fed deficit',
+  low_house_excess: 'Low house excess',
+  low_fed_excess: 'Low fed excess',
+  sma_drop: 'SMA drop',
+};
+
+const formatAmount = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function toSnapshot(row: MarginBalanceRecord): Omit<MarginSnapshot, 'status'> {
+  const equity = toNumber(row['Account Equity']);
+  const houseExcess = toNumber(row.HouseExcessDeficit);
+  const fedExcess = toNumber(row.FedExcessDeficit);
+  return {
+    date: row.Date,
+    equity,
+    sma: toNumber(row.SMA),
+    houseRequirement: toNumber(row.HouseRequirment),
+    houseExcess,
+    fedRequirement: toNumber(row.FedRequirement),
+    fedExcess,
+    houseExcessPercent: equity > 0 ? houseExcess / equity : null,
+    fedExcessPercent: equity > 0 ? fedExcess / equity : null,
+  };
+}
+
+/**
+ * Alerts raised by one snapshot, given the one before it (for the SMA drop)
+ */
+export function evaluateMarginSnapshot(
+  current: MarginBalanceRecord,
+  previous: MarginBalanceRecord | null,
+  thresholds: MarginThresholds = DEFAULT_MARGIN_THRESHOLDS
+): MarginAlert[] {
+  const snapshot = toSnapshot(current);
+  const alerts: MarginAlert[] = [];
+
+  const checkExcess = (
+    label: 'House' | 'Fed',
+    excess: number,
+    excessPercent: number | null,
+    deficitType: MarginAlertType,
+    lowType: MarginAlertType
+  ) => {
+    if (excess < 0) {
+      alerts.push({
+        date: snapshot.date,
+        type: deficitType,
+        severity: 'critical',
+        message: `${label} margin deficit of ${formatAmount(Math.abs(excess))}`,
+        value: excess,
+        threshold: 0,
+      });
+    } else if (excessPercent !== null && excessPercent < thresholds.minExcessPercent) {
+      alerts.push({
+        date: snapshot.date,
+        type: lowType,
+        severity: 'warning',
+        message: `${label} excess ${formatAmount(excess)} is ${formatPercent(excessPercent)} of equity, below ${formatPercent(thresholds.minExcessPercent)}`,
+        value: excessPercent,
+        threshold: thresholds.minExcessPercent,
+      });
+    }
+  };
+
+  checkExcess('House', snapshot.houseExcess, snapshot.houseExcessPercent, 'house_deficit', 'low_house_excess');
+  checkExcess('Fed', snapshot.fedExcess, snapshot.fedExcessPercent, 'fed_deficit', 'low_fed_excess');
+
+  if (previous) {
+    const previousSma = toNumber(previous.SMA);
+    if (previousSma > 0) {
+      const drop = (previousSma - snapshot.sma) / previousSma;
+      if (drop > thresholds.smaDropPercent) {
+        alerts.push({
+          date: snapshot.date,
+          type: 'sma_drop',
+          severity: 'warning',
+          message: `SMA fell ${formatPercent(drop)} from ${formatAmount(previousSma)} to ${formatAmount(snapshot.sma)}`,
+          value: drop,
+          threshold: thresholds.smaDropPercent,
+        });
+      }
+    }
+  }
+
+  return alerts;
+}
+
+function statusOf(alerts: MarginAlert[]): MarginStatus {
+  if (alerts.some(alert => alert.severity === 'critical')) return 'critical';
+  return alerts.length > 0 ? 'warning' : 'healthy';
+}
+
+/**
+ * Evaluate every snapshot in date order into a margin health timeline
+ */
+export function buildMarginHealth(
+  balances: MarginBalanceRecord[],
+  thresholds: MarginThresholds = DEFAULT_MARGIN_THRESHOLDS
+): MarginHealthReport {
+  const sorted = [...balances].sort((a, b) => a.Date.localeCompare(b.Date));
+  const timeline: MarginSnapshot[] = [];
+  const alerts: MarginAlert[] = [];
+  let active: MarginAlert[] = [];
+
+  sorted.forEach((row, i) => {
+    const snapshotAlerts = evaluateMarginSnapshot(row, i > 0 ? sorted[i - 1] : null, thresholds);
+    timeline.push({ ...toSnapshot(row), status: statusOf(snapshotAlerts) });
+    alerts.push(...snapshotAlerts);
+    active = snapshotAlerts;
+  });
+
+  return {
+    thresholds,
+    timeline,
+    alerts,
+    active,
+    status: statusOf(active),
+    latest: timeline.length > 0 ? timeline[timeline.length - 1] : null,
+  };
+}
+
+/**
+ * Replace a report's alerts with the recorded ones: the timeline status of each
+ * snapshot and the active warnings come from the alerts recorded on its date
+ */
+export function withRecordedAlerts(report: MarginHealthReport, recorded: MarginAlert[]): MarginHealthReport {
+  const byDate = new Map<string, MarginAlert[]>();
+  recorded.forEach(alert => {
+    byDate.set(alert.date, [...(byDate.get(alert.date) ?? []), alert]);
+  });
+
+  const timeline = report.timeline.map(snapshot => ({
+    ...snapshot,
+    status: statusOf(byDate.get(snapshot.date) ?? []),
+  }));
+  const latest = timeline.length > 0 ? timeline[timeline.length - 1] : null;
+  const active = latest ? byDate.get(latest.date) ?? [] : [];
+
+  return {
+    thresholds: DEFAULT_MARGIN_THRESHOLDS,
+    timeline,
+    alerts: [...recorded].sort((a, b) => a.date.localeCompare(b.date)),
+    active,
+    status: statusOf(active),
+    latest,
+  };
+}
+
+/**
+ * Record alert events, once per account, date and type. Already recorded alerts are left as they are.
+ * Only call this with alerts built at DEFAULT_MARGIN_THRESHOLDS.
+ */
+export async function recordMarginAlerts(
+  supabase: SupabaseClient,
+  accountCode: string,
+  alerts: MarginAlert[]
+): Promise<void> {
+  if (alerts.length === 0) return;
+
+  const { error } = await supabase.from('MarginAlerts').upsert(
+    alerts.map(alert => ({
+      AccountCode: accountCode,
+      Date: alert.date,
+      AlertType: alert.type,
+      Severity: alert.severity,
+      Message: alert.message,
+      Value: alert.value,
+      Threshold: alert.threshold,
+    })),
+    { onConflict: 'AccountCode,Date,AlertType', ignoreDuplicates: true }
+  );
+
+  if (error) {
+    throw new Error(`Failed to record margin alerts: ${error.message}`);
+  }
+}
+
+/**
+ * Every balance snapshot of the account, in date order
+ */
+export async function loadMarginBalances(supabase: SupabaseClient, accountCode: string): Promise<MarginBalanceRecord[]> {
+  const { data, error } = await fetchAllRows(
+    supabase
+      .from('AccountBalance')
+      .select(MARGIN_BALANCE_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+  );
+
+  if (error) {
+    throw new Error(`Failed to load margin data: ${error.message}`);
+  }
+
+  return (data || []) as MarginBalanceRecord[];
+}
+
+/**
+ * Evaluate the account's snapshots at the default thresholds, record any new alert
+ * events and rebuild the report from the recorded rows
+ */
+export async function refreshMarginAlerts(
+  supabase: SupabaseClient,
+  accountCode: string
+): Promise<{ balances: MarginBalanceRecord[]; report: MarginHealthReport }> {
+  const balances = await loadMarginBalances(supabase, accountCode);
+  const evaluated = buildMarginHealth(balances);
+  await recordMarginAlerts(supabase, accountCode, evaluated.alerts);
+  return { balances, report: withRecordedAlerts(evaluated, await loadMarginAlerts(supabase, accountCode)) };
+}
+
+/**
+ * The account's recorded alert events, in date order
+ */
+export async function loadMarginAlerts(supabase: SupabaseClient, accountCode: string): Promise<MarginAlert[]> {
+  // Date and type are unique per account, so pages neither overlap nor skip rows
+  const { data, error } = await fetchAllRows(
+    supabase
+      .from('MarginAlerts')
+      .select(MARGIN_ALERT_COLUMNS)
+      .eq('AccountCode', accountCode)
+      .order('Date', { ascending: true })
+      .order('AlertType', { ascending: true })
+  );
+
+  if (error) {
+    throw new Error(`Failed to load margin alerts: ${error.message}`);
+  }
+
+  return ((data || []) as MarginAlertRecord[]).map(row => ({
+    date: row.Date,
+    type: row.AlertType,
+    severity: row.Severity,
+    message: row.Message,
+    value: toNumber(row.Value),
+    threshold: toNumber(row.Threshold),
+  }));
+}
@@ -0,0 +1,368 @@
+/**
+ * Market data
+ * Quotes and daily bars behind a MarketDataProvider, so price series can come
+ * from local files today and a live feed later without touching the callers.
+ *
+ * - CsvMarketDataProvider reads one daily price file per symbol (Date, Open,
+ *   High, Low, Close, Adj Close, Volume), the same layout as the benchmark CSVs
+ * - CachedMarketDataProvider serves bars and quotes from market_data_cache and
+ *   only asks the provider it wraps on a miss, writing the result with a TTL
+ * - Closes imported by scripts/migrate-data.ts (benchmarks and requirements/market-data)
+ *   expire on 9999-12-31, so they always pass the expiry filter and are served as stored
+ * - Bars are dated on the database calendar like TradeData and AccountBalance;
+ *   a quote is the latest bar's close against the previous close
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toNumber } from './lot-matching';
+import { fetchAllRows } from './paged-query';
+
+export interface DailyBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface Quote {
+  symbol: string;
+  // Date of the bar the quote comes from
+  date: string;
+  price: number;
+  previousClose: number | null;
+  change: number;
+  changePercent: number;
+  open: number;
+  dayHigh: number;
+  dayLow: number;
+  // Range over the last 252 bars
+  yearHigh: number;
+  yearLow: number;
+  volume: number;
+}
+
+export interface BarRange {
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  // Daily bars in date order, empty when the symbol has no price series
+  getDailyBars(symbol: string, range?: BarRange): Promise<DailyBar[]>;
+  getQuote(symbol: string): Promise<Quote | null>;
+  // Quotes for the symbols that have prices, in the order requested
+  getQuotes(symbols: string[]): Promise<Quote[]>;
+}
+
+// market_data_cache row shape for daily bars and quotes
+export const BAR_DATA_TYPE = 'bar';
+export const QUOTE_DATA_TYPE = 'quote';
+export const DAILY_TIMEFRAME = '1Day';
+
+// Cache lifetimes for rows written by CachedMarketDataProvider
+export const DEFAULT_BAR_TTL_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_QUOTE_TTL_MS = 15 * 60 * 1000;
+
+// Expired rows are purged at most this often per provider
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+const YEAR_OF_BARS = 252;
+
+// Raw market_data_cache row
+export interface MarketDataCacheRecord {
+  symbol: string;
+  data_type: string;
+  timeframe: string | null;
+  data: Record<string, number | string | null | undefined> | null;
+  timestamp: string;
+  expires_at: string;
+}
+
+// market_data_cache columns to select when building MarketDataCacheRecords
+export const MARKET_DATA_CACHE_COLUMNS = 'symbol, data_type, timeframe, data, timestamp, expires_at';
+
+function inRange(date: string, range: BarRange = {}): boolean {
+  return (!range.startDate || date >= range.startDate) && (!range.endDate || date <= range.endDate);
+}
+
+function normalizeDate(value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) return value.slice(0, 10);
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+}
+
+function splitCsvLine(line: string): string[] {
+  return line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+}
+
+/**
+ * Daily bars from a price CSV with a header row. The adjusted close is used
+ * when present; rows without a date or a positive close are skipped.
+ */
+export function parsePriceCsv(text: string): DailyBar[] {
+  const [header, ...lines] = text.split(/\r?\n/).filter(line => line.trim());
+  if (!header) return [];
+
+  const columns = splitCsvLine(header).map(column => column.toLowerCase());
+  const index = (name: string) => columns.indexOf(name);
+  const [dateCol, openCol, highCol, lowCol, closeCol, adjCloseCol, volumeCol] =
+    ['date', 'open', 'high', 'low', 'close', 'adj close', 'volume'].map(index);
+  if (dateCol < 0 || (closeCol < 0 && adjCloseCol < 0)) return [];
+
+  const bars: DailyBar[] = [];
+  for (const line of lines) {
+    const cells = splitCsvLine(line);
+    const cell = (col: number) => (col >= 0 ? toNumber(cells[col]) : 0);
+    const date = normalizeDate(cells[dateCol] || '');
+    const close = cell(adjCloseCol) || cell(closeCol);
+    if (!date || close <= 0) continue;
+
+    bars.push({
+      date,
+      open: cell(openCol) || close,
+      high: cell(highCol) || close,
+      low: cell(lowCol) || close,
+      close,
+      volume: cell(volumeCol),
+    });
+  }
+  return bars.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Quote from a symbol's daily bars: the latest close against the one before it
+ */
+export function quoteFromBars(symbol: string, bars: DailyBar[]): Quote | null {
+  const latest = bars[bars.length - 1];
+  if (!latest) return null;
+
+  const previous = bars.length > 1 ? bars[bars.length - 2] : null;
+  const previousClose = previous ? previous.close : null;
+  const change = previousClose !== null ? latest.close - previousClose : 0;
+  const year = bars.slice(-YEAR_OF_BARS);
+
+  return {
+    symbol,
+    date: latest.date,
+    price: latest.close,
+    previousClose,
+    change,
+    changePercent: previousClose ? (change / previousClose) * 100 : 0,
+    open: latest.open,
+    dayHigh: latest.high,
+    dayLow: latest.low,
+    yearHigh: Math.max(...year.map(bar => bar.high)),
+    yearLow: Math.min(...year.map(bar => bar.low)),
+    volume: latest.volume,
+  };
+}
+
+/**
+ * Daily bars from market_data_cache rows, sorted by date. Rows without a close are skipped.
+ */
+export function toDailyBars(rows: MarketDataCacheRecord[]): DailyBar[] {
+  return rows
+    .map(row => {
+      const close = toNumber(row.data?.close);
+      return {
+        date: String(row.timestamp).slice(0, 10),
+        open: toNumber(row.data?.open) || close,
+        high: toNumber(row.data?.high) || close,
+        low: toNumber(row.data?.low) || close,
+        close,
+        volume: toNumber(row.data?.volume),
+      };
+    })
+    .filter(bar => bar.close > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+async function quotesFor(provider: MarketDataProvider, symbols: string[]): Promise<Quote[]> {
+  const quotes = await Promise.all(symbols.map(symbol => provider.getQuote(symbol)));
+  return quotes.filter((quote): quote is Quote => quote !== null);
+}
+
+export interface CsvMarketDataOptions {
+  // Where <SYMBOL>.csv files are served from (browser and server fetch)
+  baseUrl?: string;
+  // Custom reader, e.g. the file system in scripts; null when there is no file
+  readCsv?: (symbol: string) => Promise<string | null>;
+}
+
+/**
+ * Local provider over one daily price CSV per symbol, served from public/market-data by default
+ */
+export class CsvMarketDataProvider implements MarketDataProvider {
+  readonly name = 'csv';
+  private readonly readCsv: (symbol: string) => Promise<string | null>;
+  private readonly series = new Map<string, Promise<DailyBar[]>>();
+
+  constructor(options: CsvMarketDataOptions = {}) {
+    const baseUrl = options.baseUrl ?? '/market-data';
+    this.readCsv = options.readCsv ?? (async (symbol) => {
+      const response = await fetch(`${baseUrl}/${encodeURIComponent(symbol)}.csv`);
+      return response.ok ? response.text() : null;
+    });
+  }
+
+  async getDailyBars(symbol: string, range?: BarRange): Promise<DailyBar[]> {
+    const bars = await this.loadSeries(symbol);
+    return bars.filter(bar => inRange(bar.date, range));
+  }
+
+  async getQuote(symbol: string): Promise<Quote | null> {
+    return quoteFromBars(symbol, await this.loadSeries(symbol));
+  }
+
+  async getQuotes(symbols: string[]): Promise<Quote[]> {
+    return quotesFor(this, symbols);
+  }
+
+  // Each file is read once per provider; a missing or unreadable file is an empty series
+  private loadSeries(symbol: string): Promise<DailyBar[]> {
+    const key = symbol.toUpperCase();
+    let series = this.series.get(key);
+    if (!series) {
+      series = this.readCsv(key)
+        .then(text => (text ? parsePriceCsv(text) : []))
+        .catch(error => {
+          console.error(`Price file error for ${key}:`, error);
+          return [];
+        });
+      this.series.set(key, series);
+    }
+    return series;
+  }
+}
+
+export interface CachedMarketDataOptions {
+  barTtlMs?: number;
+  quoteTtlMs?: number;
+}
+
+/**
+ * market_data_cache in front of another provider. Cache read and write
+ * failures are logged and fall through to the wrapped provider.
+ */
+export class CachedMarketDataProvider implements MarketDataProvider {
+  readonly name: string;
+  private readonly barTtlMs: number;
+  private readonly quoteTtlMs: number;
+  private lastCleanup = 0;
+
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly source: MarketDataProvider,
+    options: CachedMarketDataOptions = {}
+  ) {
+    this.name = `cached:${source.name}`;
+    this.barTtlMs = options.barTtlMs ?? DEFAULT_BAR_TTL_MS;
+    this.quoteTtlMs = options.quoteTtlMs ?? DEFAULT_QUOTE_TTL_MS;
+  }
+
+  async getDailyBars(symbol: string, range?: BarRange): Promise<DailyBar[]> {
+    // The full series is cached per symbol, so any range is served from one load
+    let bars = toDailyBars(await this.readCache(symbol, BAR_DATA_TYPE));
+    if (bars.length === 0) {
+      bars = await this.source.getDailyBars(symbol);
+      await this.writeCache(
+        symbol,
+        BAR_DATA_TYPE,
+        bars.map(bar => ({ timestamp: bar.date, data: { ...bar } })),
+        this.barTtlMs
+      );
+    }
+    return bars.filter(bar => inRange(bar.date, range));
+  }
+
+  async getQuote(symbol: string): Promise<Quote | null> {
+    const [cached] = await this.readCache(symbol, QUOTE_DATA_TYPE);
+    if (cached?.data) {
+      return cached.data as unknown as Quote;
+    }
+
+    const quote = quoteFromBars(symbol, await this.getDailyBars(symbol));
+    if (quote) {
+      await this.writeCache(symbol, QUOTE_DATA_TYPE, [{ timestamp: quote.date, data: { ...quote } }], this.quoteTtlMs);
+    }
+    return quote;
+  }
+
+  async getQuotes(symbols: string[]): Promise<Quote[]> {
+    return quotesFor(this, symbols);
+  }
+
+  // Unexpired rows, newest first for quotes and in date order for bars
+  private async readCache(symbol: string, dataType: string): Promise<MarketDataCacheRecord[]> {
+    // Imported series run past the row cap; timestamps are unique per symbol, type and timeframe
+    const { data, error } = await fetchAllRows(
+      this.supabase
+        .from('market_data_cache')
+        .select(MARKET_DATA_CACHE_COLUMNS)
+        .eq('symbol', symbol)
+        .eq('data_type', dataType)
+        .eq('timeframe', DAILY_TIMEFRAME)
+        .gt('expires_at', new Date().toISOString())
+        .order('timestamp', { ascending: dataType === BAR_DATA_TYPE })
+    );
+
+    if (error) {
+      console.error('Market data cache read error:', error);
+      return [];
+    }
+    return (data || []) as MarketDataCacheRecord[];
+  }
+
+  private async writeCache(
+    symbol: string,
+    dataType: string,
+    entries: Array<{ timestamp: string; data: MarketDataCacheRecord['data'] }>,
+    ttlMs: number
+  ): Promise<void> {
+    if (entries.length === 0) return;
+    await this.cleanExpired();
+
+    const expiresAt = new Date(Date.now() + ttlMs).toISOString();
+    const { error } = await this.supabase.from('market_data_cache').upsert(
+      entries.map(entry => ({
+        symbol,
+        data_type: dataType,
+        timeframe: DAILY_TIMEFRAME,
+        data: entry.data,
+        timestamp: entry.timestamp,
+        expires_at: expiresAt,
+      })),
+      { onConflict: 'symbol,data_type,timeframe,timestamp' }
+    );
+
+    if (error) {
+      console.error('Market data cache write error:', error);
+    }
+  }
+
+  // clean_expired_cache() (001_initial_schema.sql) deletes every row past its expires_at
+  private async cleanExpired(): Promise<void> {
+    if (Date.now() - this.lastCleanup < CLEANUP_INTERVAL_MS) return;
+    this.lastCleanup = Date.now();
+
+    const { error } = await this.supabase.rpc('clean_expired_cache');
+    if (error) {
+      console.error('Market data cache cleanup error:', error);
+    }
+  }
+}
+
+/**
+ * Default provider: local price files behind market_data_cache. A live feed
+ * implementing MarketDataProvider can replace the CSV source.
+ */
+export function createMarketDataProvider(
+  supabase: SupabaseClient,
+  source: MarketDataProvider = new CsvMarketDataProvider(),
+  options?: CachedMarketDataOptions
+): MarketDataProvider {
+  return new CachedMarketDataProvider(supabase, source, options);
+}
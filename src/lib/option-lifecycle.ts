@@ -0,0 +1,213 @@
+/**
+ * Option lifecycle resolver
+ * Follows every option contract from the opening trade to how it ended:
+ * closed by an offsetting trade, expired worthless, assigned or exercised.
+ *
+ * - Opening and closing trades are matched per series by the lot-matching engine
+ * - Contracts still open after their expiration date are resolved against
+ *   stock trades in the underlying at the strike, on the expiration date or
+ *   within a few days after it (settlement can post on the next trading day):
+ *     short call -> stock sold (assigned)     long call -> stock bought (exercised)
+ *     short put  -> stock bought (assigned)   long put  -> stock sold (exercised)
+ * - Anything without a matching stock trade expired worthless
+ * - Premium P&L is the option leg only; the stock delivered at the strike is
+ *   an ordinary stock trade and is counted by the stock engines
+ */
+
+import {
+  matchLots,
+  getTradeQuantity,
+  sortTradesChronologically,
+  toNumber,
+  OPTION_MULTIPLIER,
+  type LotMatchOptions,
+  type LotSide,
+  type TradeRecord,
+} from './lot-matching';
+
+export type OptionOutcome = 'closed' | 'expired' | 'assigned' | 'exercised' | 'open';
+
+// Days after expiration in which an assignment/exercise stock trade may post
+export const SETTLEMENT_WINDOW_DAYS = 3;
+
+export interface OptionLifecycleOptions extends LotMatchOptions {
+  // Contracts expiring before this date (YYYY-MM-DD) are resolved; later ones stay open
+  asOf?: string;
+  // Only contracts opened within [startDate, endDate] are reported
+  startDate?: string;
+  endDate?: string;
+  // Only short (written) or long (bought) contracts are reported
+  side?: LotSide;
+}
+
+export interface OptionLifecycleEvent {
+  instrumentKey: string;
+  underlying: string;
+  expiration: string;
+  strike: number;
+  callPut: 'C' | 'P';
+  side: LotSide;
+  contracts: number;
+  openTradeId: number | string;
+  openDate: string;
+  openPremium: number;
+  outcome: OptionOutcome;
+  // Close fill, expiration date or stock settlement date
+  resolvedDate: string | null;
+  closePremium: number | null;
+  // Stock trade that delivered the shares (assignment/exercise)
+  stockTradeId: number | string | null;
+  // Realized P&L on the option leg (0 while open)
+  premiumPnL: number;
+}
+
+export interface OptionLifecycleReport {
+  events: OptionLifecycleEvent[];
+  // Contracts by outcome
+  counts: Record<OptionOutcome, number>;
+  // Gross premium received on short openings and paid on long openings
+  premiumCollected: number;
+  premiumPaid: number;
+  realizedPremiumPnL: number;
+  openContracts: number;
+}
+
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / (1000 * 60 * 60 * 24));
+}
+
+function isSell(trade: TradeRecord): boolean {
+  return (trade.TradeType || '').toUpperCase().startsWith('S');
+}
+
+/**
+ * Resolve the lifecycle of every option contract in the trades
+ */
+export function resolveOptionLifecycle(
+  trades: TradeRecord[],
+  options: OptionLifecycleOptions = {}
+): OptionLifecycleReport {
+  const optionTrades = trades.filter(t => t.SecurityType === 'O' && t.Expiration);
+  const { closedLots, openLots } = matchLots(optionTrades, options);
+  const tradesById = new Map(optionTrades.map(t => [String(t.TradeID), t]));
+
+  // Shares still available on each stock trade for assignment matching
+  const stockTrades = sortTradesChronologically(trades.filter(t => t.SecurityType === 'S'));
+  const stockRemaining = new Map(stockTrades.map(t => [String(t.TradeID), getTradeQuantity(t)]));
+
+  const events: OptionLifecycleEvent[] = [];
+
+  const seriesOf = (tradeId: number | string) => {
+    const trade = tradesById.get(String(tradeId));
+    return {
+      expiration: trade?.Expiration ?? '',
+      strike: toNumber(trade?.Strike),
+      callPut: (trade?.['Call/Put'] === 'P' ? 'P' : 'C') as 'C' | 'P',
+    };
+  };
+
+  for (const lot of closedLots) {
+    const openTradeId = lot.side === 'long' ? lot.buyTradeId : lot.sellTradeId;
+    events.push({
+      instrumentKey: lot.instrumentKey,
+      underlying: lot.underlying,
+      ...seriesOf(openTradeId),
+      side: lot.side,
+      contracts: lot.quantity,
+      openTradeId,
+      openDate: lot.side === 'long' ? lot.buyDate : lot.sellDate,
+      openPremium: lot.side === 'long' ? lot.buyPrice : lot.sellPrice,
+      outcome: 'closed',
+      resolvedDate: lot.side === 'long' ? lot.sellDate : lot.buyDate,
+      closePremium: lot.side === 'long' ? lot.sellPrice : lot.buyPrice,
+      stockTradeId: null,
+      premiumPnL: lot.profitLoss,
+    });
+  }
+
+  // Resolve open lots in expiration order so earlier contracts claim stock trades first
+  const sortedOpenLots = [...openLots].sort((a, b) =>
+    seriesOf(a.tradeId).expiration.localeCompare(seriesOf(b.tradeId).expiration)
+  );
+
+  for (const lot of sortedOpenLots) {
+    const series = seriesOf(lot.tradeId);
+    // Short lots keep the credit; long lots lose what was paid
+    const premium = lot.price * lot.quantity * lot.multiplier;
+    const expiredPnL = lot.side === 'short' ? premium - lot.fees : -(premium + lot.fees);
+
+    const event: OptionLifecycleEvent = {
+      instrumentKey: lot.instrumentKey,
+      underlying: lot.underlying,
+      ...series,
+      side: lot.side,
+      contracts: lot.quantity,
+      openTradeId: lot.tradeId,
+      openDate: lot.openDate,
+      openPremium: lot.price,
+      outcome: 'open',
+      resolvedDate: null,
+      closePremium: null,
+      stockTradeId: null,
+      premiumPnL: 0,
+    };
+
+    if (!options.asOf || series.expiration >= options.asOf) {
+      events.push(event);
+      continue;
+    }
+
+    // Stock moves in the direction the contract delivers
+    const expectSell = (series.callPut === 'C') === (lot.side === 'short');
+    const shares = lot.quantity * OPTION_MULTIPLIER;
+    const expirationDay = toDayNumber(series.expiration);
+
+    const settlement = stockTrades.find(t => {
+      const symbol = t.UnderlyingSymbol || t.Symbol;
+      const daysAfter = toDayNumber(t.Date) - expirationDay;
+      return symbol === lot.underlying &&
+        daysAfter >= 0 && daysAfter <= SETTLEMENT_WINDOW_DAYS &&
+        isSell(t) === expectSell &&
+        Math.abs(toNumber(t.StockTradePrice) - series.strike) < 0.005 &&
+        (stockRemaining.get(String(t.TradeID)) ?? 0) >= shares;
+    });
+
+    if (settlement) {
+      const id = String(settlement.TradeID);
+      stockRemaining.set(id, (stockRemaining.get(id) ?? 0) - shares);
+      event.outcome = lot.side === 'short' ? 'assigned' : 'exercised';
+      event.resolvedDate = settlement.Date;
+      event.stockTradeId = settlement.TradeID;
+    } else {
+      event.outcome = 'expired';
+      event.resolvedDate = series.expiration;
+      event.closePremium = 0;
+    }
+    event.premiumPnL = expiredPnL;
+    events.push(event);
+  }
+
+  const reported = events
+    .filter(e => (!options.startDate || e.openDate >= options.startDate) &&
+      (!options.endDate || e.openDate <= options.endDate) &&
+      (!options.side || e.side === options.side))
+    .sort((a, b) => a.openDate.localeCompare(b.openDate) || a.instrumentKey.localeCompare(b.instrumentKey));
+
+  const counts: Record<OptionOutcome, number> = { closed: 0, expired: 0, assigned: 0, exercised: 0, open: 0 };
+  let premiumCollected = 0;
+  let premiumPaid = 0;
+  let realizedPremiumPnL = 0;
+  let openContracts = 0;
+
+  for (const event of reported) {
+    counts[event.outcome] += event.contracts;
+    const premium = event.openPremium * event.contracts * OPTION_MULTIPLIER;
+    if (event.side === 'short') premiumCollected += premium;
+    else premiumPaid += premium;
+    if (event.outcome === 'open') openContracts += event.contracts;
+    else realizedPremiumPnL += event.premiumPnL;
+  }
+
+  return { events: reported, counts, premiumCollected, premiumPaid, realizedPremiumPnL, openContracts };
+}
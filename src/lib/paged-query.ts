@@ -0,0 +1,43 @@
+/**
+ * Paged Supabase loads
+ * PostgREST caps each response at the project's max rows (1000 by default), so a
+ * plain select silently drops the rest of a long trade or balance history.
+ *
+ * - fetchAllRows re-runs a built query with .range() one page at a time until a
+ *   short page comes back
+ * - The query must be ordered on a unique key (e.g. Date then TradeID) so pages
+ *   neither overlap nor skip rows
+ * - Returns the same { data, error } shape as awaiting the query directly
+ */
+
+import type { PostgrestError } from '@supabase/supabase-js';
+
+// Must not exceed the project's max rows setting, or a full page looks short
+export const PAGE_SIZE = 1000;
+
+interface PagedQuery<T> {
+  range(from: number, to: number): PromiseLike<{ data: T[] | null; error: PostgrestError | null }>;
+}
+
+/**
+ * Load every row of a query, one .range() page at a time.
+ * The first error stops the load and is returned with no data.
+ */
+export async function fetchAllRows<T>(
+  query: PagedQuery<T>,
+  pageSize: number = PAGE_SIZE
+): Promise<{ data: T[] | null; error: PostgrestError | null }> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await query.range(from, from + pageSize - 1);
+    if (error) {
+      return { data: null, error };
+    }
+
+    rows.push(...(data ?? []));
+    if (!data || data.length < pageSize) {
+      return { data: rows, error: null };
+    }
+  }
+}
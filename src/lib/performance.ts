@@ -0,0 +1,331 @@
+/**
+ * Performance service
+ * Time-weighted (TWR) and money-weighted (IRR) returns from the daily
+ * AccountBalance equity series.
+ *
+ * - External cash flows (deposits, withdrawals) are inferred: the day's change
+ *   in cash balance that trades, fees/interest and dividends do not explain
+ * - TWR chains daily returns with flows at the end of the day:
+ *   r = (equity - flow) / previous equity - 1, so deposits do not count as gains
+ * - IRR is the annualized rate at which starting equity plus flows grow into
+ *   ending equity (XIRR, actual/365)
+ * - Period tables (month, quarter, year to date) chain the daily returns
+ *   within each calendar period
+ */
+
+import {
+  getMultiplier,
+  getTradeFees,
+  getTradePrice,
+  getTradeQuantity,
+  toNumber,
+  type TradeRecord,
+} from './lot-matching';
+import type { DividendRecord } from './dividends';
+
+// Cash differences smaller than this are treated as rounding, not flows
+export const CASH_FLOW_TOLERANCE = 1;
+
+// Raw AccountBalance row (the columns performance needs)
+export interface BalanceRecord {
+  Date: string;
+  CashBalance: number | string | null;
+  'Account Equity': number | string | null;
+}
+
+// AccountBalance columns to select when building BalanceRecords
+export const BALANCE_RECORD_COLUMNS = 'Date, CashBalance, "Account Equity"';
+
+// Raw FeesAndInterest row
+export interface FeeRecord {
+  Date: string;
+  Type: string;
+  Amount: number | string | null;
+}
+
+// FeesAndInterest columns to select when building FeeRecords
+export const FEE_RECORD_COLUMNS = 'Date, Type, Amount';
+
+export interface CashFlow {
+  date: string;
+  // Positive for deposits, negative for withdrawals
+  amount: number;
+}
+
+export interface DailyReturn {
+  date: string;
+  equity: number;
+  flow: number;
+  return: number;
+}
+
+export interface PeriodReturn {
+  period: string; // YYYY-MM, YYYY-Qn or YYYY (database calendar)
+  startDate: string;
+  endDate: string;
+  startEquity: number;
+  endEquity: number;
+  netFlows: number;
+  // Change in equity not explained by flows
+  gain: number;
+  twr: number;
+}
+
+export interface PerformanceOptions {
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface PerformanceReport {
+  startDate: string;
+  endDate: string;
+  startEquity: number;
+  endEquity: number;
+  netFlows: number;
+  gain: number;
+  twr: number;
+  // Annualized for ranges longer than a year, otherwise null
+  annualizedTwr: number | null;
+  // Annualized money-weighted return (null when it cannot be solved)
+  irr: number | null;
+  // IRR compounded over the range
+  periodIrr: number | null;
+  flows: CashFlow[];
+  daily: DailyReturn[];
+  monthly: PeriodReturn[];
+  quarterly: PeriodReturn[];
+  ytd: PeriodReturn | null;
+}
+
+const DAYS_PER_YEAR = 365;
+
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * Cash a trade moves: sales bring cash in, purchases pay it out, fees always cost
+ */
+export function getTradeCashImpact(trade: TradeRecord): number {
+  const notional = getTradeQuantity(trade) * getTradePrice(trade) * getMultiplier(trade);
+  const isSell = (trade.TradeType || '').toUpperCase().startsWith('S');
+  return (isSell ? notional : -notional) - getTradeFees(trade);
+}
+
+/**
+ * Cash a FeesAndInterest row moves: credit interest is received, everything else is charged
+ */
+export function getFeeCashImpact(fee: FeeRecord): number {
+  const amount = Math.abs(toNumber(fee.Amount));
+  return fee.Type === 'CreditInt' ? amount : -amount;
+}
+
+/**
+ * Infer deposits and withdrawals from day-over-day cash balance changes
+ */
+export function inferExternalCashFlows(
+  balances: BalanceRecord[],
+  activity: { trades?: TradeRecord[]; fees?: FeeRecord[]; dividends?: DividendRecord[] } = {}
+): CashFlow[] {
+  const explained = new Map<string, number>();
+  const add = (date: string, amount: number) => explained.set(date, (explained.get(date) ?? 0) + amount);
+  (activity.trades || []).forEach(t => add(t.Date, getTradeCashImpact(t)));
+  (activity.fees || []).forEach(f => add(f.Date, getFeeCashImpact(f)));
+  (activity.dividends || []).filter(d => !d.Reinvested).forEach(d => add(d.PayDate, toNumber(d.NetAmount)));
+
+  const explainedDates = Array.from(explained.keys()).sort();
+  const sorted = [...balances].sort((a, b) => a.Date.localeCompare(b.Date));
+  const flows: CashFlow[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+    // Activity posted after the previous balance and up to this one
+    const activityCash = explainedDates
+      .filter(date => date > previous.Date && date <= current.Date)
+      .reduce((sum, date) => sum + (explained.get(date) ?? 0), 0);
+    const flow = toNumber(current.CashBalance) - toNumber(previous.CashBalance) - activityCash;
+    if (Math.abs(flow) >= CASH_FLOW_TOLERANCE) {
+      flows.push({ date: current.Date, amount: flow });
+    }
+  }
+
+  return flows;
+}
+
+/**
+ * Annualized internal rate of return of dated cash flows (investor's view:
+ * money put in is negative, money taken out or still held is positive).
+ * Newton-Raphson from 10%, falling back to bisection. Null when no rate solves it.
+ */
+export function xirr(flows: CashFlow[]): number | null {
+  if (flows.length < 2) return null;
+  if (!flows.some(f => f.amount > 0) || !flows.some(f => f.amount < 0)) return null;
+
+  const first = flows[0].date;
+  const years = flows.map(f => daysBetween(first, f.date) / DAYS_PER_YEAR);
+  const npv = (rate: number) => flows.reduce((sum, f, i) => sum + f.amount / Math.pow(1 + rate, years[i]), 0);
+  const slope = (rate: number) =>
+    flows.reduce((sum, f, i) => sum - (years[i] * f.amount) / Math.pow(1 + rate, years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < 50; i++) {
+    const value = npv(rate);
+    if (Math.abs(value) < 1e-6) return rate;
+    const step = value / slope(rate);
+    if (!isFinite(step)) break;
+    rate -= step;
+    if (rate <= -0.999999) break;
+  }
+
+  let low = -0.999999;
+  let high = 10;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (npv(low) * npv(mid) <= 0) high = mid;
+    else low = mid;
+    if (high - low < 1e-9) break;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Daily returns of a balance series, adjusted for external cash flows.
+ * The first balance is the starting point and has no return of its own.
+ */
+export function computeDailyReturns(balances: BalanceRecord[], flows: CashFlow[]): DailyReturn[] {
+  const flowsByDate = new Map<string, number>();
+  flows.forEach(f => flowsByDate.set(f.date, (flowsByDate.get(f.date) ?? 0) + f.amount));
+
+  const sorted = [...balances].sort((a, b) => a.Date.localeCompare(b.Date));
+  const daily: DailyReturn[] = [];
+  let previousEquity = sorted.length > 0 ? toNumber(sorted[0]['Account Equity']) : 0;
+
+  for (const point of sorted.slice(1)) {
+    const equity = toNumber(point['Account Equity']);
+    const flow = flowsByDate.get(point.Date) ?? 0;
+    daily.push({
+      date: point.Date,
+      equity,
+      flow,
+      return: previousEquity > 0 ? (equity - flow) / previousEquity - 1 : 0,
+    });
+    previousEquity = equity;
+  }
+
+  return daily;
+}
+
+function chainReturns(returns: DailyReturn[]): number {
+  return returns.reduce((growth, day) => growth * (1 + day.return), 1) - 1;
+}
+
+function periodReturns(daily: DailyReturn[], startEquity: number, keyOf: (date: string) => string): PeriodReturn[] {
+  const periods: PeriodReturn[] = [];
+  let openingEquity = startEquity;
+  let current: { period: string; days: DailyReturn[] } | null = null;
+
+  const close = () => {
+    if (!current) return;
+    const last = current.days[current.days.length - 1];
+    const netFlows = current.days.reduce((sum, day) => sum + day.flow, 0);
+    periods.push({
+      period: current.period,
+      startDate: current.days[0].date,
+      endDate: last.date,
+      startEquity: openingEquity,
+      endEquity: last.equity,
+      netFlows,
+      gain: last.equity - openingEquity - netFlows,
+      twr: chainReturns(current.days),
+    });
+    openingEquity = last.equity;
+  };
+
+  for (const day of daily) {
+    const period = keyOf(day.date);
+    if (!current || current.period !== period) {
+      close();
+      current = { period, days: [] };
+    }
+    current.days.push(day);
+  }
+  close();
+
+  return periods;
+}
+
+const monthOf = (date: string) => date.slice(0, 7);
+const quarterOf = (date: string) => `${date.slice(0, 4)}-Q${Math.floor((Number(date.slice(5, 7)) - 1) / 3) + 1}`;
+const yearOf = (date: string) => date.slice(0, 4);
+
+/**
+ * Balances covering a date range, sorted by date. Starts from the last balance
+ * before the range so the first day's return in the range counts.
+ */
+export function balancesInRange(balances: BalanceRecord[], options: PerformanceOptions = {}): BalanceRecord[] {
+  const points = [...balances]
+    .sort((a, b) => a.Date.localeCompare(b.Date))
+    .filter(b => (!options.endDate || b.Date <= options.endDate));
+
+  if (!options.startDate) return points;
+  const firstInRange = points.findIndex(b => b.Date >= options.startDate!);
+  if (firstInRange === -1) return [];
+  return points.slice(Math.max(0, firstInRange - 1));
+}
+
+/**
+ * Compute time- and money-weighted returns over a date range
+ */
+export function computePerformance(
+  balances: BalanceRecord[],
+  flows: CashFlow[],
+  options: PerformanceOptions = {}
+): PerformanceReport | null {
+  const range = balancesInRange(balances, options);
+  if (range.length === 0) return null;
+
+  const start = range[0];
+  const startEquity = toNumber(start['Account Equity']);
+  const daily = computeDailyReturns(range, flows);
+
+  const end = range[range.length - 1];
+  const endEquity = toNumber(end['Account Equity']);
+  const rangeFlows = daily.filter(day => day.flow !== 0).map(day => ({ date: day.date, amount: day.flow }));
+  const netFlows = rangeFlows.reduce((sum, f) => sum + f.amount, 0);
+  const twr = chainReturns(daily);
+  const days = daysBetween(start.Date, end.Date);
+
+  const irr = days > 0
+    ? xirr([
+      { date: start.Date, amount: -startEquity },
+      ...rangeFlows.map(f => ({ date: f.date, amount: -f.amount })),
+      { date: end.Date, amount: endEquity },
+    ])
+    : null;
+
+  const lastYear = yearOf(end.Date);
+  const ytdDays = daily.filter(day => yearOf(day.date) === lastYear);
+  const ytdStart = daily.length > ytdDays.length ? daily[daily.length - ytdDays.length - 1].equity : startEquity;
+
+  return {
+    startDate: start.Date,
+    endDate: end.Date,
+    startEquity,
+    endEquity,
+    netFlows,
+    gain: endEquity - startEquity - netFlows,
+    twr,
+    annualizedTwr: days > DAYS_PER_YEAR ? Math.pow(1 + twr, DAYS_PER_YEAR / days) - 1 : null,
+    irr,
+    periodIrr: irr === null ? null : Math.pow(1 + irr, days / DAYS_PER_YEAR) - 1,
+    flows: rangeFlows,
+    daily,
+    monthly: periodReturns(daily, startEquity, monthOf),
+    quarterly: periodReturns(daily, startEquity, quarterOf),
+    ytd: ytdDays.length > 0 ? periodReturns(ytdDays, ytdStart, yearOf)[0] : null,
+  };
+}
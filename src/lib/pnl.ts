@@ -0,0 +1,238 @@
+/**
+ * P&L service
+ * Builds realized and unrealized P&L from the lot-matching engine.
+ *
+ * - Realized P&L comes from closed lots, attributed to the date the lot closed
+ *   (the sale for long lots, the cover for short lots)
+ * - Unrealized P&L marks open lots to the latest available price for the
+ *   instrument (the most recent fill unless explicit marks are supplied)
+ * - With an as-of date, option lots that expired before it are realized through
+ *   the lifecycle resolver: expired worthless, assigned or exercised, on the
+ *   expiration or settlement date
+ * - Results are broken down by symbol (options roll up to their underlying),
+ *   security type and month
+ */
+
+import {
+  matchLots,
+  getInstrumentKey,
+  getTradePrice,
+  sortTradesChronologically,
+  type ClosedLot,
+  type LotMatchOptions,
+  type OpenLot,
+  type TradeRecord,
+} from './lot-matching';
+import { resolveOptionLifecycle } from './option-lifecycle';
+
+export interface PnLOptions extends LotMatchOptions {
+  // Only lots closed within [startDate, endDate] count toward realized P&L
+  startDate?: string;
+  endDate?: string;
+  // Latest prices by instrument key; falls back to the last fill price
+  marks?: Record<string, number>;
+  // Option lots expiring before this date (YYYY-MM-DD) are realized rather than marked
+  asOf?: string;
+}
+
+export interface SymbolPnL {
+  symbol: string;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalPnL: number;
+  closedLots: number;
+  openLots: number;
+  // Net shares held (long minus short), excluding option contracts
+  openShares: number;
+  costBasis: number;
+  marketValue: number;
+}
+
+export interface SecurityTypePnL {
+  securityType: string;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalPnL: number;
+}
+
+export interface MonthlyPnL {
+  month: string; // YYYY-MM (database calendar)
+  realizedPnL: number;
+  closedLots: number;
+}
+
+export interface PnLReport {
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalPnL: number;
+  costBasis: number;
+  marketValue: number;
+  bySymbol: SymbolPnL[];
+  bySecurityType: SecurityTypePnL[];
+  byMonth: MonthlyPnL[];
+}
+
+const SECURITY_TYPE_LABELS: Record<string, string> = {
+  S: 'Stock',
+  O: 'Option',
+  W: 'Warrant',
+};
+
+/**
+ * Latest fill price per instrument key
+ */
+export function getLatestMarks(trades: TradeRecord[]): Record<string, number> {
+  const marks: Record<string, number> = {};
+  for (const trade of sortTradesChronologically(trades)) {
+    const price = getTradePrice(trade);
+    if (price > 0) {
+      marks[getInstrumentKey(trade)] = price;
+    }
+  }
+  return marks;
+}
+
+/**
+ * Stock fill prices per underlying in date order, for spot lookups on a given day
+ */
+export function getStockPriceHistory(trades: TradeRecord[]): Map<string, Array<{ date: string; price: number }>> {
+  const history = new Map<string, Array<{ date: string; price: number }>>();
+  for (const trade of sortTradesChronologically(trades.filter(t => t.SecurityType === 'S'))) {
+    const price = getTradePrice(trade);
+    if (price <= 0) continue;
+    const symbol = trade.UnderlyingSymbol || trade.Symbol;
+    history.set(symbol, [...(history.get(symbol) ?? []), { date: trade.Date, price }]);
+  }
+  return history;
+}
+
+export function priceOnOrBefore(history: Array<{ date: string; price: number }> | undefined, date: string): number | null {
+  if (!history) return null;
+  let price: number | null = null;
+  for (const point of history) {
+    if (point.date > date) break;
+    price = point.price;
+  }
+  return price;
+}
+
+export function getCloseDate(lot: ClosedLot): string {
+  return lot.side === 'long' ? lot.sellDate : lot.buyDate;
+}
+
+/**
+ * Value an open lot at the given mark.
+ * Long lots gain when the mark rises; short lots gain when it falls.
+ */
+export function valueOpenLot(lot: OpenLot, mark: number) {
+  const costBasis = lot.price * lot.quantity * lot.multiplier + lot.fees;
+  const marketValue = mark * lot.quantity * lot.multiplier;
+  const unrealizedPnL = lot.side === 'long'
+    ? marketValue - costBasis
+    : lot.price * lot.quantity * lot.multiplier - lot.fees - marketValue;
+  return { costBasis, marketValue, unrealizedPnL };
+}
+
+/**
+ * Compute realized and unrealized P&L for a set of trades
+ */
+export function computePnL(trades: TradeRecord[], options: PnLOptions = {}): PnLReport {
+  const { closedLots, openLots } = matchLots(trades, options);
+  const marks = { ...getLatestMarks(trades), ...options.marks };
+
+  const symbols = new Map<string, SymbolPnL>();
+  const securityTypes = new Map<string, SecurityTypePnL>();
+  const months = new Map<string, MonthlyPnL>();
+
+  const symbolEntry = (symbol: string) => {
+    let entry = symbols.get(symbol);
+    if (!entry) {
+      entry = { symbol, realizedPnL: 0, unrealizedPnL: 0, totalPnL: 0, closedLots: 0, openLots: 0, openShares: 0, costBasis: 0, marketValue: 0 };
+      symbols.set(symbol, entry);
+    }
+    return entry;
+  };
+
+  const securityTypeEntry = (securityType: string) => {
+    let entry = securityTypes.get(securityType);
+    if (!entry) {
+      entry = { securityType, realizedPnL: 0, unrealizedPnL: 0, totalPnL: 0 };
+      securityTypes.set(securityType, entry);
+    }
+    return entry;
+  };
+
+  const addRealized = (underlying: string, securityType: string, closeDate: string, profitLoss: number) => {
+    if (options.startDate && closeDate < options.startDate) return;
+    if (options.endDate && closeDate > options.endDate) return;
+
+    const symbol = symbolEntry(underlying);
+    symbol.realizedPnL += profitLoss;
+    symbol.closedLots += 1;
+
+    securityTypeEntry(securityType).realizedPnL += profitLoss;
+
+    const month = closeDate.substring(0, 7);
+    const monthEntry = months.get(month) ?? { month, realizedPnL: 0, closedLots: 0 };
+    monthEntry.realizedPnL += profitLoss;
+    monthEntry.closedLots += 1;
+    months.set(month, monthEntry);
+  };
+
+  for (const lot of closedLots) {
+    addRealized(lot.underlying, lot.securityType, getCloseDate(lot), lot.profitLoss);
+  }
+
+  // Option lots that outlived their expiration are no longer open: the resolver
+  // books them as expired, assigned or exercised (the option leg only)
+  const resolvedOptionLots = new Set<string>();
+  if (options.asOf) {
+    const lifecycle = resolveOptionLifecycle(trades, {
+      method: options.method,
+      lotSelections: options.lotSelections,
+      asOf: options.asOf,
+    });
+    for (const event of lifecycle.events) {
+      if (event.outcome === 'open' || event.outcome === 'closed' || !event.resolvedDate) continue;
+      resolvedOptionLots.add(`${event.instrumentKey}|${event.openTradeId}`);
+      addRealized(event.underlying, 'Option', event.resolvedDate, event.premiumPnL);
+    }
+  }
+
+  for (const lot of openLots) {
+    if (resolvedOptionLots.has(`${lot.instrumentKey}|${lot.tradeId}`)) continue;
+
+    const mark = marks[lot.instrumentKey] ?? lot.price;
+    const { costBasis, marketValue, unrealizedPnL } = valueOpenLot(lot, mark);
+
+    const symbol = symbolEntry(lot.underlying);
+    symbol.unrealizedPnL += unrealizedPnL;
+    symbol.openLots += 1;
+    if (lot.securityType !== 'O') {
+      symbol.openShares += lot.side === 'long' ? lot.quantity : -lot.quantity;
+    }
+    symbol.costBasis += costBasis;
+    symbol.marketValue += lot.side === 'long' ? marketValue : -marketValue;
+
+    securityTypeEntry(SECURITY_TYPE_LABELS[lot.securityType] ?? 'Stock').unrealizedPnL += unrealizedPnL;
+  }
+
+  for (const entry of [...symbols.values(), ...securityTypes.values()]) {
+    entry.totalPnL = entry.realizedPnL + entry.unrealizedPnL;
+  }
+
+  const bySymbol = Array.from(symbols.values()).sort((a, b) => Math.abs(b.totalPnL) - Math.abs(a.totalPnL));
+  const realizedPnL = bySymbol.reduce((sum, s) => sum + s.realizedPnL, 0);
+  const unrealizedPnL = bySymbol.reduce((sum, s) => sum + s.unrealizedPnL, 0);
+
+  return {
+    realizedPnL,
+    unrealizedPnL,
+    totalPnL: realizedPnL + unrealizedPnL,
+    costBasis: bySymbol.reduce((sum, s) => sum + s.costBasis, 0),
+    marketValue: bySymbol.reduce((sum, s) => sum + s.marketValue, 0),
+    bySymbol,
+    bySecurityType: Array.from(securityTypes.values()),
+    byMonth: Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month)),
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Positions engine
+ * Reports what is currently held from the open lots of the lot-matching engine:
+ * long and short stock, and open option contracts by series.
+ *
+ * - One position per instrument and side (an option series is underlying,
+ *   expiration, strike and call/put)
+ * - Quantity is shares for stock and contracts for options; cost is what was
+ *   paid for long positions and the credit received for short positions
+ * - Positions are marked to the latest available price (the most recent fill
+ *   unless explicit marks are supplied)
+ * - Option series past their expiration are left out when an as-of date is given
+ */
+
+import {
+  matchLots,
+  getInstrumentKey,
+  toNumber,
+  type LotMatchOptions,
+  type LotSide,
+  type TradeRecord,
+} from './lot-matching';
+import { getLatestMarks, valueOpenLot } from './pnl';
+
+export interface PositionOptions extends LotMatchOptions {
+  // Latest prices by instrument key; falls back to the last fill price
+  marks?: Record<string, number>;
+  // Option series expiring before this date (YYYY-MM-DD) are no longer held
+  asOf?: string;
+}
+
+export interface OptionSeries {
+  expiration: string;
+  strike: number;
+  callPut: 'C' | 'P';
+}
+
+export interface OpenPosition {
+  instrumentKey: string;
+  symbol: string;
+  underlying: string;
+  securityType: 'Stock' | 'Option' | 'Warrant';
+  side: LotSide;
+  quantity: number;
+  multiplier: number;
+  // Average open price per share or per contract share (premium)
+  averagePrice: number;
+  // Paid for long positions, received for short positions (after fees)
+  costBasis: number;
+  marketPrice: number;
+  // Signed: negative for short positions
+  marketValue: number;
+  unrealizedPnL: number;
+  openedDate: string;
+  lots: number;
+  series?: OptionSeries;
+}
+
+export interface UnderlyingPositions {
+  underlying: string;
+  // Net shares (long minus short)
+  netShares: number;
+  stock: OpenPosition[];
+  options: OpenPosition[];
+  marketValue: number;
+  unrealizedPnL: number;
+}
+
+export interface PositionsReport {
+  positions: OpenPosition[];
+  byUnderlying: UnderlyingPositions[];
+  longMarketValue: number;
+  shortMarketValue: number;
+  netMarketValue: number;
+  unrealizedPnL: number;
+}
+
+const SECURITY_TYPE_LABELS: Record<string, OpenPosition['securityType']> = {
+  S: 'Stock',
+  O: 'Option',
+  W: 'Warrant',
+};
+
+/**
+ * Option series details per instrument key, taken from the trades themselves
+ */
+function getSeriesByKey(trades: TradeRecord[]): Map<string, OptionSeries> {
+  const series = new Map<string, OptionSeries>();
+  for (const trade of trades) {
+    if (trade.SecurityType !== 'O' || !trade.Expiration) continue;
+    series.set(getInstrumentKey(trade), {
+      expiration: trade.Expiration,
+      strike: toNumber(trade.Strike),
+      callPut: trade['Call/Put'] === 'P' ? 'P' : 'C',
+    });
+  }
+  return series;
+}
+
+/**
+ * Compute open positions from trade history
+ */
+export function computeOpenPositions(trades: TradeRecord[], options: PositionOptions = {}): PositionsReport {
+  const { openLots } = matchLots(trades, options);
+  const marks = { ...getLatestMarks(trades), ...options.marks };
+  const seriesByKey = getSeriesByKey(trades);
+
+  const positions = new Map<string, OpenPosition>();
+
+  for (const lot of openLots) {
+    const series = seriesByKey.get(lot.instrumentKey);
+    if (series && options.asOf && series.expiration < options.asOf) continue;
+
+    const key = `${lot.instrumentKey}|${lot.side}`;
+    let position = positions.get(key);
+    if (!position) {
+      position = {
+        instrumentKey: lot.instrumentKey,
+        symbol: lot.symbol,
+        underlying: lot.underlying,
+        securityType: SECURITY_TYPE_LABELS[lot.securityType] ?? 'Stock',
+        side: lot.side,
+        quantity: 0,
+        multiplier: lot.multiplier,
+        averagePrice: 0,
+        costBasis: 0,
+        marketPrice: marks[lot.instrumentKey] ?? lot.price,
+        marketValue: 0,
+        unrealizedPnL: 0,
+        openedDate: lot.openDate,
+        lots: 0,
+        series,
+      };
+      positions.set(key, position);
+    }
+
+    const { costBasis, marketValue, unrealizedPnL } = valueOpenLot(lot, position.marketPrice);
+    // Short lots carry the credit received: sale value less opening fees
+    const lotCost = lot.side === 'long' ? costBasis : lot.price * lot.quantity * lot.multiplier - lot.fees;
+
+    position.averagePrice =
+      (position.averagePrice * position.quantity + lot.price * lot.quantity) / (position.quantity + lot.quantity);
+    position.quantity += lot.quantity;
+    position.costBasis += lotCost;
+    position.marketValue += lot.side === 'long' ? marketValue : -marketValue;
+    position.unrealizedPnL += unrealizedPnL;
+    position.lots += 1;
+    if (lot.openDate < position.openedDate) position.openedDate = lot.openDate;
+  }
+
+  const sorted = Array.from(positions.values()).sort((a, b) => {
+    if (a.underlying !== b.underlying) return a.underlying.localeCompare(b.underlying);
+    if (a.securityType !== b.securityType) return a.securityType === 'Stock' ? -1 : 1;
+    return a.instrumentKey.localeCompare(b.instrumentKey);
+  });
+
+  const underlyings = new Map<string, UnderlyingPositions>();
+  let longMarketValue = 0;
+  let shortMarketValue = 0;
+  let unrealizedPnL = 0;
+
+  for (const position of sorted) {
+    let group = underlyings.get(position.underlying);
+    if (!group) {
+      group = { underlying: position.underlying, netShares: 0, stock: [], options: [], marketValue: 0, unrealizedPnL: 0 };
+      underlyings.set(position.underlying, group);
+    }
+
+    if (position.securityType === 'Option') {
+      group.options.push(position);
+    } else {
+      group.stock.push(position);
+      group.netShares += position.side === 'long' ? position.quantity : -position.quantity;
+    }
+    group.marketValue += position.marketValue;
+    group.unrealizedPnL += position.unrealizedPnL;
+
+    if (position.side === 'long') longMarketValue += position.marketValue;
+    else shortMarketValue += position.marketValue;
+    unrealizedPnL += position.unrealizedPnL;
+  }
+
+  return {
+    positions: sorted,
+    byUnderlying: Array.from(underlyings.values())
+      .sort((a, b) => Math.abs(b.marketValue) - Math.abs(a.marketValue)),
+    longMarketValue,
+    shortMarketValue,
+    netMarketValue: longMarketValue + shortMarketValue,
+    unrealizedPnL,
+  };
+}
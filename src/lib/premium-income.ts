@@ -0,0 +1,306 @@
+/**
+ * Premium income tracker
+ * Measures the income from writing options - cash-secured puts and covered
+ * calls - and the return it earns on the capital set aside for it.
+ *
+ * - Built on the option lifecycle resolver: each short contract nets its
+ *   opening credit against the closing debit (and fees); contracts that expire
+ *   or are assigned keep the whole credit
+ * - Income is counted when the contract is resolved (closed, expired or
+ *   assigned); contracts still open show their credit as pending
+ * - Collateral is strike × 100 per put and the value of the 100 shares on the
+ *   day a call was written (falling back to the strike)
+ * - A call counts as covered only when the shares held at the end of the day it
+ *   was written, less those already covering other open calls, cover it; the
+ *   rest are uncovered calls, reported separately and left out of the totals
+ * - Annualized return = income / (collateral × days held) × 365
+ */
+
+import {
+  getTradeQuantity,
+  sortTradesChronologically,
+  OPTION_MULTIPLIER,
+  type LotMatchOptions,
+  type TradeRecord,
+} from './lot-matching';
+import { resolveOptionLifecycle, type OptionLifecycleEvent, type OptionOutcome } from './option-lifecycle';
+import { getStockPriceHistory, priceOnOrBefore } from './pnl';
+
+export type IncomeStrategy = 'Cash-Secured Put' | 'Covered Call';
+
+export interface PremiumIncomeOptions extends LotMatchOptions {
+  // Contracts expiring before this date (YYYY-MM-DD) are resolved; also ends open holding periods
+  asOf: string;
+  // Only income resolved within [startDate, endDate] is counted
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface IncomePosition {
+  instrumentKey: string;
+  underlying: string;
+  strategy: IncomeStrategy;
+  expiration: string;
+  strike: number;
+  contracts: number;
+  openDate: string;
+  resolvedDate: string | null;
+  outcome: OptionOutcome;
+  credit: number;
+  debit: number;
+  // Credit less closing debit and fees (pending credit while open)
+  netIncome: number;
+  collateral: number;
+  daysHeld: number;
+  // null while open
+  annualizedReturn: number | null;
+}
+
+// Short call written without the shares to cover it (not premium income)
+export interface UncoveredCall {
+  instrumentKey: string;
+  underlying: string;
+  expiration: string;
+  strike: number;
+  contracts: number;
+  openDate: string;
+  resolvedDate: string | null;
+  outcome: OptionOutcome;
+  // Shares held the day the call was written that were not covering other calls
+  sharesAvailable: number;
+  // Credit less closing debit and fees (pending credit while open)
+  netIncome: number;
+}
+
+export interface IncomeBreakdown {
+  netIncome: number;
+  collateral: number;
+  // Collateral × days held, the base for annualizing
+  capitalDays: number;
+  annualizedReturn: number | null;
+  contracts: number;
+}
+
+export interface MonthlyIncome {
+  month: string; // YYYY-MM (database calendar)
+  cashSecuredPuts: number;
+  coveredCalls: number;
+  netIncome: number;
+}
+
+export interface PremiumIncomeReport {
+  positions: IncomePosition[];
+  credits: number;
+  debits: number;
+  netIncome: number;
+  annualizedReturn: number | null;
+  // Credit on contracts still open
+  pendingCredit: number;
+  byStrategy: Record<IncomeStrategy, IncomeBreakdown>;
+  byUnderlying: Array<IncomeBreakdown & { underlying: string }>;
+  byMonth: MonthlyIncome[];
+  uncoveredCalls: UncoveredCall[];
+  // Realized on uncovered calls; not part of netIncome
+  uncoveredIncome: number;
+}
+
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / (1000 * 60 * 60 * 24));
+}
+
+function emptyBreakdown(): IncomeBreakdown {
+  return { netIncome: 0, collateral: 0, capitalDays: 0, annualizedReturn: null, contracts: 0 };
+}
+
+function addToBreakdown(breakdown: IncomeBreakdown, position: IncomePosition) {
+  breakdown.netIncome += position.netIncome;
+  breakdown.collateral += position.collateral;
+  breakdown.capitalDays += position.collateral * position.daysHeld;
+  breakdown.contracts += position.contracts;
+}
+
+function annualize(breakdown: IncomeBreakdown) {
+  breakdown.annualizedReturn = breakdown.capitalDays > 0
+    ? (breakdown.netIncome / breakdown.capitalDays) * 365
+    : null;
+}
+
+/**
+ * Net shares held at the end of each trading day, per underlying
+ */
+function getShareHistory(trades: TradeRecord[]): Map<string, Array<{ date: string; shares: number }>> {
+  const history = new Map<string, Array<{ date: string; shares: number }>>();
+  for (const trade of sortTradesChronologically(trades.filter(t => t.SecurityType === 'S'))) {
+    const underlying = trade.UnderlyingSymbol || trade.Symbol;
+    const points = history.get(underlying) ?? [];
+    const previous = points.length > 0 ? points[points.length - 1].shares : 0;
+    const isSell = (trade.TradeType || '').toUpperCase().startsWith('S');
+    points.push({ date: trade.Date, shares: previous + (isSell ? -1 : 1) * getTradeQuantity(trade) });
+    history.set(underlying, points);
+  }
+  return history;
+}
+
+/**
+ * Shares free to cover each short call on the day it was written.
+ * Shares stay committed to a covered call until it is resolved, so a call
+ * closed on the day another is written (a roll) frees them for the new one.
+ */
+function getSharesAvailable(trades: TradeRecord[], events: OptionLifecycleEvent[]): Map<OptionLifecycleEvent, number> {
+  const history = getShareHistory(trades);
+  const calls = events
+    .filter(e => e.callPut === 'C')
+    .sort((a, b) => a.openDate.localeCompare(b.openDate) || String(a.openTradeId).localeCompare(String(b.openTradeId)));
+
+  const available = new Map<OptionLifecycleEvent, number>();
+  const covered: OptionLifecycleEvent[] = [];
+
+  for (const call of calls) {
+    let held = 0;
+    for (const point of history.get(call.underlying) ?? []) {
+      if (point.date > call.openDate) break;
+      held = point.shares;
+    }
+    const committed = covered
+      .filter(c => c.underlying === call.underlying && (c.resolvedDate === null || c.resolvedDate > call.openDate))
+      .reduce((sum, c) => sum + c.contracts * OPTION_MULTIPLIER, 0);
+
+    const free = Math.max(0, held - committed);
+    available.set(call, free);
+    if (free >= call.contracts * OPTION_MULTIPLIER) covered.push(call);
+  }
+
+  return available;
+}
+
+/**
+ * Summarize premium income from short puts and short calls
+ */
+export function summarizePremiumIncome(
+  trades: TradeRecord[],
+  options: PremiumIncomeOptions
+): PremiumIncomeReport {
+  const { events } = resolveOptionLifecycle(trades, { ...options, side: 'short', startDate: undefined, endDate: undefined });
+  const history = getStockPriceHistory(trades);
+  const sharesAvailable = getSharesAvailable(trades, events);
+
+  const inPeriod = (date: string) =>
+    (!options.startDate || date >= options.startDate) && (!options.endDate || date <= options.endDate);
+
+  const positions: IncomePosition[] = [];
+  const uncoveredCalls: UncoveredCall[] = [];
+
+  for (const event of events) {
+    const isOpen = event.outcome === 'open';
+    // Open contracts belong to the period they were written in
+    if (!inPeriod(isOpen ? event.openDate : event.resolvedDate ?? event.openDate)) continue;
+
+    const available = sharesAvailable.get(event);
+    if (available !== undefined && available < event.contracts * OPTION_MULTIPLIER) {
+      uncoveredCalls.push({
+        instrumentKey: event.instrumentKey,
+        underlying: event.underlying,
+        expiration: event.expiration,
+        strike: event.strike,
+        contracts: event.contracts,
+        openDate: event.openDate,
+        resolvedDate: event.resolvedDate,
+        outcome: event.outcome,
+        sharesAvailable: available,
+        netIncome: isOpen ? event.openPremium * event.contracts * OPTION_MULTIPLIER : event.premiumPnL,
+      });
+      continue;
+    }
+
+    const strategy: IncomeStrategy = event.callPut === 'P' ? 'Cash-Secured Put' : 'Covered Call';
+    const shares = event.contracts * OPTION_MULTIPLIER;
+    const sharePrice = strategy === 'Covered Call'
+      ? priceOnOrBefore(history.get(event.underlying), event.openDate) ?? event.strike
+      : event.strike;
+
+    const credit = event.openPremium * shares;
+    const debit = event.outcome === 'closed' ? (event.closePremium ?? 0) * shares : 0;
+    const endDate = isOpen ? options.asOf : event.resolvedDate ?? options.asOf;
+    const daysHeld = Math.max(1, daysBetween(event.openDate, endDate));
+    const collateral = sharePrice * shares;
+    const netIncome = isOpen ? credit : event.premiumPnL;
+
+    positions.push({
+      instrumentKey: event.instrumentKey,
+      underlying: event.underlying,
+      strategy,
+      expiration: event.expiration,
+      strike: event.strike,
+      contracts: event.contracts,
+      openDate: event.openDate,
+      resolvedDate: event.resolvedDate,
+      outcome: event.outcome,
+      credit,
+      debit,
+      netIncome,
+      collateral,
+      daysHeld,
+      annualizedReturn: isOpen || collateral <= 0 ? null : (netIncome / (collateral * daysHeld)) * 365,
+    });
+  }
+
+  const byStrategy: Record<IncomeStrategy, IncomeBreakdown> = {
+    'Cash-Secured Put': emptyBreakdown(),
+    'Covered Call': emptyBreakdown(),
+  };
+  const underlyings = new Map<string, IncomeBreakdown & { underlying: string }>();
+  const months = new Map<string, MonthlyIncome>();
+  const realized = emptyBreakdown();
+  let credits = 0;
+  let debits = 0;
+  let pendingCredit = 0;
+
+  for (const position of positions) {
+    if (position.outcome === 'open') {
+      pendingCredit += position.credit;
+      continue;
+    }
+
+    credits += position.credit;
+    debits += position.debit;
+    addToBreakdown(realized, position);
+    addToBreakdown(byStrategy[position.strategy], position);
+
+    let group = underlyings.get(position.underlying);
+    if (!group) {
+      group = { underlying: position.underlying, ...emptyBreakdown() };
+      underlyings.set(position.underlying, group);
+    }
+    addToBreakdown(group, position);
+
+    const month = (position.resolvedDate ?? position.openDate).slice(0, 7);
+    const entry = months.get(month) ?? { month, cashSecuredPuts: 0, coveredCalls: 0, netIncome: 0 };
+    if (position.strategy === 'Cash-Secured Put') entry.cashSecuredPuts += position.netIncome;
+    else entry.coveredCalls += position.netIncome;
+    entry.netIncome += position.netIncome;
+    months.set(month, entry);
+  }
+
+  annualize(realized);
+  Object.values(byStrategy).forEach(annualize);
+  underlyings.forEach(annualize);
+
+  return {
+    positions: positions.sort((a, b) =>
+      (b.resolvedDate ?? b.openDate).localeCompare(a.resolvedDate ?? a.openDate)),
+    credits,
+    debits,
+    netIncome: realized.netIncome,
+    annualizedReturn: realized.annualizedReturn,
+    pendingCredit,
+    byStrategy,
+    byUnderlying: Array.from(underlyings.values()).sort((a, b) => b.netIncome - a.netIncome),
+    byMonth: Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month)),
+    uncoveredCalls: uncoveredCalls.sort((a, b) => b.openDate.localeCompare(a.openDate)),
+    uncoveredIncome: uncoveredCalls
+      .filter(call => call.outcome !== 'open')
+      .reduce((sum, call) => sum + call.netIncome, 0),
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * Cash reconciliation
+ * Walks consecutive AccountBalance rows and explains each CashBalance change
+ * by the trades, fees and interest, and cash dividends posted since the
+ * previous balance. Whatever is left over is a break.
+ *
+ * - Trades move cash by NetAmount (sales in, purchases out); rows without a
+ *   NetAmount fall back to price × quantity ± fees
+ * - FeesAndInterest rows use the same sign as cash-flow inference: credit
+ *   interest is received, everything else is charged
+ * - Reinvested dividends never touch cash and are left out
+ * - A break lists every row in its window as a candidate; rows whose amount
+ *   matches the break are flagged as likely duplicates or sign reversals
+ * - Deposits and withdrawals have no table of their own, so they show up as
+ *   breaks without a matching row
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toNumber, type TradeRecord } from './lot-matching';
+import { getFeeCashImpact, getTradeCashImpact, CASH_FLOW_TOLERANCE, type BalanceRecord } from './performance';
+import type { FeeActivityRecord } from './fees';
+import type { DividendRecord } from './dividends';
+
+// Raw TradeData row with the amount that actually moved cash
+export interface ReconciliationTradeRecord extends TradeRecord {
+  NetAmount?: number | string | null;
+}
+
+export type CandidateSource = 'trade' | 'fee' | 'dividend';
+
+// How a candidate row could explain a break
+export type CandidateMatch = 'not_posted' | 'sign_reversed';
+
+export interface ReconciliationCandidate {
+  source: CandidateSource;
+  date: string;
+  // TradeID for trades; fee type or dividend type otherwise
+  reference: string;
+  symbol: string | null;
+  // Cash the row should move (positive in, negative out)
+  amount: number;
+  match: CandidateMatch | null;
+}
+
+export interface ReconciliationDay {
+  date: string;
+  previousDate: string;
+  openingCash: number;
+  closingCash: number;
+  cashDelta: number;
+  tradeCash: number;
+  feeCash: number;
+  dividendCash: number;
+  explained: number;
+  unexplained: number;
+}
+
+export interface ReconciliationBreak extends ReconciliationDay {
+  candidates: ReconciliationCandidate[];
+  // No rows posted in the window: most likely a deposit, withdrawal or missing load
+  noActivity: boolean;
+}
+
+export interface ReconciliationOptions {
+  // Differences smaller than this are rounding (defaults to CASH_FLOW_TOLERANCE)
+  tolerance?: number;
+  // Only balances within [startDate, endDate] are checked
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ReconciliationReport {
+  startDate: string | null;
+  endDate: string | null;
+  tolerance: number;
+  daysChecked: number;
+  daysReconciled: number;
+  totalCashDelta: number;
+  totalExplained: number;
+  totalUnexplained: number;
+  // Most recent first
+  breaks: ReconciliationBreak[];
+}
+
+function isSell(trade: TradeRecord): boolean {
+  return (trade.TradeType || '').toUpperCase().startsWith('S');
+}
+
+/**
+ * Cash a trade moved: NetAmount signed by side, or the computed cash impact without one
+ */
+export function getTradeNetCash(trade: ReconciliationTradeRecord): number {
+  const net = Math.abs(toNumber(trade.NetAmount));
+  if (net === 0) return getTradeCashImpact(trade);
+  return isSell(trade) ? net : -net;
+}
+
+function toCandidates(
+  trades: ReconciliationTradeRecord[],
+  fees: FeeActivityRecord[],
+  dividends: DividendRecord[]
+): ReconciliationCandidate[] {
+  return [
+    ...trades.map(t => ({
+      source: 'trade' as const,
+      date: t.Date,
+      reference: String(t.TradeID),
+      symbol: t.Symbol,
+      amount: getTradeNetCash(t),
+      match: null,
+    })),
+    ...fees.map(f => ({
+      source: 'fee' as const,
+      date: f.Date,
+      reference: f.Type,
+      symbol: f.Symbol || null,
+      amount: getFeeCashImpact(f),
+      match: null,
+    })),
+    ...dividends
+      .filter(d => !d.Reinvested)
+      .map(d => ({
+        source: 'dividend' as const,
+        date: d.PayDate,
+        reference: d.DividendType || 'Dividend',
+        symbol: d.Symbol,
+        amount: toNumber(d.NetAmount),
+        match: null,
+      })),
+  ];
+}
+
+/**
+ * Match candidates to a break. A row counted in activity but never posted to
+ * cash leaves -amount unexplained; a row loaded with the wrong sign leaves -2 × amount.
+ */
+function matchCandidate(candidate: ReconciliationCandidate, unexplained: number, tolerance: number): CandidateMatch | null {
+  if (Math.abs(unexplained + candidate.amount) < tolerance) return 'not_posted';
+  if (Math.abs(unexplained + 2 * candidate.amount) < tolerance) return 'sign_reversed';
+  return null;
+}
+
+/**
+ * Reconcile day-over-day CashBalance changes against posted activity
+ */
+export function reconcileCash(
+  balances: BalanceRecord[],
+  activity: { trades?: ReconciliationTradeRecord[]; fees?: FeeActivityRecord[]; dividends?: DividendRecord[] } = {},
+  options: ReconciliationOptions = {}
+): ReconciliationReport {
+  const tolerance = options.tolerance ?? CASH_FLOW_TOLERANCE;
+  const candidates = toCandidates(activity.trades || [], activity.fees || [], activity.dividends || [])
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const sorted = [...balances].sort((a, b) => a.Date.localeCompare(b.Date));
+
+  const days: ReconciliationDay[] = [];
+  const breaks: ReconciliationBreak[] = [];
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1];
+    const current = sorted[i];
+    if (options.startDate && current.Date < options.startDate) continue;
+    if (options.endDate && current.Date > options.endDate) break;
+
+    // Activity posted after the previous balance and up to this one
+    const window = candidates.filter(c => c.date > previous.Date && c.date <= current.Date);
+    const sumOf = (source: CandidateSource) =>
+      window.filter(c => c.source === source).reduce((sum, c) => sum + c.amount, 0);
+
+    const openingCash = toNumber(previous.CashBalance);
+    const closingCash = toNumber(current.CashBalance);
+    const tradeCash = sumOf('trade');
+    const feeCash = sumOf('fee');
+    const dividendCash = sumOf('dividend');
+    const explained = tradeCash + feeCash + dividendCash;
+    const cashDelta = closingCash - openingCash;
+    const unexplained = cashDelta - explained;
+
+    const day: ReconciliationDay = {
+      date: current.Date,
+      previousDate: previous.Date,
+      openingCash,
+      closingCash,
+      cashDelta,
+      tradeCash,
+      feeCash,
+      dividendCash,
+      explained,
+      unexplained,
+    };
+    days.push(day);
+
+    if (Math.abs(unexplained) >= tolerance) {
+      breaks.push({
+        ...day,
+        noActivity: window.length === 0,
+        candidates: window
+          .map(c => ({ ...c, match: matchCandidate(c, unexplained, tolerance) }))
+          // Likely culprits first, then largest amounts
+          .sort((a, b) => Number(b.match !== null) - Number(a.match !== null) || Math.abs(b.amount) - Math.abs(a.amount)),
+      });
+    }
+  }
+
+  return {
+    startDate: days[0]?.previousDate ?? null,
+    endDate: days[days.length - 1]?.date ?? null,
+    tolerance,
+    daysChecked: days.length,
+    daysReconciled: days.length - breaks.length,
+    totalCashDelta: days.reduce((sum, d) => sum + d.cashDelta, 0),
+    totalExplained: days.reduce((sum, d) => sum + d.explained, 0),
+    totalUnexplained: breaks.reduce((sum, b) => sum + b.unexplained, 0),
+    breaks: breaks.reverse(),
+  };
+}
+
+/**
+ * Record breaks in ReconciliationBreaks (one row per account and balance date).
+ * Breaks recorded earlier in the checked range that no longer break are marked resolved.
+ */
+export async function recordReconciliationBreaks(
+  supabase: SupabaseClient,
+  accountCode: string,
+  report: ReconciliationReport
+): Promise<void> {
+  const now = new Date().toISOString();
+
+  if (report.breaks.length > 0) {
+    const { error } = await supabase.from('ReconciliationBreaks').upsert(
+      report.breaks.map(b => ({
+        AccountCode: accountCode,
+        Date: b.date,
+        PreviousDate: b.previousDate,
+        CashDelta: b.cashDelta,
+        Explained: b.explained,
+        Unexplained: b.unexplained,
+        CandidateCount: b.candidates.length,
+        Status: 'open',
+        updated_at: now,
+      })),
+      { onConflict: 'AccountCode,Date' }
+    );
+
+    if (error) {
+      throw new Error(`Failed to record reconciliation breaks: ${error.message}`);
+    }
+  }
+
+  if (!report.startDate || !report.endDate) return;
+
+  let resolveQuery = supabase
+    .from('ReconciliationBreaks')
+    .update({ Status: 'resolved', updated_at: now })
+    .eq('AccountCode', accountCode)
+    .eq('Status', 'open')
+    .gt('Date', report.startDate)
+    .lte('Date', report.endDate);
+
+  if (report.breaks.length > 0) {
+    resolveQuery = resolveQuery.not('Date', 'in', `(${report.breaks.map(b => b.date).join(',')})`);
+  }
+
+  const { error } = await resolveQuery;
+  if (error) {
+    throw new Error(`Failed to resolve reconciliation breaks: ${error.message}`);
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Risk analytics
+ * Drawdown, volatility and risk-adjusted return of the daily equity curve.
+ *
+ * - Works on flow-adjusted daily returns (see computeDailyReturns), so deposits
+ *   and withdrawals neither hide nor create drawdowns
+ * - Drawdown is measured on the growth index of those returns: the fall from
+ *   the running peak, as a fraction of the peak
+ * - Volatility, Sharpe and Sortino are annualized over trading days; Sortino
+ *   only counts returns below the daily risk-free rate as downside
+ */
+
+import { DEFAULT_RISK_FREE_RATE } from './black-scholes';
+import { toNumber } from './lot-matching';
+import {
+  balancesInRange,
+  computeDailyReturns,
+  type BalanceRecord,
+  type CashFlow,
+  type PerformanceOptions,
+} from './performance';
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+// Trading days in the rolling volatility window (about one month)
+export const DEFAULT_VOLATILITY_WINDOW = 21;
+
+export interface RiskOptions extends PerformanceOptions {
+  // Annual risk-free rate for Sharpe and Sortino
+  riskFreeRate?: number;
+  volatilityWindow?: number;
+  // How many of the worst days to report
+  worstDayCount?: number;
+}
+
+export interface DrawdownPoint {
+  date: string;
+  // Fall from the running peak (0 at a new high, negative below it)
+  drawdown: number;
+}
+
+export interface Drawdown {
+  depth: number;
+  peakDate: string;
+  peakEquity: number;
+  troughDate: string;
+  troughEquity: number;
+  // First date back at the peak (null while still under water)
+  recoveryDate: string | null;
+  // Trading days from peak to trough, and from peak to recovery
+  daysToTrough: number;
+  daysToRecovery: number | null;
+}
+
+export interface VolatilityPoint {
+  date: string;
+  // Annualized standard deviation of the window's daily returns
+  volatility: number;
+}
+
+export interface WorstDay {
+  date: string;
+  return: number;
+  // Change in equity not explained by flows
+  change: number;
+  equity: number;
+}
+
+export interface RiskReport {
+  startDate: string;
+  endDate: string;
+  tradingDays: number;
+  maxDrawdown: Drawdown | null;
+  currentDrawdown: number;
+  // Annualized, null with fewer than two returns
+  volatility: number | null;
+  sharpe: number | null;
+  sortino: number | null;
+  riskFreeRate: number;
+  worstDays: WorstDay[];
+  drawdowns: DrawdownPoint[];
+  rollingVolatility: VolatilityPoint[];
+}
+
+function standardDeviation(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Compute drawdown, volatility and Sharpe/Sortino over a date range.
+ * The last balance before the range is the starting peak.
+ */
+export function computeRiskMetrics(
+  balances: BalanceRecord[],
+  flows: CashFlow[],
+  options: RiskOptions = {}
+): RiskReport | null {
+  const range = balancesInRange(balances, options);
+  const daily = computeDailyReturns(range, flows);
+  if (daily.length === 0) return null;
+
+  const riskFreeRate = options.riskFreeRate ?? DEFAULT_RISK_FREE_RATE;
+  const window = options.volatilityWindow ?? DEFAULT_VOLATILITY_WINDOW;
+  const dailyRiskFree = riskFreeRate / TRADING_DAYS_PER_YEAR;
+  const returns = daily.map(day => day.return);
+
+  // Drawdown series on the growth index (starting balance = 1)
+  const start = range[0];
+  const startEquity = toNumber(start['Account Equity']);
+  let index = 1;
+  let peak = { index: 1, position: -1, date: start.Date, equity: startEquity };
+  let maxDrawdown: Drawdown | null = null;
+  let current: Drawdown | null = null;
+  const drawdowns: DrawdownPoint[] = [];
+
+  for (let position = 0; position < daily.length; position++) {
+    const day = daily[position];
+    index *= 1 + day.return;
+
+    if (index >= peak.index) {
+      if (current) {
+        current.recoveryDate = day.date;
+        current.daysToRecovery = position - peak.position;
+        current = null;
+      }
+      peak = { index, position, date: day.date, equity: day.equity };
+      drawdowns.push({ date: day.date, drawdown: 0 });
+      continue;
+    }
+
+    const drawdown = index / peak.index - 1;
+    drawdowns.push({ date: day.date, drawdown });
+    if (!current) {
+      current = {
+        depth: drawdown,
+        peakDate: peak.date,
+        peakEquity: peak.equity,
+        troughDate: day.date,
+        troughEquity: day.equity,
+        recoveryDate: null,
+        daysToTrough: position - peak.position,
+        daysToRecovery: null,
+      };
+    } else if (drawdown < current.depth) {
+      current.depth = drawdown;
+      current.troughDate = day.date;
+      current.troughEquity = day.equity;
+      current.daysToTrough = position - peak.position;
+    }
+    if (!maxDrawdown || current.depth < maxDrawdown.depth) maxDrawdown = current;
+  }
+
+  const rollingVolatility: VolatilityPoint[] = [];
+  for (let i = window; i <= returns.length; i++) {
+    const deviation = standardDeviation(returns.slice(i - window, i));
+    if (deviation !== null) {
+      rollingVolatility.push({ date: daily[i - 1].date, volatility: deviation * Math.sqrt(TRADING_DAYS_PER_YEAR) });
+    }
+  }
+
+  const deviation = standardDeviation(returns);
+  const meanExcess = returns.reduce((sum, r) => sum + (r - dailyRiskFree), 0) / returns.length;
+  const downside = Math.sqrt(returns.reduce((sum, r) => sum + Math.min(0, r - dailyRiskFree) ** 2, 0) / returns.length);
+  const annualize = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  const worstDays: WorstDay[] = daily
+    .map((day, position) => ({
+      date: day.date,
+      return: day.return,
+      change: day.equity - day.flow - (position > 0 ? daily[position - 1].equity : startEquity),
+      equity: day.equity,
+    }))
+    .filter(day => day.return < 0)
+    .sort((a, b) => a.return - b.return)
+    .slice(0, options.worstDayCount ?? 5);
+
+  return {
+    startDate: start.Date,
+    endDate: daily[daily.length - 1].date,
+    tradingDays: daily.length,
+    maxDrawdown,
+    currentDrawdown: drawdowns[drawdowns.length - 1].drawdown,
+    volatility: deviation === null ? null : deviation * annualize,
+    sharpe: deviation ? (meanExcess / deviation) * annualize : null,
+    sortino: deviation !== null && downside > 0 ? (meanExcess / downside) * annualize : null,
+    riskFreeRate,
+    worstDays,
+    drawdowns,
+    rollingVolatility,
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * Option roll detection
+ * Links an option position that is closed and replaced on the same day by a
+ * new position in the same underlying into a roll, and rolls into chains.
+ *
+ * - Legs are the contracts of one opening trade, followed through the option
+ *   lifecycle resolver (closed, expired, assigned, exercised or still open)
+ * - A roll is a leg closed by an offsetting trade on the day (session) a new
+ *   leg opens with the same underlying, call/put and side in a different series
+ * - Each leg rolls into at most one new leg; earlier closes claim first
+ * - Cash amounts are positive for credits (premium received) and negative for
+ *   debits, before fees; realized P&L includes fees
+ */
+
+import { OPTION_MULTIPLIER, type LotMatchOptions, type LotSide, type TradeRecord } from './lot-matching';
+import { resolveOptionLifecycle, type OptionOutcome } from './option-lifecycle';
+
+export interface RollOptions extends LotMatchOptions {
+  // Contracts expiring before this date (YYYY-MM-DD) are resolved
+  asOf?: string;
+  // Only chains with a roll within [startDate, endDate] are reported
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface RollLeg {
+  openTradeId: number | string;
+  instrumentKey: string;
+  underlying: string;
+  side: LotSide;
+  expiration: string;
+  strike: number;
+  callPut: 'C' | 'P';
+  contracts: number;
+  openDate: string;
+  openPremium: number;
+  // Contracts closed by an offsetting trade, at their average closing premium
+  closedContracts: number;
+  closePremium: number | null;
+  // Last resolution date (null while any contract is open)
+  resolvedDate: string | null;
+  outcome: OptionOutcome;
+  // Premium received minus premium paid on this leg
+  netPremium: number;
+  realizedPnL: number;
+}
+
+export interface Roll {
+  date: string;
+  fromInstrumentKey: string;
+  toInstrumentKey: string;
+  fromStrike: number;
+  toStrike: number;
+  fromExpiration: string;
+  toExpiration: string;
+  // Credit (positive) or debit (negative) of the closing and opening trades together
+  netPremium: number;
+}
+
+export interface RollChain {
+  id: string;
+  underlying: string;
+  callPut: 'C' | 'P';
+  side: LotSide;
+  startDate: string;
+  legs: RollLeg[];
+  rolls: Roll[];
+  // Cumulative credit/debit over every leg in the chain
+  netPremium: number;
+  realizedPnL: number;
+  // How the last leg ended
+  finalOutcome: OptionOutcome;
+}
+
+export interface RollReport {
+  chains: RollChain[];
+  rollCount: number;
+  netPremium: number;
+  realizedPnL: number;
+  // Chains by how their last leg ended
+  outcomes: Record<OptionOutcome, number>;
+}
+
+/**
+ * Detect option rolls and link them into chains
+ */
+export function detectRolls(trades: TradeRecord[], options: RollOptions = {}): RollReport {
+  const { events } = resolveOptionLifecycle(trades, { ...options, startDate: undefined, endDate: undefined });
+
+  // One leg per opening trade
+  const legsById = new Map<string, RollLeg>();
+  for (const event of events) {
+    const id = String(event.openTradeId);
+    let leg = legsById.get(id);
+    if (!leg) {
+      leg = {
+        openTradeId: event.openTradeId,
+        instrumentKey: event.instrumentKey,
+        underlying: event.underlying,
+        expiration: event.expiration,
+        strike: event.strike,
+        callPut: event.callPut,
+        side: event.side,
+        contracts: 0,
+        openDate: event.openDate,
+        openPremium: event.openPremium,
+        closedContracts: 0,
+        closePremium: null,
+        resolvedDate: null,
+        outcome: event.outcome,
+        netPremium: 0,
+        realizedPnL: 0,
+      };
+      legsById.set(id, leg);
+    }
+
+    const sign = event.side === 'short' ? 1 : -1;
+    const shares = event.contracts * OPTION_MULTIPLIER;
+    leg.contracts += event.contracts;
+    leg.netPremium += sign * event.openPremium * shares;
+
+    if (event.outcome === 'open') {
+      leg.outcome = 'open';
+      leg.resolvedDate = null;
+      continue;
+    }
+
+    leg.realizedPnL += event.premiumPnL;
+    if (event.outcome === 'closed') {
+      const closePremium = event.closePremium ?? 0;
+      leg.closePremium = ((leg.closePremium ?? 0) * leg.closedContracts + closePremium * event.contracts) /
+        (leg.closedContracts + event.contracts);
+      leg.closedContracts += event.contracts;
+      leg.netPremium -= sign * closePremium * shares;
+    }
+    if (leg.outcome !== 'open' && (!leg.resolvedDate || (event.resolvedDate ?? '') >= leg.resolvedDate)) {
+      leg.resolvedDate = event.resolvedDate;
+      leg.outcome = event.outcome;
+    }
+  }
+
+  const legs = Array.from(legsById.values())
+    .sort((a, b) => a.openDate.localeCompare(b.openDate) || String(a.openTradeId).localeCompare(String(b.openTradeId)));
+
+  // Date on which a leg was (last) closed by an offsetting trade
+  const closeDates = new Map<string, string>();
+  for (const event of events) {
+    if (event.outcome !== 'closed' || !event.resolvedDate) continue;
+    const id = String(event.openTradeId);
+    const current = closeDates.get(id);
+    if (!current || event.resolvedDate > current) closeDates.set(id, event.resolvedDate);
+  }
+
+  const next = new Map<RollLeg, RollLeg>();
+  const claimed = new Set<RollLeg>();
+  const closing = legs
+    .filter(leg => closeDates.has(String(leg.openTradeId)))
+    .sort((a, b) => closeDates.get(String(a.openTradeId))!.localeCompare(closeDates.get(String(b.openTradeId))!));
+
+  for (const leg of closing) {
+    const date = closeDates.get(String(leg.openTradeId))!;
+    const replacement = legs.find(candidate =>
+      candidate !== leg &&
+      !claimed.has(candidate) &&
+      candidate.openDate === date &&
+      candidate.underlying === leg.underlying &&
+      candidate.callPut === leg.callPut &&
+      candidate.side === leg.side &&
+      candidate.instrumentKey !== leg.instrumentKey
+    );
+    if (replacement) {
+      next.set(leg, replacement);
+      claimed.add(replacement);
+    }
+  }
+
+  const inPeriod = (date: string) =>
+    (!options.startDate || date >= options.startDate) && (!options.endDate || date <= options.endDate);
+
+  const chains: RollChain[] = [];
+  for (const head of legs) {
+    if (claimed.has(head) || !next.has(head)) continue;
+
+    const chainLegs: RollLeg[] = [head];
+    let current = head;
+    while (next.has(current)) {
+      current = next.get(current)!;
+      chainLegs.push(current);
+    }
+
+    const rolls: Roll[] = [];
+    for (let i = 1; i < chainLegs.length; i++) {
+      const from = chainLegs[i - 1];
+      const to = chainLegs[i];
+      const sign = from.side === 'short' ? 1 : -1;
+      const closeCash = (from.closePremium ?? 0) * from.closedContracts * OPTION_MULTIPLIER;
+      const openCash = to.openPremium * to.contracts * OPTION_MULTIPLIER;
+      rolls.push({
+        date: to.openDate,
+        fromInstrumentKey: from.instrumentKey,
+        toInstrumentKey: to.instrumentKey,
+        fromStrike: from.strike,
+        toStrike: to.strike,
+        fromExpiration: from.expiration,
+        toExpiration: to.expiration,
+        netPremium: sign * (openCash - closeCash),
+      });
+    }
+    if (!rolls.some(roll => inPeriod(roll.date))) continue;
+
+    const last = chainLegs[chainLegs.length - 1];
+    chains.push({
+      id: String(head.openTradeId),
+      underlying: head.underlying,
+      callPut: head.callPut,
+      side: head.side,
+      startDate: head.openDate,
+      legs: chainLegs,
+      rolls,
+      netPremium: chainLegs.reduce((sum, leg) => sum + leg.netPremium, 0),
+      realizedPnL: chainLegs.reduce((sum, leg) => sum + leg.realizedPnL, 0),
+      finalOutcome: last.outcome,
+    });
+  }
+
+  chains.sort((a, b) => b.rolls[b.rolls.length - 1].date.localeCompare(a.rolls[a.rolls.length - 1].date));
+
+  const outcomes: Record<OptionOutcome, number> = { closed: 0, expired: 0, assigned: 0, exercised: 0, open: 0 };
+  for (const chain of chains) outcomes[chain.finalOutcome]++;
+
+  return {
+    chains,
+    rollCount: chains.reduce((sum, chain) => sum + chain.rolls.length, 0),
+    netPremium: chains.reduce((sum, chain) => sum + chain.netPremium, 0),
+    realizedPnL: chains.reduce((sum, chain) => sum + chain.realizedPnL, 0),
+    outcomes,
+  };
+}
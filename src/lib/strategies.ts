@@ -0,0 +1,389 @@
+/**
+ * Multi-leg option strategy detector
+ * Groups option legs opened together into named strategies (verticals,
+ * straddles, strangles, iron condors, covered calls, ...) and works out their
+ * payoff at expiration.
+ *
+ * - Legs are the opening part of each option fill (closing fills are left out),
+ *   taken from the lot-matching engine
+ * - Legs opened in the same underlying, at the same timestamp and with the same
+ *   expiration form one strategy
+ * - Stock bought at the same timestamp joins the group (buy-write, married put);
+ *   short calls are also covered by long stock already held at the time
+ * - Net premium, max profit/loss and breakevens come from the payoff at
+ *   expiration, premium only (fees are not included)
+ */
+
+import {
+  matchLots,
+  getTradeQuantity,
+  getTradePrice,
+  sortTradesChronologically,
+  toNumber,
+  OPTION_MULTIPLIER,
+  type LotMatchOptions,
+  type LotSide,
+  type TradeRecord,
+} from './lot-matching';
+
+export type StrategyName =
+  | 'Long Call'
+  | 'Long Put'
+  | 'Naked Call'
+  | 'Cash-Secured Put'
+  | 'Covered Call'
+  | 'Protective Put'
+  | 'Collar'
+  | 'Bull Call Spread'
+  | 'Bear Call Spread'
+  | 'Bull Put Spread'
+  | 'Bear Put Spread'
+  | 'Long Straddle'
+  | 'Short Straddle'
+  | 'Long Strangle'
+  | 'Short Strangle'
+  | 'Iron Condor'
+  | 'Iron Butterfly'
+  | 'Custom';
+
+export interface StrategyOptions extends LotMatchOptions {
+  // Only strategies opened within [startDate, endDate] are reported
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface StrategyLeg {
+  tradeId: number | string;
+  securityType: 'Stock' | 'Option';
+  side: LotSide;
+  // Contracts for options, shares for stock
+  quantity: number;
+  // Premium per share for options, share price for stock
+  price: number;
+  strike: number | null;
+  callPut: 'C' | 'P' | null;
+  // Long stock already held that covers the short calls (not part of the fill)
+  held?: boolean;
+}
+
+export interface OptionStrategy {
+  id: string;
+  name: StrategyName;
+  underlying: string;
+  openDate: string;
+  openTime: string | null;
+  expiration: string;
+  legs: StrategyLeg[];
+  // Positive for a net credit, negative for a net debit
+  netPremium: number;
+  // null when unlimited
+  maxProfit: number | null;
+  maxLoss: number | null;
+  breakevens: number[];
+}
+
+export interface StrategyReport {
+  strategies: OptionStrategy[];
+  // Strategy count by name
+  counts: Partial<Record<StrategyName, number>>;
+  netCredit: number;
+  netDebit: number;
+}
+
+// Largest multiple of the highest strike used to probe the upside slope
+const UPSIDE_PROBE = 10;
+
+function legMultiplier(leg: StrategyLeg): number {
+  return leg.securityType === 'Option' ? OPTION_MULTIPLIER : 1;
+}
+
+function legSign(leg: StrategyLeg): number {
+  return leg.side === 'long' ? 1 : -1;
+}
+
+/**
+ * Value of the strategy at expiration with the underlying at `price`, net of premium paid/received
+ */
+function payoffAt(legs: StrategyLeg[], price: number): number {
+  let total = 0;
+  for (const leg of legs) {
+    let value: number;
+    if (leg.securityType === 'Stock') {
+      value = price - leg.price;
+    } else {
+      const intrinsic = leg.callPut === 'C'
+        ? Math.max(0, price - (leg.strike ?? 0))
+        : Math.max(0, (leg.strike ?? 0) - price);
+      value = intrinsic - leg.price;
+    }
+    total += legSign(leg) * value * leg.quantity * legMultiplier(leg);
+  }
+  return total;
+}
+
+/**
+ * Max profit, max loss and breakevens of a piecewise-linear expiration payoff.
+ * The payoff only bends at strikes, so checking 0, every strike and the slope
+ * beyond the highest strike is enough.
+ */
+function analyzePayoff(legs: StrategyLeg[]): Pick<OptionStrategy, 'maxProfit' | 'maxLoss' | 'breakevens'> {
+  const strikes = Array.from(new Set(legs.filter(l => l.strike !== null).map(l => l.strike as number)))
+    .sort((a, b) => a - b);
+  const highest = strikes.length > 0 ? strikes[strikes.length - 1] : Math.max(...legs.map(l => l.price), 1);
+  const points = [0, ...strikes.filter(s => s > 0)];
+  const values = points.map(p => payoffAt(legs, p));
+
+  const far = highest * UPSIDE_PROBE;
+  const upsideSlope = payoffAt(legs, far + 1) - payoffAt(legs, far);
+
+  const maxProfit = upsideSlope > 1e-9 ? null : Math.max(...values, payoffAt(legs, far));
+  const maxLoss = upsideSlope < -1e-9 ? null : Math.min(...values, payoffAt(legs, far));
+
+  const breakevens: number[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const [x1, x2] = [points[i], points[i + 1]];
+    const [y1, y2] = [values[i], values[i + 1]];
+    if (y1 === 0 && i > 0) breakevens.push(x1);
+    if ((y1 < 0 && y2 > 0) || (y1 > 0 && y2 < 0)) {
+      breakevens.push(x1 + ((0 - y1) * (x2 - x1)) / (y2 - y1));
+    }
+  }
+  const last = points[points.length - 1];
+  const lastValue = values[values.length - 1];
+  if (lastValue === 0 && last > 0) breakevens.push(last);
+  if (Math.abs(upsideSlope) > 1e-9 && lastValue * upsideSlope < 0) {
+    breakevens.push(last - lastValue / upsideSlope);
+  }
+
+  return {
+    maxProfit: maxProfit === null ? null : Math.round(maxProfit * 100) / 100,
+    maxLoss: maxLoss === null ? null : Math.round(Math.min(0, maxLoss) * 100) / 100,
+    breakevens: Array.from(new Set(breakevens.map(b => Math.round(b * 100) / 100))),
+  };
+}
+
+/**
+ * Name a group of legs opened together
+ */
+function classifyStrategy(legs: StrategyLeg[]): StrategyName {
+  const options = legs.filter(l => l.securityType === 'Option');
+  const stock = legs.filter(l => l.securityType === 'Stock' && l.side === 'long');
+  const calls = options.filter(l => l.callPut === 'C');
+  const puts = options.filter(l => l.callPut === 'P');
+  const sameSize = options.every(l => l.quantity === options[0]?.quantity);
+
+  if (stock.length > 0) {
+    if (options.length === 1 && calls.length === 1 && calls[0].side === 'short') return 'Covered Call';
+    if (options.length === 1 && puts.length === 1 && puts[0].side === 'long') return 'Protective Put';
+    if (options.length === 2 && calls.length === 1 && puts.length === 1 &&
+        calls[0].side === 'short' && puts[0].side === 'long') return 'Collar';
+    return 'Custom';
+  }
+
+  if (options.length === 1) {
+    const [leg] = options;
+    if (leg.callPut === 'C') return leg.side === 'long' ? 'Long Call' : 'Naked Call';
+    return leg.side === 'long' ? 'Long Put' : 'Cash-Secured Put';
+  }
+
+  if (!sameSize) return 'Custom';
+
+  if (options.length === 2) {
+    const [a, b] = options;
+    // Vertical: same type, one long and one short at different strikes
+    if (a.callPut === b.callPut && a.side !== b.side && a.strike !== b.strike) {
+      const [lower, higher] = (a.strike ?? 0) < (b.strike ?? 0) ? [a, b] : [b, a];
+      if (a.callPut === 'C') return lower.side === 'long' ? 'Bull Call Spread' : 'Bear Call Spread';
+      return higher.side === 'short' ? 'Bull Put Spread' : 'Bear Put Spread';
+    }
+    // Straddle/strangle: a call and a put on the same side
+    if (calls.length === 1 && puts.length === 1 && a.side === b.side) {
+      const long = a.side === 'long';
+      if (calls[0].strike === puts[0].strike) return long ? 'Long Straddle' : 'Short Straddle';
+      return long ? 'Long Strangle' : 'Short Strangle';
+    }
+    return 'Custom';
+  }
+
+  if (options.length === 4 && calls.length === 2 && puts.length === 2) {
+    const shortCall = calls.find(l => l.side === 'short');
+    const longCall = calls.find(l => l.side === 'long');
+    const shortPut = puts.find(l => l.side === 'short');
+    const longPut = puts.find(l => l.side === 'long');
+    if (shortCall && longCall && shortPut && longPut &&
+        (longPut.strike ?? 0) < (shortPut.strike ?? 0) &&
+        (shortPut.strike ?? 0) <= (shortCall.strike ?? 0) &&
+        (shortCall.strike ?? 0) < (longCall.strike ?? 0)) {
+      return shortPut.strike === shortCall.strike ? 'Iron Butterfly' : 'Iron Condor';
+    }
+  }
+
+  return 'Custom';
+}
+
+/**
+ * Detect multi-leg strategies from trade history
+ */
+export function detectStrategies(trades: TradeRecord[], options: StrategyOptions = {}): StrategyReport {
+  const optionTrades = trades.filter(t => t.SecurityType === 'O' && t.Expiration);
+  const { closedLots, openLots } = matchLots(optionTrades, options);
+
+  // Contracts each fill opened (the rest of the fill closed earlier positions)
+  const openedByTrade = new Map<string, { side: LotSide; quantity: number }>();
+  const addOpened = (tradeId: number | string, side: LotSide, quantity: number) => {
+    const entry = openedByTrade.get(String(tradeId)) ?? { side, quantity: 0 };
+    entry.quantity += quantity;
+    openedByTrade.set(String(tradeId), entry);
+  };
+  for (const lot of openLots) addOpened(lot.tradeId, lot.side, lot.quantity);
+  for (const lot of closedLots) {
+    addOpened(lot.side === 'long' ? lot.buyTradeId : lot.sellTradeId, lot.side, lot.quantity);
+  }
+
+  interface Group {
+    underlying: string;
+    date: string;
+    time: string | null;
+    expiration: string;
+    legs: StrategyLeg[];
+  }
+  const groups = new Map<string, Group>();
+  const groupsByTime = new Map<string, Group[]>();
+
+  for (const trade of sortTradesChronologically(optionTrades)) {
+    const opened = openedByTrade.get(String(trade.TradeID));
+    if (!opened || opened.quantity <= 0) continue;
+
+    const underlying = trade.UnderlyingSymbol || trade.Symbol;
+    const timeKey = `${underlying}|${trade.Date}|${trade.TradeTimeStamp || ''}`;
+    const key = `${timeKey}|${trade.Expiration}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { underlying, date: trade.Date, time: trade.TradeTimeStamp || null, expiration: trade.Expiration!, legs: [] };
+      groups.set(key, group);
+      groupsByTime.set(timeKey, [...(groupsByTime.get(timeKey) ?? []), group]);
+    }
+    group.legs.push({
+      tradeId: trade.TradeID,
+      securityType: 'Option',
+      side: opened.side,
+      quantity: opened.quantity,
+      price: getTradePrice(trade),
+      strike: toNumber(trade.Strike),
+      callPut: trade['Call/Put'] === 'P' ? 'P' : 'C',
+    });
+  }
+
+  // Stock fills at the same time join the group; earlier stock covers later short calls
+  const heldShares = new Map<string, { shares: number; cost: number }>();
+  const coverage = new Map<Group, { shares: number; averagePrice: number }>();
+  const events = sortTradesChronologically(trades.filter(t => t.SecurityType === 'S' || (t.SecurityType === 'O' && t.Expiration)));
+
+  for (const trade of events) {
+    const underlying = trade.UnderlyingSymbol || trade.Symbol;
+    const timeKey = `${underlying}|${trade.Date}|${trade.TradeTimeStamp || ''}`;
+
+    if (trade.SecurityType === 'O') {
+      for (const group of groupsByTime.get(timeKey) ?? []) {
+        if (coverage.has(group)) continue;
+        const held = heldShares.get(underlying);
+        coverage.set(group, {
+          shares: held?.shares ?? 0,
+          averagePrice: held && held.shares > 0 ? held.cost / held.shares : 0,
+        });
+      }
+      continue;
+    }
+
+    const quantity = getTradeQuantity(trade);
+    const isBuy = !(trade.TradeType || '').toUpperCase().startsWith('S');
+    const sameTime = groupsByTime.get(timeKey);
+    if (sameTime && isBuy) {
+      // Attach to the group the stock hedges (short calls or long puts), else the first
+      const target = sameTime.find(g => g.legs.some(l =>
+        (l.callPut === 'C' && l.side === 'short') || (l.callPut === 'P' && l.side === 'long'))) ?? sameTime[0];
+      target.legs.push({
+        tradeId: trade.TradeID,
+        securityType: 'Stock',
+        side: 'long',
+        quantity,
+        price: getTradePrice(trade),
+        strike: null,
+        callPut: null,
+      });
+    }
+
+    const held = heldShares.get(underlying) ?? { shares: 0, cost: 0 };
+    if (isBuy) {
+      held.shares += quantity;
+      held.cost += quantity * getTradePrice(trade);
+    } else if (held.shares > 0) {
+      const relieved = Math.min(quantity, held.shares);
+      held.cost -= (held.cost / held.shares) * relieved;
+      held.shares -= relieved;
+    }
+    heldShares.set(underlying, held);
+  }
+
+  const strategies: OptionStrategy[] = [];
+
+  for (const group of groups.values()) {
+    if ((options.startDate && group.date < options.startDate) || (options.endDate && group.date > options.endDate)) {
+      continue;
+    }
+
+    const legs = [...group.legs];
+    const hasStock = legs.some(l => l.securityType === 'Stock');
+    const shortCalls = legs.filter(l => l.callPut === 'C' && l.side === 'short');
+    const covered = coverage.get(group);
+    const callShares = shortCalls.reduce((sum, l) => sum + l.quantity * OPTION_MULTIPLIER, 0);
+
+    // Calls written on their own against shares already held
+    if (!hasStock && shortCalls.length === legs.length && covered && covered.shares >= callShares) {
+      legs.push({
+        tradeId: `held-${group.underlying}`,
+        securityType: 'Stock',
+        side: 'long',
+        quantity: callShares,
+        price: covered.averagePrice,
+        strike: null,
+        callPut: null,
+        held: true,
+      });
+    }
+
+    const netPremium = legs
+      .filter(l => !l.held)
+      .reduce((sum, l) => sum - legSign(l) * l.price * l.quantity * legMultiplier(l), 0);
+
+    strategies.push({
+      id: `${group.underlying}-${group.date}-${group.time ?? ''}-${group.expiration}`,
+      name: classifyStrategy(legs),
+      underlying: group.underlying,
+      openDate: group.date,
+      openTime: group.time,
+      expiration: group.expiration,
+      legs: legs.sort((a, b) =>
+        (a.securityType === b.securityType ? 0 : a.securityType === 'Stock' ? -1 : 1) ||
+        (a.strike ?? 0) - (b.strike ?? 0) ||
+        (a.callPut ?? '').localeCompare(b.callPut ?? '')),
+      netPremium: Math.round(netPremium * 100) / 100,
+      ...analyzePayoff(legs),
+    });
+  }
+
+  strategies.sort((a, b) =>
+    b.openDate.localeCompare(a.openDate) || (b.openTime ?? '').localeCompare(a.openTime ?? '') ||
+    a.underlying.localeCompare(b.underlying));
+
+  const counts: Partial<Record<StrategyName, number>> = {};
+  let netCredit = 0;
+  let netDebit = 0;
+  for (const strategy of strategies) {
+    counts[strategy.name] = (counts[strategy.name] ?? 0) + 1;
+    if (strategy.netPremium >= 0) netCredit += strategy.netPremium;
+    else netDebit += -strategy.netPremium;
+  }
+
+  return { strategies, counts, netCredit, netDebit };
+}
@@ -0,0 +1,193 @@
+/**
+ * Tax-lot report (Form 8949 / Schedule D)
+ * Turns closed lots into 8949 rows: holding-period term, proceeds, basis,
+ * wash-sale adjustments (code "W") and gain or loss, plus Schedule D totals.
+ *
+ * - A lot is long-term when sold more than one year after acquisition
+ * - Short sales are always short-term and report in the year they are covered
+ * - Disallowed wash-sale losses are added back on the loss lot (code W) and
+ *   increase the basis of replacement lots sold later
+ */
+
+import { matchLots, type ClosedLot, type LotMatchOptions, type TradeRecord } from './lot-matching';
+import { detectWashSales } from './wash-sales';
+
+export type HoldingTerm = 'short' | 'long';
+
+export interface TaxLot {
+  description: string;
+  symbol: string;
+  securityType: ClosedLot['securityType'];
+  side: ClosedLot['side'];
+  dateAcquired: string;
+  dateSold: string;
+  // Date the lot closed (sale for longs, cover for shorts) - decides the tax year
+  closeDate: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  adjustmentCode: '' | 'W';
+  adjustmentAmount: number;
+  gainLoss: number;
+  term: HoldingTerm;
+}
+
+export interface ScheduleDTotals {
+  count: number;
+  proceeds: number;
+  costBasis: number;
+  adjustments: number;
+  gainLoss: number;
+}
+
+export interface TaxLotReport {
+  lots: TaxLot[];
+  shortTerm: ScheduleDTotals;
+  longTerm: ScheduleDTotals;
+  total: ScheduleDTotals;
+}
+
+export interface TaxLotOptions extends LotMatchOptions {
+  // Only lots closed within [startDate, endDate] are reported
+  startDate?: string;
+  endDate?: string;
+}
+
+export const FORM_8949_HEADERS = [
+  'Term',
+  '(a) Description of property',
+  '(b) Date acquired',
+  '(c) Date sold or disposed of',
+  '(d) Proceeds',
+  '(e) Cost or other basis',
+  '(f) Code',
+  '(g) Amount of adjustment',
+  '(h) Gain or (loss)',
+];
+
+function isLongTerm(acquired: string, sold: string): boolean {
+  const [year, month, day] = acquired.split('-').map(Number);
+  const anniversary = `${year + 1}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  return sold > anniversary;
+}
+
+function describeLot(lot: ClosedLot): string {
+  if (lot.securityType === 'Option') {
+    return `${lot.quantity} ${lot.quantity === 1 ? 'contract' : 'contracts'} ${lot.instrumentKey}`;
+  }
+  return `${lot.quantity} sh. ${lot.symbol}`;
+}
+
+function emptyTotals(): ScheduleDTotals {
+  return { count: 0, proceeds: 0, costBasis: 0, adjustments: 0, gainLoss: 0 };
+}
+
+function addToTotals(totals: ScheduleDTotals, lot: TaxLot): void {
+  totals.count += 1;
+  totals.proceeds += lot.proceeds;
+  totals.costBasis += lot.costBasis;
+  totals.adjustments += lot.adjustmentAmount;
+  totals.gainLoss += lot.gainLoss;
+}
+
+/**
+ * Build 8949 rows and Schedule D totals from trade history
+ */
+export function buildTaxLotReport(trades: TradeRecord[], options: TaxLotOptions = {}): TaxLotReport {
+  const { closedLots } = matchLots(trades, options);
+  const { washSales, adjustments } = detectWashSales(trades, options);
+
+  // Disallowed loss per loss lot ("openTradeId|saleTradeId")
+  const disallowedByLot = new Map<string, number>();
+  for (const sale of washSales) {
+    const key = `${sale.lossOpenTradeId}|${sale.lossTradeId}`;
+    disallowedByLot.set(key, (disallowedByLot.get(key) ?? 0) + sale.disallowedLoss);
+  }
+
+  // Carried basis per share equivalent of each replacement purchase
+  const carriedPerShare = new Map<string, number>(
+    adjustments.map(a => [String(a.tradeId), a.shares > 0 ? a.adjustment / a.shares : 0])
+  );
+
+  const lots: TaxLot[] = [];
+  const shortTerm = emptyTotals();
+  const longTerm = emptyTotals();
+
+  for (const lot of closedLots) {
+    const closeDate = lot.side === 'long' ? lot.sellDate : lot.buyDate;
+    if (options.startDate && closeDate < options.startDate) continue;
+    if (options.endDate && closeDate > options.endDate) continue;
+
+    const shares = lot.quantity * lot.multiplier;
+    const carriedBasis = lot.side === 'long'
+      ? (carriedPerShare.get(String(lot.buyTradeId)) ?? 0) * shares
+      : 0;
+    const disallowed = lot.side === 'long'
+      ? disallowedByLot.get(`${lot.buyTradeId}|${lot.sellTradeId}`) ?? 0
+      : 0;
+
+    const costBasis = lot.costBasis + carriedBasis;
+    const taxLot: TaxLot = {
+      description: describeLot(lot),
+      symbol: lot.underlying,
+      securityType: lot.securityType,
+      side: lot.side,
+      dateAcquired: lot.buyDate,
+      dateSold: lot.sellDate,
+      closeDate,
+      quantity: lot.quantity,
+      proceeds: lot.proceeds,
+      costBasis,
+      adjustmentCode: disallowed > 0 ? 'W' : '',
+      adjustmentAmount: disallowed,
+      gainLoss: lot.proceeds - costBasis + disallowed,
+      term: lot.side === 'long' && isLongTerm(lot.buyDate, lot.sellDate) ? 'long' : 'short',
+    };
+
+    lots.push(taxLot);
+    addToTotals(taxLot.term === 'long' ? longTerm : shortTerm, taxLot);
+  }
+
+  lots.sort((a, b) => a.closeDate.localeCompare(b.closeDate));
+
+  const total = emptyTotals();
+  for (const lot of lots) addToTotals(total, lot);
+
+  return { lots, shortTerm, longTerm, total };
+}
+
+/**
+ * Flatten tax lots into 8949 rows (short-term first, then long-term)
+ *
+ * @param formatDate - Converts a database date for display (e.g. demo offset)
+ */
+export function toForm8949Rows(
+  lots: TaxLot[],
+  formatDate: (date: string) => string = date => date
+): Array<Array<string | number>> {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return [...lots]
+    .sort((a, b) => (a.term === b.term ? 0 : a.term === 'short' ? -1 : 1))
+    .map(lot => [
+      lot.term === 'long' ? 'Long-term' : 'Short-term',
+      lot.description,
+      formatDate(lot.dateAcquired),
+      formatDate(lot.dateSold),
+      round(lot.proceeds),
+      round(lot.costBasis),
+      lot.adjustmentCode,
+      lot.adjustmentAmount ? round(lot.adjustmentAmount) : '',
+      round(lot.gainLoss),
+    ]);
+}
+
+/**
+ * Serialize rows as CSV (quotes values containing commas, quotes or newlines)
+ */
+export function toCsv(headers: string[], rows: Array<Array<string | number>>): string {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [headers, ...rows].map(row => row.map(escape).join(',')).join('\n');
+}
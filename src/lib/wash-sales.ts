@@ -0,0 +1,221 @@
+/**
+ * Wash-sale engine
+ * Finds realized losses where substantially identical securities were bought
+ * within 30 days before or after the sale, disallows the loss and carries it
+ * into the replacement lot's basis.
+ *
+ * - Losses come from closed long lots of the lot-matching engine
+ * - Replacement purchases are opening buys of the same stock or calls on the
+ *   same underlying (for a stock loss), or options of the same underlying and
+ *   type (for an option loss); quantities compare as share equivalents
+ * - Each replacement share absorbs at most one disallowed loss, earliest loss first
+ * - Shares sold in the same sale (including the lot's own purchase) never
+ *   count as their own replacement
+ */
+
+import {
+  matchLots,
+  getTradeQuantity,
+  getMultiplier,
+  sortTradesChronologically,
+  type ClosedLot,
+  type LotMatchOptions,
+  type TradeRecord,
+} from './lot-matching';
+
+export const WASH_SALE_WINDOW_DAYS = 30;
+
+export interface WashSale {
+  symbol: string;
+  lossTradeId: number | string;
+  // Opening trade of the lot sold at a loss
+  lossOpenTradeId: number | string;
+  lossDate: string;
+  lossSecurityType: ClosedLot['securityType'];
+  lossInstrument: string;
+  // Full loss on the closed lot (negative)
+  loss: number;
+  // Portion of the loss disallowed by this replacement (positive)
+  disallowedLoss: number;
+  // Share-equivalent quantity washed by this replacement
+  washedShares: number;
+  replacementTradeId: number | string;
+  replacementDate: string;
+  replacementSecurityType: ClosedLot['securityType'];
+  replacementInstrument: string;
+  daysApart: number;
+}
+
+export interface BasisAdjustment {
+  tradeId: number | string;
+  symbol: string;
+  date: string;
+  // Share-equivalent quantity of the replacement purchase
+  shares: number;
+  // Disallowed loss added to the replacement lot's basis
+  adjustment: number;
+  // Part of the adjustment on replacement shares that have since been sold
+  realizedAdjustment: number;
+  // Part of the adjustment still sitting in open lots
+  openAdjustment: number;
+}
+
+export interface WashSaleReport {
+  washSales: WashSale[];
+  adjustments: BasisAdjustment[];
+  totalLosses: number;
+  totalDisallowed: number;
+  // Realized P&L before and after wash-sale adjustments
+  realizedPnL: number;
+  adjustedRealizedPnL: number;
+}
+
+const SECURITY_TYPE_LABELS: Record<string, ClosedLot['securityType']> = {
+  S: 'Stock',
+  O: 'Option',
+  W: 'Warrant',
+};
+
+function toDayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / (1000 * 60 * 60 * 24));
+}
+
+function describeInstrument(trade: TradeRecord): string {
+  if (trade.SecurityType !== 'O') return trade.Symbol;
+  const underlying = trade.UnderlyingSymbol || trade.Symbol;
+  const type = trade['Call/Put'] === 'C' ? 'Call' : trade['Call/Put'] === 'P' ? 'Put' : 'Option';
+  return `${underlying} ${trade.Strike ?? ''} ${type} ${trade.Expiration ?? ''}`.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether a purchase is substantially identical to the security sold at a loss
+ */
+function isReplacement(lossTrade: TradeRecord, candidate: TradeRecord): boolean {
+  const lossUnderlying = lossTrade.UnderlyingSymbol || lossTrade.Symbol;
+  const candidateUnderlying = candidate.UnderlyingSymbol || candidate.Symbol;
+  if (lossUnderlying !== candidateUnderlying) return false;
+
+  if (lossTrade.SecurityType === 'O') {
+    return candidate.SecurityType === 'O' && candidate['Call/Put'] === lossTrade['Call/Put'];
+  }
+  // Stock loss: buying the stock again or a call (an option to acquire it)
+  return candidate.SecurityType !== 'O' || candidate['Call/Put'] === 'C';
+}
+
+/**
+ * Detect wash sales and the resulting basis adjustments
+ */
+export function detectWashSales(trades: TradeRecord[], options: LotMatchOptions = {}): WashSaleReport {
+  const { closedLots, openLots } = matchLots(trades, options);
+  const tradesById = new Map(trades.map(t => [String(t.TradeID), t]));
+
+  // Opening purchases (buys that created long lots, not short covers)
+  const openingBuyIds = new Set<string>([
+    ...closedLots.filter(l => l.side === 'long').map(l => String(l.buyTradeId)),
+    ...openLots.filter(l => l.side === 'long').map(l => String(l.tradeId)),
+  ]);
+  const purchases = sortTradesChronologically(trades).filter(t => openingBuyIds.has(String(t.TradeID)));
+
+  // Share-equivalent capacity left on each replacement purchase
+  const capacity = new Map<string, number>(
+    purchases.map(t => [String(t.TradeID), getTradeQuantity(t) * getMultiplier(t)])
+  );
+
+  // Shares of each purchase closed by each sale ("buyId|sellId")
+  const soldTogether = new Map<string, number>();
+  for (const l of closedLots) {
+    if (l.side !== 'long') continue;
+    const key = `${l.buyTradeId}|${l.sellTradeId}`;
+    soldTogether.set(key, (soldTogether.get(key) ?? 0) + l.quantity * l.multiplier);
+  }
+
+  const losses = closedLots
+    .filter(l => l.side === 'long' && l.profitLoss < 0)
+    .sort((a, b) => (a.sellDate < b.sellDate ? -1 : a.sellDate > b.sellDate ? 1 : 0));
+
+  const washSales: WashSale[] = [];
+  const adjustmentsById = new Map<string, BasisAdjustment>();
+
+  for (const lot of losses) {
+    const lossTrade = tradesById.get(String(lot.sellTradeId));
+    if (!lossTrade) continue;
+
+    const saleDay = toDayNumber(lot.sellDate);
+    const lotShares = lot.quantity * lot.multiplier;
+    let remainingShares = lotShares;
+
+    for (const candidate of purchases) {
+      if (remainingShares <= 0) break;
+      const candidateId = String(candidate.TradeID);
+
+      const daysApart = toDayNumber(candidate.Date) - saleDay;
+      if (Math.abs(daysApart) > WASH_SALE_WINDOW_DAYS) continue;
+      if (!isReplacement(lossTrade, candidate)) continue;
+
+      const soldInSameSale = soldTogether.get(`${candidateId}|${lot.sellTradeId}`) ?? 0;
+      const available = (capacity.get(candidateId) ?? 0) - soldInSameSale;
+      if (available <= 0) continue;
+
+      const washedShares = Math.min(available, remainingShares);
+      const disallowedLoss = Math.abs(lot.profitLoss) * (washedShares / lotShares);
+      capacity.set(candidateId, (capacity.get(candidateId) ?? 0) - washedShares);
+      remainingShares -= washedShares;
+
+      washSales.push({
+        symbol: lot.underlying,
+        lossTradeId: lot.sellTradeId,
+        lossOpenTradeId: lot.buyTradeId,
+        lossDate: lot.sellDate,
+        lossSecurityType: lot.securityType,
+        lossInstrument: describeInstrument(lossTrade),
+        loss: lot.profitLoss,
+        disallowedLoss,
+        washedShares,
+        replacementTradeId: candidate.TradeID,
+        replacementDate: candidate.Date,
+        replacementSecurityType: SECURITY_TYPE_LABELS[candidate.SecurityType] ?? 'Stock',
+        replacementInstrument: describeInstrument(candidate),
+        daysApart,
+      });
+
+      const adjustment = adjustmentsById.get(candidateId) ?? {
+        tradeId: candidate.TradeID,
+        symbol: candidate.UnderlyingSymbol || candidate.Symbol,
+        date: candidate.Date,
+        shares: getTradeQuantity(candidate) * getMultiplier(candidate),
+        adjustment: 0,
+        realizedAdjustment: 0,
+        openAdjustment: 0,
+      };
+      adjustment.adjustment += disallowedLoss;
+      adjustmentsById.set(candidateId, adjustment);
+    }
+  }
+
+  // Split each basis adjustment between replacement shares already sold and still held
+  for (const [tradeId, adjustment] of adjustmentsById) {
+    const totalShares = adjustment.shares;
+    const soldShares = closedLots
+      .filter(l => l.side === 'long' && String(l.buyTradeId) === tradeId)
+      .reduce((sum, l) => sum + l.quantity * l.multiplier, 0);
+    const soldFraction = totalShares > 0 ? Math.min(1, soldShares / totalShares) : 0;
+    adjustment.realizedAdjustment = adjustment.adjustment * soldFraction;
+    adjustment.openAdjustment = adjustment.adjustment - adjustment.realizedAdjustment;
+  }
+
+  const adjustments = Array.from(adjustmentsById.values());
+  const realizedPnL = closedLots.reduce((sum, l) => sum + l.profitLoss, 0);
+  const totalDisallowed = washSales.reduce((sum, w) => sum + w.disallowedLoss, 0);
+  const realizedAdjustments = adjustments.reduce((sum, a) => sum + a.realizedAdjustment, 0);
+
+  return {
+    washSales,
+    adjustments,
+    totalLosses: losses.reduce((sum, l) => sum + l.profitLoss, 0),
+    totalDisallowed,
+    realizedPnL,
+    // Disallowed losses come back out of realized P&L; the carried basis reduces later gains
+    adjustedRealizedPnL: realizedPnL + totalDisallowed - realizedAdjustments,
+  };
+}
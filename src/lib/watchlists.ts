@@ -0,0 +1,464 @@
+/**
+ * Watchlists
+ * Named symbol lists stored in Watchlists (one row per account and name), with
+ * per-symbol stats from the account's own trades and the market data provider.
+ *
+ * - Names match case-insensitively and without a trailing "watchlist", so
+ *   "Tech", "tech" and "tech watchlist" are the same list
+ * - Symbols are stored uppercase and de-duplicated, in the order added
+ * - Stats per symbol: the last trade, net shares held, realized P&L (within the
+ *   period when one is given) and unrealized P&L marked to the latest close
+ * - Options roll up to their underlying; splits and ticker changes are applied
+ *   first, so a list holding META also picks up trades booked as FB
+ * - Period change runs from the last close before the period to the last close
+ *   in it (the day's change without a period); symbols without a price series
+ *   have no change and are marked to their last fill
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Watchlist } from '../types';
+import {
+  TRADE_RECORD_COLUMNS,
+  getInstrumentKey,
+  getTradePrice,
+  getTradeQuantity,
+  sortTradesChronologically,
+  type LotMatchOptions,
+  type TradeRecord,
+} from './lot-matching';
+import { computePnL } from './pnl';
+import { computeOpenPositions } from './positions';
+import { loadCostBasisSettings } from './cost-basis';
+import {
+  applyCorporateActions,
+  buildSymbolFilter,
+  getCurrentSymbol,
+  getSymbolAliases,
+  loadCorporateActions,
+  type CorporateAdjustment,
+} from './corporate-actions';
+import type { DailyBar, MarketDataProvider } from './market-data';
+import { getDemoToday } from './date-utils';
+import { fetchAllRows } from './paged-query';
+
+export type { Watchlist };
+
+export const DEFAULT_WATCHLIST_NAME = 'My Watchlist';
+
+// Raw Watchlists row
+export interface WatchlistRecord {
+  id: string;
+  Name: string;
+  Symbols: string[] | null;
+  updated_at: string | null;
+}
+
+// Watchlists columns to select when building WatchlistRecords
+export const WATCHLIST_COLUMNS = 'id, Name, Symbols, updated_at';
+
+export interface WatchlistInput {
+  name?: string;
+  symbols?: string[];
+}
+
+export interface WatchlistLastTrade {
+  tradeId: number | string;
+  date: string;
+  side: 'buy' | 'sell';
+  securityType: string;
+  symbol: string;
+  price: number;
+  quantity: number;
+}
+
+export interface WatchlistSymbolStats {
+  symbol: string;
+  // Latest close, null without a price series
+  price: number | null;
+  priceDate: string | null;
+  change: number | null;
+  changePercent: number | null;
+  lastTrade: WatchlistLastTrade | null;
+  // Trades in the period (all trades without one)
+  trades: number;
+  // Net shares held (long minus short)
+  shares: number;
+  // Average open price of the stock position, null when flat
+  averageCost: number | null;
+  // Signed market value of every open position in the symbol, options included
+  marketValue: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalPnL: number;
+}
+
+export interface WatchlistReport {
+  watchlist: Watchlist;
+  startDate: string | null;
+  endDate: string | null;
+  periodLabel: string;
+  symbols: WatchlistSymbolStats[];
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalPnL: number;
+  marketValue: number;
+  // Mean change of the symbols with a price series
+  averageChangePercent: number | null;
+  best: string | null;
+  worst: string | null;
+  corporateAdjustments: CorporateAdjustment[];
+}
+
+export interface WatchlistReportOptions extends LotMatchOptions {
+  startDate?: string;
+  endDate?: string;
+  periodLabel?: string;
+  // Option lots expiring before this date are realized rather than marked
+  asOf?: string;
+}
+
+/**
+ * Display name without extra whitespace or a trailing "watchlist"
+ */
+export function normalizeWatchlistName(name: string): string {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  const stripped = trimmed.replace(/\s+watch\s?list$/i, '');
+  return stripped || trimmed;
+}
+
+/**
+ * Uppercase, de-duplicated symbols in the order given (blank symbols dropped)
+ */
+export function normalizeSymbols(symbols: string[]): string[] {
+  return Array.from(new Set(
+    symbols.map(symbol => symbol.trim().toUpperCase().replace(/[^A-Z0-9.-]/g, '')).filter(symbol => symbol !== '')
+  ));
+}
+
+export function addSymbols(watchlist: Watchlist, symbols: string[]): string[] {
+  return normalizeSymbols([...watchlist.symbols, ...symbols]);
+}
+
+export function removeSymbols(watchlist: Watchlist, symbols: string[]): string[] {
+  const removed = new Set(normalizeSymbols(symbols));
+  return watchlist.symbols.filter(symbol => !removed.has(symbol));
+}
+
+export function toWatchlist(row: WatchlistRecord): Watchlist {
+  return {
+    id: row.id,
+    name: row.Name,
+    symbols: row.Symbols ?? [],
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * The account's watchlists, most recently updated first
+ */
+export async function loadWatchlists(supabase: SupabaseClient, accountCode: string): Promise<Watchlist[]> {
+  const { data, error } = await supabase
+    .from('Watchlists')
+    .select(WATCHLIST_COLUMNS)
+    .eq('AccountCode', accountCode)
+    .order('updated_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load watchlists: ${error.message}`);
+  }
+
+  return ((data || []) as WatchlistRecord[]).map(toWatchlist);
+}
+
+export async function loadWatchlist(
+  supabase: SupabaseClient,
+  accountCode: string,
+  id: string
+): Promise<Watchlist | null> {
+  const { data, error } = await supabase
+    .from('Watchlists')
+    .select(WATCHLIST_COLUMNS)
+    .eq('AccountCode', accountCode)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load watchlist: ${error.message}`);
+  }
+
+  return data ? toWatchlist(data as WatchlistRecord) : null;
+}
+
+/**
+ * Watchlist by name (see normalizeWatchlistName), or null
+ */
+export function findWatchlistByName(watchlists: Watchlist[], name: string): Watchlist | null {
+  const key = normalizeWatchlistName(name).toLowerCase();
+  return watchlists.find(watchlist => normalizeWatchlistName(watchlist.name).toLowerCase() === key) ?? null;
+}
+
+export async function createWatchlist(
+  supabase: SupabaseClient,
+  accountCode: string,
+  input: WatchlistInput
+): Promise<Watchlist> {
+  const { data, error } = await supabase
+    .from('Watchlists')
+    .insert({
+      AccountCode: accountCode,
+      Name: input.name ? normalizeWatchlistName(input.name) : DEFAULT_WATCHLIST_NAME,
+      Symbols: normalizeSymbols(input.symbols ?? []),
+    })
+    .select(WATCHLIST_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create watchlist: ${error.message}`);
+  }
+
+  return toWatchlist(data as WatchlistRecord);
+}
+
+/**
+ * Rename a watchlist or replace its symbols (fields left out keep their value)
+ */
+export async function updateWatchlist(
+  supabase: SupabaseClient,
+  accountCode: string,
+  id: string,
+  input: WatchlistInput
+): Promise<Watchlist> {
+  const { data, error } = await supabase
+    .from('Watchlists')
+    .update({
+      ...(input.name !== undefined && { Name: normalizeWatchlistName(input.name) }),
+      ...(input.symbols !== undefined && { Symbols: normalizeSymbols(input.symbols) }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('AccountCode', accountCode)
+    .eq('id', id)
+    .select(WATCHLIST_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update watchlist: ${error.message}`);
+  }
+
+  return toWatchlist(data as WatchlistRecord);
+}
+
+export async function deleteWatchlist(supabase: SupabaseClient, accountCode: string, id: string): Promise<void> {
+  const { error } = await supabase
+    .from('Watchlists')
+    .delete()
+    .eq('AccountCode', accountCode)
+    .eq('id', id);
+
+  if (error) {
+    throw new Error(`Failed to delete watchlist: ${error.message}`);
+  }
+}
+
+export interface WatchlistChange {
+  // Target list; the most recently updated one when left out
+  name?: string;
+  add?: string[];
+  remove?: string[];
+}
+
+export interface WatchlistChangeResult {
+  watchlist: Watchlist | null;
+  // Every list on the account after the change
+  watchlists: Watchlist[];
+  created: boolean;
+  // Symbols that were actually added or removed
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Resolve a watchlist by name and add or remove symbols, as asked of the
+ * assistant ("add AMD to my tech watchlist"). Adding to a list that does not
+ * exist creates it. Both are idempotent, so a repeated request changes nothing.
+ */
+export async function applyWatchlistChange(
+  supabase: SupabaseClient,
+  accountCode: string,
+  change: WatchlistChange
+): Promise<WatchlistChangeResult> {
+  const watchlists = await loadWatchlists(supabase, accountCode);
+  const add = normalizeSymbols(change.add ?? []);
+  const remove = normalizeSymbols(change.remove ?? []);
+
+  let watchlist = change.name ? findWatchlistByName(watchlists, change.name) : watchlists[0] ?? null;
+  if (!watchlist) {
+    if (add.length === 0) {
+      return { watchlist: null, watchlists, created: false, added: [], removed: [] };
+    }
+    const created = await createWatchlist(supabase, accountCode, { name: change.name, symbols: add });
+    return { watchlist: created, watchlists: [created, ...watchlists], created: true, added: created.symbols, removed: [] };
+  }
+
+  const added = add.filter(symbol => !watchlist!.symbols.includes(symbol));
+  const removed = remove.filter(symbol => watchlist!.symbols.includes(symbol));
+  if (added.length > 0 || removed.length > 0) {
+    const symbols = removeSymbols({ ...watchlist, symbols: addSymbols(watchlist, added) }, removed);
+    watchlist = await updateWatchlist(supabase, accountCode, watchlist.id, { symbols });
+  }
+
+  return {
+    watchlist,
+    watchlists: watchlists.map(w => (w.id === watchlist!.id ? watchlist! : w)),
+    created: false,
+    added,
+    removed,
+  };
+}
+
+function underlyingOf(trade: TradeRecord): string {
+  return trade.SecurityType === 'O' ? trade.UnderlyingSymbol || trade.Symbol : trade.Symbol;
+}
+
+function inPeriod(date: string, options: WatchlistReportOptions): boolean {
+  return (!options.startDate || date >= options.startDate) && (!options.endDate || date <= options.endDate);
+}
+
+function toLastTrade(trade: TradeRecord): WatchlistLastTrade {
+  return {
+    tradeId: trade.TradeID,
+    date: trade.Date,
+    side: (trade.TradeType || '').toUpperCase().startsWith('S') ? 'sell' : 'buy',
+    securityType: trade.SecurityType,
+    symbol: trade.Symbol,
+    price: getTradePrice(trade),
+    quantity: getTradeQuantity(trade),
+  };
+}
+
+// Latest close in the period against the last close before it (or the previous close)
+function priceChange(bars: DailyBar[], options: WatchlistReportOptions) {
+  const upToEnd = options.endDate ? bars.filter(bar => bar.date <= options.endDate!) : bars;
+  const latest = upToEnd[upToEnd.length - 1];
+  if (!latest) return { price: null, priceDate: null, change: null, changePercent: null };
+
+  const before = options.startDate
+    ? upToEnd.filter(bar => bar.date < options.startDate!).pop() ?? upToEnd.find(bar => bar.date >= options.startDate!)
+    : upToEnd[upToEnd.length - 2];
+  const change = before && before !== latest ? latest.close - before.close : null;
+
+  return {
+    price: latest.close,
+    priceDate: latest.date,
+    change,
+    changePercent: change !== null && before ? (change / before.close) * 100 : null,
+  };
+}
+
+/**
+ * Per-symbol stats for a watchlist. Trades must already be restated for
+ * corporate actions; barsBySymbol is keyed by the watchlist's symbols.
+ */
+export function buildWatchlistReport(
+  watchlist: Watchlist,
+  trades: TradeRecord[],
+  barsBySymbol: Record<string, DailyBar[]>,
+  options: WatchlistReportOptions = {},
+  corporateAdjustments: CorporateAdjustment[] = []
+): WatchlistReport {
+  const symbols = watchlist.symbols.map(symbol => {
+    const symbolTrades = sortTradesChronologically(trades.filter(trade => underlyingOf(trade) === symbol));
+    const { price, priceDate, change, changePercent } = priceChange(barsBySymbol[symbol] ?? [], options);
+
+    // Stock is marked to the latest close; options keep their last fill
+    const marks = price !== null
+      ? Object.fromEntries(symbolTrades.filter(t => t.SecurityType !== 'O').map(t => [getInstrumentKey(t), price]))
+      : {};
+    const pnl = computePnL(symbolTrades, { ...options, marks }).bySymbol.find(entry => entry.symbol === symbol);
+    const stock = computeOpenPositions(symbolTrades.filter(t => t.SecurityType !== 'O'), { ...options, marks }).positions;
+    const stockQuantity = stock.reduce((sum, position) => sum + position.quantity, 0);
+
+    const lastTrade = symbolTrades[symbolTrades.length - 1];
+    return {
+      symbol,
+      price,
+      priceDate,
+      change,
+      changePercent,
+      lastTrade: lastTrade ? toLastTrade(lastTrade) : null,
+      trades: symbolTrades.filter(trade => inPeriod(trade.Date, options)).length,
+      shares: pnl?.openShares ?? 0,
+      averageCost: stockQuantity > 0
+        ? stock.reduce((sum, position) => sum + position.averagePrice * position.quantity, 0) / stockQuantity
+        : null,
+      marketValue: pnl?.marketValue ?? 0,
+      realizedPnL: pnl?.realizedPnL ?? 0,
+      unrealizedPnL: pnl?.unrealizedPnL ?? 0,
+      totalPnL: pnl?.totalPnL ?? 0,
+    };
+  });
+
+  const priced = symbols.filter(s => s.changePercent !== null);
+  const ranked = [...priced].sort((a, b) => (b.changePercent ?? 0) - (a.changePercent ?? 0));
+  const sum = (pick: (s: WatchlistSymbolStats) => number) => symbols.reduce((total, s) => total + pick(s), 0);
+
+  return {
+    watchlist,
+    startDate: options.startDate ?? null,
+    endDate: options.endDate ?? null,
+    periodLabel: options.periodLabel ?? (options.startDate ? 'Selected period' : 'Today'),
+    symbols,
+    realizedPnL: sum(s => s.realizedPnL),
+    unrealizedPnL: sum(s => s.unrealizedPnL),
+    totalPnL: sum(s => s.totalPnL),
+    marketValue: sum(s => s.marketValue),
+    averageChangePercent: priced.length > 0
+      ? priced.reduce((total, s) => total + (s.changePercent ?? 0), 0) / priced.length
+      : null,
+    best: ranked[0]?.symbol ?? null,
+    worst: ranked.length > 1 ? ranked[ranked.length - 1].symbol : null,
+    corporateAdjustments,
+  };
+}
+
+/**
+ * Load trades, cost-basis settings and price series for a watchlist and build its report
+ */
+export async function loadWatchlistReport(
+  supabase: SupabaseClient,
+  accountCode: string,
+  watchlist: Watchlist,
+  marketData: MarketDataProvider,
+  options: Omit<WatchlistReportOptions, keyof LotMatchOptions> = {}
+): Promise<WatchlistReport> {
+  const corporateActions = await loadCorporateActions(supabase);
+  // Symbols added under a former ticker are reported under the current one
+  const current = { ...watchlist, symbols: normalizeSymbols(watchlist.symbols.map(s => getCurrentSymbol(s, corporateActions))) };
+  const aliases = current.symbols.flatMap(symbol => getSymbolAliases(symbol, corporateActions));
+
+  if (current.symbols.length === 0) {
+    return buildWatchlistReport(current, [], {}, options);
+  }
+
+  const [{ data: trades, error }, settings, bars] = await Promise.all([
+    fetchAllRows(
+      supabase
+        .from('TradeData')
+        .select(TRADE_RECORD_COLUMNS)
+        .eq('AccountCode', accountCode)
+        .or(buildSymbolFilter(aliases))
+        .order('Date', { ascending: true })
+        .order('TradeID', { ascending: true })
+    ),
+    loadCostBasisSettings(supabase, accountCode),
+    Promise.all(current.symbols.map(symbol => marketData.getDailyBars(symbol))),
+  ]);
+
+  if (error) {
+    throw new Error(`Failed to load watchlist trades: ${error.message}`);
+  }
+
+  const { rows, adjustments } = applyCorporateActions((trades || []) as TradeRecord[], corporateActions);
+  const barsBySymbol = Object.fromEntries(current.symbols.map((symbol, i) => [symbol, bars[i]]));
+
+  return buildWatchlistReport(current, rows, barsBySymbol, { ...settings, asOf: getDemoToday(), ...options }, adjustments);
+}
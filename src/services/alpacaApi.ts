@@ -1,8 +1,58 @@
-import type { Stock, Portfolio, Position, ChartData, Trade, TradeActivity } from '../types';
+import type { Stock, Portfolio, Position, ChartData, Trade, TradeActivity, Account, Watchlist } from '../types';
 import { supabase } from './supabaseClient';
 import { getDateOffset, demoDateToRealDate } from '../lib/date-utils';
-
-const ACCOUNT_CODE = 'C40421';
+import { getSessionAccountCode, setSessionAccountCode } from '../lib/account-context';
+import { computeOpenPositions } from '../lib/positions';
+import { loadCostBasisSettings } from '../lib/cost-basis';
+import { TRADE_RECORD_COLUMNS, type TradeRecord } from '../lib/lot-matching';
+import { DIVIDEND_RECORD_COLUMNS, type DividendRecord } from '../lib/dividends';
+import {
+  BALANCE_RECORD_COLUMNS,
+  FEE_RECORD_COLUMNS,
+  computePerformance,
+  inferExternalCashFlows,
+  type BalanceRecord,
+  type CashFlow,
+  type FeeRecord,
+  type PerformanceReport,
+} from '../lib/performance';
+import { computeRiskMetrics, type RiskReport } from '../lib/risk';
+import {
+  BENCHMARK_DATA_TYPE,
+  BENCHMARK_PRICE_COLUMNS,
+  BENCHMARK_TIMEFRAME,
+  DEFAULT_BENCHMARK,
+  compareToBenchmark,
+  toBenchmarkPrices,
+  type BenchmarkComparison,
+  type BenchmarkPriceRecord,
+} from '../lib/benchmark';
+import { buildMarginHealth, loadMarginBalances, type MarginHealthReport } from '../lib/margin';
+import { createMarketDataProvider, type MarketDataProvider, type Quote } from '../lib/market-data';
+import {
+  loadJournalEntries,
+  saveJournalEntry,
+  type JournalEntry,
+  type JournalInput,
+} from '../lib/journal';
+import {
+  createWatchlist,
+  deleteWatchlist,
+  loadWatchlistReport,
+  loadWatchlists,
+  updateWatchlist,
+  type WatchlistInput,
+  type WatchlistReport,
+} from '../lib/watchlists';
+import { fetchAllRows } from '../lib/paged-query';
+import { applyCorporateActions, loadCorporateActions, type CorporateAdjustment } from '../lib/corporate-actions';
+
+interface AccountInfoRow {
+  AccountCode: string;
+  AccountName: string | null;
+  AccountType: string | null;
+  AcctHolderName: string | null;
+}
 
 interface AccountBalanceRow {
   Date: string;
@@ -24,6 +74,7 @@ interface TradeRow {
   TradeTimeStamp: string | null;
   GrossAmount?: number | string | null;
   Commission?: number | string | null;
+  ExchFees?: number | string | null;
   NetAmount?: number | string | null;
 }
 
@@ -35,8 +86,18 @@ interface PositionComputation {
   currentPrice: number;
   previousPrice?: number;
   totalVolume: number;
+  quote?: Quote;
+}
+
+interface PositionComputations {
+  positions: PositionComputation[];
+  // Splits and ticker changes applied to the stock trades behind the positions
+  corporateAdjustments: CorporateAdjustment[];
 }
 
+// getChartData symbol for the account equity curve rather than a price series
+const PORTFOLIO_CHART_SYMBOL = 'PORTFOLIO';
+
 const PERIOD_LOOKUP: Record<'1D' | '1W' | '1M' | '3M' | '1Y', number> = {
   '1D': 2,
   '1W': 7,
@@ -70,12 +131,63 @@ const buildTimestamp = (date: string | null, time: string | null): Date => {
   return new Date(`${date}T${time}`);
 };
 
+const toAccount = (row: AccountInfoRow): Account => ({
+  accountCode: row.AccountCode,
+  accountName: row.AccountName ?? row.AccountCode,
+  accountType: row.AccountType ?? '',
+  holderName: row.AcctHolderName ?? row.AccountName ?? row.AccountCode,
+});
+
 class PortfolioDataService {
+  private accountCode = getSessionAccountCode();
+  private marketData: MarketDataProvider = createMarketDataProvider(supabase);
+
+  getAccountCode(): string {
+    return this.accountCode;
+  }
+
+  setAccountCode(accountCode: string): void {
+    this.accountCode = accountCode;
+    setSessionAccountCode(accountCode);
+  }
+
+  // Swap the price source (e.g. a live feed); quotes, bars and charts read from it
+  setMarketDataProvider(provider: MarketDataProvider): void {
+    this.marketData = provider;
+  }
+
+  async getAccounts(): Promise<Account[]> {
+    const { data, error } = await supabase
+      .from('AccountInfo')
+      .select('AccountCode, AccountName, AccountType, AcctHolderName')
+      .order('AccountCode', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch accounts: ${error.message}`);
+    }
+
+    return ((data ?? []) as AccountInfoRow[]).map(toAccount);
+  }
+
+  async getAccount(): Promise<Account | null> {
+    const { data, error } = await supabase
+      .from('AccountInfo')
+      .select('AccountCode, AccountName, AccountType, AcctHolderName')
+      .eq('AccountCode', this.accountCode)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch account info: ${error.message}`);
+    }
+
+    return data ? toAccount(data as AccountInfoRow) : null;
+  }
+
   async getPortfolio(): Promise<Portfolio> {
     const { data, error } = await supabase
       .from('AccountBalance')
       .select('*')
-      .eq('AccountCode', ACCOUNT_CODE)
+      .eq('AccountCode', this.accountCode)
       .order('Date', { ascending: false })
       .limit(2);
 
@@ -97,7 +209,7 @@ class PortfolioDataService {
     const totalCash = toNumber(latest.CashBalance);
     const totalInvested = toNumber(latest['Stock LMV']) + toNumber(latest['Options LMV']);
 
-    const positions = await this.getPositions();
+    const { positions, corporateAdjustments } = await this.computePositions();
 
     return {
       totalValue,
@@ -105,20 +217,74 @@ class PortfolioDataService {
       dayChangePercent,
       totalCash,
       totalInvested,
-      positions,
+      positions: this.toPositions(positions),
+      corporateAdjustments,
     };
   }
 
+  // Time- and money-weighted returns over the account's full balance history
+  async getPerformance(): Promise<PerformanceReport | null> {
+    const { balances, flows } = await this.fetchEquityHistory();
+    return computePerformance(balances, flows);
+  }
+
+  // Drawdown, volatility and Sharpe/Sortino of the equity curve over a chart period
+  async getRiskAnalytics(period: '1D' | '1W' | '1M' | '3M' | '1Y' = '1Y'): Promise<RiskReport | null> {
+    const { balances, flows } = await this.fetchEquityHistory();
+    return computeRiskMetrics(balances, flows, { startDate: this.getPeriodStartDate(period) });
+  }
+
+  // Account returns against a benchmark's stored daily closes over a chart period
+  async getBenchmarkComparison(
+    period: '1D' | '1W' | '1M' | '3M' | '1Y' = '1Y',
+    symbol: string = DEFAULT_BENCHMARK
+  ): Promise<BenchmarkComparison | null> {
+    const [{ balances, flows }, prices] = await Promise.all([
+      this.fetchEquityHistory(),
+      fetchAllRows(
+        supabase
+          .from('market_data_cache')
+          .select(BENCHMARK_PRICE_COLUMNS)
+          .eq('symbol', symbol)
+          .eq('data_type', BENCHMARK_DATA_TYPE)
+          .eq('timeframe', BENCHMARK_TIMEFRAME)
+          .order('timestamp', { ascending: true })
+      ),
+    ]);
+
+    if (prices.error) {
+      throw new Error(`Failed to fetch benchmark prices: ${prices.error.message}`);
+    }
+
+    return compareToBenchmark(
+      balances,
+      flows,
+      toBenchmarkPrices((prices.data ?? []) as BenchmarkPriceRecord[]),
+      symbol,
+      { startDate: this.getPeriodStartDate(period) }
+    );
+  }
+
+  // Margin health timeline over every balance snapshot at the default thresholds, so a new
+  // snapshot shows in the header straight away (alert events are recorded server-side)
+  async getMarginHealth(): Promise<MarginHealthReport> {
+    return buildMarginHealth(await loadMarginBalances(supabase, this.accountCode));
+  }
+
   async getPositions(): Promise<Position[]> {
-    const computations = await this.computePositions();
+    const { positions } = await this.computePositions();
+    return this.toPositions(positions);
+  }
 
+  private toPositions(computations: PositionComputation[]): Position[] {
     return computations
-      .filter((position) => position.shares > 0)
+      .filter((position) => position.shares !== 0)
       .map((position) => {
+        // Signed shares make short value/cost negative, so gainLoss is positive when a short falls
         const totalValue = position.currentPrice * position.shares;
         const totalCost = position.avgCost * position.shares;
         const gainLoss = totalValue - totalCost;
-        const gainLossPercent = totalCost !== 0 ? (gainLoss / totalCost) * 100 : 0;
+        const gainLossPercent = totalCost !== 0 ? (gainLoss / Math.abs(totalCost)) * 100 : 0;
 
         return {
           symbol: position.symbol,
@@ -136,25 +302,33 @@ class PortfolioDataService {
   }
 
   async getStocks(symbols?: string[]): Promise<Stock[]> {
-    const computations = await this.computePositions();
+    const { positions: computations } = await this.computePositions();
     const filtered = symbols
       ? computations.filter((position) => symbols.includes(position.symbol))
       : computations;
 
     return filtered
-      .filter((position) => position.shares > 0)
+      .filter((position) => position.shares !== 0)
       .map((position) => {
+        const { quote } = position;
         const referencePrice = position.previousPrice ?? position.avgCost;
         const change = position.currentPrice - referencePrice;
         const changePercent = referencePrice !== 0 ? (change / referencePrice) * 100 : 0;
 
+        // Without a price series, volume is the account's own traded volume
         return {
           symbol: position.symbol,
           name: position.name,
           price: position.currentPrice,
           change,
           changePercent,
-          volume: Math.round(position.totalVolume),
+          volume: Math.round(quote ? quote.volume : position.totalVolume),
+          open: quote?.open,
+          dayHigh: quote?.dayHigh,
+          dayLow: quote?.dayLow,
+          yearHigh: quote?.yearHigh,
+          yearLow: quote?.yearLow,
+          previousClose: quote?.previousClose ?? undefined,
         };
       })
       .sort((a, b) => b.price - a.price);
@@ -165,26 +339,22 @@ class PortfolioDataService {
     return stocks[0] ?? null;
   }
 
-  async getChartData(_symbol: string, period: '1D' | '1W' | '1M' | '3M' | '1Y' = '1M'): Promise<ChartData[]> {
-    const days = PERIOD_LOOKUP[period] ?? 30;
-
-    // Apply date offset to convert real dates to demo database dates
-    // Demo data is from July-Nov 2025, but we query as if "today" is DEMO_TODAY
-    const offset = getDateOffset();
-
-    // Calculate the "from" date in real terms, then convert to demo date
-    const realFromDate = new Date();
-    realFromDate.setDate(realFromDate.getDate() - days);
-
-    // Convert to demo date by adding offset
-    const demoFromDate = new Date(realFromDate);
-    demoFromDate.setDate(demoFromDate.getDate() + offset);
+  // Daily closes for a symbol, or the account equity curve for PORTFOLIO
+  async getChartData(symbol: string, period: '1D' | '1W' | '1M' | '3M' | '1Y' = '1M'): Promise<ChartData[]> {
+    if (symbol !== PORTFOLIO_CHART_SYMBOL) {
+      const bars = await this.marketData.getDailyBars(symbol, { startDate: this.getPeriodStartDate(period) });
+      return bars.map((bar) => ({
+        timestamp: demoDateToRealDate(bar.date).getTime(),
+        price: bar.close,
+        volume: bar.volume,
+      }));
+    }
 
     const { data, error } = await supabase
       .from('AccountBalance')
       .select('Date, "Account Equity"')
-      .eq('AccountCode', ACCOUNT_CODE)
-      .gte('Date', formatDateForQuery(demoFromDate))
+      .eq('AccountCode', this.accountCode)
+      .gte('Date', this.getPeriodStartDate(period))
       .order('Date', { ascending: true });
 
     if (error) {
@@ -214,7 +384,7 @@ class PortfolioDataService {
     const { data, error } = await supabase
       .from('TradeData')
       .select('TradeID, Symbol, TradeType, StockTradePrice, StockShareQty, Date, TradeTimeStamp')
-      .eq('AccountCode', ACCOUNT_CODE)
+      .eq('AccountCode', this.accountCode)
       .order('Date', { ascending: false })
       .order('TradeTimeStamp', { ascending: false, nullsFirst: false })
       .limit(limit);
@@ -244,12 +414,15 @@ class PortfolioDataService {
   }
 
   async getTradeHistory(): Promise<TradeActivity[]> {
-    const { data, error } = await supabase
-      .from('TradeData')
-      .select('TradeID, Symbol, TradeType, StockShareQty, StockTradePrice, Date, TradeTimeStamp, GrossAmount, Commission, NetAmount')
-      .eq('AccountCode', ACCOUNT_CODE)
-      .order('Date', { ascending: false })
-      .order('TradeTimeStamp', { ascending: false, nullsFirst: false });
+    const { data, error } = await fetchAllRows(
+      supabase
+        .from('TradeData')
+        .select('TradeID, Symbol, TradeType, StockShareQty, StockTradePrice, Date, TradeTimeStamp, GrossAmount, Commission, NetAmount')
+        .eq('AccountCode', this.accountCode)
+        .order('Date', { ascending: false })
+        .order('TradeTimeStamp', { ascending: false, nullsFirst: false })
+        .order('TradeID', { ascending: false })
+    );
 
     if (error) {
       throw new Error(`Failed to fetch trade history: ${error.message}`);
@@ -278,85 +451,176 @@ class PortfolioDataService {
     });
   }
 
-  private async computePositions(): Promise<PositionComputation[]> {
-    const { data, error } = await supabase
-      .from('TradeData')
-      .select('Symbol, TradeType, StockTradePrice, StockShareQty, Date, TradeTimeStamp')
-      .eq('AccountCode', ACCOUNT_CODE)
-      .not('Symbol', 'is', null)
-      .order('Date', { ascending: true })
-      .order('TradeTimeStamp', { ascending: true, nullsFirst: true });
+  // Trade journal entries by TradeID
+  async getJournalEntries(): Promise<Record<number, JournalEntry>> {
+    return loadJournalEntries(supabase, this.accountCode);
+  }
+
+  // Create, update or (when emptied) delete the journal entry for a trade
+  async saveJournalEntry(input: JournalInput): Promise<JournalEntry | null> {
+    return saveJournalEntry(supabase, this.accountCode, input);
+  }
+
+  // Watchlists, most recently updated first
+  async getWatchlists(): Promise<Watchlist[]> {
+    return loadWatchlists(supabase, this.accountCode);
+  }
+
+  async createWatchlist(input: WatchlistInput): Promise<Watchlist> {
+    return createWatchlist(supabase, this.accountCode, input);
+  }
+
+  // Rename a watchlist or replace its symbols
+  async updateWatchlist(id: string, input: WatchlistInput): Promise<Watchlist> {
+    return updateWatchlist(supabase, this.accountCode, id, input);
+  }
+
+  async deleteWatchlist(id: string): Promise<void> {
+    return deleteWatchlist(supabase, this.accountCode, id);
+  }
+
+  // Per-symbol price change, last trade, position and P&L for a watchlist
+  async getWatchlistReport(
+    watchlist: Watchlist,
+    period: '1D' | '1W' | '1M' | '3M' | '1Y' = '1W'
+  ): Promise<WatchlistReport> {
+    return loadWatchlistReport(supabase, this.accountCode, watchlist, this.marketData, {
+      startDate: this.getPeriodStartDate(period),
+      periodLabel: period,
+    });
+  }
+
+  // First database date of a chart period, counted back from today
+  private getPeriodStartDate(period: '1D' | '1W' | '1M' | '3M' | '1Y'): string {
+    const days = PERIOD_LOOKUP[period] ?? 30;
+
+    // Apply date offset to convert real dates to demo database dates
+    // Demo data is from July-Nov 2025, but we query as if "today" is DEMO_TODAY
+    const offset = getDateOffset();
+
+    // Calculate the "from" date in real terms, then convert to demo date
+    const realFromDate = new Date();
+    realFromDate.setDate(realFromDate.getDate() - days);
+
+    // Convert to demo date by adding offset
+    const demoFromDate = new Date(realFromDate);
+    demoFromDate.setDate(demoFromDate.getDate() + offset);
 
+    return formatDateForQuery(demoFromDate);
+  }
+
+  // Full equity series with the deposits and withdrawals inferred from it
+  private async fetchEquityHistory(): Promise<{ balances: BalanceRecord[]; flows: CashFlow[] }> {
+    const [balances, trades, fees, dividends] = await Promise.all([
+      fetchAllRows(supabase.from('AccountBalance').select(BALANCE_RECORD_COLUMNS).eq('AccountCode', this.accountCode).order('Date', { ascending: true })),
+      fetchAllRows(
+        supabase
+          .from('TradeData')
+          .select(TRADE_RECORD_COLUMNS)
+          .eq('AccountCode', this.accountCode)
+          .order('Date', { ascending: true })
+          .order('TradeID', { ascending: true })
+      ),
+      fetchAllRows(
+        supabase
+          .from('FeesAndInterest')
+          .select(FEE_RECORD_COLUMNS)
+          .eq('AccountCode', this.accountCode)
+          .order('Date', { ascending: true })
+          .order('id', { ascending: true })
+      ),
+      fetchAllRows(
+        supabase
+          .from('Dividends')
+          .select(DIVIDEND_RECORD_COLUMNS)
+          .eq('AccountCode', this.accountCode)
+          .order('PayDate', { ascending: true })
+          .order('id', { ascending: true })
+      ),
+    ]);
+
+    const error = balances.error || trades.error || fees.error || dividends.error;
     if (error) {
-      throw new Error(`Failed to fetch positions: ${error.message}`);
+      throw new Error(`Failed to fetch equity history: ${error.message}`);
     }
 
-    const rows = (data ?? []) as TradeRow[];
+    const balanceRows = (balances.data ?? []) as BalanceRecord[];
+    const flows = inferExternalCashFlows(balanceRows, {
+      trades: (trades.data ?? []) as TradeRecord[],
+      fees: (fees.data ?? []) as FeeRecord[],
+      dividends: (dividends.data ?? []) as DividendRecord[],
+    });
 
-    const positions = new Map<string, {
-      shares: number;
-      costBasis: number;
-      avgCost: number;
-      lastPrice: number;
-      previousPrice?: number;
-      totalVolume: number;
-    }>();
+    return { balances: balanceRows, flows };
+  }
 
-    rows.forEach((trade) => {
-      const symbol = trade.Symbol?.trim();
-      if (!symbol) {
-        return;
-      }
+  private async computePositions(): Promise<PositionComputations> {
+    const [{ data, error }, corporateActions] = await Promise.all([
+      fetchAllRows(
+        supabase
+          .from('TradeData')
+          .select(TRADE_RECORD_COLUMNS)
+          .eq('AccountCode', this.accountCode)
+          .eq('SecurityType', 'S')
+          .not('Symbol', 'is', null)
+          .order('Date', { ascending: true })
+          .order('TradeTimeStamp', { ascending: true, nullsFirst: true })
+          .order('TradeID', { ascending: true })
+      ),
+      loadCorporateActions(supabase),
+    ]);
 
-      const qty = Math.abs(toNumber(trade.StockShareQty));
-      const price = toNumber(trade.StockTradePrice);
-      if (!qty || !price) {
-        return;
-      }
-
-      const tradeType = (trade.TradeType ?? '').toUpperCase();
-      const isSell = tradeType.startsWith('S');
-
-      const record = positions.get(symbol) ?? {
-        shares: 0,
-        costBasis: 0,
-        avgCost: 0,
-        lastPrice: 0,
-        previousPrice: undefined as number | undefined,
-        totalVolume: 0,
-      };
+    if (error) {
+      throw new Error(`Failed to fetch positions: ${error.message}`);
+    }
+
+    // Share counts and prices follow splits, and renamed tickers roll up under the current symbol
+    const { rows: adjustedTrades, adjustments: corporateAdjustments } = applyCorporateActions(
+      (data ?? []) as TradeRecord[],
+      corporateActions
+    );
+    const rows = adjustedTrades
+      .filter((trade) => trade.Symbol?.trim() && toNumber(trade.StockShareQty) && toNumber(trade.StockTradePrice))
+      .map((trade) => ({ ...trade, Symbol: trade.Symbol.trim() }));
 
-      record.totalVolume += qty;
+    // Last-trade prices and traded volume per symbol (fallback when there is no price series)
+    const marks = new Map<string, { lastPrice: number; previousPrice?: number; totalVolume: number }>();
+    rows.forEach((trade) => {
+      const record = marks.get(trade.Symbol) ?? { lastPrice: 0, previousPrice: undefined, totalVolume: 0 };
+      record.totalVolume += Math.abs(toNumber(trade.StockShareQty));
       record.previousPrice = record.lastPrice || record.previousPrice;
-      record.lastPrice = price;
-
-      if (isSell) {
-        const reductionQty = Math.min(qty, record.shares);
-        const costReduction = reductionQty * record.avgCost;
-        record.shares -= qty;
-        record.costBasis = Math.max(0, record.costBasis - costReduction);
-      } else {
-        record.shares += qty;
-        record.costBasis += price * qty;
-      }
-
-      if (record.shares > 0) {
-        record.avgCost = record.costBasis / record.shares;
-        positions.set(symbol, record);
-      } else {
-        positions.delete(symbol);
-      }
+      record.lastPrice = toNumber(trade.StockTradePrice);
+      marks.set(trade.Symbol, record);
     });
 
-    return Array.from(positions.entries()).map(([symbol, record]) => ({
-      symbol,
-      name: symbol,
-      shares: record.shares,
-      avgCost: record.avgCost,
-      currentPrice: record.lastPrice,
-      previousPrice: record.previousPrice,
-      totalVolume: record.totalVolume,
-    }));
+    // Open long and short stock under the account's cost-basis method
+    const { method, lotSelections } = await loadCostBasisSettings(supabase, this.accountCode);
+    const { positions } = computeOpenPositions(rows, { method, lotSelections });
+
+    // Prices come from the market data provider; the last trade is the fallback mark
+    const quotes = new Map(
+      (await this.marketData.getQuotes(positions.map((position) => position.symbol)))
+        .map((quote) => [quote.symbol, quote])
+    );
+
+    // Short positions carry negative shares
+    const computations = positions.map((position) => {
+      const symbol = position.symbol;
+      const mark = marks.get(symbol);
+      const quote = quotes.get(symbol);
+      return {
+        symbol,
+        name: symbol,
+        shares: position.side === 'long' ? position.quantity : -position.quantity,
+        avgCost: position.quantity > 0 ? position.costBasis / position.quantity : 0,
+        currentPrice: quote?.price ?? mark?.lastPrice ?? 0,
+        previousPrice: quote ? quote.previousClose ?? undefined : mark?.previousPrice,
+        totalVolume: mark?.totalVolume ?? 0,
+        quote,
+      };
+    });
+
+    return { positions: computations, corporateAdjustments };
   }
 }
 
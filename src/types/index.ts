@@ -1,3 +1,5 @@
+import type { CorporateAdjustment } from '../lib/corporate-actions';
+
 export interface Stock {
   symbol: string;
   name: string;
@@ -33,6 +35,15 @@ export interface Portfolio {
   totalCash: number;
   totalInvested: number;
   positions: Position[];
+  // Splits and ticker changes applied to the trades behind the positions
+  corporateAdjustments?: CorporateAdjustment[];
+}
+
+export interface Account {
+  accountCode: string;
+  accountName: string;
+  accountType: string;
+  holderName: string;
 }
 
 export interface Trade {
@@ -63,12 +74,17 @@ export interface Watchlist {
   id: string;
   name: string;
   symbols: string[];
+  updatedAt?: string | null;
 }
 
 export interface ChartData {
   timestamp: number;
   price: number;
   volume?: number;
+  // Fall from the running equity peak (risk overlay)
+  drawdown?: number;
+  // Benchmark scaled to the starting equity (benchmark overlay)
+  benchmark?: number;
 }
 
 export interface VoiceCommand {
@@ -0,0 +1,22 @@
+-- Cost-basis method election per account
+-- One of: fifo, lifo, hifo, average, specific
+ALTER TABLE "AccountInfo"
+    ADD COLUMN IF NOT EXISTS "CostBasisMethod" VARCHAR(10) NOT NULL DEFAULT 'fifo'
+    CHECK ("CostBasisMethod" IN ('fifo', 'lifo', 'hifo', 'average', 'specific'));
+
+-- Specific-lot elections (used when CostBasisMethod = 'specific')
+-- Each row tells the lot matcher which opening trade a closing trade relieves
+CREATE TABLE IF NOT EXISTS "LotSelections" (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    "AccountCode" VARCHAR(20) NOT NULL,
+    "CloseTradeID" BIGINT NOT NULL,
+    "OpenTradeID" BIGINT NOT NULL,
+    "Priority" INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE ("AccountCode", "CloseTradeID", "OpenTradeID")
+);
+
+CREATE INDEX IF NOT EXISTS idx_lot_selections_account ON "LotSelections"("AccountCode");
+
+COMMENT ON COLUMN "AccountInfo"."CostBasisMethod" IS 'Tax lot relief method used for realized P&L and open-position cost';
+COMMENT ON TABLE "LotSelections" IS 'Specific-lot identification elections per closing trade';
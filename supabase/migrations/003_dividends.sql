@@ -0,0 +1,25 @@
+-- Dividend and distribution payments per account
+-- One row per payment; Quantity is the share count on the record date
+CREATE TABLE IF NOT EXISTS "Dividends" (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    "AccountCode" VARCHAR(20) NOT NULL,
+    "Symbol" VARCHAR(20) NOT NULL,
+    "ExDate" DATE,
+    "PayDate" DATE NOT NULL,
+    "DividendType" VARCHAR(20) NOT NULL DEFAULT 'Ordinary'
+        CHECK ("DividendType" IN ('Ordinary', 'Qualified', 'Special', 'ReturnOfCapital', 'CapitalGain')),
+    "AmountPerShare" NUMERIC(18, 6) NOT NULL,
+    "Quantity" NUMERIC(18, 4) NOT NULL,
+    "GrossAmount" NUMERIC(18, 2) NOT NULL,
+    "WithholdingTax" NUMERIC(18, 2) NOT NULL DEFAULT 0,
+    "NetAmount" NUMERIC(18, 2) NOT NULL,
+    "Reinvested" BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE ("AccountCode", "Symbol", "PayDate", "DividendType")
+);
+
+CREATE INDEX IF NOT EXISTS idx_dividends_account ON "Dividends"("AccountCode");
+CREATE INDEX IF NOT EXISTS idx_dividends_symbol ON "Dividends"("Symbol");
+CREATE INDEX IF NOT EXISTS idx_dividends_pay_date ON "Dividends"("PayDate" DESC);
+
+COMMENT ON TABLE "Dividends" IS 'Cash dividends and distributions received, one row per payment';
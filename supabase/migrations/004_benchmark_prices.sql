@@ -0,0 +1,6 @@
+-- Benchmark daily closes (SPY, QQQ, ...) stored in market_data_cache
+-- Rows use data_type 'bar', timeframe '1Day' and data = {"close": ...}; they do not expire
+CREATE UNIQUE INDEX IF NOT EXISTS idx_market_cache_bar_unique
+    ON market_data_cache(symbol, data_type, timeframe, timestamp);
+
+COMMENT ON INDEX idx_market_cache_bar_unique IS 'One cached bar per symbol, timeframe and timestamp, so price imports can upsert';
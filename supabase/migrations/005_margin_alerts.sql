@@ -0,0 +1,20 @@
+-- Margin alert events raised by the margin health monitor
+-- One row per account, balance date and alert type
+CREATE TABLE IF NOT EXISTS "MarginAlerts" (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    "AccountCode" VARCHAR(20) NOT NULL,
+    "Date" DATE NOT NULL,
+    "AlertType" VARCHAR(20) NOT NULL
+        CHECK ("AlertType" IN ('house_deficit', 'fed_deficit', 'low_house_excess', 'low_fed_excess', 'sma_drop')),
+    "Severity" VARCHAR(10) NOT NULL CHECK ("Severity" IN ('warning', 'critical')),
+    "Message" TEXT NOT NULL,
+    "Value" NUMERIC(18, 6),
+    "Threshold" NUMERIC(18, 6),
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE ("AccountCode", "Date", "AlertType")
+);
+
+CREATE INDEX IF NOT EXISTS idx_margin_alerts_account ON "MarginAlerts"("AccountCode");
+CREATE INDEX IF NOT EXISTS idx_margin_alerts_date ON "MarginAlerts"("Date" DESC);
+
+COMMENT ON TABLE "MarginAlerts" IS 'Margin threshold breaches (deficits, low excess, SMA drops) per balance snapshot';
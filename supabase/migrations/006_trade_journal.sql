@@ -0,0 +1,18 @@
+-- Trade journal: notes, tags and setup attached to individual TradeData rows
+-- One entry per account and trade
+CREATE TABLE IF NOT EXISTS "TradeJournal" (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    "AccountCode" VARCHAR(20) NOT NULL,
+    "TradeID" INTEGER NOT NULL,
+    "Notes" TEXT,
+    "Tags" TEXT[] NOT NULL DEFAULT '{}',
+    "Setup" VARCHAR(50),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE ("AccountCode", "TradeID")
+);
+
+CREATE INDEX IF NOT EXISTS idx_trade_journal_account ON "TradeJournal"("AccountCode");
+CREATE INDEX IF NOT EXISTS idx_trade_journal_tags ON "TradeJournal" USING GIN ("Tags");
+
+COMMENT ON TABLE "TradeJournal" IS 'User notes, tags (lowercase, hyphenated) and setup for individual trades';
@@ -0,0 +1,21 @@
+-- Cash reconciliation breaks raised by the reconciliation job
+-- One row per account and balance date; re-running the job updates or resolves it
+CREATE TABLE IF NOT EXISTS "ReconciliationBreaks" (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    "AccountCode" VARCHAR(20) NOT NULL,
+    "Date" DATE NOT NULL,
+    "PreviousDate" DATE NOT NULL,
+    "CashDelta" NUMERIC(18, 2) NOT NULL,
+    "Explained" NUMERIC(18, 2) NOT NULL,
+    "Unexplained" NUMERIC(18, 2) NOT NULL,
+    "CandidateCount" INTEGER NOT NULL DEFAULT 0,
+    "Status" VARCHAR(10) NOT NULL DEFAULT 'open' CHECK ("Status" IN ('open', 'resolved')),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE ("AccountCode", "Date")
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_breaks_account ON "ReconciliationBreaks"("AccountCode");
+CREATE INDEX IF NOT EXISTS idx_reconciliation_breaks_open ON "ReconciliationBreaks"("AccountCode", "Status");
+
+COMMENT ON TABLE "ReconciliationBreaks" IS 'Days where the CashBalance change is not explained by trades, fees, interest and dividends';
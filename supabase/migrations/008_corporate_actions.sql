@@ -0,0 +1,27 @@
+-- Corporate actions applied to historical trades on read (splits, reverse splits, ticker changes)
+-- Market-wide: one row per symbol, action and effective date, shared by every account
+CREATE TABLE IF NOT EXISTS "CorporateActions" (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    "Symbol" VARCHAR(20) NOT NULL,
+    "ActionType" VARCHAR(20) NOT NULL CHECK ("ActionType" IN ('split', 'symbol_change')),
+    "EffectiveDate" DATE NOT NULL,
+    "Ratio" NUMERIC(18, 8) CHECK ("Ratio" IS NULL OR "Ratio" > 0),
+    "NewSymbol" VARCHAR(20),
+    "Notes" TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE ("Symbol", "ActionType", "EffectiveDate"),
+    CHECK (
+        ("ActionType" = 'split' AND "Ratio" IS NOT NULL)
+        OR ("ActionType" = 'symbol_change' AND "NewSymbol" IS NOT NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_corporate_actions_symbol ON "CorporateActions"("Symbol");
+CREATE INDEX IF NOT EXISTS idx_corporate_actions_new_symbol ON "CorporateActions"("NewSymbol");
+
+COMMENT ON TABLE "CorporateActions" IS 'Splits (Ratio = new shares per old share, below 1 for reverse splits) and ticker changes (NewSymbol)';
+
+-- SYMBOL_MAP already sends "facebook" to META while older TradeData rows say FB
+INSERT INTO "CorporateActions" ("Symbol", "ActionType", "EffectiveDate", "NewSymbol", "Notes")
+VALUES ('FB', 'symbol_change', '2022-06-09', 'META', 'Meta Platforms ticker change')
+ON CONFLICT ("Symbol", "ActionType", "EffectiveDate") DO NOTHING;
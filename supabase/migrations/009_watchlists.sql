@@ -0,0 +1,14 @@
+-- Watchlists: named symbol lists per account
+-- Names are unique per account regardless of case ("Tech" and "tech" are the same list)
+CREATE TABLE IF NOT EXISTS "Watchlists" (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    "AccountCode" VARCHAR(20) NOT NULL,
+    "Name" VARCHAR(100) NOT NULL,
+    "Symbols" TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_watchlists_account_name ON "Watchlists"("AccountCode", LOWER("Name"));
+
+COMMENT ON TABLE "Watchlists" IS 'Named lists of symbols (uppercase, in the order added) for each account';
@@ -0,0 +1,43 @@
+-- Alert rules: user-defined conditions evaluated by the alerts job
+-- Which columns apply depends on the rule type (see src/lib/alerts.ts)
+CREATE TABLE IF NOT EXISTS "AlertRules" (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    "AccountCode" VARCHAR(20) NOT NULL,
+    "RuleType" VARCHAR(20) NOT NULL
+        CHECK ("RuleType" IN ('price_cross', 'position_pnl', 'option_expiry', 'margin_excess', 'fee_spike')),
+    "Symbol" VARCHAR(20),
+    "Direction" VARCHAR(5) CHECK ("Direction" IN ('above', 'below')),
+    "Threshold" NUMERIC(18, 6),
+    "Days" INTEGER,
+    "CallPut" VARCHAR(4) CHECK ("CallPut" IN ('call', 'put')),
+    "Side" VARCHAR(5) CHECK ("Side" IN ('long', 'short')),
+    "Description" TEXT NOT NULL,
+    "Enabled" BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_rules_account ON "AlertRules"("AccountCode");
+
+COMMENT ON TABLE "AlertRules" IS 'Price cross, position P&L, option expiry, margin excess and fee spike alert rules per account';
+
+-- Alert notifications: the in-app inbox
+-- One row per rule and trigger key, so re-running the job does not repeat a notification
+CREATE TABLE IF NOT EXISTS "AlertNotifications" (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    "AccountCode" VARCHAR(20) NOT NULL,
+    "RuleID" UUID NOT NULL REFERENCES "AlertRules"(id) ON DELETE CASCADE,
+    "TriggerKey" VARCHAR(100) NOT NULL,
+    "Date" DATE NOT NULL,
+    "Message" TEXT NOT NULL,
+    "Value" NUMERIC(18, 6),
+    "Threshold" NUMERIC(18, 6),
+    "ReadAt" TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE ("RuleID", "TriggerKey")
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_notifications_account ON "AlertNotifications"("AccountCode", created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_alert_notifications_unread ON "AlertNotifications"("AccountCode") WHERE "ReadAt" IS NULL;
+
+COMMENT ON TABLE "AlertNotifications" IS 'Alert rule triggers shown in the header inbox until read';